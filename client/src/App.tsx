@@ -103,6 +103,7 @@ function AppRouter() {
         <Route path="/challenges" component={Challenges} />
         <Route path="/friends" component={Friends} />
         <Route path="/profile" component={Profile} />
+        <Route path="/telegram-link" component={TelegramLink} />
         <Route component={NotFound} />
       </Switch>
     </div>
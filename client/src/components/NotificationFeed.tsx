@@ -8,7 +8,7 @@ import React, { useEffect, useState, useCallback } from 'react';
 import { Bell, X, Check } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import Pusher from 'pusher-js';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 
 interface Notification {
   id: string;
@@ -58,13 +58,11 @@ export const NotificationFeed: React.FC<NotificationFeedProps> = ({ maxDisplay =
   useEffect(() => {
     const fetchNotifications = async () => {
       try {
-        const res = await fetch('/api/notifications?limit=20');
-        const data = await res.json();
+        const data = await apiRequest('GET', '/api/notifications?limit=20');
         setNotifications(data.data || []);
 
         // Get unread count
-        const countRes = await fetch('/api/notifications/unread-count');
-        const countData = await countRes.json();
+        const countData = await apiRequest('GET', '/api/notifications/unread-count');
         setUnreadCount(countData.unreadCount || 0);
       } catch (error) {
         console.error('Error fetching notifications:', error);
@@ -78,9 +76,7 @@ export const NotificationFeed: React.FC<NotificationFeedProps> = ({ maxDisplay =
 
   const handleMarkAsRead = useCallback(async (notificationId: string) => {
     try {
-      await fetch(`/api/notifications/${notificationId}/read`, {
-        method: 'PUT',
-      });
+      await apiRequest('PUT', `/api/notifications/${notificationId}/read`);
       setUnreadCount((prev) => Math.max(0, prev - 1));
       setNotifications((prev) =>
         prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
@@ -92,9 +88,7 @@ export const NotificationFeed: React.FC<NotificationFeedProps> = ({ maxDisplay =
 
   const handleDismiss = useCallback(async (notificationId: string) => {
     try {
-      await fetch(`/api/notifications/${notificationId}`, {
-        method: 'DELETE',
-      });
+      await apiRequest('DELETE', `/api/notifications/${notificationId}`);
       setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
     } catch (error) {
       console.error('Error dismissing notification:', error);
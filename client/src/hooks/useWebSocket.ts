@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState, useCallback } from "react";
+import { getAuthToken } from "@/lib/queryClient";
 
 interface UseWebSocketProps {
   onMessage?: (data: any) => void;
@@ -24,7 +25,11 @@ export function useWebSocket({ onMessage, onOpen, onClose, onError }: UseWebSock
       const wsUrl = `${protocol}//${hostWithPort}/ws`;
       
       console.log("Connecting to WebSocket:", wsUrl);
-      ws.current = new WebSocket(wsUrl);
+      // Privy logins have no session cookie, so the server authenticates the
+      // upgrade with the access token (read on every attempt, so reconnects
+      // pick up a token that arrived after the first try)
+      const token = getAuthToken();
+      ws.current = new WebSocket(token ? `${wsUrl}?token=${encodeURIComponent(token)}` : wsUrl);
 
       ws.current.onopen = () => {
         console.log("WebSocket connected");
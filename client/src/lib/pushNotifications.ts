@@ -1,7 +1,5 @@
 import { apiRequest } from './queryClient';
 
-const VAPID_PUBLIC_KEY = 'BKZ0LNy05CTv807lF4dSwM3wB7nxrBHXDP5AYPvbCCPZYWrK08rTYFQO6BmKrW3f0xmIe5wUxtLN67XOSQ7W--o';
-
 export class PushNotificationService {
   private static instance: PushNotificationService;
   private registration: ServiceWorkerRegistration | null = null;
@@ -58,30 +56,23 @@ export class PushNotificationService {
         return;
       }
 
-      // Check if already subscribed
-      const existingSubscription = await this.registration.pushManager.getSubscription();
-      if (existingSubscription) {
-        console.log('Already subscribed to push notifications');
-        return;
-      }
+      // Reuse an existing subscription; re-sending it is idempotent server-side
+      let subscription = await this.registration.pushManager.getSubscription();
 
-      // Subscribe to push notifications
-      const subscription = await this.registration.pushManager.subscribe({
-        userVisibleOnly: true,
-        applicationServerKey: this.urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
-      });
+      if (!subscription) {
+        const { publicKey } = await apiRequest('GET', '/api/push/vapid-public-key');
+
+        subscription = await this.registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: this.urlBase64ToUint8Array(publicKey)
+        });
 
-      console.log('Push subscription successful:', subscription);
+        console.log('Push subscription successful:', subscription);
+      }
 
       // Send subscription to server
-      await apiRequest('/api/push/subscribe', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          subscription: subscription.toJSON(),
-        }),
+      await apiRequest('POST', '/api/push/subscribe', {
+        subscription: subscription.toJSON(),
       });
 
       console.log('Push subscription saved to server');
@@ -107,21 +98,7 @@ export class PushNotificationService {
 
   async sendTestNotification(): Promise<void> {
     try {
-      await apiRequest('/api/push/send', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: 'current-user', // This should be replaced with actual user ID
-          title: 'Test Notification',
-          body: 'This is a test push notification from BetChat!',
-          data: {
-            type: 'test',
-            url: '/',
-          },
-        }),
-      });
+      await apiRequest('POST', '/api/push/test');
       console.log('Test notification sent');
     } catch (error) {
       console.error('Failed to send test notification:', error);
@@ -137,6 +114,7 @@ export class PushNotificationService {
 
       const subscription = await this.registration.pushManager.getSubscription();
       if (subscription) {
+        await apiRequest('POST', '/api/push/unsubscribe', { endpoint: subscription.endpoint });
         await subscription.unsubscribe();
         console.log('Push subscription cancelled');
       }
@@ -0,0 +1,78 @@
+import { apiRequest } from "./queryClient";
+
+// Gasless joins, accepts and claims: the server prepares EIP-712 typed data,
+// the user's wallet signs it (no gas, no network switch), the relayer submits.
+
+export interface TypedDataPayload {
+  domain: Record<string, unknown>;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export interface PreparedRelay {
+  requestId: number;
+  action: "join_group" | "accept_p2p" | "claim";
+  challengeId: number;
+  walletAddress: string;
+  expiresAt: string;
+  forwardRequest: TypedDataPayload;
+  permit: TypedDataPayload | null;
+}
+
+export interface RelayRequestStatus {
+  id: number;
+  status: "prepared" | "submitted" | "confirmed" | "failed" | "expired";
+  transactionHash: string | null;
+  errorMessage: string | null;
+}
+
+// Any EIP-1193 provider (Privy embedded wallet, MetaMask, Coinbase Wallet)
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+async function signTypedData(provider: Eip1193Provider, address: string, payload: TypedDataPayload): Promise<string> {
+  return (await provider.request({
+    method: "eth_signTypedData_v4",
+    params: [address, JSON.stringify(payload)],
+  })) as string;
+}
+
+/**
+ * Sign a prepared request (permit first, when present) and hand it to the relayer
+ */
+export async function signAndSubmitRelay(
+  provider: Eip1193Provider,
+  prepared: PreparedRelay,
+): Promise<RelayRequestStatus> {
+  const permitSignature = prepared.permit
+    ? await signTypedData(provider, prepared.walletAddress, prepared.permit)
+    : undefined;
+  const signature = await signTypedData(provider, prepared.walletAddress, prepared.forwardRequest);
+
+  return apiRequest("POST", `/api/relayer/requests/${prepared.requestId}/submit`, {
+    signature,
+    permitSignature,
+  });
+}
+
+/**
+ * Poll until the relayed transaction is mined (or fails)
+ */
+export async function waitForRelay(
+  requestId: number,
+  { intervalMs = 2000, timeoutMs = 120000 } = {},
+): Promise<RelayRequestStatus> {
+  const startedAt = Date.now();
+  for (;;) {
+    const request: RelayRequestStatus = await apiRequest("GET", `/api/relayer/requests/${requestId}`);
+    if (request.status !== "submitted" && request.status !== "prepared") {
+      return request;
+    }
+    if (Date.now() - startedAt > timeoutMs) {
+      return request;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
@@ -51,10 +51,25 @@ interface DisputedChallenge {
   };
   disputeReason: string;
   disputeEvidence: any;
-  dispuedAt: string;
+  disputedAt: string;
   adminNotes: string | null;
 }
 
+// On-chain optimistic resolution (GET /api/admin/challenges/proposals)
+interface ResolutionProposal {
+  id: number;
+  title: string;
+  onChainStatus: 'proposed' | 'disputed';
+  disputeDeadline: string | null;
+  resolutionProposal: {
+    winner: string | null;
+    outcome: 'YES' | 'NO' | 'DRAW' | null;
+    pointsAwarded: number;
+    disputer?: string;
+    bond?: string;
+  } | null;
+}
+
 export default function AdminChallengeDisputes() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -62,9 +77,11 @@ export default function AdminChallengeDisputes() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [adminNotes, setAdminNotes] = useState('');
+  const [rulingWinners, setRulingWinners] = useState<Record<number, string>>({});
 
-  // TODO: Create /api/admin/challenges/disputes endpoint
-  const { data: disputes = [], isLoading, refetch } = { data: [] as any[], isLoading: false, refetch: async () => {} };
+  const { data: disputes = [], isLoading, refetch } = useAdminQuery<DisputedChallenge[]>('/api/admin/challenges/disputes', {
+    refetchInterval: 30000,
+  });
 
   // Fetch pending_admin challenges that need resolution
   const { data: pendingChallenges = [], isLoading: pendingLoading } = useQuery({
@@ -80,6 +97,54 @@ export default function AdminChallengeDisputes() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  const { data: proposalData, refetch: refetchProposals } = useQuery<{ count: number; proposals: ResolutionProposal[] }>({
+    queryKey: ["/api/admin/challenges/proposals"],
+    queryFn: () => adminApiRequest('/api/admin/challenges/proposals', { credentials: 'include' }),
+    refetchInterval: 30000,
+  });
+  const proposals = proposalData?.proposals ?? [];
+
+  const onChainResolutionMutation = useMutation({
+    mutationFn: async ({ challengeId, action, body }: { challengeId: number; action: 'finalize' | 'rule-dispute'; body?: object }) => {
+      return adminApiRequest(`/api/admin/challenges/${challengeId}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+        body: JSON.stringify(body ?? {}),
+      });
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "✅ On-chain Resolution Settled",
+        description: data.message,
+      });
+      refetchProposals();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ On-chain Resolution Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRule = (proposal: ResolutionProposal, ruling: { winner?: string; outcome?: 'YES' | 'NO' | 'DRAW' }) => {
+    const upheld = ruling.outcome
+      ? ruling.outcome === proposal.resolutionProposal?.outcome
+      : ruling.winner?.toLowerCase() === proposal.resolutionProposal?.winner?.toLowerCase();
+    const confirmMsg = upheld
+      ? 'Uphold the proposed result? The disputer forfeits their bond.'
+      : 'Overturn the proposed result? The disputer gets their bond back.';
+
+    if (confirm(confirmMsg)) {
+      onChainResolutionMutation.mutate({
+        challengeId: proposal.id,
+        action: 'rule-dispute',
+        body: { ...ruling, pointsAwarded: proposal.resolutionProposal?.pointsAwarded ?? 0 },
+      });
+    }
+  };
+
   const resolveMutation = useMutation({
     mutationFn: async ({ 
       challengeId, 
@@ -196,6 +261,102 @@ export default function AdminChallengeDisputes() {
           </Card>
         )}
 
+        {/* On-chain proposals in their dispute window or awaiting a ruling */}
+        {proposals.length > 0 && (
+          <Card className="bg-slate-900 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                On-chain Resolutions ({proposals.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {proposals.map((proposal) => {
+                const deadline = proposal.disputeDeadline ? new Date(proposal.disputeDeadline) : null;
+                const windowOpen = deadline !== null && deadline.getTime() > Date.now();
+                const proposed = proposal.resolutionProposal;
+                const winner = rulingWinners[proposal.id] ?? proposed?.winner ?? '';
+
+                return (
+                  <div key={proposal.id} className="bg-slate-800 p-3 rounded border border-slate-700 space-y-2">
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="flex-1">
+                        <h3 className="text-white font-semibold">{proposal.title}</h3>
+                        <p className="text-sm text-slate-400 mt-1">
+                          Proposed: {proposed?.outcome ?? (proposed?.winner ? `${proposed.winner.substring(0, 10)}... wins` : 'unknown')}
+                        </p>
+                        {proposal.onChainStatus === 'disputed' && proposed?.disputer && (
+                          <p className="text-sm text-orange-400">
+                            Disputed by {proposed.disputer.substring(0, 10)}... (bond {proposed.bond})
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right space-y-1">
+                        <Badge className={proposal.onChainStatus === 'disputed' ? 'bg-red-600' : 'bg-yellow-600'}>
+                          {proposal.onChainStatus.toUpperCase()}
+                        </Badge>
+                        {proposal.onChainStatus === 'proposed' && deadline && (
+                          <p className="text-xs text-slate-400">
+                            {windowOpen
+                              ? `Disputable for ${formatDistanceToNow(deadline)}`
+                              : `Dispute period ended ${formatDistanceToNow(deadline, { addSuffix: true })}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {proposal.onChainStatus === 'proposed' && !windowOpen && (
+                      <Button
+                        onClick={() => onChainResolutionMutation.mutate({ challengeId: proposal.id, action: 'finalize' })}
+                        disabled={onChainResolutionMutation.isPending}
+                        className="bg-green-600 hover:bg-green-700"
+                        size="sm"
+                      >
+                        Finalize
+                      </Button>
+                    )}
+
+                    {proposal.onChainStatus === 'disputed' && (
+                      proposed?.outcome ? (
+                        <div className="flex gap-2">
+                          {(['YES', 'NO', 'DRAW'] as const).map((outcome) => (
+                            <Button
+                              key={outcome}
+                              onClick={() => handleRule(proposal, { outcome })}
+                              disabled={onChainResolutionMutation.isPending}
+                              variant={outcome === proposed.outcome ? 'default' : 'outline'}
+                              className="flex-1 text-sm"
+                              size="sm"
+                            >
+                              {outcome === proposed.outcome ? `Uphold ${outcome}` : `Rule ${outcome}`}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Input
+                            value={winner}
+                            onChange={(e) => setRulingWinners({ ...rulingWinners, [proposal.id]: e.target.value })}
+                            placeholder="Winner wallet address"
+                            className="bg-slate-700 border-slate-600 text-white text-sm"
+                          />
+                          <Button
+                            onClick={() => handleRule(proposal, { winner })}
+                            disabled={onChainResolutionMutation.isPending || !winner}
+                            size="sm"
+                          >
+                            Rule
+                          </Button>
+                        </div>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="bg-slate-900 border-slate-700">
@@ -313,7 +474,7 @@ export default function AdminChallengeDisputes() {
                       <div className="flex items-center justify-between">
                         <Badge className="bg-red-600">{dispute.status.replace('_', ' ').toUpperCase()}</Badge>
                         <span className="text-xs text-slate-400">
-                          {formatDistanceToNow(new Date(dispute.dispuedAt), { addSuffix: true })}
+                          {formatDistanceToNow(new Date(dispute.disputedAt), { addSuffix: true })}
                         </span>
                       </div>
 
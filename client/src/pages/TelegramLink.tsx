@@ -58,7 +58,7 @@ export default function TelegramLink() {
 
     setIsLinking(true);
     try {
-      const response = await apiRequest(`/api/telegram/verify-link?token=${t}`, { method: 'GET' });
+      const response = await apiRequest('GET', `/api/telegram/verify-link?token=${encodeURIComponent(t)}`);
 
       if (response.success) {
         setLinkStatus('success');
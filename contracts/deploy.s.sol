@@ -4,6 +4,8 @@ pragma solidity ^0.8.20;
 import "forge-std/Script.sol";
 import "./src/BantahPoints.sol";
 import "./src/ChallengeFactory.sol";
+import "./src/ChallengeEscrow.sol";
+import "./src/BantahForwarder.sol";
 import "./src/PointsEscrow.sol";
 
 contract Deploy is Script {
@@ -16,15 +18,35 @@ contract Deploy is Script {
         BantahPoints points = new BantahPoints();
         console.log("BantahPoints deployed at:", address(points));
         
-        // Deploy ChallengeFactory with BantahPoints and admin address
+        // Deploy BantahForwarder (trusted ERC-2771 forwarder for gasless relaying)
+        BantahForwarder forwarder = new BantahForwarder();
+        console.log("BantahForwarder deployed at:", address(forwarder));
+        
+        // Deploy ChallengeEscrow (factory address set once the factory exists)
         address admin = vm.addr(deployerPrivateKey);
-        ChallengeFactory factory = new ChallengeFactory(address(points), admin);
+        ChallengeEscrow stakeEscrow = new ChallengeEscrow(admin);
+        console.log("ChallengeEscrow deployed at:", address(stakeEscrow));
+        
+        // Deploy ChallengeFactory with BantahPoints, escrow, admin, fee recipient and forwarder
+        ChallengeFactory factory = new ChallengeFactory(
+            address(points), address(stakeEscrow), admin, admin, address(forwarder)
+        );
         console.log("ChallengeFactory deployed at:", address(factory));
+        stakeEscrow.setChallengeFactory(address(factory));
+        
+        // Optimistic resolution: signed resolutions can be disputed for this long
+        factory.setDisputePeriod(vm.envOr("DISPUTE_PERIOD_SECONDS", uint256(1 days)));
+        console.log("Dispute period (s):", factory.disputePeriod());
         
         // Deploy PointsEscrow with BantahPoints and ChallengeFactory
         PointsEscrow escrow = new PointsEscrow(address(points), address(factory));
         console.log("PointsEscrow deployed at:", address(escrow));
         
+        // Let the escrow burn and mint points so BantahPoints can be staked
+        points.setPointsEscrow(address(escrow));
+        factory.setPointsEscrow(address(escrow));
+        console.log("Points staking enabled through PointsEscrow");
+        
         // Update points manager to ChallengeFactory
         points.setPointsManager(address(factory));
         console.log("Points manager updated to ChallengeFactory");
@@ -35,6 +57,8 @@ contract Deploy is Script {
         console.log("Deployment complete!");
         console.log("BantahPoints:", address(points));
         console.log("ChallengeFactory:", address(factory));
+        console.log("ChallengeEscrow:", address(stakeEscrow));
+        console.log("BantahForwarder:", address(forwarder));
         console.log("PointsEscrow:", address(escrow));
     }
 }
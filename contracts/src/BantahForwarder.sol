@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title BantahForwarder
+ * @dev ERC-2771 forwarder for gasless joins, accepts and claims
+ * Users sign EIP-712 ForwardRequests (domain "BantahForwarder", version "1");
+ * the server relayer (server/blockchain/relayer.ts) submits them and pays gas.
+ * ChallengeFactory trusts this forwarder and reads the signer via _msgSender().
+ */
+contract BantahForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("BantahForwarder") {}
+}
@@ -15,6 +15,9 @@ contract BantahPoints is ERC20, ERC20Burnable, Ownable {
     // Admin address who can mint points (ChallengeFactory contract)
     address public pointsManager;
     
+    // PointsEscrow burns locked stakes and mints payouts alongside the manager
+    address public pointsEscrow;
+    
     // Track points balance per user (for display purposes)
     mapping(address => uint256) public userPointsBalance;
     
@@ -26,6 +29,7 @@ contract BantahPoints is ERC20, ERC20Burnable, Ownable {
     event PointsBurned(address indexed user, uint256 amount);
     event PointsTransferred(address indexed from, address indexed to, uint256 amount);
     event PointsManagerUpdated(address indexed newManager);
+    event PointsEscrowUpdated(address indexed newEscrow);
     
     constructor() ERC20("Bantah Points", "BPTS") Ownable(msg.sender) {
         pointsManager = msg.sender;
@@ -64,7 +68,8 @@ contract BantahPoints is ERC20, ERC20Burnable, Ownable {
         require(balanceOf(user) >= amount, "Insufficient points balance");
         
         _burn(user, amount);
-        userPointsBalance[user] -= amount;
+        // Points received by transfer were never tracked here
+        userPointsBalance[user] = userPointsBalance[user] > amount ? userPointsBalance[user] - amount : 0;
         
         emit PointsBurned(user, amount);
     }
@@ -92,6 +97,15 @@ contract BantahPoints is ERC20, ERC20Burnable, Ownable {
         emit PointsManagerUpdated(newManager);
     }
     
+    /**
+     * @dev Set the PointsEscrow allowed to burn and award points for stakes
+     * Only owner can call this; address(0) revokes it
+     */
+    function setPointsEscrow(address newEscrow) external onlyOwner {
+        pointsEscrow = newEscrow;
+        emit PointsEscrowUpdated(newEscrow);
+    }
+    
     /**
      * @dev Get user's current points balance
      */
@@ -107,10 +121,10 @@ contract BantahPoints is ERC20, ERC20Burnable, Ownable {
     }
     
     /**
-     * @dev Modifier: Only points manager can call
+     * @dev Modifier: Only points manager (or the points escrow) can call
      */
     modifier onlyPointsManager() {
-        require(msg.sender == pointsManager, "Only points manager");
+        require(msg.sender == pointsManager || msg.sender == pointsEscrow, "Only points manager");
         _;
     }
 }
@@ -53,6 +53,20 @@ contract ChallengeEscrow is ReentrancyGuard, Ownable {
         string reason
     );
     
+    event StakeSettled(
+        address indexed user,
+        address indexed token,
+        uint256 stake,
+        uint256 payout,
+        uint256 indexed challengeId
+    );
+    
+    event FeeCollected(
+        address indexed token,
+        uint256 amount,
+        uint256 indexed challengeId
+    );
+    
     event ChallengeFactoryUpdated(address indexed newFactory);
     
     // Constructor
@@ -150,6 +164,47 @@ contract ChallengeEscrow is ReentrancyGuard, Ownable {
         emit StakeTransferred(from, to, token, amount, challengeId, "Challenge settlement");
     }
     
+    /**
+     * @dev Settle one user's stake from the pooled escrow balance
+     * Called by ChallengeFactory for group challenges: unlocks `stake` and pays
+     * `payout` (stake plus winnings, a refund, or 0 for a losing side)
+     */
+    function settleStake(
+        address user,
+        address token,
+        uint256 stake,
+        uint256 payout,
+        uint256 challengeId
+    ) external onlyFactory nonReentrant {
+        require(user != address(0), "Invalid user");
+        require(token != address(0), "Invalid token");
+        
+        totalLockedByToken[user][token] -= stake;
+        
+        if (payout > 0) {
+            IERC20(token).safeTransfer(user, payout);
+        }
+        
+        emit StakeSettled(user, token, stake, payout, challengeId);
+    }
+    
+    /**
+     * @dev Hand a settled challenge's platform fee to ChallengeFactory, which
+     * accounts for it in platformFeeBalance and pays it out on withdrawal
+     */
+    function collectFee(
+        address token,
+        uint256 amount,
+        uint256 challengeId
+    ) external onlyFactory nonReentrant {
+        require(token != address(0), "Invalid token");
+        require(amount > 0, "Amount must be > 0");
+        
+        IERC20(token).safeTransfer(msg.sender, amount);
+        
+        emit FeeCollected(token, amount, challengeId);
+    }
+    
     /**
      * @dev Get total locked amount for user by token
      */
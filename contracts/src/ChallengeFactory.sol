@@ -6,24 +6,47 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import "./BantahPoints.sol";
 import "./ChallengeEscrow.sol";
+import "./PointsEscrow.sol";
 
 /**
  * @title ChallengeFactory
  * @dev Creates and manages challenges with ERC20 token stakes
  * Handles both admin-created and P2P challenges
  * Separates stakes (USDC/USDT/ETH) from rewards (BantahPoints)
+ * Resolutions are authorized by EIP-712 `Resolution` signatures from the admin
+ * (see server/blockchain/signing.ts for the off-chain counterpart)
+ * Joins, accepts and claims may arrive through the trusted ERC-2771 forwarder
+ * (BantahForwarder), so user-facing functions read _msgSender()
+ * With a non-zero disputePeriod a signed resolution is only a proposal:
+ * participants on the losing side may post a bond to dispute it, and funds
+ * unlock once the period ends (finalizeResolution) or the admin rules on the
+ * dispute (ruleOnDispute)
+ * A challenge whose paymentToken is BantahPoints stakes points instead: they
+ * are locked (burned) in PointsEscrow and minted back on payout, with no
+ * platform fee
  */
-contract ChallengeFactory is ReentrancyGuard, Ownable {
+contract ChallengeFactory is ReentrancyGuard, Ownable, EIP712, ERC2771Context {
     using ECDSA for bytes32;
-    using MessageHashUtils for bytes32;
     using SafeERC20 for IERC20;
     
+    // EIP-712 typed resolution; must match RESOLUTION_TYPES in server/blockchain/signing.ts
+    bytes32 public constant RESOLUTION_TYPEHASH = keccak256(
+        "Resolution(uint256 challengeId,address winner,uint256 pointsAwarded,uint256 nonce,uint256 deadline)"
+    );
+    
+    // Group pools resolve by side; must match GROUP_RESOLUTION_TYPES in server/blockchain/signing.ts
+    bytes32 public constant GROUP_RESOLUTION_TYPEHASH = keccak256(
+        "GroupResolution(uint256 challengeId,uint8 outcome,uint256 pointsAwarded,uint256 nonce,uint256 deadline)"
+    );
+    
     // Enums
     enum ChallengeType { GROUP, P2P }
-    enum ChallengeStatus { CREATED, ACTIVE, RESOLVED, CLAIMED, CANCELLED }
+    enum ChallengeStatus { CREATED, ACTIVE, RESOLVED, CLAIMED, CANCELLED, PROPOSED, DISPUTED }
+    enum GroupOutcome { NONE, YES, NO, DRAW }
     
     // Structs
     struct Challenge {
@@ -48,13 +71,37 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
         bool claimed;
     }
     
+    // Fixed at resolution so later fee changes don't affect pending claims
+    struct GroupSettlement {
+        GroupOutcome outcome;
+        bool refund;                  // Draw, cancellation or an empty winning side
+        uint256 winningPool;
+        uint256 distributable;        // Losing pool minus platform fee
+        uint256 pointsPerWinner;
+        uint256 unclaimedWinners;
+        uint256 unclaimedPayout;      // Last winner to claim takes the rounding remainder
+    }
+    
+    // Signed resolution waiting out the dispute period
+    struct ResolutionProposal {
+        address winner;               // P2P
+        GroupOutcome outcome;         // GROUP
+        uint256 pointsAwarded;
+        uint256 disputeDeadline;
+        address disputer;
+        uint256 bond;                 // Held by this contract until the ruling
+    }
+    
     // State variables
     BantahPoints public pointsToken;
     ChallengeEscrow public stakeEscrow;
+    PointsEscrow public pointsEscrow;  // Unset = BantahPoints can't be staked
     address public admin;              // Authorized to sign resolutions
     address public platformFeeRecipient;  // Where platform fees go
     uint256 public nextChallengeId = 1;
     uint256 public platformFeePercentage = 10;  // 0.1% = 10 basis points (10/10000)
+    uint256 public disputePeriod;                // Seconds; 0 = resolutions settle immediately
+    uint256 public disputeBondPercentage = 1000; // Bond in basis points of the challenge stakeAmount (10%)
     
     // Mappings
     mapping(uint256 => Challenge) public challenges;
@@ -62,7 +109,13 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
     mapping(uint256 => uint256) public p2pChallengeAmounts;
     mapping(address => bool) public verifiedTokens;  // Optional: featured/verified creator coins
     mapping(address => bool) public blacklistedTokens;  // Scam tokens
-    mapping(address => uint256) public platformFeeBalance;  // token => amount
+    mapping(address => uint256) public platformFeeBalance;  // token => fees held by this contract
+    mapping(uint256 => uint256) public resolutionNonces;  // challengeId => next valid resolution nonce
+    mapping(uint256 => mapping(address => uint256)) private groupParticipantIndex;  // challengeId => user => index + 1
+    mapping(uint256 => mapping(bool => uint256)) public groupSidePools;  // challengeId => side => total staked
+    mapping(uint256 => mapping(bool => uint256)) public groupSideCounts;  // challengeId => side => participants
+    mapping(uint256 => GroupSettlement) public groupSettlements;
+    mapping(uint256 => ResolutionProposal) public resolutionProposals;
     
     // Events
     event ChallengeCreatedGroup(
@@ -90,6 +143,24 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
         uint256 pointsAwarded
     );
     
+    event GroupChallengeJoined(
+        uint256 indexed challengeId,
+        address indexed user,
+        bool side,
+        uint256 stakeAmount
+    );
+    
+    event GroupChallengeResolved(
+        uint256 indexed challengeId,
+        GroupOutcome outcome,
+        uint256 winningPool,
+        uint256 losingPool,
+        uint256 platformFee,
+        bool refund
+    );
+    
+    event ChallengeCancelled(uint256 indexed challengeId);
+    
     event StakeClaimed(
         uint256 indexed challengeId,
         address indexed user,
@@ -105,14 +176,34 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
     event PlatformFeeWithdrawn(address indexed token, uint256 amount, address indexed recipient);
     event TokenVerified(address indexed token, bool verified);
     event TokenBlacklisted(address indexed token, bool blacklisted);
+    event ResolutionNonceInvalidated(uint256 indexed challengeId, uint256 newNonce);
+    event ResolutionProposed(
+        uint256 indexed challengeId,
+        address winner,
+        GroupOutcome outcome,
+        uint256 pointsAwarded,
+        uint256 disputeDeadline
+    );
+    event ResolutionDisputed(uint256 indexed challengeId, address indexed disputer, uint256 bond);
+    event DisputeRuled(
+        uint256 indexed challengeId,
+        bool upheld,
+        address winner,
+        GroupOutcome outcome,
+        uint256 bondReturned
+    );
+    event DisputePeriodUpdated(uint256 newPeriod);
+    event DisputeBondPercentageUpdated(uint256 newPercentage);
+    event PointsEscrowUpdated(address indexed newEscrow);
     
     // Constructor
     constructor(
         address _pointsToken,
         address _stakeEscrow,
         address _admin,
-        address _platformFeeRecipient
-    ) Ownable(msg.sender) {
+        address _platformFeeRecipient,
+        address _trustedForwarder
+    ) Ownable(msg.sender) EIP712("ChallengeFactory", "1") ERC2771Context(_trustedForwarder) {
         require(_pointsToken != address(0), "Invalid points token");
         require(_stakeEscrow != address(0), "Invalid escrow");
         require(_admin != address(0), "Invalid admin");
@@ -176,22 +267,20 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
         uint256 pointsReward,
         string calldata metadataURI
     ) external nonReentrant returns (uint256) {
+        address sender = _msgSender();
         require(participant != address(0), "Invalid participant");
-        require(participant != msg.sender, "Cannot challenge yourself");
+        require(participant != sender, "Cannot challenge yourself");
         require(paymentToken != address(0), "Invalid payment token");
         require(!blacklistedTokens[paymentToken], "Token is blacklisted");
         require(stakeAmount > 0, "Stake must be > 0");
         require(pointsReward > 0, "Points reward must be > 0");
         
-        // Transfer stake from User A to escrow
-        IERC20(paymentToken).safeTransferFrom(msg.sender, address(stakeEscrow), stakeAmount);
-        
         uint256 challengeId = nextChallengeId++;
         
         Challenge storage newChallenge = challenges[challengeId];
         newChallenge.id = challengeId;
         newChallenge.challengeType = ChallengeType.P2P;
-        newChallenge.creator = msg.sender;
+        newChallenge.creator = sender;
         newChallenge.participant = participant;
         newChallenge.paymentToken = paymentToken;
         newChallenge.stakeAmount = stakeAmount;
@@ -201,11 +290,11 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
         newChallenge.metadataURI = metadataURI;
         
         // Lock creator's stake in escrow
-        stakeEscrow.lockStake(msg.sender, paymentToken, stakeAmount, challengeId);
+        _lockStake(sender, paymentToken, stakeAmount, challengeId);
         
         emit ChallengeCreatedP2P(
             challengeId,
-            msg.sender,
+            sender,
             participant,
             paymentToken,
             stakeAmount,
@@ -219,39 +308,72 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
      * @dev Accept a P2P challenge (User B stakes matching amount)
      */
     function acceptP2PChallenge(uint256 challengeId) external nonReentrant {
+        address sender = _msgSender();
         Challenge storage challenge = challenges[challengeId];
         
         require(challenge.challengeType == ChallengeType.P2P, "Not P2P challenge");
         require(challenge.status == ChallengeStatus.CREATED, "Challenge not open");
-        require(msg.sender == challenge.participant, "Not participant");
-        
-        // Transfer participant's stake to escrow
-        IERC20(challenge.paymentToken).safeTransferFrom(
-            msg.sender,
-            address(stakeEscrow),
-            challenge.stakeAmount
-        );
+        require(sender == challenge.participant, "Not participant");
         
         // Lock participant's stake
-        stakeEscrow.lockStake(
-            msg.sender,
-            challenge.paymentToken,
-            challenge.stakeAmount,
-            challengeId
-        );
+        _lockStake(sender, challenge.paymentToken, challenge.stakeAmount, challengeId);
         
         challenge.status = ChallengeStatus.ACTIVE;
     }
     
     /**
-     * @dev Resolve a challenge with admin signature
+     * @dev Join a group challenge on one side
+     * stakeAmount on the challenge is the minimum; winners share the losing
+     * pool in proportion to what they staked
+     */
+    function joinGroupChallenge(uint256 challengeId, bool side, uint256 amount) external nonReentrant {
+        address sender = _msgSender();
+        Challenge storage challenge = challenges[challengeId];
+        
+        require(challenge.creator != address(0), "Challenge not found");
+        require(challenge.challengeType == ChallengeType.GROUP, "Not group challenge");
+        require(
+            challenge.status == ChallengeStatus.CREATED ||
+            challenge.status == ChallengeStatus.ACTIVE,
+            "Challenge not open"
+        );
+        require(groupParticipantIndex[challengeId][sender] == 0, "Already joined");
+        require(amount >= challenge.stakeAmount, "Stake below minimum");
+        
+        _lockStake(sender, challenge.paymentToken, amount, challengeId);
+        
+        groupChallengeParticipants[challengeId].push(GroupChallengeParticipant({
+            user: sender,
+            side: side,
+            stakeAmount: amount,
+            claimed: false
+        }));
+        groupParticipantIndex[challengeId][sender] = groupChallengeParticipants[challengeId].length;
+        groupSidePools[challengeId][side] += amount;
+        groupSideCounts[challengeId][side] += 1;
+        
+        if (challenge.status == ChallengeStatus.CREATED) {
+            challenge.status = ChallengeStatus.ACTIVE;
+        }
+        
+        emit GroupChallengeJoined(challengeId, sender, side, amount);
+    }
+    
+    /**
+     * @dev Resolve a P2P challenge with an EIP-712 admin signature
+     * Anyone may submit it; the signature binds chain, contract, challenge,
+     * winner, points, the challenge's current nonce and a deadline
+     * Group challenges resolve by side through resolveGroupChallenge
      * Winner receives:
      * - Loser's stake minus platform fee
-     * - BantahPoints reward
+     * - BantahPoints reward (pointsAwarded)
+     * While disputePeriod is set this only proposes the winner (see finalizeResolution)
      */
     function resolveChallenge(
         uint256 challengeId,
         address winner,
+        uint256 pointsAwarded,
+        uint256 deadline,
         bytes memory signature
     ) external nonReentrant {
         Challenge storage challenge = challenges[challengeId];
@@ -261,72 +383,447 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
             challenge.status == ChallengeStatus.ACTIVE,
             "Invalid status"
         );
+        require(challenge.challengeType == ChallengeType.P2P, "Use resolveGroupChallenge");
         require(winner != address(0), "Invalid winner");
         
-        // Verify admin signature
-        bytes32 messageHash = keccak256(abi.encodePacked(challengeId, winner));
-        bytes32 ethSignedMessage = MessageHashUtils.toEthSignedMessageHash(messageHash);
-        address signer = ECDSA.recover(ethSignedMessage, signature);
-        
-        require(signer == admin, "Invalid admin signature");
+        _useResolutionSignature(challengeId, winner, pointsAwarded, deadline, signature);
         
+        if (disputePeriod > 0) {
+            _proposeResolution(challengeId, challenge, winner, GroupOutcome.NONE, pointsAwarded);
+            return;
+        }
+        _settleP2P(challengeId, challenge, winner, pointsAwarded);
+    }
+    
+    /**
+     * @dev Pay out a P2P challenge to the winner
+     */
+    function _settleP2P(
+        uint256 challengeId,
+        Challenge storage challenge,
+        address winner,
+        uint256 pointsAwarded
+    ) internal {
         // Update challenge
         challenge.status = ChallengeStatus.RESOLVED;
         challenge.winner = winner;
         challenge.resolvedAt = block.timestamp;
         
-        // Calculate total pot and platform fee
-        uint256 totalPot = 0;
-        address loser;
-        
-        if (challenge.challengeType == ChallengeType.P2P) {
-            // P2P: Total pot = both stakes (2x stakeAmount)
-            totalPot = challenge.stakeAmount * 2;
-            loser = winner == challenge.creator ? challenge.participant : challenge.creator;
-        } else if (challenge.challengeType == ChallengeType.GROUP) {
-            // Group: Total pot = sum of all losing stakes
-            GroupChallengeParticipant[] storage participants = groupChallengeParticipants[challengeId];
-            for (uint256 i = 0; i < participants.length; i++) {
-                if (participants[i].user != winner) {
-                    totalPot += participants[i].stakeAmount;
-                }
-            }
-        }
+        // P2P: Total pot = both stakes (2x stakeAmount)
+        uint256 totalPot = challenge.stakeAmount * 2;
+        address loser = winner == challenge.creator ? challenge.participant : challenge.creator;
         
         // Calculate platform fee (0.1% = 10 basis points)
-        uint256 platformFee = (totalPot * platformFeePercentage) / 10000;
+        uint256 platformFee = _platformFee(challenge.paymentToken, totalPot);
         uint256 winnerAmount = totalPot - platformFee;
         
         // Record platform fee
         if (platformFee > 0) {
-            platformFeeBalance[challenge.paymentToken] += platformFee;
-            emit PlatformFeeCollected(challenge.paymentToken, platformFee);
+            _collectPlatformFee(challenge.paymentToken, platformFee, challengeId);
         }
         
-        // Transfer winner's payout from escrow
-        stakeEscrow.transferStake(
-            loser != address(0) ? loser : address(this),
-            winner,
-            challenge.paymentToken,
-            winnerAmount,
-            challengeId
-        );
+        // Unlock both stakes; the winner is paid the pot minus the fee from escrow
+        _settleStake(loser, challenge.paymentToken, challenge.stakeAmount, 0, challengeId);
+        _settleStake(winner, challenge.paymentToken, challenge.stakeAmount, winnerAmount, challengeId);
         
         // Award BantahPoints to winner
-        pointsToken.awardPoints(
-            winner,
-            challenge.pointsReward,
-            challengeId,
-            "Challenge victory"
-        );
+        if (pointsAwarded > 0) {
+            pointsToken.awardPoints(
+                winner,
+                pointsAwarded,
+                challengeId,
+                "Challenge victory"
+            );
+        }
         
         emit ChallengeResolved(
             challengeId,
             winner,
             challenge.paymentToken,
             challenge.stakeAmount,
-            challenge.pointsReward
+            pointsAwarded
+        );
+    }
+    
+    /**
+     * @dev Resolve a group challenge by winning side with an EIP-712 admin signature
+     * Winners claim their stake plus a pro-rata share of the losing pool minus
+     * the platform fee, and pointsAwarded each. DRAW refunds every stake, as
+     * does a win for a side nobody joined.
+     * While disputePeriod is set this only proposes the outcome (see finalizeResolution)
+     */
+    function resolveGroupChallenge(
+        uint256 challengeId,
+        GroupOutcome outcome,
+        uint256 pointsAwarded,
+        uint256 deadline,
+        bytes memory signature
+    ) external nonReentrant {
+        Challenge storage challenge = challenges[challengeId];
+        
+        require(challenge.creator != address(0), "Challenge not found");
+        require(challenge.challengeType == ChallengeType.GROUP, "Not group challenge");
+        require(
+            challenge.status == ChallengeStatus.CREATED ||
+            challenge.status == ChallengeStatus.ACTIVE,
+            "Invalid status"
         );
+        require(outcome != GroupOutcome.NONE, "Invalid outcome");
+        
+        _useGroupResolutionSignature(challengeId, outcome, pointsAwarded, deadline, signature);
+        
+        if (disputePeriod > 0) {
+            _proposeResolution(challengeId, challenge, address(0), outcome, pointsAwarded);
+            return;
+        }
+        _settleGroup(challengeId, challenge, outcome, pointsAwarded);
+    }
+    
+    /**
+     * @dev Fix a group challenge's settlement; winners and refunds claim afterwards
+     */
+    function _settleGroup(
+        uint256 challengeId,
+        Challenge storage challenge,
+        GroupOutcome outcome,
+        uint256 pointsAwarded
+    ) internal {
+        challenge.status = ChallengeStatus.RESOLVED;
+        challenge.resolvedAt = block.timestamp;
+        
+        GroupSettlement storage settlement = groupSettlements[challengeId];
+        settlement.outcome = outcome;
+        
+        bool winningSide = outcome == GroupOutcome.YES;
+        uint256 winningPool = groupSidePools[challengeId][winningSide];
+        uint256 losingPool = groupSidePools[challengeId][!winningSide];
+        
+        if (outcome == GroupOutcome.DRAW || winningPool == 0) {
+            settlement.refund = true;
+            emit GroupChallengeResolved(challengeId, outcome, 0, 0, 0, true);
+            return;
+        }
+        
+        uint256 platformFee = _platformFee(challenge.paymentToken, losingPool);
+        if (platformFee > 0) {
+            _collectPlatformFee(challenge.paymentToken, platformFee, challengeId);
+        }
+        
+        settlement.winningPool = winningPool;
+        settlement.distributable = losingPool - platformFee;
+        settlement.pointsPerWinner = pointsAwarded;
+        settlement.unclaimedWinners = groupSideCounts[challengeId][winningSide];
+        settlement.unclaimedPayout = winningPool + settlement.distributable;
+        
+        // Losing stakes stay in escrow as the winners' pool
+        GroupChallengeParticipant[] storage participants = groupChallengeParticipants[challengeId];
+        for (uint256 i = 0; i < participants.length; i++) {
+            if (participants[i].side != winningSide) {
+                _settleStake(participants[i].user, challenge.paymentToken, participants[i].stakeAmount, 0, challengeId);
+            }
+        }
+        
+        emit GroupChallengeResolved(challengeId, outcome, winningPool, losingPool, platformFee, false);
+    }
+    
+    /**
+     * @dev Record a signed resolution and start the dispute period
+     */
+    function _proposeResolution(
+        uint256 challengeId,
+        Challenge storage challenge,
+        address winner,
+        GroupOutcome outcome,
+        uint256 pointsAwarded
+    ) internal {
+        uint256 disputeDeadline = block.timestamp + disputePeriod;
+        
+        challenge.status = ChallengeStatus.PROPOSED;
+        resolutionProposals[challengeId] = ResolutionProposal({
+            winner: winner,
+            outcome: outcome,
+            pointsAwarded: pointsAwarded,
+            disputeDeadline: disputeDeadline,
+            disputer: address(0),
+            bond: 0
+        });
+        
+        emit ResolutionProposed(challengeId, winner, outcome, pointsAwarded, disputeDeadline);
+    }
+    
+    /**
+     * @dev Dispute a proposed resolution before its deadline by posting a bond
+     * in the challenge's payment token. Only participants the proposal goes
+     * against may dispute (P2P loser, group participants off the winning side,
+     * anyone in a DRAW). The bond comes back if the admin overturns the proposal.
+     */
+    function disputeResolution(uint256 challengeId) external nonReentrant {
+        address sender = _msgSender();
+        Challenge storage challenge = challenges[challengeId];
+        ResolutionProposal storage proposal = resolutionProposals[challengeId];
+        
+        require(challenge.status == ChallengeStatus.PROPOSED, "No proposed resolution");
+        require(block.timestamp < proposal.disputeDeadline, "Dispute period over");
+        require(_canDispute(challengeId, challenge, proposal, sender), "Not eligible to dispute");
+        
+        uint256 bond = getDisputeBond(challengeId);
+        if (bond > 0) {
+            IERC20(challenge.paymentToken).safeTransferFrom(sender, address(this), bond);
+        }
+        
+        proposal.disputer = sender;
+        proposal.bond = bond;
+        challenge.status = ChallengeStatus.DISPUTED;
+        
+        emit ResolutionDisputed(challengeId, sender, bond);
+    }
+    
+    /**
+     * @dev Settle an undisputed proposal once the dispute period is over (anyone may call)
+     */
+    function finalizeResolution(uint256 challengeId) external nonReentrant {
+        Challenge storage challenge = challenges[challengeId];
+        ResolutionProposal storage proposal = resolutionProposals[challengeId];
+        
+        require(challenge.status == ChallengeStatus.PROPOSED, "No proposed resolution");
+        require(block.timestamp >= proposal.disputeDeadline, "Dispute period active");
+        
+        _settle(challengeId, challenge, proposal.winner, proposal.outcome, proposal.pointsAwarded);
+    }
+    
+    /**
+     * @dev Admin ruling on a disputed proposal. Keeping the proposed winner/outcome
+     * forfeits the bond to the platform fee recipient; overturning it returns the
+     * bond to the disputer. Either way the ruling settles the challenge.
+     */
+    function ruleOnDispute(
+        uint256 challengeId,
+        address winner,
+        GroupOutcome outcome,
+        uint256 pointsAwarded
+    ) external nonReentrant {
+        require(msg.sender == admin || msg.sender == owner(), "Not authorized");
+        
+        Challenge storage challenge = challenges[challengeId];
+        ResolutionProposal storage proposal = resolutionProposals[challengeId];
+        require(challenge.status == ChallengeStatus.DISPUTED, "Not disputed");
+        
+        bool upheld;
+        if (challenge.challengeType == ChallengeType.P2P) {
+            require(winner == challenge.creator || winner == challenge.participant, "Invalid winner");
+            upheld = winner == proposal.winner;
+        } else {
+            require(outcome != GroupOutcome.NONE, "Invalid outcome");
+            upheld = outcome == proposal.outcome;
+        }
+        
+        uint256 bond = proposal.bond;
+        proposal.bond = 0;
+        if (bond > 0) {
+            IERC20(challenge.paymentToken).safeTransfer(upheld ? platformFeeRecipient : proposal.disputer, bond);
+        }
+        
+        emit DisputeRuled(challengeId, upheld, winner, outcome, upheld ? 0 : bond);
+        
+        _settle(challengeId, challenge, winner, outcome, pointsAwarded);
+    }
+    
+    function _settle(
+        uint256 challengeId,
+        Challenge storage challenge,
+        address winner,
+        GroupOutcome outcome,
+        uint256 pointsAwarded
+    ) internal {
+        if (challenge.challengeType == ChallengeType.GROUP) {
+            _settleGroup(challengeId, challenge, outcome, pointsAwarded);
+        } else {
+            _settleP2P(challengeId, challenge, winner, pointsAwarded);
+        }
+    }
+    
+    function _canDispute(
+        uint256 challengeId,
+        Challenge storage challenge,
+        ResolutionProposal storage proposal,
+        address user
+    ) internal view returns (bool) {
+        if (challenge.challengeType == ChallengeType.P2P) {
+            return (user == challenge.creator || user == challenge.participant) && user != proposal.winner;
+        }
+        
+        uint256 index = groupParticipantIndex[challengeId][user];
+        if (index == 0) return false;
+        if (proposal.outcome == GroupOutcome.DRAW) return true;
+        return groupChallengeParticipants[challengeId][index - 1].side != (proposal.outcome == GroupOutcome.YES);
+    }
+    
+    /**
+     * @dev Bond required to dispute a challenge's proposed resolution
+     */
+    function getDisputeBond(uint256 challengeId) public view returns (uint256) {
+        return (challenges[challengeId].stakeAmount * disputeBondPercentage) / 10000;
+    }
+    
+    /**
+     * @dev Get the pending (or last) resolution proposal for a challenge
+     */
+    function getResolutionProposal(uint256 challengeId) external view returns (ResolutionProposal memory) {
+        return resolutionProposals[challengeId];
+    }
+    
+    /**
+     * @dev Cancel an unresolved group challenge; every participant can claim a refund
+     */
+    function cancelGroupChallenge(uint256 challengeId) external {
+        require(msg.sender == admin || msg.sender == owner(), "Not authorized");
+        
+        Challenge storage challenge = challenges[challengeId];
+        require(challenge.creator != address(0), "Challenge not found");
+        require(challenge.challengeType == ChallengeType.GROUP, "Not group challenge");
+        require(
+            challenge.status == ChallengeStatus.CREATED ||
+            challenge.status == ChallengeStatus.ACTIVE,
+            "Invalid status"
+        );
+        
+        challenge.status = ChallengeStatus.CANCELLED;
+        groupSettlements[challengeId].refund = true;
+        
+        emit ChallengeCancelled(challengeId);
+    }
+    
+    /**
+     * @dev EIP-712 digest the admin signs for a resolution
+     */
+    function hashResolution(
+        uint256 challengeId,
+        address winner,
+        uint256 pointsAwarded,
+        uint256 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(RESOLUTION_TYPEHASH, challengeId, winner, pointsAwarded, nonce, deadline))
+        );
+    }
+    
+    /**
+     * @dev EIP-712 digest the admin signs for a group resolution
+     */
+    function hashGroupResolution(
+        uint256 challengeId,
+        GroupOutcome outcome,
+        uint256 pointsAwarded,
+        uint256 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(GROUP_RESOLUTION_TYPEHASH, challengeId, uint8(outcome), pointsAwarded, nonce, deadline))
+        );
+    }
+    
+    /**
+     * @dev EIP-712 domain separator (name "ChallengeFactory", version "1", chainId, this contract)
+     */
+    function domainSeparator() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+    
+    /**
+     * @dev Invalidate outstanding resolution signatures for a challenge
+     */
+    function invalidateResolutionNonce(uint256 challengeId) external {
+        require(msg.sender == admin || msg.sender == owner(), "Not authorized");
+        uint256 newNonce = ++resolutionNonces[challengeId];
+        emit ResolutionNonceInvalidated(challengeId, newNonce);
+    }
+    
+    /**
+     * @dev Check a resolution signature against the current nonce and consume it
+     */
+    function _useResolutionSignature(
+        uint256 challengeId,
+        address winner,
+        uint256 pointsAwarded,
+        uint256 deadline,
+        bytes memory signature
+    ) internal {
+        require(block.timestamp <= deadline, "Signature expired");
+        
+        uint256 nonce = resolutionNonces[challengeId]++;
+        bytes32 digest = hashResolution(challengeId, winner, pointsAwarded, nonce, deadline);
+        address signer = ECDSA.recover(digest, signature);
+        
+        require(signer == admin, "Invalid admin signature");
+    }
+    
+    /**
+     * @dev Group counterpart of _useResolutionSignature (shares the nonce)
+     */
+    function _useGroupResolutionSignature(
+        uint256 challengeId,
+        GroupOutcome outcome,
+        uint256 pointsAwarded,
+        uint256 deadline,
+        bytes memory signature
+    ) internal {
+        require(block.timestamp <= deadline, "Signature expired");
+        
+        uint256 nonce = resolutionNonces[challengeId]++;
+        bytes32 digest = hashGroupResolution(challengeId, outcome, pointsAwarded, nonce, deadline);
+        address signer = ECDSA.recover(digest, signature);
+        
+        require(signer == admin, "Invalid admin signature");
+    }
+    
+    /**
+     * @dev Lock a stake: BantahPoints are burned into PointsEscrow, any other
+     * token is taken by the factory and pulled into ChallengeEscrow
+     */
+    function _lockStake(address user, address token, uint256 amount, uint256 challengeId) internal {
+        if (token == address(pointsToken)) {
+            require(address(pointsEscrow) != address(0), "Points staking disabled");
+            pointsEscrow.lockPoints(user, amount, challengeId, "challenge_stake");
+            return;
+        }
+        
+        // Factory takes the stake, escrow pulls it in lockStake
+        IERC20(token).safeTransferFrom(user, address(this), amount);
+        IERC20(token).forceApprove(address(stakeEscrow), amount);
+        stakeEscrow.lockStake(user, token, amount, challengeId);
+    }
+    
+    /**
+     * @dev Unlock a stake and pay `payout` from the escrow that holds it
+     */
+    function _settleStake(address user, address token, uint256 locked, uint256 payout, uint256 challengeId) internal {
+        if (token == address(pointsToken)) {
+            pointsEscrow.settlePoints(user, locked, payout, challengeId);
+            return;
+        }
+        stakeEscrow.settleStake(user, token, locked, payout, challengeId);
+    }
+    
+    /**
+     * @dev Move a fee out of escrow into this contract, so platformFeeBalance
+     * is always backed by tokens held here and never by dispute bonds
+     */
+    function _collectPlatformFee(address token, uint256 amount, uint256 challengeId) internal {
+        stakeEscrow.collectFee(token, amount, challengeId);
+        platformFeeBalance[token] += amount;
+        emit PlatformFeeCollected(token, amount);
+    }
+    
+    /**
+     * @dev Platform fee on `amount`; points are minted back on payout, so
+     * points stakes carry none
+     */
+    function _platformFee(address token, uint256 amount) internal view returns (uint256) {
+        if (token == address(pointsToken)) {
+            return 0;
+        }
+        return (amount * platformFeePercentage) / 10000;
     }
     
     /**
@@ -336,24 +833,104 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
     function claimStake(uint256 challengeId) external nonReentrant {
         Challenge storage challenge = challenges[challengeId];
         
+        if (challenge.challengeType == ChallengeType.GROUP) {
+            _claimGroupStake(challengeId, challenge);
+            return;
+        }
+        
+        address sender = _msgSender();
         require(challenge.status == ChallengeStatus.RESOLVED, "Challenge not resolved");
-        require(challenge.winner == msg.sender, "Only winner can claim");
+        require(challenge.winner == sender, "Only winner can claim");
         require(challenge.winner != address(0), "No winner set");
         
         // Escrow handles actual transfer
         address[] memory winners = new address[](1);
-        winners[0] = msg.sender;
+        winners[0] = sender;
         
         challenge.status = ChallengeStatus.CLAIMED;
         
         emit StakeClaimed(
             challengeId,
-            msg.sender,
+            sender,
             challenge.paymentToken,
             challenge.stakeAmount
         );
     }
     
+    /**
+     * @dev Pay a group participant their stake plus pro-rata winnings, or a refund
+     */
+    function _claimGroupStake(uint256 challengeId, Challenge storage challenge) internal {
+        require(
+            challenge.status == ChallengeStatus.RESOLVED ||
+            challenge.status == ChallengeStatus.CANCELLED,
+            "Challenge not resolved"
+        );
+        
+        address sender = _msgSender();
+        uint256 index = groupParticipantIndex[challengeId][sender];
+        require(index > 0, "Not participant");
+        
+        GroupChallengeParticipant storage participant = groupChallengeParticipants[challengeId][index - 1];
+        require(!participant.claimed, "Already claimed");
+        participant.claimed = true;
+        
+        GroupSettlement storage settlement = groupSettlements[challengeId];
+        uint256 amount;
+        
+        if (settlement.refund) {
+            amount = participant.stakeAmount;
+        } else {
+            require(participant.side == (settlement.outcome == GroupOutcome.YES), "Nothing to claim");
+            if (settlement.unclaimedWinners == 1) {
+                amount = settlement.unclaimedPayout;
+            } else {
+                amount = participant.stakeAmount +
+                    (settlement.distributable * participant.stakeAmount) / settlement.winningPool;
+            }
+            settlement.unclaimedWinners -= 1;
+            settlement.unclaimedPayout -= amount;
+        }
+        
+        _settleStake(sender, challenge.paymentToken, participant.stakeAmount, amount, challengeId);
+        
+        if (!settlement.refund && settlement.pointsPerWinner > 0) {
+            pointsToken.awardPoints(sender, settlement.pointsPerWinner, challengeId, "Challenge victory");
+        }
+        
+        emit StakeClaimed(challengeId, sender, challenge.paymentToken, amount);
+    }
+    
+    /**
+     * @dev Amount a group participant can claim now (0 if none)
+     */
+    function getGroupClaimable(uint256 challengeId, address user) external view returns (uint256) {
+        Challenge storage challenge = challenges[challengeId];
+        uint256 index = groupParticipantIndex[challengeId][user];
+        if (
+            index == 0 ||
+            (challenge.status != ChallengeStatus.RESOLVED && challenge.status != ChallengeStatus.CANCELLED)
+        ) {
+            return 0;
+        }
+        
+        GroupChallengeParticipant storage participant = groupChallengeParticipants[challengeId][index - 1];
+        if (participant.claimed) return 0;
+        
+        GroupSettlement storage settlement = groupSettlements[challengeId];
+        if (settlement.refund) return participant.stakeAmount;
+        if (participant.side != (settlement.outcome == GroupOutcome.YES)) return 0;
+        if (settlement.unclaimedWinners == 1) return settlement.unclaimedPayout;
+        return participant.stakeAmount + (settlement.distributable * participant.stakeAmount) / settlement.winningPool;
+    }
+    
+    /**
+     * @dev Get all participants of a group challenge
+     */
+    function getGroupParticipants(uint256 challengeId) external view returns (GroupChallengeParticipant[] memory) {
+        return groupChallengeParticipants[challengeId];
+    }
+    
     /**
      * @dev Add a token to verified/featured list (optional, for UI highlighting)
      */
@@ -413,6 +990,32 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
         emit PlatformFeePercentageUpdated(newPercentage);
     }
     
+    /**
+     * @dev Set the PointsEscrow used for BantahPoints stakes (address(0) disables them)
+     */
+    function setPointsEscrow(address newEscrow) external onlyOwner {
+        pointsEscrow = PointsEscrow(newEscrow);
+        emit PointsEscrowUpdated(newEscrow);
+    }
+    
+    /**
+     * @dev Update the dispute period for new resolutions (0 settles immediately)
+     */
+    function setDisputePeriod(uint256 newPeriod) external onlyOwner {
+        require(newPeriod <= 30 days, "Period too long");
+        disputePeriod = newPeriod;
+        emit DisputePeriodUpdated(newPeriod);
+    }
+    
+    /**
+     * @dev Update the dispute bond (in basis points of the challenge stakeAmount)
+     */
+    function setDisputeBondPercentage(uint256 newPercentage) external onlyOwner {
+        require(newPercentage <= 10000, "Bond too high");
+        disputeBondPercentage = newPercentage;
+        emit DisputeBondPercentageUpdated(newPercentage);
+    }
+    
     /**
      * @dev Get accumulated platform fees for a token
      */
@@ -440,4 +1043,17 @@ contract ChallengeFactory is ReentrancyGuard, Ownable {
     function getChallenge(uint256 challengeId) external view returns (Challenge memory) {
         return challenges[challengeId];
     }
+    
+    // ERC-2771: the forwarder appends the original signer to calldata
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+    
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+    
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
@@ -49,8 +49,18 @@ contract PointsEscrow is ReentrancyGuard, Ownable {
         string reason
     );
     
+    event PointsSettled(
+        address indexed user,
+        uint256 locked,
+        uint256 payout,
+        uint256 indexed challengeId
+    );
+    
     event ChallengeFactoryUpdated(address indexed newFactory);
     
+    // Reason on the PointsAwarded events that pay out settled stakes
+    string public constant STAKE_PAYOUT_REASON = "challenge_stake_payout";
+    
     // Modifiers
     modifier onlyChallengeFactory() {
         require(msg.sender == challengeFactory, "Only ChallengeFactory");
@@ -141,6 +151,29 @@ contract PointsEscrow is ReentrancyGuard, Ownable {
         emit PointsTransferred(loser, winner, amount, challengeId, "challenge_winnings");
     }
     
+    /**
+     * @dev Unlock a user's stake and pay them `payout` (0 for a loser, the
+     * stake for a refund, stake plus winnings for a winner)
+     * Mirrors ChallengeEscrow.settleStake for points-staked challenges
+     */
+    function settlePoints(
+        address user,
+        uint256 locked,
+        uint256 payout,
+        uint256 challengeId
+    ) external onlyChallengeFactory nonReentrant {
+        require(user != address(0), "Invalid user");
+        require(totalLockedPoints[user] >= locked, "Insufficient locked points");
+        
+        totalLockedPoints[user] -= locked;
+        
+        if (payout > 0) {
+            pointsToken.awardPoints(user, payout, challengeId, STAKE_PAYOUT_REASON);
+        }
+        
+        emit PointsSettled(user, locked, payout, challengeId);
+    }
+    
     /**
      * @dev Get total locked points for a user
      */
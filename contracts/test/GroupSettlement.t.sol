@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ChallengeFactory} from "../src/ChallengeFactory.sol";
+import {ChallengeEscrow} from "../src/ChallengeEscrow.sol";
+import {BantahPoints} from "../src/BantahPoints.sol";
+
+contract MockStakeToken is ERC20 {
+    constructor() ERC20("Mock USDC", "mUSDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @title GroupSettlementTest
+ * @dev Pro-rata payouts by winning side, draw/cancel refunds
+ */
+contract GroupSettlementTest is Test {
+    uint256 constant ADMIN_KEY = 0xA11CE;
+    uint256 constant POINTS = 50e18;
+
+    address admin;
+    address alice = address(0xA1);
+    address bob = address(0xB0B);
+    address carol = address(0xCA);
+    address dave = address(0xDA);
+
+    MockStakeToken token;
+    BantahPoints points;
+    ChallengeEscrow escrow;
+    ChallengeFactory factory;
+    uint256 challengeId;
+
+    function setUp() public {
+        admin = vm.addr(ADMIN_KEY);
+
+        token = new MockStakeToken();
+        points = new BantahPoints();
+        escrow = new ChallengeEscrow(address(1));
+        factory = new ChallengeFactory(address(points), address(escrow), admin, address(0xFEE), address(0));
+        escrow.setChallengeFactory(address(factory));
+        points.setPointsManager(address(factory));
+
+        challengeId = factory.createGroupChallenge(address(token), 10e6, POINTS, "ipfs://group");
+    }
+
+    function _join(address user, bool side, uint256 amount) internal {
+        token.mint(user, amount);
+        vm.startPrank(user);
+        token.approve(address(factory), amount);
+        factory.joinGroupChallenge(challengeId, side, amount);
+        vm.stopPrank();
+    }
+
+    function _resolve(ChallengeFactory.GroupOutcome outcome) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 digest = factory.hashGroupResolution(
+            challengeId, outcome, POINTS, factory.resolutionNonces(challengeId), deadline
+        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, digest);
+        factory.resolveGroupChallenge(challengeId, outcome, POINTS, deadline, abi.encodePacked(r, s, v));
+    }
+
+    function _claim(address user) internal returns (uint256 received) {
+        uint256 before = token.balanceOf(user);
+        vm.prank(user);
+        factory.claimStake(challengeId);
+        received = token.balanceOf(user) - before;
+    }
+
+    function test_WinnersSplitLosingPoolProRata() public {
+        _join(alice, true, 100e6);
+        _join(bob, true, 300e6);
+        _join(carol, false, 200e6);
+        _join(dave, false, 200e6);
+
+        _resolve(ChallengeFactory.GroupOutcome.YES);
+
+        // Losing pool 400, 0.1% fee, 399.6 shared 1:3
+        assertEq(factory.getGroupClaimable(challengeId, alice), 199_900_000);
+        assertEq(_claim(alice), 199_900_000);
+        assertEq(_claim(bob), 599_700_000);
+
+        assertEq(points.balanceOf(alice), POINTS);
+        assertEq(points.balanceOf(bob), POINTS);
+        // The fee left escrow for the factory at resolution
+        assertEq(token.balanceOf(address(escrow)), 0);
+        assertEq(token.balanceOf(address(factory)), factory.getPlatformFeeBalance(address(token)));
+        assertEq(escrow.getTotalLockedByToken(carol, address(token)), 0);
+    }
+
+    function test_LosersAndRepeatClaimsRevert() public {
+        _join(alice, true, 100e6);
+        _join(carol, false, 100e6);
+        _resolve(ChallengeFactory.GroupOutcome.NO);
+
+        vm.prank(alice);
+        vm.expectRevert("Nothing to claim");
+        factory.claimStake(challengeId);
+
+        _claim(carol);
+        vm.prank(carol);
+        vm.expectRevert("Already claimed");
+        factory.claimStake(challengeId);
+    }
+
+    function test_LastWinnerTakesRoundingRemainder() public {
+        _join(alice, true, 10e6);
+        _join(bob, true, 10e6);
+        _join(carol, true, 10e6);
+        _join(dave, false, 10e6 + 1);
+
+        _resolve(ChallengeFactory.GroupOutcome.YES);
+
+        uint256 paid = _claim(alice) + _claim(bob) + _claim(carol);
+        uint256 fee = factory.getPlatformFeeBalance(address(token));
+
+        assertEq(paid + fee, 40e6 + 1);
+        assertEq(token.balanceOf(address(escrow)), 0);
+        assertEq(token.balanceOf(address(factory)), fee);
+    }
+
+    function test_DrawRefundsEveryone() public {
+        _join(alice, true, 100e6);
+        _join(carol, false, 250e6);
+
+        _resolve(ChallengeFactory.GroupOutcome.DRAW);
+
+        assertEq(_claim(alice), 100e6);
+        assertEq(_claim(carol), 250e6);
+        assertEq(points.balanceOf(alice), 0);
+        assertEq(token.balanceOf(address(escrow)), 0);
+    }
+
+    function test_EmptyWinningSideRefunds() public {
+        _join(carol, false, 100e6);
+
+        _resolve(ChallengeFactory.GroupOutcome.YES);
+
+        assertEq(_claim(carol), 100e6);
+    }
+
+    function test_CancelRefundsEveryone() public {
+        _join(alice, true, 100e6);
+        _join(carol, false, 100e6);
+
+        vm.prank(alice);
+        vm.expectRevert("Not authorized");
+        factory.cancelGroupChallenge(challengeId);
+
+        vm.prank(admin);
+        factory.cancelGroupChallenge(challengeId);
+
+        assertEq(_claim(alice), 100e6);
+        assertEq(_claim(carol), 100e6);
+
+        vm.expectRevert("Invalid status");
+        factory.resolveGroupChallenge(challengeId, ChallengeFactory.GroupOutcome.YES, POINTS, block.timestamp, "");
+    }
+
+    function test_JoinRules() public {
+        _join(alice, true, 10e6);
+
+        token.mint(alice, 10e6);
+        vm.startPrank(alice);
+        token.approve(address(factory), 10e6);
+        vm.expectRevert("Already joined");
+        factory.joinGroupChallenge(challengeId, false, 10e6);
+        vm.stopPrank();
+
+        token.mint(bob, 1e6);
+        vm.startPrank(bob);
+        token.approve(address(factory), 1e6);
+        vm.expectRevert("Stake below minimum");
+        factory.joinGroupChallenge(challengeId, true, 1e6);
+        vm.stopPrank();
+    }
+
+    function test_GroupCannotUseSingleWinnerResolution() public {
+        vm.expectRevert("Use resolveGroupChallenge");
+        factory.resolveChallenge(challengeId, alice, POINTS, block.timestamp, "");
+    }
+}
@@ -0,0 +1,278 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ChallengeFactory} from "../src/ChallengeFactory.sol";
+import {ChallengeEscrow} from "../src/ChallengeEscrow.sol";
+import {BantahPoints} from "../src/BantahPoints.sol";
+
+contract MockBondToken is ERC20 {
+    constructor() ERC20("Mock USDC", "mUSDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @title OptimisticResolutionTest
+ * @dev Signed resolutions become proposals during the dispute period; funds
+ * move only after finalizeResolution or an admin ruling on a bonded dispute
+ */
+contract OptimisticResolutionTest is Test {
+    uint256 constant ADMIN_KEY = 0xA11CE;
+    uint256 constant STAKE = 100e6;
+    uint256 constant BOND = 10e6; // 10% of STAKE
+    uint256 constant FEE = 200_000; // 0.1% of a P2P pot
+    uint256 constant POINTS = 50e18;
+    uint256 constant PERIOD = 1 days;
+
+    address admin;
+    address feeRecipient = address(0xFEE);
+    address alice = address(0xA1);
+    address bob = address(0xB0B);
+    address carol = address(0xCA);
+
+    MockBondToken token;
+    BantahPoints points;
+    ChallengeEscrow escrow;
+    ChallengeFactory factory;
+
+    function setUp() public {
+        admin = vm.addr(ADMIN_KEY);
+
+        token = new MockBondToken();
+        points = new BantahPoints();
+        escrow = new ChallengeEscrow(address(1));
+        factory = new ChallengeFactory(address(points), address(escrow), admin, feeRecipient, address(0));
+        escrow.setChallengeFactory(address(factory));
+        points.setPointsManager(address(factory));
+        factory.setDisputePeriod(PERIOD);
+
+        token.mint(alice, 1_000e6);
+        token.mint(bob, 1_000e6);
+        token.mint(carol, 1_000e6);
+    }
+
+    function _createP2P() internal returns (uint256 challengeId) {
+        vm.startPrank(alice);
+        token.approve(address(factory), STAKE);
+        challengeId = factory.createP2PChallenge(bob, address(token), STAKE, POINTS, "ipfs://p2p");
+        vm.stopPrank();
+
+        vm.startPrank(bob);
+        token.approve(address(factory), STAKE);
+        factory.acceptP2PChallenge(challengeId);
+        vm.stopPrank();
+    }
+
+    function _createGroup() internal returns (uint256 challengeId) {
+        challengeId = factory.createGroupChallenge(address(token), STAKE, POINTS, "ipfs://group");
+        _join(challengeId, alice, true);
+        _join(challengeId, carol, false);
+    }
+
+    function _join(uint256 challengeId, address user, bool side) internal {
+        vm.startPrank(user);
+        token.approve(address(factory), STAKE);
+        factory.joinGroupChallenge(challengeId, side, STAKE);
+        vm.stopPrank();
+    }
+
+    function _propose(uint256 challengeId, address winner) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 digest = factory.hashResolution(challengeId, winner, POINTS, factory.resolutionNonces(challengeId), deadline);
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, digest);
+        factory.resolveChallenge(challengeId, winner, POINTS, deadline, abi.encodePacked(r, s, v));
+    }
+
+    function _proposeGroup(uint256 challengeId, ChallengeFactory.GroupOutcome outcome) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 digest = factory.hashGroupResolution(
+            challengeId, outcome, POINTS, factory.resolutionNonces(challengeId), deadline
+        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, digest);
+        factory.resolveGroupChallenge(challengeId, outcome, POINTS, deadline, abi.encodePacked(r, s, v));
+    }
+
+    function _dispute(uint256 challengeId, address user) internal {
+        vm.startPrank(user);
+        token.approve(address(factory), BOND);
+        factory.disputeResolution(challengeId);
+        vm.stopPrank();
+    }
+
+    function _status(uint256 challengeId) internal view returns (ChallengeFactory.ChallengeStatus) {
+        return factory.getChallenge(challengeId).status;
+    }
+
+    function test_ResolutionIsProposedUntilPeriodEnds() public {
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+
+        assertEq(uint8(_status(challengeId)), uint8(ChallengeFactory.ChallengeStatus.PROPOSED));
+        assertEq(token.balanceOf(alice), 900e6);
+        assertEq(factory.getResolutionProposal(challengeId).disputeDeadline, block.timestamp + PERIOD);
+
+        vm.expectRevert("Dispute period active");
+        factory.finalizeResolution(challengeId);
+
+        vm.warp(block.timestamp + PERIOD);
+        factory.finalizeResolution(challengeId);
+
+        // Pot of 200 minus the 0.1% fee
+        assertEq(uint8(_status(challengeId)), uint8(ChallengeFactory.ChallengeStatus.RESOLVED));
+        assertEq(token.balanceOf(alice), 900e6 + 199_800_000);
+        assertEq(points.balanceOf(alice), POINTS);
+        assertEq(escrow.getTotalLockedByToken(bob, address(token)), 0);
+    }
+
+    function test_OverturnedDisputeReturnsBond() public {
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+        _dispute(challengeId, bob);
+
+        assertEq(uint8(_status(challengeId)), uint8(ChallengeFactory.ChallengeStatus.DISPUTED));
+        assertEq(token.balanceOf(address(factory)), BOND);
+
+        vm.warp(block.timestamp + PERIOD);
+        vm.expectRevert("No proposed resolution");
+        factory.finalizeResolution(challengeId);
+
+        vm.prank(admin);
+        factory.ruleOnDispute(challengeId, bob, ChallengeFactory.GroupOutcome.NONE, POINTS);
+
+        assertEq(factory.getChallenge(challengeId).winner, bob);
+        assertEq(token.balanceOf(bob), 900e6 + 199_800_000);
+        assertEq(token.balanceOf(address(factory)), FEE);
+    }
+
+    function test_UpheldDisputeForfeitsBond() public {
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+        _dispute(challengeId, bob);
+
+        vm.prank(admin);
+        factory.ruleOnDispute(challengeId, alice, ChallengeFactory.GroupOutcome.NONE, POINTS);
+
+        assertEq(token.balanceOf(feeRecipient), BOND);
+        assertEq(token.balanceOf(bob), 900e6 - BOND);
+        assertEq(token.balanceOf(alice), 900e6 + 199_800_000);
+    }
+
+    function test_FeeWithdrawalLeavesOpenDisputeBonds() public {
+        uint256 settledId = _createP2P();
+        _propose(settledId, alice);
+        vm.warp(block.timestamp + PERIOD);
+        factory.finalizeResolution(settledId);
+
+        uint256 disputedId = _createP2P();
+        _propose(disputedId, alice);
+        _dispute(disputedId, bob);
+
+        // Only the settled challenge's fee is withdrawn; the bond stays put
+        factory.withdrawPlatformFees(address(token));
+        assertEq(token.balanceOf(feeRecipient), FEE);
+        assertEq(token.balanceOf(address(factory)), BOND);
+
+        vm.prank(admin);
+        factory.ruleOnDispute(disputedId, bob, ChallengeFactory.GroupOutcome.NONE, POINTS);
+
+        assertEq(uint8(_status(disputedId)), uint8(ChallengeFactory.ChallengeStatus.RESOLVED));
+        assertEq(factory.getChallenge(disputedId).winner, bob);
+        assertEq(token.balanceOf(address(factory)), FEE);
+        assertEq(factory.getPlatformFeeBalance(address(token)), FEE);
+    }
+
+    function test_DisputeRules() public {
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+
+        vm.startPrank(alice);
+        token.approve(address(factory), BOND);
+        vm.expectRevert("Not eligible to dispute");
+        factory.disputeResolution(challengeId);
+        vm.stopPrank();
+
+        vm.startPrank(carol);
+        token.approve(address(factory), BOND);
+        vm.expectRevert("Not eligible to dispute");
+        factory.disputeResolution(challengeId);
+        vm.stopPrank();
+
+        vm.prank(admin);
+        vm.expectRevert("Not disputed");
+        factory.ruleOnDispute(challengeId, bob, ChallengeFactory.GroupOutcome.NONE, POINTS);
+
+        vm.warp(block.timestamp + PERIOD);
+        vm.startPrank(bob);
+        token.approve(address(factory), BOND);
+        vm.expectRevert("Dispute period over");
+        factory.disputeResolution(challengeId);
+        vm.stopPrank();
+    }
+
+    function test_OnlyAdminRules() public {
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+        _dispute(challengeId, bob);
+
+        vm.prank(bob);
+        vm.expectRevert("Not authorized");
+        factory.ruleOnDispute(challengeId, bob, ChallengeFactory.GroupOutcome.NONE, POINTS);
+
+        vm.prank(admin);
+        vm.expectRevert("Invalid winner");
+        factory.ruleOnDispute(challengeId, carol, ChallengeFactory.GroupOutcome.NONE, POINTS);
+    }
+
+    function test_GroupClaimsWaitForRuling() public {
+        uint256 challengeId = _createGroup();
+        _proposeGroup(challengeId, ChallengeFactory.GroupOutcome.YES);
+
+        vm.prank(alice);
+        vm.expectRevert("Challenge not resolved");
+        factory.claimStake(challengeId);
+        assertEq(factory.getGroupClaimable(challengeId, alice), 0);
+
+        _dispute(challengeId, carol);
+
+        // Overturned to a draw: everyone is refunded and carol gets her bond back
+        vm.prank(admin);
+        factory.ruleOnDispute(challengeId, address(0), ChallengeFactory.GroupOutcome.DRAW, 0);
+
+        vm.prank(alice);
+        factory.claimStake(challengeId);
+        vm.prank(carol);
+        factory.claimStake(challengeId);
+
+        assertEq(token.balanceOf(alice), 1_000e6);
+        assertEq(token.balanceOf(carol), 1_000e6);
+    }
+
+    function test_ZeroPeriodSettlesImmediately() public {
+        factory.setDisputePeriod(0);
+        uint256 challengeId = _createP2P();
+        _propose(challengeId, alice);
+
+        assertEq(uint8(_status(challengeId)), uint8(ChallengeFactory.ChallengeStatus.RESOLVED));
+        assertEq(token.balanceOf(alice), 900e6 + 199_800_000);
+    }
+
+    function test_SettingsAreOwnerOnly() public {
+        vm.prank(alice);
+        vm.expectRevert();
+        factory.setDisputePeriod(0);
+
+        vm.expectRevert("Period too long");
+        factory.setDisputePeriod(31 days);
+
+        factory.setDisputeBondPercentage(2000);
+        assertEq(factory.getDisputeBond(_createP2P()), 20e6);
+    }
+}
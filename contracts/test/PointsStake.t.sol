@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {ChallengeFactory} from "../src/ChallengeFactory.sol";
+import {ChallengeEscrow} from "../src/ChallengeEscrow.sol";
+import {BantahPoints} from "../src/BantahPoints.sol";
+import {PointsEscrow} from "../src/PointsEscrow.sol";
+
+/**
+ * @title PointsStakeTest
+ * @dev Challenges staked in BantahPoints lock through PointsEscrow and are
+ * minted back to winners (or refunded) without a platform fee
+ */
+contract PointsStakeTest is Test {
+    uint256 constant ADMIN_KEY = 0xA11CE;
+    uint256 constant STAKE = 100e18;
+    uint256 constant POINTS = 50e18;
+
+    address admin;
+    address alice = address(0xA1);
+    address bob = address(0xB0B);
+    address carol = address(0xCA);
+
+    BantahPoints points;
+    ChallengeEscrow escrow;
+    PointsEscrow pointsEscrow;
+    ChallengeFactory factory;
+
+    function setUp() public {
+        admin = vm.addr(ADMIN_KEY);
+
+        points = new BantahPoints();
+        escrow = new ChallengeEscrow(address(1));
+        factory = new ChallengeFactory(address(points), address(escrow), admin, address(0xFEE), address(0));
+        escrow.setChallengeFactory(address(factory));
+        pointsEscrow = new PointsEscrow(address(points), address(factory));
+
+        // Stakers hold transferred points, which userPointsBalance never tracked
+        points.transfer(alice, 1_000e18);
+        points.transfer(bob, 1_000e18);
+        points.transfer(carol, 1_000e18);
+
+        points.setPointsManager(address(factory));
+        points.setPointsEscrow(address(pointsEscrow));
+        factory.setPointsEscrow(address(pointsEscrow));
+    }
+
+    function _resolve(uint256 challengeId, address winner) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 digest = factory.hashResolution(challengeId, winner, POINTS, factory.resolutionNonces(challengeId), deadline);
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, digest);
+        factory.resolveChallenge(challengeId, winner, POINTS, deadline, abi.encodePacked(r, s, v));
+    }
+
+    function _resolveGroup(uint256 challengeId, ChallengeFactory.GroupOutcome outcome) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 digest = factory.hashGroupResolution(
+            challengeId, outcome, POINTS, factory.resolutionNonces(challengeId), deadline
+        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, digest);
+        factory.resolveGroupChallenge(challengeId, outcome, POINTS, deadline, abi.encodePacked(r, s, v));
+    }
+
+    function _join(uint256 challengeId, address user, bool side, uint256 amount) internal {
+        vm.prank(user);
+        factory.joinGroupChallenge(challengeId, side, amount);
+    }
+
+    function test_P2PLocksPointsAndPaysWinner() public {
+        // No approval needed: the escrow burns the stake
+        vm.prank(alice);
+        uint256 challengeId = factory.createP2PChallenge(bob, address(points), STAKE, POINTS, "ipfs://p2p");
+        vm.prank(bob);
+        factory.acceptP2PChallenge(challengeId);
+
+        assertEq(points.balanceOf(alice), 900e18);
+        assertEq(points.balanceOf(bob), 900e18);
+        assertEq(pointsEscrow.getTotalLockedPoints(alice), STAKE);
+        assertEq(pointsEscrow.getTotalLockedPoints(bob), STAKE);
+
+        _resolve(challengeId, alice);
+
+        // Whole pot plus the reward; points stakes pay no platform fee
+        assertEq(points.balanceOf(alice), 900e18 + 2 * STAKE + POINTS);
+        assertEq(points.balanceOf(bob), 900e18);
+        assertEq(pointsEscrow.getTotalLockedPoints(alice), 0);
+        assertEq(pointsEscrow.getTotalLockedPoints(bob), 0);
+        assertEq(factory.getPlatformFeeBalance(address(points)), 0);
+    }
+
+    function test_GroupWinnersClaimProRata() public {
+        uint256 challengeId = factory.createGroupChallenge(address(points), STAKE, POINTS, "ipfs://group");
+        _join(challengeId, alice, true, 100e18);
+        _join(challengeId, bob, true, 300e18);
+        _join(challengeId, carol, false, 200e18);
+
+        _resolveGroup(challengeId, ChallengeFactory.GroupOutcome.YES);
+
+        // Losing stakes are settled at resolution
+        assertEq(pointsEscrow.getTotalLockedPoints(carol), 0);
+        assertEq(pointsEscrow.getTotalLockedPoints(alice), 100e18);
+
+        vm.prank(alice);
+        factory.claimStake(challengeId);
+        vm.prank(bob);
+        factory.claimStake(challengeId);
+
+        assertEq(points.balanceOf(alice), 900e18 + 150e18 + POINTS);
+        assertEq(points.balanceOf(bob), 700e18 + 450e18 + POINTS);
+        assertEq(points.balanceOf(carol), 800e18);
+        assertEq(pointsEscrow.getTotalLockedPoints(bob), 0);
+    }
+
+    function test_CancelledGroupRefundsPoints() public {
+        uint256 challengeId = factory.createGroupChallenge(address(points), STAKE, POINTS, "ipfs://group");
+        _join(challengeId, alice, true, STAKE);
+
+        vm.prank(admin);
+        factory.cancelGroupChallenge(challengeId);
+        vm.prank(alice);
+        factory.claimStake(challengeId);
+
+        assertEq(points.balanceOf(alice), 1_000e18);
+        assertEq(pointsEscrow.getTotalLockedPoints(alice), 0);
+    }
+
+    function test_PointsStakeRequiresEscrow() public {
+        factory.setPointsEscrow(address(0));
+
+        vm.prank(alice);
+        vm.expectRevert("Points staking disabled");
+        factory.createP2PChallenge(bob, address(points), STAKE, POINTS, "ipfs://p2p");
+    }
+
+    function test_OnlyFactoryMovesEscrowedPoints() public {
+        vm.prank(alice);
+        vm.expectRevert("Only ChallengeFactory");
+        pointsEscrow.settlePoints(alice, 0, STAKE, 1);
+
+        vm.prank(alice);
+        vm.expectRevert("Only points manager");
+        points.burnPointsFrom(bob, STAKE);
+
+        vm.prank(alice);
+        vm.expectRevert();
+        points.setPointsEscrow(alice);
+    }
+}
@@ -0,0 +1,172 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+import {ChallengeFactory} from "../src/ChallengeFactory.sol";
+import {ChallengeEscrow} from "../src/ChallengeEscrow.sol";
+import {BantahPoints} from "../src/BantahPoints.sol";
+import {BantahForwarder} from "../src/BantahForwarder.sol";
+
+contract MockPermitToken is ERC20Permit {
+    constructor() ERC20("Mock USDC", "mUSDC") ERC20Permit("Mock USDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @title RelayerTest
+ * @dev Gasless flow used by server/blockchain/relayer.ts: the user signs an
+ * EIP-2612 permit and an ERC-2771 ForwardRequest, a funded relayer submits both
+ */
+contract RelayerTest is Test {
+    bytes32 constant FORWARD_REQUEST_TYPEHASH = keccak256(
+        "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint48 deadline,bytes data)"
+    );
+    bytes32 constant PERMIT_TYPEHASH = keccak256(
+        "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+    );
+
+    uint256 constant USER_KEY = 0xB0B;
+    uint256 constant ADMIN_KEY = 0xA11CE;
+
+    address user;
+    address relayer = address(0x2E1A7);
+
+    MockPermitToken token;
+    BantahForwarder forwarder;
+    ChallengeFactory factory;
+    uint256 challengeId;
+
+    function setUp() public {
+        user = vm.addr(USER_KEY);
+
+        token = new MockPermitToken();
+        forwarder = new BantahForwarder();
+        BantahPoints points = new BantahPoints();
+        ChallengeEscrow escrow = new ChallengeEscrow(address(1));
+        factory = new ChallengeFactory(
+            address(points), address(escrow), vm.addr(ADMIN_KEY), address(0xFEE), address(forwarder)
+        );
+        escrow.setChallengeFactory(address(factory));
+        points.setPointsManager(address(factory));
+
+        challengeId = factory.createGroupChallenge(address(token), 10e6, 1e18, "ipfs://group");
+        token.mint(user, 100e6);
+    }
+
+    function _forwarderDomain() internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("BantahForwarder"),
+                keccak256("1"),
+                block.chainid,
+                address(forwarder)
+            )
+        );
+    }
+
+    function _forwardRequest(bytes memory data) internal view returns (ERC2771Forwarder.ForwardRequestData memory request) {
+        request = ERC2771Forwarder.ForwardRequestData({
+            from: user,
+            to: address(factory),
+            value: 0,
+            gas: 500_000,
+            deadline: uint48(block.timestamp + 1 hours),
+            data: data,
+            signature: ""
+        });
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                FORWARD_REQUEST_TYPEHASH,
+                request.from,
+                request.to,
+                request.value,
+                request.gas,
+                forwarder.nonces(user),
+                request.deadline,
+                keccak256(request.data)
+            )
+        );
+        (uint8 v, bytes32 r, bytes32 s) =
+            vm.sign(USER_KEY, keccak256(abi.encodePacked("\x19\x01", _forwarderDomain(), structHash)));
+        request.signature = abi.encodePacked(r, s, v);
+    }
+
+    function _relayPermit(uint256 amount) internal {
+        uint256 deadline = block.timestamp + 1 hours;
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, user, address(factory), amount, token.nonces(user), deadline)
+        );
+        (uint8 v, bytes32 r, bytes32 s) =
+            vm.sign(USER_KEY, keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash)));
+
+        vm.prank(relayer);
+        token.permit(user, address(factory), amount, deadline, v, r, s);
+    }
+
+    function test_RelayedJoinWithPermit() public {
+        _relayPermit(25e6);
+        ERC2771Forwarder.ForwardRequestData memory request =
+            _forwardRequest(abi.encodeCall(ChallengeFactory.joinGroupChallenge, (challengeId, true, 25e6)));
+
+        vm.prank(relayer);
+        forwarder.execute(request);
+
+        ChallengeFactory.GroupChallengeParticipant[] memory participants = factory.getGroupParticipants(challengeId);
+        assertEq(participants.length, 1);
+        assertEq(participants[0].user, user);
+        assertEq(participants[0].stakeAmount, 25e6);
+        assertEq(token.balanceOf(user), 75e6);
+        assertEq(forwarder.nonces(user), 1);
+    }
+
+    function test_ReplayedRequestRejected() public {
+        _relayPermit(50e6);
+        ERC2771Forwarder.ForwardRequestData memory request =
+            _forwardRequest(abi.encodeCall(ChallengeFactory.joinGroupChallenge, (challengeId, true, 10e6)));
+
+        vm.prank(relayer);
+        forwarder.execute(request);
+
+        vm.prank(relayer);
+        vm.expectRevert();
+        forwarder.execute(request);
+    }
+
+    function test_RelayedClaimPaysSigner() public {
+        _relayPermit(10e6);
+        vm.prank(relayer);
+        forwarder.execute(
+            _forwardRequest(abi.encodeCall(ChallengeFactory.joinGroupChallenge, (challengeId, false, 10e6)))
+        );
+
+        vm.prank(vm.addr(ADMIN_KEY));
+        factory.cancelGroupChallenge(challengeId);
+
+        vm.prank(relayer);
+        forwarder.execute(_forwardRequest(abi.encodeCall(ChallengeFactory.claimStake, (challengeId))));
+
+        assertEq(token.balanceOf(user), 100e6);
+        assertEq(token.balanceOf(relayer), 0);
+    }
+
+    function test_DirectCallsStillWork() public {
+        vm.startPrank(user);
+        token.approve(address(factory), 10e6);
+        factory.joinGroupChallenge(challengeId, true, 10e6);
+        vm.stopPrank();
+
+        assertEq(factory.getGroupParticipants(challengeId)[0].user, user);
+    }
+}
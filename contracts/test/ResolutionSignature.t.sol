@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {ChallengeFactory} from "../src/ChallengeFactory.sol";
+
+/**
+ * @dev Exposes signature checking without setting up a funded challenge
+ */
+contract ResolutionHarness is ChallengeFactory {
+    constructor(address admin_) ChallengeFactory(address(0xB0), address(0xE0), admin_, address(0xFE), address(0)) {}
+
+    function useResolutionSignature(
+        uint256 challengeId,
+        address winner,
+        uint256 pointsAwarded,
+        uint256 deadline,
+        bytes memory signature
+    ) external {
+        _useResolutionSignature(challengeId, winner, pointsAwarded, deadline, signature);
+    }
+}
+
+/**
+ * @title ResolutionSignatureTest
+ * @dev The vector below is produced by server/blockchain/signing.ts
+ * (ethers signTypedData, Anvil account #0, chainId 31337); the contract
+ * must hash and recover it identically.
+ */
+contract ResolutionSignatureTest is Test {
+    uint256 constant ADMIN_KEY = 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
+    address constant ADMIN = 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266;
+    address constant FACTORY = 0x5FbDB2315678afecb367f032d93F642f64180aa3;
+    address constant WINNER = 0x70997970C51812dc3A010C7d01b50e0d17dc79C8;
+
+    uint256 constant CHALLENGE_ID = 7;
+    uint256 constant POINTS = 500;
+    uint256 constant DEADLINE = 1900000000;
+
+    bytes32 constant ETHERS_DOMAIN_SEPARATOR = 0x2da56508fb530e1a5d4d86b5f08c82f9115290ce1d013ca80811c617dc85cb71;
+    bytes32 constant ETHERS_DIGEST = 0x9e12e0c632da524b471699d8b091e7c50a0d447b4a143b67add1cb39c7e87531;
+    bytes constant ETHERS_SIGNATURE =
+        hex"8c30d2e170daec427c3ce42de9ced4e574745fc2ce2d35d15248451e69cf32d338b2d3b5c008f851b1dbcd0d6752c15b82493ea0dd77ac6c7c1cd9e63946b0811b";
+
+    ResolutionHarness factory;
+
+    function setUp() public {
+        vm.chainId(31337);
+        vm.warp(1_800_000_000);
+        deployCodeTo("ResolutionSignature.t.sol:ResolutionHarness", abi.encode(ADMIN), FACTORY);
+        factory = ResolutionHarness(FACTORY);
+    }
+
+    function test_DomainSeparatorMatchesEthers() public view {
+        assertEq(factory.domainSeparator(), ETHERS_DOMAIN_SEPARATOR);
+    }
+
+    function test_DigestMatchesManualEncoding() public view {
+        bytes32 domain = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("ChallengeFactory"),
+                keccak256("1"),
+                block.chainid,
+                FACTORY
+            )
+        );
+        bytes32 structHash = keccak256(
+            abi.encode(factory.RESOLUTION_TYPEHASH(), CHALLENGE_ID, WINNER, POINTS, uint256(0), DEADLINE)
+        );
+        bytes32 expected = keccak256(abi.encodePacked("\x19\x01", domain, structHash));
+
+        assertEq(factory.hashResolution(CHALLENGE_ID, WINNER, POINTS, 0, DEADLINE), expected);
+        assertEq(expected, ETHERS_DIGEST);
+    }
+
+    function test_AcceptsEthersSignature() public {
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+        assertEq(factory.resolutionNonces(CHALLENGE_ID), 1);
+    }
+
+    function test_AcceptsForgeSignature() public {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(ADMIN_KEY, ETHERS_DIGEST);
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, abi.encodePacked(r, s, v));
+    }
+
+    function test_RejectsReplay() public {
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+
+        vm.expectRevert("Invalid admin signature");
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+    }
+
+    function test_RejectsExpired() public {
+        vm.warp(DEADLINE + 1);
+
+        vm.expectRevert("Signature expired");
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+    }
+
+    function test_RejectsOtherChain() public {
+        vm.chainId(1);
+
+        vm.expectRevert("Invalid admin signature");
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+    }
+
+    function test_RejectsTamperedFields() public {
+        vm.expectRevert("Invalid admin signature");
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS + 1, DEADLINE, ETHERS_SIGNATURE);
+
+        vm.expectRevert("Invalid admin signature");
+        factory.useResolutionSignature(CHALLENGE_ID, address(0xBEEF), POINTS, DEADLINE, ETHERS_SIGNATURE);
+    }
+
+    function test_InvalidatedNonceRejectsSignature() public {
+        vm.prank(ADMIN);
+        factory.invalidateResolutionNonce(CHALLENGE_ID);
+
+        vm.expectRevert("Invalid admin signature");
+        factory.useResolutionSignature(CHALLENGE_ID, WINNER, POINTS, DEADLINE, ETHERS_SIGNATURE);
+    }
+
+    function test_OnlyAdminOrOwnerInvalidates() public {
+        vm.prank(WINNER);
+        vm.expectRevert("Not authorized");
+        factory.invalidateResolutionNonce(CHALLENGE_ID);
+    }
+}
@@ -0,0 +1,9 @@
+-- Pairing Engine: queue lookup indexes
+-- FCFS opponent lookup scans waiting entries per challenge/side in join order
+
+CREATE INDEX IF NOT EXISTS "idx_pair_queue_matching" ON "pair_queue" ("challenge_id", "side", "status", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pair_queue_user" ON "pair_queue" ("user_id", "challenge_id");
+--> statement-breakpoint
+-- A user can only hold one waiting entry per challenge
+CREATE UNIQUE INDEX IF NOT EXISTS "uniq_pair_queue_waiting_user" ON "pair_queue" ("challenge_id", "user_id") WHERE "status" = 'waiting';
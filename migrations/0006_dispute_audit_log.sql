@@ -0,0 +1,12 @@
+-- Challenge disputes: audit trail for raise / evidence / admin ruling
+
+CREATE TABLE IF NOT EXISTS "dispute_audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"challenge_id" integer NOT NULL,
+	"actor_id" varchar NOT NULL,
+	"action" varchar NOT NULL,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_dispute_audit_log_challenge" ON "dispute_audit_log" ("challenge_id", "created_at");
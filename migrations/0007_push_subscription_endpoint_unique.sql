@@ -0,0 +1,9 @@
+-- Web push: one subscription row per browser endpoint
+-- Keep the newest row for any endpoint registered more than once
+DELETE FROM "push_subscriptions" a
+USING "push_subscriptions" b
+WHERE a."endpoint" = b."endpoint" AND a."id" < b."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "push_subscriptions_endpoint_unique" ON "push_subscriptions" ("endpoint");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_push_subscriptions_user" ON "push_subscriptions" ("user_id");
@@ -0,0 +1,15 @@
+-- Notification delivery modes: notifications held for batched/digest users
+
+CREATE TABLE IF NOT EXISTS "held_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"event" varchar NOT NULL,
+	"challenge_id" varchar,
+	"title" text NOT NULL,
+	"body" text,
+	"data" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_held_notifications_pending" ON "held_notifications" ("user_id", "created_at") WHERE "delivered_at" IS NULL;
@@ -0,0 +1,23 @@
+-- Challenge lifecycle scheduler: start times, followers and sent-reminder markers
+
+ALTER TABLE "challenges" ADD COLUMN IF NOT EXISTS "starts_at" timestamp;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "challenge_followers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"challenge_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "challenge_followers_challenge_id_user_id_unique" UNIQUE("challenge_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "challenge_lifecycle_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"challenge_id" integer NOT NULL,
+	"marker" varchar NOT NULL,
+	"recipients" integer DEFAULT 0,
+	"fired_at" timestamp DEFAULT now(),
+	CONSTRAINT "challenge_lifecycle_events_challenge_id_marker_unique" UNIQUE("challenge_id","marker")
+);
+--> statement-breakpoint
+-- Scheduler scans live challenges by deadline
+CREATE INDEX IF NOT EXISTS "idx_challenges_status_due_date" ON "challenges" ("status", "due_date");
@@ -0,0 +1,17 @@
+-- Telegram account linking: one-time link tokens issued by the bot
+
+CREATE TABLE IF NOT EXISTS "telegram_link_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token" varchar NOT NULL,
+	"telegram_id" varchar(64) NOT NULL,
+	"telegram_username" varchar(100),
+	"chat_id" varchar(64),
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"used_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "telegram_link_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+-- A Telegram account can only be linked to one Bantah user
+CREATE UNIQUE INDEX IF NOT EXISTS "uniq_users_telegram_id" ON "users" ("telegram_id") WHERE "telegram_id" IS NOT NULL;
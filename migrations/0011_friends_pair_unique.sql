@@ -0,0 +1,5 @@
+-- Friends: one relation per pair of users, whichever side sent the request
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uniq_friends_pair" ON "friends" (LEAST("requester_id", "addressee_id"), GREATEST("requester_id", "addressee_id"));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_friends_addressee_status" ON "friends" ("addressee_id", "status");
@@ -0,0 +1,29 @@
+-- On-chain event indexer: checkpoints, recent block hashes (reorg detection)
+-- and the ChallengeFactory id of each challenge
+
+ALTER TABLE "challenges" ADD COLUMN IF NOT EXISTS "blockchain_chain_id" integer;
+--> statement-breakpoint
+ALTER TABLE "challenges" ADD COLUMN IF NOT EXISTS "on_chain_challenge_id" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_challenges_on_chain_id" ON "challenges" ("blockchain_chain_id", "on_chain_challenge_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "chain_indexer_checkpoints" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"indexer_name" varchar NOT NULL,
+	"last_processed_block" integer NOT NULL,
+	"last_processed_hash" varchar,
+	"updated_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_chain_indexer_checkpoint" UNIQUE("chain_id","indexer_name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "chain_indexer_blocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"indexer_name" varchar NOT NULL,
+	"block_number" integer NOT NULL,
+	"block_hash" varchar NOT NULL,
+	"indexed_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_chain_indexer_block" UNIQUE("chain_id","indexer_name","block_number")
+);
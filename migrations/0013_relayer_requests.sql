@@ -0,0 +1,26 @@
+-- Gasless relayer: signed ForwardRequests/permits, forwarder nonces and rate limits
+
+CREATE TABLE IF NOT EXISTS "relayer_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"chain_id" integer NOT NULL,
+	"wallet_address" varchar NOT NULL,
+	"action" varchar NOT NULL,
+	"challenge_id" integer,
+	"forwarder_nonce" integer NOT NULL,
+	"request_data" jsonb NOT NULL,
+	"permit_data" jsonb,
+	"status" varchar DEFAULT 'prepared' NOT NULL,
+	"transaction_hash" varchar,
+	"permit_tx_hash" varchar,
+	"gas_used" bigint,
+	"error_message" text,
+	"expires_at" timestamp NOT NULL,
+	"submitted_at" timestamp,
+	"confirmed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_relayer_requests_user_created" ON "relayer_requests" ("user_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_relayer_requests_wallet_nonce" ON "relayer_requests" ("chain_id", "wallet_address", "forwarder_nonce");
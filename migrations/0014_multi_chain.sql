@@ -0,0 +1,17 @@
+-- Multi-chain: chain ids come from the chain registry (server/blockchain/chains.ts)
+-- instead of a Base Sepolia column default. Existing on-chain rows were all
+-- written against Base Sepolia (84532).
+
+ALTER TABLE "points_transactions" ALTER COLUMN "chain_id" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "blockchain_transactions" ALTER COLUMN "chain_id" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "challenge_escrow_records" ALTER COLUMN "chain_id" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "user_wallet_addresses" ALTER COLUMN "chain_id" DROP DEFAULT;
+--> statement-breakpoint
+UPDATE "challenges" SET "blockchain_chain_id" = 84532
+WHERE "blockchain_chain_id" IS NULL
+  AND ("blockchain_creation_tx_hash" IS NOT NULL OR "on_chain_challenge_id" IS NOT NULL OR "stake_amount_wei" IS NOT NULL);
+--> statement-breakpoint
+UPDATE "points_transactions" SET "chain_id" = NULL WHERE "blockchain_tx_hash" IS NULL;
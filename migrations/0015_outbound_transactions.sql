@@ -0,0 +1,35 @@
+-- Outbound transaction manager: admin signer nonces, fee bumps and confirmation tracking
+
+CREATE TABLE IF NOT EXISTS "outbound_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"from_address" varchar NOT NULL,
+	"nonce" integer NOT NULL,
+	"to_address" varchar NOT NULL,
+	"data" text NOT NULL,
+	"value" varchar DEFAULT '0' NOT NULL,
+	"gas_limit" bigint NOT NULL,
+	"max_fee_per_gas" bigint NOT NULL,
+	"max_priority_fee_per_gas" bigint NOT NULL,
+	"transaction_type" varchar NOT NULL,
+	"contract_name" varchar,
+	"function_name" varchar,
+	"challenge_id" integer,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"transaction_hash" varchar NOT NULL,
+	"replaced_hashes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"confirmations" integer DEFAULT 0 NOT NULL,
+	"block_number" integer,
+	"gas_used" bigint,
+	"revert_reason" text,
+	"error_message" text,
+	"last_sent_at" timestamp DEFAULT now() NOT NULL,
+	"confirmed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_outbound_tx_nonce" UNIQUE("chain_id","from_address","nonce")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_outbound_tx_status" ON "outbound_transactions" ("chain_id", "status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_outbound_tx_hash" ON "outbound_transactions" ("transaction_hash");
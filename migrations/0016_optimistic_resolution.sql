@@ -0,0 +1,8 @@
+-- Optimistic resolution: a signed resolution is only proposed while the
+-- ChallengeFactory dispute period runs; funds move on finalize or admin ruling.
+
+ALTER TABLE "challenges" ADD COLUMN IF NOT EXISTS "resolution_proposal" jsonb;
+--> statement-breakpoint
+ALTER TABLE "challenges" ADD COLUMN IF NOT EXISTS "dispute_deadline" timestamp;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_challenges_dispute_deadline" ON "challenges" USING btree ("dispute_deadline") WHERE "on_chain_status" = 'proposed';
@@ -0,0 +1,22 @@
+-- Wallet ownership proofs: wallets are linked only after signing a
+-- server-issued EIP-4361 (Sign-In with Ethereum) message. Wallets connected
+-- before this stay unverified and can't receive payouts until re-linked.
+
+CREATE TABLE IF NOT EXISTS "wallet_proof_nonces" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"chain_id" integer NOT NULL,
+	"wallet_address" varchar NOT NULL,
+	"nonce" varchar NOT NULL,
+	"message" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "wallet_proof_nonces_nonce_unique" UNIQUE("nonce")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_wallet_proof_nonces_user" ON "wallet_proof_nonces" ("user_id", "created_at");
+--> statement-breakpoint
+ALTER TABLE "user_wallet_addresses" ADD COLUMN IF NOT EXISTS "verification_signature" text;
+--> statement-breakpoint
+ALTER TABLE "user_wallet_addresses" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;
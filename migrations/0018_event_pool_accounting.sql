@@ -0,0 +1,15 @@
+-- Prediction events: one participation per user per event, one pool row per event
+-- Keep the earliest participation for any user entered more than once
+DELETE FROM "event_participants" a
+USING "event_participants" b
+WHERE a."event_id" = b."event_id" AND a."user_id" = b."user_id" AND a."id" > b."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "event_participants_event_id_user_id_unique" ON "event_participants" ("event_id", "user_id");
+--> statement-breakpoint
+DELETE FROM "event_pools" a
+USING "event_pools" b
+WHERE a."event_id" = b."event_id" AND a."id" > b."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "event_pools_event_id_unique" ON "event_pools" ("event_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_event_activity_event" ON "event_activity" ("event_id", "created_at");
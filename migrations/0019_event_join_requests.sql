@@ -0,0 +1,6 @@
+-- Private events: join requests hold the entry fee until answered
+-- A user can only have one pending request per event
+CREATE UNIQUE INDEX IF NOT EXISTS "uniq_event_join_requests_pending_user" ON "event_join_requests" ("event_id", "user_id") WHERE "status" = 'pending';
+--> statement-breakpoint
+-- Creator's queue and the expiry sweep read pending requests per event
+CREATE INDEX IF NOT EXISTS "idx_event_join_requests_event_status" ON "event_join_requests" ("event_id", "status", "requested_at");
@@ -0,0 +1,7 @@
+-- Realtime typing indicators: one row per user per event, upserted on every keystroke burst
+-- Keep the most recent row for any user recorded more than once
+DELETE FROM "event_typing" a
+USING "event_typing" b
+WHERE a."event_id" = b."event_id" AND a."user_id" = b."user_id" AND a."id" < b."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "event_typing_event_id_user_id_unique" ON "event_typing" ("event_id", "user_id");
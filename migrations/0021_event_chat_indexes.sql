@@ -0,0 +1,6 @@
+-- Event chat: history pages walk message ids backwards per event; threads look up replies by parent
+CREATE INDEX IF NOT EXISTS "idx_event_messages_event_id" ON "event_messages" ("event_id", "id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_event_messages_reply_to" ON "event_messages" ("reply_to_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_message_reactions_message" ON "message_reactions" ("message_id");
@@ -0,0 +1,59 @@
+-- Chat moderation: filters, mutes/timeouts, a moderation log and per-message visibility
+ALTER TABLE "event_messages" ADD COLUMN IF NOT EXISTS "moderation_status" varchar DEFAULT 'visible';
+--> statement-breakpoint
+ALTER TABLE "event_messages" ADD COLUMN IF NOT EXISTS "moderation_reason" text;
+--> statement-breakpoint
+ALTER TABLE "challenge_messages" ADD COLUMN IF NOT EXISTS "moderation_status" varchar DEFAULT 'visible';
+--> statement-breakpoint
+ALTER TABLE "challenge_messages" ADD COLUMN IF NOT EXISTS "moderation_reason" text;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "chat_filters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pattern" text NOT NULL,
+	"is_regex" boolean DEFAULT false,
+	"action" varchar DEFAULT 'hide',
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "chat_mutes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"scope" varchar DEFAULT 'global',
+	"scope_id" integer,
+	"reason" text,
+	"muted_by" varchar NOT NULL,
+	"expires_at" timestamp,
+	"lifted_at" timestamp,
+	"lifted_by" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "chat_moderation_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_type" varchar,
+	"chat_id" integer,
+	"message_id" integer,
+	"user_id" varchar,
+	"actor_id" varchar,
+	"action" varchar NOT NULL,
+	"reason" text,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Mute checks on every post read the user's unlifted mutes
+CREATE INDEX IF NOT EXISTS "idx_chat_mutes_active_user" ON "chat_mutes" ("user_id") WHERE "lifted_at" IS NULL;
+--> statement-breakpoint
+-- Review queue reads hidden messages; flood checks count a user's recent posts
+CREATE INDEX IF NOT EXISTS "idx_event_messages_hidden" ON "event_messages" ("created_at") WHERE "moderation_status" = 'hidden';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_challenge_messages_hidden" ON "challenge_messages" ("created_at") WHERE "moderation_status" = 'hidden';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_event_messages_user_created" ON "event_messages" ("user_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_challenge_messages_user_created" ON "challenge_messages" ("user_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_challenge_messages_challenge_id" ON "challenge_messages" ("challenge_id", "id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_chat_moderation_log_created" ON "chat_moderation_log" ("created_at");
@@ -0,0 +1,22 @@
+-- On-chain token and BantahPoints amounts are 18-decimal base units, which overflow bigint
+ALTER TABLE "points_transactions" ALTER COLUMN "amount" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "user_points_ledgers" ALTER COLUMN "points_balance" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "user_points_ledgers" ALTER COLUMN "total_points_earned" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "user_points_ledgers" ALTER COLUMN "total_points_burned" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "user_points_ledgers" ALTER COLUMN "points_locked_in_escrow" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "challenge_escrow_records" ALTER COLUMN "amount_escrowed" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "challenge_escrow_records" ALTER COLUMN "amount_released" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "challenge_escrow_records" ALTER COLUMN "amount_claimed" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "payout_jobs" ALTER COLUMN "total_pool" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "payout_jobs" ALTER COLUMN "platform_fee" TYPE numeric(78, 0);
+--> statement-breakpoint
+ALTER TABLE "payout_entries" ALTER COLUMN "amount" TYPE numeric(78, 0);
@@ -0,0 +1,24 @@
+#!/usr/bin/env tsx
+import 'dotenv/config';
+import { createChainIndexer } from '../server/blockchain/indexer';
+
+// One indexing pass, e.g. against a local Anvil/Hardhat node:
+//   CHAIN_INDEXER_RPC_URL=http://127.0.0.1:8545 CHAIN_INDEXER_CHAIN_ID=31337 CHAIN_INDEXER_CONFIRMATIONS=0 tsx scripts/run-chain-indexer.ts
+async function main() {
+  const indexer = createChainIndexer();
+  if (!indexer) {
+    console.error('Chain indexer not configured (missing RPC URL / VITE_CHALLENGE_FACTORY_ADDRESS / VITE_POINTS_CONTRACT_ADDRESS)');
+    process.exit(1);
+  }
+
+  try {
+    const result = await indexer.runOnce();
+    console.log('Chain indexer pass complete:', result);
+    process.exit(0);
+  } catch (err) {
+    console.error('Chain indexer pass failed:', err);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,7 +1,8 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
 import session from "express-session";
+import type { IncomingMessage } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
@@ -17,6 +18,8 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+let sessionParser: RequestHandler | null = null;
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -44,7 +47,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -313,6 +317,23 @@ export function setupAuth(app: Express) {
   });
 }
 
+/**
+ * Logged-in user id from the session cookie on a raw HTTP request (used to
+ * authenticate WebSocket upgrades, which bypass the Express middleware chain)
+ */
+export function resolveSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!sessionParser) {
+      return resolve(null);
+    }
+
+    sessionParser(req as any, {} as any, () => {
+      const userId = (req as any).session?.passport?.user;
+      resolve(typeof userId === 'string' ? userId : null);
+    });
+  });
+}
+
 // Middleware to check if user is authenticated
 export const isAuthenticated = (req: any, res: any, next: any) => {
   if (req.isAuthenticated() && req.user) {
@@ -0,0 +1,264 @@
+/**
+ * Chain Registry - Per-chain RPC, contract addresses, tokens and explorers
+ *
+ * Known chains carry their public metadata (name, explorer, canonical
+ * stablecoins); deployments and RPC endpoints come from the environment:
+ *
+ *   ENABLED_CHAIN_IDS=84532,8453          chains to run (default: DEFAULT_CHAIN_ID)
+ *   DEFAULT_CHAIN_ID=84532                chain used when a caller doesn't say
+ *   CHAIN_<id>_RPC_URL
+ *   CHAIN_<id>_POINTS_ADDRESS
+ *   CHAIN_<id>_CHALLENGE_FACTORY_ADDRESS
+ *   CHAIN_<id>_POINTS_ESCROW_ADDRESS
+ *   CHAIN_<id>_CHALLENGE_ESCROW_ADDRESS   (optional, indexer)
+ *   CHAIN_<id>_FORWARDER_ADDRESS          (optional, gasless relaying)
+ *   CHAIN_<id>_USDC_ADDRESS / _USDT_ADDRESS  (override the canonical tokens)
+ *   CHAIN_<id>_EXPLORER_URL
+ *
+ * The default chain also reads the original single-chain VITE_* variables, so
+ * existing Base Sepolia deployments keep working unchanged.
+ */
+
+import { ethers } from 'ethers';
+
+export const BASE_MAINNET_CHAIN_ID = 8453;
+export const BASE_SEPOLIA_CHAIN_ID = 84532;
+export const ANVIL_CHAIN_ID = 31337;
+export const POINTS_TOKEN_SYMBOL = 'BPTS';
+
+export interface ChainToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export interface ChainContracts {
+  points: string | null;
+  challengeFactory: string | null;
+  pointsEscrow: string | null;
+  challengeEscrow: string | null;
+  forwarder: string | null;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  key: string;
+  name: string;
+  testnet: boolean;
+  rpcUrl: string | null;
+  explorerUrl: string | null;
+  contracts: ChainContracts;
+  tokens: ChainToken[];
+}
+
+interface KnownChain {
+  key: string;
+  name: string;
+  testnet: boolean;
+  rpcUrl: string | null;
+  explorerUrl: string | null;
+  tokens: ChainToken[];
+}
+
+const KNOWN_CHAINS: Record<number, KnownChain> = {
+  [BASE_MAINNET_CHAIN_ID]: {
+    key: 'base',
+    name: 'Base',
+    testnet: false,
+    rpcUrl: 'https://mainnet.base.org',
+    explorerUrl: 'https://basescan.org',
+    tokens: [
+      { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b3566dA8860', decimals: 6 },
+      { symbol: 'USDT', address: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2', decimals: 6 },
+    ],
+  },
+  [BASE_SEPOLIA_CHAIN_ID]: {
+    key: 'base-sepolia',
+    name: 'Base Sepolia',
+    testnet: true,
+    rpcUrl: 'https://sepolia.base.org',
+    explorerUrl: 'https://sepolia.basescan.org',
+    tokens: [
+      { symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6 },
+    ],
+  },
+  [ANVIL_CHAIN_ID]: {
+    key: 'anvil',
+    name: 'Anvil',
+    testnet: true,
+    rpcUrl: 'http://127.0.0.1:8545',
+    explorerUrl: null,
+    tokens: [],
+  },
+};
+
+// Original single-chain variables, honoured for the default chain only
+const LEGACY_ENV: Record<string, string> = {
+  RPC_URL: 'VITE_BASE_TESTNET_RPC',
+  POINTS_ADDRESS: 'VITE_POINTS_CONTRACT_ADDRESS',
+  CHALLENGE_FACTORY_ADDRESS: 'VITE_CHALLENGE_FACTORY_ADDRESS',
+  POINTS_ESCROW_ADDRESS: 'VITE_POINTS_ESCROW_ADDRESS',
+  CHALLENGE_ESCROW_ADDRESS: 'VITE_CHALLENGE_ESCROW_ADDRESS',
+  FORWARDER_ADDRESS: 'VITE_FORWARDER_ADDRESS',
+  USDC_ADDRESS: 'VITE_USDC_ADDRESS',
+  USDT_ADDRESS: 'VITE_USDT_ADDRESS',
+};
+
+// Contracts a chain needs before a BlockchainClient can run on it
+const REQUIRED_SETTINGS = ['RPC_URL', 'POINTS_ADDRESS', 'CHALLENGE_FACTORY_ADDRESS', 'POINTS_ESCROW_ADDRESS'];
+
+type Env = Record<string, string | undefined>;
+
+export function getDefaultChainId(env: Env = process.env): number {
+  return Number(env.DEFAULT_CHAIN_ID || BASE_SEPOLIA_CHAIN_ID);
+}
+
+function readSetting(env: Env, chainId: number, name: string, isDefault: boolean): string | null {
+  const value = env[`CHAIN_${chainId}_${name}`] || (isDefault && LEGACY_ENV[name] ? env[LEGACY_ENV[name]] : undefined);
+  return value ? value.trim() : null;
+}
+
+function withTokenOverride(tokens: ChainToken[], symbol: string, address: string | null): ChainToken[] {
+  if (!address) return tokens;
+  const existing = tokens.find((t) => t.symbol === symbol);
+  const token = { symbol, address, decimals: existing?.decimals ?? 6 };
+  return existing ? tokens.map((t) => (t.symbol === symbol ? token : t)) : [...tokens, token];
+}
+
+/**
+ * Build the registry from environment variables
+ */
+export function loadChainRegistry(env: Env = process.env): Map<number, ChainConfig> {
+  const defaultChainId = getDefaultChainId(env);
+  const enabled = (env.ENABLED_CHAIN_IDS || String(defaultChainId))
+    .split(',')
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (!enabled.includes(defaultChainId)) {
+    enabled.unshift(defaultChainId);
+  }
+
+  const registry = new Map<number, ChainConfig>();
+  for (const chainId of enabled) {
+    const isDefault = chainId === defaultChainId;
+    const known = KNOWN_CHAINS[chainId];
+    const setting = (name: string) => readSetting(env, chainId, name, isDefault);
+
+    let tokens = known?.tokens ?? [];
+    tokens = withTokenOverride(tokens, 'USDC', setting('USDC_ADDRESS'));
+    tokens = withTokenOverride(tokens, 'USDT', setting('USDT_ADDRESS'));
+
+    registry.set(chainId, {
+      chainId,
+      key: known?.key ?? `chain-${chainId}`,
+      name: known?.name ?? `Chain ${chainId}`,
+      testnet: known?.testnet ?? true,
+      rpcUrl: setting('RPC_URL') ?? known?.rpcUrl ?? null,
+      explorerUrl: setting('EXPLORER_URL') ?? known?.explorerUrl ?? null,
+      contracts: {
+        points: setting('POINTS_ADDRESS'),
+        challengeFactory: setting('CHALLENGE_FACTORY_ADDRESS'),
+        pointsEscrow: setting('POINTS_ESCROW_ADDRESS'),
+        challengeEscrow: setting('CHALLENGE_ESCROW_ADDRESS'),
+        forwarder: setting('FORWARDER_ADDRESS'),
+      },
+      tokens,
+    });
+  }
+
+  return registry;
+}
+
+/**
+ * Environment variables a chain still needs before it can be used
+ */
+export function getMissingChainSettings(chain: ChainConfig): string[] {
+  const present: Record<string, unknown> = {
+    RPC_URL: chain.rpcUrl,
+    POINTS_ADDRESS: chain.contracts.points,
+    CHALLENGE_FACTORY_ADDRESS: chain.contracts.challengeFactory,
+    POINTS_ESCROW_ADDRESS: chain.contracts.pointsEscrow,
+  };
+  return REQUIRED_SETTINGS.filter((name) => !present[name]).map((name) => `CHAIN_${chain.chainId}_${name}`);
+}
+
+let registry: Map<number, ChainConfig> | null = null;
+
+function getRegistry(): Map<number, ChainConfig> {
+  if (!registry) {
+    registry = loadChainRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Chains enabled for this deployment (default chain first)
+ */
+export function getEnabledChains(): ChainConfig[] {
+  return Array.from(getRegistry().values());
+}
+
+export function getChainConfig(chainId: number): ChainConfig | null {
+  return getRegistry().get(chainId) ?? null;
+}
+
+export function isChainEnabled(chainId: number): boolean {
+  return getRegistry().has(chainId);
+}
+
+/**
+ * Supported payment token on a chain, matched case-insensitively by address
+ */
+export function findChainToken(chainId: number, address: string): ChainToken | null {
+  const chain = getChainConfig(chainId);
+  if (!chain || !ethers.isAddress(address)) return null;
+  return chain.tokens.find((t) => t.address.toLowerCase() === address.toLowerCase()) ?? null;
+}
+
+/**
+ * BantahPoints as a stake currency; available once both the points token and
+ * the PointsEscrow that locks it are deployed on the chain
+ */
+export function getPointsStakeToken(chainId: number): ChainToken | null {
+  const chain = getChainConfig(chainId);
+  if (!chain?.contracts.points || !chain.contracts.pointsEscrow) return null;
+  return { symbol: POINTS_TOKEN_SYMBOL, address: chain.contracts.points, decimals: 18 };
+}
+
+export function isPointsToken(chainId: number, address: string | null | undefined): boolean {
+  const points = getChainConfig(chainId)?.contracts.points;
+  return !!points && !!address && points.toLowerCase() === address.toLowerCase();
+}
+
+export function getExplorerTxUrl(chainId: number, txHash: string): string | null {
+  const explorerUrl = getChainConfig(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl.replace(/\/$/, '')}/tx/${txHash}` : null;
+}
+
+export function getExplorerAddressUrl(chainId: number, address: string): string | null {
+  const explorerUrl = getChainConfig(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl.replace(/\/$/, '')}/address/${address}` : null;
+}
+
+/**
+ * Client-safe view of the registry (RPC URLs may embed API keys)
+ */
+export function describeChain(chain: ChainConfig) {
+  return {
+    chainId: chain.chainId,
+    key: chain.key,
+    name: chain.name,
+    testnet: chain.testnet,
+    isDefault: chain.chainId === getDefaultChainId(),
+    explorerUrl: chain.explorerUrl,
+    contracts: chain.contracts,
+    tokens: chain.tokens,
+  };
+}
+
+/**
+ * Reset the cached registry (tests)
+ */
+export function resetChainRegistry(): void {
+  registry = null;
+}
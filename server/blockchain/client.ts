@@ -1,11 +1,12 @@
 /**
  * Blockchain Client - Initialize ethers.js with contracts
- * Manages connection to Base Testnet Sepolia and contract instances
+ * Manages one connection and set of contract instances per chain (see chains.ts)
  */
 
 import { ethers } from 'ethers';
 import { Contract } from 'ethers';
 import type { Signer } from 'ethers';
+import { getDefaultChainId, type ChainToken } from './chains';
 
 // Contract ABIs (minimal - full ABIs from compiled contracts)
 const POINTS_ABI = [
@@ -19,22 +20,58 @@ const POINTS_ABI = [
   'event PointsBurned(address indexed user, uint256 amount)',
 ];
 
-const CHALLENGE_FACTORY_ABI = [
+export const CHALLENGE_FACTORY_ABI = [
   'function createAdminChallenge(uint256 stakeAmount, address paymentToken, string metadataURI) external returns (uint256)',
+  'function createGroupChallenge(address paymentToken, uint256 stakeAmount, uint256 pointsReward, string metadataURI) external returns (uint256)',
   'function createP2PChallenge(address opponent, uint256 stakeAmount, address paymentToken, string metadataURI) external returns (uint256)',
   'function acceptP2PChallenge(uint256 challengeId) external',
   'function joinAdminChallenge(uint256 challengeId, bool side) external',
-  'function resolveChallenge(uint256 challengeId, address winner, uint256 pointsAwarded, bytes memory signature) external',
+  'function resolveChallenge(uint256 challengeId, address winner, uint256 pointsAwarded, uint256 deadline, bytes memory signature) external',
+  'function resolutionNonces(uint256 challengeId) external view returns (uint256)',
+  'function hashResolution(uint256 challengeId, address winner, uint256 pointsAwarded, uint256 nonce, uint256 deadline) external view returns (bytes32)',
+  'function invalidateResolutionNonce(uint256 challengeId) external',
+  'function joinGroupChallenge(uint256 challengeId, bool side, uint256 amount) external',
+  'function resolveGroupChallenge(uint256 challengeId, uint8 outcome, uint256 pointsAwarded, uint256 deadline, bytes memory signature) external',
+  'function cancelGroupChallenge(uint256 challengeId) external',
+  'function claimStake(uint256 challengeId) external',
+  'function getGroupClaimable(uint256 challengeId, address user) external view returns (uint256)',
   'function claimPayout(uint256 challengeId) external',
-  'function getChallenge(uint256 challengeId) external view returns (tuple(uint256 id, uint8 challengeType, address creator, address participant, uint256 stakeAmount, address paymentToken, uint8 status, address winner, uint256 createdAt, uint256 resolvedAt, string metadataURI))',
-  'function getYesParticipants(uint256 challengeId) external view returns (address[])',
-  'function getNoParticipants(uint256 challengeId) external view returns (address[])',
+  'function disputeResolution(uint256 challengeId) external',
+  'function finalizeResolution(uint256 challengeId) external',
+  'function ruleOnDispute(uint256 challengeId, address winner, uint8 outcome, uint256 pointsAwarded) external',
+  'function disputePeriod() external view returns (uint256)',
+  'function disputeBondPercentage() external view returns (uint256)',
+  'function getDisputeBond(uint256 challengeId) external view returns (uint256)',
+  'function getResolutionProposal(uint256 challengeId) external view returns (tuple(address winner, uint8 outcome, uint256 pointsAwarded, uint256 disputeDeadline, address disputer, uint256 bond))',
+  'function getChallenge(uint256 challengeId) external view returns (tuple(uint256 id, uint8 challengeType, address creator, address participant, address paymentToken, uint256 stakeAmount, uint256 pointsReward, uint8 status, address winner, uint256 createdAt, uint256 resolvedAt, string metadataURI))',
+  'function getGroupParticipants(uint256 challengeId) external view returns (tuple(address user, bool side, uint256 stakeAmount, bool claimed)[])',
   'function getUserLockedStakes(address user) external view returns (uint256)',
   'function setAdmin(address newAdmin) external',
   'function setPlatformFee(uint256 basisPoints) external',
   'event ChallengeCreated(uint256 indexed challengeId, uint8 challengeType, address indexed creator, uint256 stakeAmount, address paymentToken, string metadataURI)',
-  'event ChallengeResolved(uint256 indexed challengeId, address indexed winner, uint256 prizeAmount, uint256 pointsAwarded)',
+  'event ChallengeCreatedGroup(uint256 indexed challengeId, address indexed creator, address indexed paymentToken, uint256 stakeAmount, uint256 pointsReward)',
+  'event ChallengeResolved(uint256 indexed challengeId, address indexed winner, address indexed paymentToken, uint256 stakeAmount, uint256 pointsAwarded)',
+  'event GroupChallengeResolved(uint256 indexed challengeId, uint8 outcome, uint256 winningPool, uint256 losingPool, uint256 platformFee, bool refund)',
+  'event ChallengeCancelled(uint256 indexed challengeId)',
   'event PayoutClaimed(uint256 indexed challengeId, address indexed user, uint256 amount)',
+  'event ResolutionProposed(uint256 indexed challengeId, address winner, uint8 outcome, uint256 pointsAwarded, uint256 disputeDeadline)',
+  'event ResolutionDisputed(uint256 indexed challengeId, address indexed disputer, uint256 bond)',
+  'event DisputeRuled(uint256 indexed challengeId, bool upheld, address winner, uint8 outcome, uint256 bondReturned)',
+  // Custom errors from inherited OpenZeppelin contracts (require() strings decode as Error(string))
+  'error ReentrancyGuardReentrantCall()',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error OwnableInvalidOwner(address owner)',
+  'error SafeERC20FailedOperation(address token)',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+];
+
+const FORWARDER_ABI = [
+  'function nonces(address owner) external view returns (uint256)',
+  'function verify(tuple(address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) external view returns (bool)',
+  'function execute(tuple(address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) external payable',
+  'function eip712Domain() external view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
 ];
 
 const ERC20_ABI = [
@@ -50,25 +87,28 @@ const ERC20_ABI = [
 interface BlockchainConfig {
   rpcUrl: string;
   chainId: number;
+  chainName?: string;
   pointsContractAddress: string;
   challengeFactoryAddress: string;
   pointsEscrowAddress: string;
-  usdcAddress: string;
-  usdtAddress: string;
+  tokens: ChainToken[];          // Supported payment tokens (USDC, USDT, ...)
   adminPrivateKey: string;
   adminAddress: string;
+  forwarderAddress?: string;     // BantahForwarder (ERC-2771); gasless relaying is off without it
+  relayerPrivateKey?: string;    // Funded wallet that submits relayed requests
 }
 
 class BlockchainClient {
   private provider: ethers.JsonRpcProvider;
   private adminSigner: ethers.Wallet;
+  private relayerSigner: ethers.Wallet | null;
   private config: BlockchainConfig;
 
   // Contract instances
   pointsContract: Contract;
   challengeFactoryContract: Contract;
-  usdcContract: Contract;
-  usdtContract: Contract;
+  tokenContracts: Record<string, Contract>;   // keyed by symbol
+  forwarderContract: Contract | null;
 
   constructor(config: BlockchainConfig) {
     this.config = config;
@@ -79,6 +119,11 @@ class BlockchainClient {
     // Initialize admin signer (for signing challenge resolutions)
     this.adminSigner = new ethers.Wallet(config.adminPrivateKey, this.provider);
 
+    // Relayer signer (pays gas for users' signed ForwardRequests)
+    this.relayerSigner = config.relayerPrivateKey
+      ? new ethers.Wallet(config.relayerPrivateKey, this.provider)
+      : null;
+
     // Initialize contract instances
     this.pointsContract = new ethers.Contract(
       config.pointsContractAddress,
@@ -92,17 +137,14 @@ class BlockchainClient {
       this.provider
     );
 
-    this.usdcContract = new ethers.Contract(
-      config.usdcAddress,
-      ERC20_ABI,
-      this.provider
-    );
+    this.tokenContracts = {};
+    for (const token of config.tokens) {
+      this.tokenContracts[token.symbol] = new ethers.Contract(token.address, ERC20_ABI, this.provider);
+    }
 
-    this.usdtContract = new ethers.Contract(
-      config.usdtAddress,
-      ERC20_ABI,
-      this.provider
-    );
+    this.forwarderContract = config.forwarderAddress
+      ? new ethers.Contract(config.forwarderAddress, FORWARDER_ABI, this.provider)
+      : null;
   }
 
   /**
@@ -112,6 +154,20 @@ class BlockchainClient {
     return this.provider;
   }
 
+  /**
+   * Get configured chain ID
+   */
+  getChainId(): number {
+    return this.config.chainId;
+  }
+
+  /**
+   * Get display name of the chain
+   */
+  getChainName(): string {
+    return this.config.chainName || `Chain ${this.config.chainId}`;
+  }
+
   /**
    * Get admin signer for transaction signing
    */
@@ -119,6 +175,13 @@ class BlockchainClient {
     return this.adminSigner;
   }
 
+  /**
+   * Get relayer signer (null when gasless relaying is not configured)
+   */
+  getRelayerSigner(): ethers.Wallet | null {
+    return this.relayerSigner;
+  }
+
   /**
    * Get connected contract instance for writing (admin signer)
    */
@@ -154,7 +217,7 @@ class BlockchainClient {
     try {
       const blockNumber = await this.provider.getBlockNumber();
       const network = await this.provider.getNetwork();
-      console.log(`✅ Connected to Base Testnet (Chain: ${network.chainId}, Block: ${blockNumber})`);
+      console.log(`✅ Connected to ${this.getChainName()} (Chain: ${network.chainId}, Block: ${blockNumber})`);
       return true;
     } catch (error) {
       console.error('❌ Blockchain connection failed:', error);
@@ -177,8 +240,8 @@ class BlockchainClient {
       points: this.config.pointsContractAddress,
       challengeFactory: this.config.challengeFactoryAddress,
       pointsEscrow: this.config.pointsEscrowAddress,
-      usdc: this.config.usdcAddress,
-      usdt: this.config.usdtAddress,
+      tokens: Object.fromEntries(this.config.tokens.map((t) => [t.symbol, t.address])),
+      forwarder: this.config.forwarderAddress || null,
     };
   }
 
@@ -207,31 +270,52 @@ class BlockchainClient {
   }
 }
 
-// Singleton instance
-let blockchainClient: BlockchainClient | null = null;
+// One client per chain
+const blockchainClients = new Map<number, BlockchainClient>();
 
 /**
- * Initialize blockchain client (call once on server startup)
+ * Initialize the blockchain client for a chain (call once per chain on server startup)
  */
 export function initBlockchainClient(config: BlockchainConfig): BlockchainClient {
-  if (blockchainClient) {
-    console.warn('Blockchain client already initialized');
-    return blockchainClient;
+  const existing = blockchainClients.get(config.chainId);
+  if (existing) {
+    console.warn(`Blockchain client for chain ${config.chainId} already initialized`);
+    return existing;
   }
 
-  blockchainClient = new BlockchainClient(config);
-  return blockchainClient;
+  const client = new BlockchainClient(config);
+  blockchainClients.set(config.chainId, client);
+  return client;
 }
 
 /**
- * Get blockchain client instance
+ * Get blockchain client for a chain (defaults to DEFAULT_CHAIN_ID)
  */
-export function getBlockchainClient(): BlockchainClient {
-  if (!blockchainClient) {
-    throw new Error('Blockchain client not initialized. Call initBlockchainClient() first.');
+export function getBlockchainClient(chainId: number = getDefaultChainId()): BlockchainClient {
+  const client = blockchainClients.get(chainId);
+  if (!client) {
+    throw new Error(`Blockchain client for chain ${chainId} not initialized. Call initBlockchainClient() first.`);
   }
-  return blockchainClient;
+  return client;
+}
+
+/**
+ * All initialized clients
+ */
+export function getBlockchainClients(): BlockchainClient[] {
+  return Array.from(blockchainClients.values());
+}
+
+export function hasBlockchainClient(chainId: number): boolean {
+  return blockchainClients.has(chainId);
+}
+
+/**
+ * Drop every initialized client (tests, e.g. after redeploying to a local chain)
+ */
+export function resetBlockchainClients(): void {
+  blockchainClients.clear();
 }
 
-export type { BlockchainConfig, Signer };
+export type { BlockchainConfig, BlockchainClient, Signer };
 export { ethers, Contract };
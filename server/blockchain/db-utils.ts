@@ -21,6 +21,7 @@ import {
   type InsertUserWalletAddress,
 } from '../../shared/schema-blockchain';
 import { eq, and, desc } from 'drizzle-orm';
+import { getDefaultChainId } from './chains';
 
 // ============================================================================
 // USER POINTS LEDGER OPERATIONS
@@ -42,10 +43,10 @@ export async function ensureUserPointsLedger(userId: string) {
 
   const newLedger: InsertUserPointsLedger = {
     userId,
-    pointsBalance: 0n,
-    totalPointsEarned: 0n,
-    totalPointsBurned: 0n,
-    pointsLockedInEscrow: 0n,
+    pointsBalance: '0',
+    totalPointsEarned: '0',
+    totalPointsBurned: '0',
+    pointsLockedInEscrow: '0',
   };
 
   const result = await db.insert(userPointsLedgers).values(newLedger).returning();
@@ -68,6 +69,9 @@ export async function recordPointsTransaction(
 
 /**
  * Recalculate user points balance from transaction history
+ * Points staked on a challenge stay in the balance while locked
+ * (locked_escrow); settled_escrow removes the stake once the challenge
+ * settles and transferred_escrow credits the payout
  */
 export async function updateUserPointsBalance(userId: string) {
   const transactions = await db
@@ -78,6 +82,7 @@ export async function updateUserPointsBalance(userId: string) {
   let balance = 0n;
   let earned = 0n;
   let burned = 0n;
+  let locked = BigInt(0);
 
   for (const tx of transactions) {
     const amount = BigInt(tx.amount);
@@ -90,21 +95,24 @@ export async function updateUserPointsBalance(userId: string) {
       if (tx.transactionType === 'earned_challenge') {
         earned += amount;
       }
-    } else if (tx.transactionType === 'burned_usage' || 
-               tx.transactionType === 'locked_escrow') {
+    } else if (tx.transactionType === 'burned_usage') {
       balance -= amount;
-      if (tx.transactionType === 'burned_usage') {
-        burned += amount;
-      }
+      burned += amount;
+    } else if (tx.transactionType === 'locked_escrow') {
+      locked += amount;
+    } else if (tx.transactionType === 'settled_escrow') {
+      balance -= amount;
+      locked -= amount;
     }
   }
 
   await db
     .update(userPointsLedgers)
     .set({
-      pointsBalance: balance,
-      totalPointsEarned: earned,
-      totalPointsBurned: burned,
+      pointsBalance: balance.toString(),
+      totalPointsEarned: earned.toString(),
+      totalPointsBurned: burned.toString(),
+      pointsLockedInEscrow: locked.toString(),
       lastUpdatedAt: new Date(),
     })
     .where(eq(userPointsLedgers.userId, userId));
@@ -120,7 +128,32 @@ export async function getUserPointsBalance(userId: string) {
     .where(eq(userPointsLedgers.userId, userId))
     .limit(1);
 
-  return ledger.length > 0 ? ledger[0].pointsBalance : 0n;
+  return BigInt(ledger.length > 0 ? ledger[0].pointsBalance ?? 0 : 0);
+}
+
+/**
+ * Points the user can spend or transfer: balance minus points locked as
+ * challenge stakes
+ */
+export async function getAvailablePointsBalance(userId: string) {
+  const ledger = await db
+    .select()
+    .from(userPointsLedgers)
+    .where(eq(userPointsLedgers.userId, userId))
+    .limit(1);
+
+  if (ledger.length === 0) {
+    return BigInt(0);
+  }
+  return availablePoints(ledger[0].pointsBalance, ledger[0].pointsLockedInEscrow);
+}
+
+export function availablePoints(
+  balance: bigint | number | string | null,
+  locked: bigint | number | string | null
+): bigint {
+  const available = BigInt(balance ?? 0) - BigInt(locked ?? 0);
+  return available > BigInt(0) ? available : BigInt(0);
 }
 
 // ============================================================================
@@ -262,7 +295,7 @@ export async function recordContractDeployment(
  */
 export async function getContractByName(
   contractName: string,
-  chainId: number = 84532
+  chainId: number = getDefaultChainId()
 ) {
   const contracts = await db
     .select()
@@ -282,7 +315,7 @@ export async function getContractByName(
 /**
  * Get all deployed contracts
  */
-export async function getDeployedContracts(chainId: number = 84532) {
+export async function getDeployedContracts(chainId: number = getDefaultChainId()) {
   return db
     .select()
     .from(contractDeployments)
@@ -390,7 +423,7 @@ export async function addUserWallet(
  */
 export async function getUserWallets(
   userId: string,
-  chainId: number = 84532
+  chainId: number = getDefaultChainId()
 ) {
   return db
     .select()
@@ -404,12 +437,30 @@ export async function getUserWallets(
     .orderBy(desc(userWalletAddresses.connectedAt));
 }
 
+/**
+ * Get one of a user's wallets by id
+ */
+export async function getUserWallet(walletId: number, userId: string) {
+  const wallets = await db
+    .select()
+    .from(userWalletAddresses)
+    .where(
+      and(
+        eq(userWalletAddresses.id, walletId),
+        eq(userWalletAddresses.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return wallets.length > 0 ? wallets[0] : null;
+}
+
 /**
  * Get user's primary wallet
  */
 export async function getUserPrimaryWallet(
   userId: string,
-  chainId: number = 84532
+  chainId: number = getDefaultChainId()
 ) {
   const wallets = await db
     .select()
@@ -432,7 +483,7 @@ export async function getUserPrimaryWallet(
 export async function setPrimaryWallet(
   walletId: number,
   userId: string,
-  chainId: number = 84532
+  chainId: number = getDefaultChainId()
 ) {
   // First, remove primary flag from all user wallets on this chain
   await db
@@ -503,7 +554,7 @@ export async function getPointsStatistics() {
 /**
  * Get blockchain transaction statistics
  */
-export async function getBlockchainTransactionStats(chainId: number = 84532) {
+export async function getBlockchainTransactionStats(chainId: number = getDefaultChainId()) {
   const stats = await db
     .select({
       totalTransactions: () => db.count(),
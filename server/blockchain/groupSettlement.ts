@@ -0,0 +1,208 @@
+/**
+ * Group Settlement - Mirror ChallengeFactory group payouts into payout_jobs
+ *
+ * Group challenges resolve by winning side. Each winner claims their stake plus
+ * a pro-rata share of the losing pool minus the platform fee; a draw,
+ * cancellation or empty winning side refunds every stake. The contract pays
+ * on claimStake, so payout_entries start pending and complete as StakeClaimed
+ * events are indexed.
+ *
+ * Amounts are token base units, as in challenge_escrow_records.
+ */
+
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { payoutEntries, payoutJobs, type PayoutJob } from '../../shared/schema';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const ZERO = BigInt(0);
+
+export type GroupSettlementOutcome = 'YES' | 'NO' | 'DRAW';
+
+// ChallengeFactory.GroupOutcome (0 = NONE)
+export const GROUP_OUTCOME_BY_INDEX: Record<number, GroupSettlementOutcome> = { 1: 'YES', 2: 'NO', 3: 'DRAW' };
+
+export interface GroupStake {
+  userId: string;
+  side: string | null;   // YES or NO
+  amount: bigint;
+}
+
+export interface GroupEntitlement {
+  userId: string;
+  stake: bigint;
+  amount: bigint;
+}
+
+export interface GroupSettlementResult {
+  refund: boolean;
+  winningPool: bigint;
+  losingPool: bigint;
+  platformFee: bigint;
+  entitlements: GroupEntitlement[];
+}
+
+/**
+ * Same arithmetic as ChallengeFactory._claimGroupStake, with the platform fee
+ * taken from GroupChallengeResolved. Shares round down and the last winner
+ * (in join order here; in claim order on-chain) takes the remainder, so
+ * payouts plus fee always equal the pool.
+ */
+export function computeGroupEntitlements(
+  stakes: GroupStake[],
+  outcome: GroupSettlementOutcome | 'CANCELLED',
+  platformFee: bigint
+): GroupSettlementResult {
+  const winners = stakes.filter((s) => s.side === outcome);
+  const winningPool = winners.reduce((sum, s) => sum + s.amount, ZERO);
+  const losingPool = stakes.reduce((sum, s) => sum + s.amount, ZERO) - winningPool;
+
+  if (outcome === 'DRAW' || outcome === 'CANCELLED' || winningPool === ZERO) {
+    return {
+      refund: true,
+      winningPool: ZERO,
+      losingPool: ZERO,
+      platformFee: ZERO,
+      entitlements: stakes.map((s) => ({ userId: s.userId, stake: s.amount, amount: s.amount })),
+    };
+  }
+
+  const distributable = losingPool - platformFee;
+
+  let remaining = winningPool + distributable;
+  const entitlements = winners.map((s, i) => {
+    const amount = i === winners.length - 1 ? remaining : s.amount + (distributable * s.amount) / winningPool;
+    remaining -= amount;
+    return { userId: s.userId, stake: s.amount, amount };
+  });
+
+  return { refund: false, winningPool, losingPool, platformFee, entitlements };
+}
+
+/**
+ * Replace the challenge's payout job with the computed entitlements
+ */
+export async function mirrorGroupSettlement(
+  tx: Tx,
+  challengeId: number,
+  settlement: GroupSettlementResult
+): Promise<PayoutJob> {
+  await deletePayoutJobs(tx, [challengeId]);
+
+  const [job] = await tx
+    .insert(payoutJobs)
+    .values({
+      challengeId,
+      totalWinners: settlement.entitlements.length,
+      totalPool: (settlement.refund
+        ? settlement.entitlements.reduce((sum, e) => sum + e.stake, ZERO)
+        : settlement.winningPool + settlement.losingPool
+      ).toString(),
+      platformFee: settlement.platformFee.toString(),
+      status: settlement.entitlements.length > 0 ? 'queued' : 'completed',
+      completedAt: settlement.entitlements.length > 0 ? null : new Date(),
+    })
+    .returning();
+
+  if (settlement.entitlements.length > 0) {
+    await tx.insert(payoutEntries).values(
+      settlement.entitlements.map((e) => ({
+        jobId: job.id,
+        userId: e.userId,
+        amount: e.amount.toString(),
+        status: 'pending',
+      }))
+    );
+  }
+
+  return job;
+}
+
+/**
+ * Mark a user's entry paid with the amount actually claimed on-chain.
+ * Returns the updated job, or null when the challenge has no payout job.
+ */
+export async function recordPayoutClaim(
+  tx: Tx,
+  challengeId: number,
+  userId: string | null,
+  amount: bigint,
+  claimedAt: Date
+): Promise<PayoutJob | null> {
+  const [job] = await tx
+    .select()
+    .from(payoutJobs)
+    .where(eq(payoutJobs.challengeId, challengeId))
+    .orderBy(desc(payoutJobs.createdAt))
+    .limit(1);
+  if (!job) return null;
+
+  if (userId) {
+    await tx
+      .update(payoutEntries)
+      .set({ status: 'completed', amount: amount.toString(), processedAt: claimedAt })
+      .where(and(eq(payoutEntries.jobId, job.id), eq(payoutEntries.userId, userId)));
+  }
+
+  return refreshJobProgress(tx, job.id);
+}
+
+/**
+ * Undo claims on an orphaned branch
+ */
+export async function revertPayoutClaims(tx: Tx, claims: Array<{ challengeId: number; userId: string }>): Promise<void> {
+  for (const claim of claims) {
+    const jobs = await tx
+      .select({ id: payoutJobs.id })
+      .from(payoutJobs)
+      .where(eq(payoutJobs.challengeId, claim.challengeId));
+
+    for (const job of jobs) {
+      await tx
+        .update(payoutEntries)
+        .set({ status: 'pending', processedAt: null })
+        .where(and(eq(payoutEntries.jobId, job.id), eq(payoutEntries.userId, claim.userId)));
+      await refreshJobProgress(tx, job.id);
+    }
+  }
+}
+
+/**
+ * Remove payout jobs (and entries) for challenges whose settlement was undone
+ */
+export async function deletePayoutJobs(tx: Tx, challengeIds: number[]): Promise<void> {
+  if (challengeIds.length === 0) return;
+
+  const jobs = await tx
+    .select({ id: payoutJobs.id })
+    .from(payoutJobs)
+    .where(inArray(payoutJobs.challengeId, challengeIds));
+  if (jobs.length === 0) return;
+
+  const jobIds = jobs.map((j) => j.id);
+  await tx.delete(payoutEntries).where(inArray(payoutEntries.jobId, jobIds));
+  await tx.delete(payoutJobs).where(inArray(payoutJobs.id, jobIds));
+}
+
+async function refreshJobProgress(tx: Tx, jobId: string): Promise<PayoutJob> {
+  const [{ processed }] = await tx
+    .select({ processed: sql<number>`count(*)::int` })
+    .from(payoutEntries)
+    .where(and(eq(payoutEntries.jobId, jobId), eq(payoutEntries.status, 'completed')));
+
+  const [job] = await tx.select().from(payoutJobs).where(eq(payoutJobs.id, jobId));
+  const done = processed >= job.totalWinners;
+
+  const [updated] = await tx
+    .update(payoutJobs)
+    .set({
+      processedWinners: processed,
+      status: done ? 'completed' : processed > 0 ? 'running' : 'queued',
+      completedAt: done ? job.completedAt ?? new Date() : null,
+    })
+    .where(eq(payoutJobs.id, jobId))
+    .returning();
+
+  return updated;
+}
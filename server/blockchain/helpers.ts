@@ -6,22 +6,24 @@
 import { ethers, Contract } from 'ethers';
 import type { Signer } from 'ethers';
 import { getBlockchainClient } from './client';
+import { getTransactionManager } from './txManager';
 
 /**
  * Helper to get challenge details
  */
-export async function getChallenge(challengeId: number) {
-  const client = getBlockchainClient();
+export async function getChallenge(challengeId: number, chainId?: number) {
+  const client = getBlockchainClient(chainId);
   try {
     const challenge = await client.challengeFactoryContract.getChallenge(challengeId);
     return {
       id: Number(challenge.id),
-      type: challenge.challengeType === 0 ? 'ADMIN' : 'P2P',
+      type: Number(challenge.challengeType) === 0 ? 'ADMIN' : 'P2P',
       creator: challenge.creator,
       participant: challenge.participant,
       stakeAmount: challenge.stakeAmount.toString(),
       paymentToken: challenge.paymentToken,
-      status: ['CREATED', 'ACTIVE', 'RESOLVED', 'CLAIMED', 'CANCELLED'][challenge.status],
+      pointsReward: challenge.pointsReward.toString(),
+      status: ['CREATED', 'ACTIVE', 'RESOLVED', 'CLAIMED', 'CANCELLED', 'PROPOSED', 'DISPUTED'][Number(challenge.status)],
       winner: challenge.winner,
       createdAt: new Date(Number(challenge.createdAt) * 1000),
       resolvedAt: challenge.resolvedAt > 0 ? new Date(Number(challenge.resolvedAt) * 1000) : null,
@@ -34,43 +36,55 @@ export async function getChallenge(challengeId: number) {
 }
 
 /**
- * Helper to create admin challenge
+ * Helper to create admin challenge (group betting pool)
+ * The factory only lets its owner open pools, so this goes out from the admin
+ * signer through the transaction manager rather than from the user's wallet
  */
 export async function createAdminChallenge(
   stakeAmount: string,
   paymentToken: string,
   metadataURI: string,
-  userSigner: Signer
+  pointsReward: number,
+  chainId?: number,
+  decimals: number = 6, // USDC/USDT; BantahPoints stakes use 18
+  dbChallengeId?: number
 ) {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(chainId);
   try {
-    const contract = client.getChallengeFactoryForUser(userSigner);
-    
+    const contract = client.challengeFactoryContract;
+
     // Convert stake amount to wei
-    const stakeWei = ethers.parseUnits(stakeAmount, 6); // USDC/USDT are 6 decimals
-    
-    const tx = await contract.createAdminChallenge(
-      stakeWei,
-      paymentToken,
-      metadataURI
+    const stakeWei = ethers.parseUnits(stakeAmount, decimals);
+
+    const manager = getTransactionManager(client.getChainId());
+    const sent = await manager.sendContractCall(
+      contract,
+      'createGroupChallenge',
+      [paymentToken, stakeWei, pointsReward, metadataURI],
+      {
+        transactionType: 'challenge_create',
+        contractName: 'ChallengeFactory',
+        parameters: { paymentToken, stakeAmount: stakeWei.toString(), pointsReward, metadataURI },
+        challengeId: dbChallengeId ?? null,
+      }
     );
+    const confirmed = await manager.wait(sent.id);
 
-    const receipt = await tx.wait();
-    
     // Extract challenge ID from event
-    const event = receipt.logs
-      .map((log: any) => {
+    const receipt = await client.getProvider().getTransactionReceipt(confirmed.transactionHash);
+    const event = (receipt?.logs ?? [])
+      .map((log) => {
         try {
           return contract.interface.parseLog(log);
         } catch {
           return null;
         }
       })
-      .find((e: any) => e?.name === 'ChallengeCreated');
+      .find((e) => e?.name === 'ChallengeCreatedGroup');
 
     return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
+      transactionHash: confirmed.transactionHash,
+      blockNumber: confirmed.blockNumber ?? receipt?.blockNumber ?? 0,
       challengeId: event ? Number(event.args.challengeId) : null,
     };
   } catch (error) {
@@ -87,12 +101,14 @@ export async function createP2PChallenge(
   stakeAmount: string,
   paymentToken: string,
   metadataURI: string,
-  userSigner: Signer
+  userSigner: Signer,
+  chainId?: number,
+  decimals: number = 6
 ) {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(chainId);
   try {
     const contract = client.getChallengeFactoryForUser(userSigner);
-    const stakeWei = ethers.parseUnits(stakeAmount, 6);
+    const stakeWei = ethers.parseUnits(stakeAmount, decimals);
 
     const tx = await contract.createP2PChallenge(
       opponent,
@@ -124,85 +140,11 @@ export async function createP2PChallenge(
   }
 }
 
-/**
- * Helper to join admin challenge
- */
-export async function joinAdminChallenge(
-  challengeId: number,
-  side: boolean, // true = YES, false = NO
-  userSigner: Signer
-) {
-  const client = getBlockchainClient();
-  try {
-    const contract = client.getChallengeFactoryForUser(userSigner);
-
-    const tx = await contract.joinAdminChallenge(challengeId, side);
-    const receipt = await tx.wait();
-
-    return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
-      side: side ? 'YES' : 'NO',
-    };
-  } catch (error) {
-    console.error(`Failed to join challenge ${challengeId}:`, error);
-    throw error;
-  }
-}
-
-/**
- * Helper to accept P2P challenge
- */
-export async function acceptP2PChallenge(
-  challengeId: number,
-  userSigner: Signer
-) {
-  const client = getBlockchainClient();
-  try {
-    const contract = client.getChallengeFactoryForUser(userSigner);
-
-    const tx = await contract.acceptP2PChallenge(challengeId);
-    const receipt = await tx.wait();
-
-    return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
-    };
-  } catch (error) {
-    console.error(`Failed to accept challenge ${challengeId}:`, error);
-    throw error;
-  }
-}
-
-/**
- * Helper to claim payout
- */
-export async function claimPayout(
-  challengeId: number,
-  userSigner: Signer
-) {
-  const client = getBlockchainClient();
-  try {
-    const contract = client.getChallengeFactoryForUser(userSigner);
-
-    const tx = await contract.claimPayout(challengeId);
-    const receipt = await tx.wait();
-
-    return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
-    };
-  } catch (error) {
-    console.error(`Failed to claim payout for challenge ${challengeId}:`, error);
-    throw error;
-  }
-}
-
 /**
  * Helper to get user's points balance
  */
-export async function getUserPointsBalance(userAddress: string): Promise<string> {
-  const client = getBlockchainClient();
+export async function getUserPointsBalance(userAddress: string, chainId?: number): Promise<string> {
+  const client = getBlockchainClient(chainId);
   try {
     const balance = await client.pointsContract.getUserPointsBalance(userAddress);
     return ethers.formatUnits(balance, 18); // BPTS is 18 decimals
@@ -217,9 +159,10 @@ export async function getUserPointsBalance(userAddress: string): Promise<string>
  */
 export async function getTokenBalance(
   tokenAddress: string,
-  userAddress: string
+  userAddress: string,
+  chainId?: number
 ): Promise<string> {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(chainId);
   try {
     const token = new Contract(
       tokenAddress,
@@ -264,13 +207,13 @@ export async function approveToken(
 /**
  * Helper to get challenge participants
  */
-export async function getChallengeParticipants(challengeId: number) {
-  const client = getBlockchainClient();
+export async function getChallengeParticipants(challengeId: number, chainId?: number) {
+  const client = getBlockchainClient(chainId);
   try {
-    const [yesParticipants, noParticipants] = await Promise.all([
-      client.challengeFactoryContract.getYesParticipants(challengeId),
-      client.challengeFactoryContract.getNoParticipants(challengeId),
-    ]);
+    const participants: Array<{ user: string; side: boolean }> =
+      await client.challengeFactoryContract.getGroupParticipants(challengeId);
+    const yesParticipants = participants.filter((p) => p.side).map((p) => p.user);
+    const noParticipants = participants.filter((p) => !p.side).map((p) => p.user);
 
     return {
       yes: yesParticipants,
@@ -286,8 +229,8 @@ export async function getChallengeParticipants(challengeId: number) {
 /**
  * Helper to get user's locked stakes
  */
-export async function getUserLockedStakes(userAddress: string): Promise<string> {
-  const client = getBlockchainClient();
+export async function getUserLockedStakes(userAddress: string, chainId?: number): Promise<string> {
+  const client = getBlockchainClient(chainId);
   try {
     const stakes = await client.challengeFactoryContract.getUserLockedStakes(userAddress);
     return ethers.formatUnits(stakes, 6); // USDC/USDT are 6 decimals
@@ -304,9 +247,10 @@ export async function estimateGasForChallenge(
   stakeAmount: string,
   paymentToken: string,
   metadataURI: string,
-  userAddress: string
+  userAddress: string,
+  chainId?: number
 ): Promise<string> {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(chainId);
   try {
     const stakeWei = ethers.parseUnits(stakeAmount, 6);
     
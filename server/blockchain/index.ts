@@ -7,9 +7,28 @@
 export { 
   initBlockchainClient, 
   getBlockchainClient, 
+  getBlockchainClients,
+  hasBlockchainClient,
+  resetBlockchainClients,
   type BlockchainConfig 
 } from './client';
 
+// Chain registry
+export {
+  getDefaultChainId,
+  getEnabledChains,
+  getChainConfig,
+  isChainEnabled,
+  findChainToken,
+  getPointsStakeToken,
+  isPointsToken,
+  POINTS_TOKEN_SYMBOL,
+  getExplorerTxUrl,
+  getExplorerAddressUrl,
+  type ChainConfig,
+  type ChainToken,
+} from './chains';
+
 // Initialization
 export { 
   initializeBlockchain, 
@@ -21,9 +40,6 @@ export {
   getChallenge,
   createAdminChallenge,
   createP2PChallenge,
-  joinAdminChallenge,
-  acceptP2PChallenge,
-  claimPayout,
   getUserPointsBalance,
   getTokenBalance,
   approveToken,
@@ -41,5 +57,53 @@ export {
   getSigningStats,
 } from './signing';
 
+// Gasless relaying (ERC-2771 forwarder + permits)
+export {
+  RelayerService,
+  RelayerError,
+  relayerService,
+  type RelayInput,
+  type PreparedRelay,
+} from './relayer';
+
+// Wallet ownership proofs (Sign-In with Ethereum)
+export {
+  WalletOwnershipService,
+  WalletOwnershipError,
+  walletOwnershipService,
+  assertVerifiedPayoutWallet,
+  buildSiweMessage,
+  parseSiweMessage,
+} from './walletOwnership';
+
+// Outbound admin-signer transactions (nonces, fee bumps, confirmations)
+export {
+  TransactionManager,
+  TxManagerError,
+  getTransactionManager,
+  transactionMonitor,
+  decodeRevertReason,
+  type OutboundCall,
+} from './txManager';
+
+// Optimistic resolution (dispute window, bonds, admin rulings)
+export {
+  ResolutionError,
+  getResolutionProposal,
+  finalizeResolutionOnChain,
+  ruleOnDisputeOnChain,
+  resolutionFinalizer,
+  type OnChainResolutionProposal,
+  type ResolutionProposalRecord,
+} from './optimisticResolution';
+
+// On-chain event indexer
+export {
+  ChainIndexer,
+  createChainIndexer,
+  createChainIndexers,
+  type ChainIndexerConfig,
+} from './indexer';
+
 // Re-export ethers for convenience
 export { ethers, type Signer } from './client';
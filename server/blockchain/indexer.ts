@@ -0,0 +1,1188 @@
+/**
+ * Chain Indexer - Reconcile on-chain events into Postgres
+ * Follows ChallengeFactory, ChallengeEscrow, BantahPoints and PointsEscrow logs so state
+ * changed outside our API (direct claimStake, wallet-side acceptP2PChallenge,
+ * reverted txs) still reaches the database.
+ *
+ * Each pass:
+ * 1. Checks the last checkpoint hash against the chain; on a reorg, finds the
+ *    common ancestor from stored block hashes and rolls derived rows back
+ * 2. Pulls logs up to `head - confirmations` in batches and applies them per tx
+ *    (blockchain_transactions, challenge_escrow_records, points ledgers, and
+ *    payout_jobs for group settlements)
+ * 3. Marks pending blockchain_transactions that reverted as failed
+ *
+ * The provider is injected, so the indexer runs the same against Base,
+ * a local Anvil/Hardhat node, or a test double.
+ */
+
+import { ethers } from 'ethers';
+import { and, desc, eq, gt, inArray, isNotNull, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { challenges } from '../../shared/schema';
+import {
+  blockchainTransactions,
+  chainIndexerBlocks,
+  chainIndexerCheckpoints,
+  challengeEscrowRecords,
+  pointsTransactions,
+  userPointsLedgers,
+  userWalletAddresses,
+} from '../../shared/schema-blockchain';
+import { ensureUserPointsLedger, getContractByName, updateUserPointsBalance } from './db-utils';
+import { getChainConfig, getDefaultChainId, getEnabledChains } from './chains';
+import type { ResolutionProposalRecord } from './optimisticResolution';
+import {
+  GROUP_OUTCOME_BY_INDEX,
+  computeGroupEntitlements,
+  deletePayoutJobs,
+  mirrorGroupSettlement,
+  recordPayoutClaim,
+  revertPayoutClaims,
+} from './groupSettlement';
+
+export const INDEXER_EVENTS_ABI = [
+  'event ChallengeCreatedGroup(uint256 indexed challengeId, address indexed creator, address indexed paymentToken, uint256 stakeAmount, uint256 pointsReward)',
+  'event ChallengeCreatedP2P(uint256 indexed challengeId, address indexed creator, address indexed participant, address paymentToken, uint256 stakeAmount, uint256 pointsReward)',
+  'event ChallengeResolved(uint256 indexed challengeId, address indexed winner, address indexed paymentToken, uint256 stakeAmount, uint256 pointsAwarded)',
+  'event GroupChallengeJoined(uint256 indexed challengeId, address indexed user, bool side, uint256 stakeAmount)',
+  'event GroupChallengeResolved(uint256 indexed challengeId, uint8 outcome, uint256 winningPool, uint256 losingPool, uint256 platformFee, bool refund)',
+  'event ChallengeCancelled(uint256 indexed challengeId)',
+  'event StakeClaimed(uint256 indexed challengeId, address indexed user, address indexed paymentToken, uint256 amount)',
+  'event StakeLocked(address indexed user, address indexed token, uint256 amount, uint256 indexed challengeId)',
+  'event PointsAwarded(address indexed user, uint256 amount, uint256 indexed challengeId, string reason)',
+  'event ResolutionProposed(uint256 indexed challengeId, address winner, uint8 outcome, uint256 pointsAwarded, uint256 disputeDeadline)',
+  'event ResolutionDisputed(uint256 indexed challengeId, address indexed disputer, uint256 bond)',
+  'event DisputeRuled(uint256 indexed challengeId, bool upheld, address winner, uint8 outcome, uint256 bondReturned)',
+  'event PointsLocked(address indexed user, uint256 amount, uint256 indexed challengeId, string reason)',
+  'event PointsSettled(address indexed user, uint256 locked, uint256 payout, uint256 indexed challengeId)',
+];
+
+// PointsAwarded reason for BantahPoints stake payouts (PointsEscrow.STAKE_PAYOUT_REASON);
+// the PointsSettled in the same tx records them
+export const STAKE_PAYOUT_REASON = 'challenge_stake_payout';
+
+// Points transactions the indexer derives from chain events (undone on reorg)
+const INDEXED_POINTS_TYPES = ['earned_challenge', 'locked_escrow', 'settled_escrow', 'transferred_escrow'];
+
+export const INDEXER_TICK_MS = 15 * 1000;
+
+// Pending txs younger than this are left to the route that submitted them
+const PENDING_TX_GRACE_MS = 60 * 1000;
+
+type IndexedEventName =
+  | 'ChallengeCreatedGroup'
+  | 'ChallengeCreatedP2P'
+  | 'ChallengeResolved'
+  | 'GroupChallengeJoined'
+  | 'GroupChallengeResolved'
+  | 'ChallengeCancelled'
+  | 'StakeClaimed'
+  | 'StakeLocked'
+  | 'PointsAwarded'
+  | 'ResolutionProposed'
+  | 'ResolutionDisputed'
+  | 'DisputeRuled'
+  | 'PointsLocked'
+  | 'PointsSettled';
+
+type EventSource = 'factory' | 'escrow' | 'points' | 'pointsEscrow';
+
+// Which contract may emit each event (anything else is ignored)
+const EVENT_SOURCE: Record<IndexedEventName, EventSource> = {
+  ChallengeCreatedGroup: 'factory',
+  ChallengeCreatedP2P: 'factory',
+  ChallengeResolved: 'factory',
+  GroupChallengeJoined: 'factory',
+  GroupChallengeResolved: 'factory',
+  ChallengeCancelled: 'factory',
+  StakeClaimed: 'factory',
+  StakeLocked: 'escrow',
+  PointsAwarded: 'points',
+  ResolutionProposed: 'factory',
+  ResolutionDisputed: 'factory',
+  DisputeRuled: 'factory',
+  PointsLocked: 'pointsEscrow',
+  PointsSettled: 'pointsEscrow',
+};
+
+const CONTRACT_NAMES: Record<EventSource, string> = {
+  factory: 'ChallengeFactory',
+  escrow: 'ChallengeEscrow',
+  points: 'BantahPoints',
+  pointsEscrow: 'PointsEscrow',
+};
+
+export interface ChainIndexerConfig {
+  indexerName: string;
+  chainId: number;
+  challengeFactoryAddress: string;
+  challengeEscrowAddress?: string;   // Read from ChallengeFactory.stakeEscrow() when omitted
+  pointsContractAddress: string;
+  pointsEscrowAddress?: string;      // Read from ChallengeFactory.pointsEscrow() when omitted
+  startBlock?: number;               // First block when there is no checkpoint
+  confirmations: number;
+  batchSize: number;                 // Max blocks per getLogs call
+  reorgDepth: number;                // Block hashes kept for reorg detection
+}
+
+export const DEFAULT_INDEXER_CONFIG = {
+  indexerName: 'challenges',
+  confirmations: 3,
+  batchSize: 2000,
+  reorgDepth: 64,
+};
+
+export interface DecodedEvent {
+  name: IndexedEventName;
+  args: ethers.Result;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface IndexerRunResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  transactions: number;
+  reorgedFrom: number | null;
+  failedTransactions: number;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Transaction type for blockchain_transactions, from the events it emitted
+ */
+export function classifyTransaction(names: IndexedEventName[]): string {
+  if (names.includes('ChallengeCreatedGroup') || names.includes('ChallengeCreatedP2P')) return 'challenge_create';
+  if (names.includes('ChallengeResolved') || names.includes('GroupChallengeResolved')) return 'challenge_resolve';
+  if (names.includes('ResolutionProposed')) return 'resolution_propose';
+  if (names.includes('ResolutionDisputed')) return 'resolution_dispute';
+  if (names.includes('ChallengeCancelled')) return 'challenge_cancel';
+  if (names.includes('StakeClaimed')) return 'payout_claim';
+  if (names.includes('GroupChallengeJoined')) return 'challenge_join';
+  if (names.includes('StakeLocked') || names.includes('PointsLocked')) return 'challenge_accept';
+  return 'points_award';
+}
+
+/**
+ * Group decoded events by transaction, in chain order
+ */
+export function groupByTransaction(events: DecodedEvent[]): DecodedEvent[][] {
+  const sorted = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const groups = new Map<string, DecodedEvent[]>();
+  for (const event of sorted) {
+    if (!groups.has(event.transactionHash)) groups.set(event.transactionHash, []);
+    groups.get(event.transactionHash)!.push(event);
+  }
+  return Array.from(groups.values());
+}
+
+export class ChainIndexer {
+  private iface = new ethers.Interface(INDEXER_EVENTS_ABI);
+  private escrowAddress: string | null;
+  private pointsEscrowAddress: string | null;
+  private walletCache = new Map<string, string | null>();
+
+  constructor(private provider: ethers.Provider, private config: ChainIndexerConfig) {
+    this.escrowAddress = config.challengeEscrowAddress || null;
+    this.pointsEscrowAddress = config.pointsEscrowAddress || null;
+  }
+
+  /**
+   * One indexing pass
+   */
+  async runOnce(): Promise<IndexerRunResult> {
+    this.walletCache.clear();
+
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.config.confirmations;
+
+    let lastProcessed = await this.getLastProcessedBlock();
+    let reorgedFrom: number | null = null;
+
+    if (lastProcessed !== null) {
+      const ancestor = await this.findCommonAncestor(lastProcessed);
+      if (ancestor < lastProcessed) {
+        console.warn(`⚠️ Chain reorg detected on ${this.config.chainId}: rolling back to block ${ancestor}`);
+        await this.rollback(ancestor);
+        reorgedFrom = ancestor + 1;
+        lastProcessed = ancestor;
+      }
+    }
+
+    const fromBlock = lastProcessed !== null ? lastProcessed + 1 : await this.getStartBlock();
+    const result: IndexerRunResult = { fromBlock, toBlock: fromBlock - 1, events: 0, transactions: 0, reorgedFrom, failedTransactions: 0 };
+
+    for (let from = fromBlock; from <= target; from += this.config.batchSize) {
+      const to = Math.min(from + this.config.batchSize - 1, target);
+      const applied = await this.indexRange(from, to);
+      result.toBlock = to;
+      result.events += applied.events;
+      result.transactions += applied.transactions;
+    }
+
+    await this.pruneBlocks();
+    result.failedTransactions = await this.reconcilePendingTransactions(target);
+
+    return result;
+  }
+
+  /**
+   * Fetch, decode and apply logs for [from, to], then advance the checkpoint
+   */
+  async indexRange(from: number, to: number): Promise<{ events: number; transactions: number }> {
+    const events = await this.fetchEvents(from, to);
+    const endBlock = await this.provider.getBlock(to);
+    if (!endBlock?.hash) {
+      throw new Error(`Block ${to} not available`);
+    }
+
+    // Blocks as of reading; a hash mismatch means a reorg mid-read
+    const blocks = new Map<number, { hash: string; time: Date }>([
+      [to, { hash: endBlock.hash, time: new Date(endBlock.timestamp * 1000) }],
+    ]);
+    for (const event of events) {
+      let block = blocks.get(event.blockNumber);
+      if (!block) {
+        const fetched = await this.provider.getBlock(event.blockNumber);
+        block = fetched?.hash ? { hash: fetched.hash, time: new Date(fetched.timestamp * 1000) } : undefined;
+        if (block) blocks.set(event.blockNumber, block);
+      }
+      if (!block || block.hash !== event.blockHash) {
+        throw new Error(`Block ${event.blockNumber} changed while indexing; retrying next pass`);
+      }
+    }
+
+    const txGroups = groupByTransaction(events);
+    const receipts = new Map<string, ethers.TransactionReceipt | null>();
+    for (const group of txGroups) {
+      const hash = group[0].transactionHash;
+      receipts.set(hash, await this.provider.getTransactionReceipt(hash));
+    }
+
+    const pointsUsers = new Set<string>();
+
+    await db.transaction(async (tx) => {
+      for (const group of txGroups) {
+        const blockTime = blocks.get(group[0].blockNumber)!.time;
+        const affected = await this.applyTransaction(tx, group, receipts.get(group[0].transactionHash) || null, blockTime);
+        affected.forEach((userId) => pointsUsers.add(userId));
+      }
+
+      for (const [blockNumber, { hash: blockHash }] of Array.from(blocks.entries())) {
+        await tx
+          .insert(chainIndexerBlocks)
+          .values({ chainId: this.config.chainId, indexerName: this.config.indexerName, blockNumber, blockHash })
+          .onConflictDoUpdate({
+            target: [chainIndexerBlocks.chainId, chainIndexerBlocks.indexerName, chainIndexerBlocks.blockNumber],
+            set: { blockHash, indexedAt: new Date() },
+          });
+      }
+
+      await this.saveCheckpoint(tx, to, endBlock.hash!);
+    });
+
+    await this.syncPointsLedgers(pointsUsers);
+
+    return { events: events.length, transactions: txGroups.length };
+  }
+
+  /**
+   * Decode logs from the four contracts, dropping events from unexpected sources
+   */
+  async fetchEvents(from: number, to: number): Promise<DecodedEvent[]> {
+    const sources = await this.getSourceAddresses();
+    const topics: string[] = [];
+    this.iface.forEachEvent((event) => topics.push(event.topicHash));
+
+    const logs = await this.provider.getLogs({
+      address: Object.values(sources).filter((address): address is string => !!address),
+      fromBlock: from,
+      toBlock: to,
+      topics: [topics],
+    });
+
+    const events: DecodedEvent[] = [];
+    for (const log of logs) {
+      const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const name = parsed.name as IndexedEventName;
+      if (log.address.toLowerCase() !== sources[EVENT_SOURCE[name]]?.toLowerCase()) continue;
+
+      events.push({
+        name,
+        args: parsed.args,
+        address: log.address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Apply all events of one transaction. Returns users whose points ledger needs a resync.
+   */
+  private async applyTransaction(
+    tx: Tx,
+    events: DecodedEvent[],
+    receipt: ethers.TransactionReceipt | null,
+    blockTime: Date
+  ): Promise<string[]> {
+    const { transactionHash, blockNumber } = events[0];
+
+    let dbChallengeId: number | null = null;
+    let actorUserId: string | null = null;
+    const pointsUsers: string[] = [];
+
+    // The escrow locks the creator's stake before the factory emits ChallengeCreated*,
+    // so link the challenge first
+    const ordered = [
+      ...events.filter((e) => e.name === 'ChallengeCreatedGroup' || e.name === 'ChallengeCreatedP2P'),
+      ...events.filter((e) => e.name !== 'ChallengeCreatedGroup' && e.name !== 'ChallengeCreatedP2P'),
+    ];
+
+    for (const event of ordered) {
+      const onChainId = Number(event.args.challengeId);
+
+      switch (event.name) {
+        case 'ChallengeCreatedGroup':
+        case 'ChallengeCreatedP2P': {
+          const [linked] = await tx
+            .update(challenges)
+            .set({
+              onChainChallengeId: onChainId,
+              blockchainChainId: this.config.chainId,
+              blockchainContractAddress: this.config.challengeFactoryAddress,
+              blockchainCreationTxHash: transactionHash,
+              blockchainBlockNumber: blockNumber,
+              paymentTokenAddress: event.args.paymentToken,
+              stakeAmountWei: BigInt(event.args.stakeAmount),
+              onChainStatus: event.name === 'ChallengeCreatedP2P' ? 'created' : 'active',
+            })
+            .where(
+              or(
+                eq(challenges.blockchainCreationTxHash, transactionHash),
+                and(eq(challenges.blockchainChainId, this.config.chainId), eq(challenges.onChainChallengeId, onChainId))
+              )
+            )
+            .returning({ id: challenges.id });
+          dbChallengeId = linked?.id ?? null;
+          actorUserId = await this.findUserByWallet(event.args.creator);
+          break;
+        }
+
+        case 'StakeLocked':
+        case 'PointsLocked': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.user);
+          const pointsLock = event.name === 'PointsLocked';
+          dbChallengeId = dbChallengeId ?? challenge?.id ?? null;
+          actorUserId = actorUserId ?? userId;
+
+          if (challenge && userId) {
+            const [existing] = await tx
+              .select({ id: challengeEscrowRecords.id })
+              .from(challengeEscrowRecords)
+              .where(and(eq(challengeEscrowRecords.lockTxHash, transactionHash), eq(challengeEscrowRecords.userId, userId)))
+              .limit(1);
+
+            // Amounts stay in token base units
+            if (!existing) {
+              await tx.insert(challengeEscrowRecords).values({
+                challengeId: challenge.id,
+                userId,
+                tokenAddress: pointsLock ? this.config.pointsContractAddress : event.args.token,
+                chainId: this.config.chainId,
+                amountEscrowed: event.args.amount.toString(),
+                status: 'locked',
+                lockTxHash: transactionHash,
+                lockedAt: blockTime,
+              });
+
+              // Staked points stay in the ledger balance but can't be spent
+              if (pointsLock) {
+                await tx.insert(pointsTransactions).values({
+                  userId,
+                  challengeId: challenge.id,
+                  transactionType: 'locked_escrow',
+                  amount: event.args.amount.toString(),
+                  reason: event.args.reason,
+                  blockchainTxHash: transactionHash,
+                  blockNumber,
+                  chainId: this.config.chainId,
+                });
+                pointsUsers.push(userId);
+              }
+            }
+          }
+
+          // A lock outside the creation tx is the opponent accepting a P2P challenge
+          if (challenge && !ordered.some((e) => e.name === 'ChallengeCreatedP2P') && challenge.onChainStatus === 'created') {
+            await tx.update(challenges).set({ onChainStatus: 'active' }).where(eq(challenges.id, challenge.id));
+          }
+          break;
+        }
+
+        case 'ChallengeResolved': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          dbChallengeId = challenge?.id ?? null;
+          actorUserId = await this.findUserByWallet(event.args.winner);
+
+          if (challenge) {
+            await tx
+              .update(challenges)
+              .set({
+                onChainStatus: 'resolved',
+                onChainResolved: true,
+                blockchainResolutionTxHash: transactionHash,
+                blockchainSettlementBlockNumber: blockNumber,
+                resolutionTimestamp: blockTime,
+                pointsAwarded: Number(event.args.pointsAwarded),
+                // Proposals settle here (finalize or ruling), not in the resolve route
+                ...(challenge.resolutionProposal !== null && { status: 'resolved' }),
+              })
+              .where(eq(challenges.id, challenge.id));
+
+            await tx
+              .update(challengeEscrowRecords)
+              .set({ status: 'released', releaseTxHash: transactionHash, releasedAt: blockTime })
+              .where(and(eq(challengeEscrowRecords.challengeId, challenge.id), eq(challengeEscrowRecords.status, 'locked')));
+          }
+          break;
+        }
+
+        case 'GroupChallengeJoined': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.user);
+          dbChallengeId = challenge?.id ?? null;
+          actorUserId = userId;
+
+          // The escrow's StakeLocked in this tx created the record
+          if (challenge && userId) {
+            await tx
+              .update(challengeEscrowRecords)
+              .set({ side: event.args.side ? 'YES' : 'NO' })
+              .where(and(eq(challengeEscrowRecords.lockTxHash, transactionHash), eq(challengeEscrowRecords.userId, userId)));
+          }
+          break;
+        }
+
+        case 'GroupChallengeResolved':
+        case 'ChallengeCancelled': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          dbChallengeId = challenge?.id ?? null;
+
+          if (challenge) {
+            const cancelled = event.name === 'ChallengeCancelled';
+            const outcome = cancelled ? 'CANCELLED' : GROUP_OUTCOME_BY_INDEX[Number(event.args.outcome)];
+
+            await tx
+              .update(challenges)
+              .set({
+                onChainStatus: cancelled ? 'cancelled' : 'resolved',
+                onChainResolved: !cancelled,
+                blockchainResolutionTxHash: transactionHash,
+                blockchainSettlementBlockNumber: blockNumber,
+                resolutionTimestamp: blockTime,
+                ...(!cancelled && challenge.resolutionProposal !== null && { status: 'resolved' }),
+              })
+              .where(eq(challenges.id, challenge.id));
+
+            const stakes = await tx
+              .select()
+              .from(challengeEscrowRecords)
+              .where(and(eq(challengeEscrowRecords.challengeId, challenge.id), eq(challengeEscrowRecords.status, 'locked')))
+              .orderBy(challengeEscrowRecords.id);
+
+            const settlement = computeGroupEntitlements(
+              stakes.map((s) => ({ userId: s.userId, side: s.side, amount: BigInt(s.amountEscrowed) })),
+              outcome,
+              cancelled ? BigInt(0) : BigInt(event.args.platformFee)
+            );
+            await mirrorGroupSettlement(tx, challenge.id, settlement);
+
+            // Losing stakes are settled now; winners and refunds stay locked until claimed
+            const entitled = new Set(settlement.entitlements.map((e) => e.userId));
+            const losers = stakes.filter((s) => !entitled.has(s.userId)).map((s) => s.id);
+            if (losers.length > 0) {
+              await tx
+                .update(challengeEscrowRecords)
+                .set({ status: 'released', releaseTxHash: transactionHash, releasedAt: blockTime })
+                .where(inArray(challengeEscrowRecords.id, losers));
+            }
+          }
+          break;
+        }
+
+        case 'StakeClaimed': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.user);
+          dbChallengeId = challenge?.id ?? null;
+          actorUserId = userId;
+
+          if (challenge) {
+            // Group challenges are claimed once every entitled participant has claimed
+            const job = await recordPayoutClaim(tx, challenge.id, userId, BigInt(event.args.amount), blockTime);
+            await tx
+              .update(challenges)
+              .set({
+                ...((!job || job.status === 'completed') && { onChainStatus: 'claimed' }),
+                blockchainPayoutTxHash: transactionHash,
+              })
+              .where(eq(challenges.id, challenge.id));
+          }
+
+          if (challenge && userId) {
+            await tx
+              .update(challengeEscrowRecords)
+              .set({
+                status: 'claimed',
+                amountClaimed: event.args.amount.toString(),
+                claimTxHash: transactionHash,
+                claimedAt: blockTime,
+              })
+              .where(and(eq(challengeEscrowRecords.challengeId, challenge.id), eq(challengeEscrowRecords.userId, userId)));
+          }
+          break;
+        }
+
+        case 'ResolutionProposed': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          dbChallengeId = challenge?.id ?? null;
+
+          if (challenge) {
+            const proposal: ResolutionProposalRecord = {
+              winner: event.args.winner === ethers.ZeroAddress ? null : event.args.winner,
+              outcome: GROUP_OUTCOME_BY_INDEX[Number(event.args.outcome)] ?? null,
+              pointsAwarded: Number(event.args.pointsAwarded),
+              proposalTxHash: transactionHash,
+              proposedAt: blockTime.toISOString(),
+            };
+            await tx
+              .update(challenges)
+              .set({
+                onChainStatus: 'proposed',
+                resolutionProposal: proposal,
+                disputeDeadline: new Date(Number(event.args.disputeDeadline) * 1000),
+              })
+              .where(eq(challenges.id, challenge.id));
+          }
+          break;
+        }
+
+        case 'ResolutionDisputed': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.disputer);
+          dbChallengeId = challenge?.id ?? null;
+          actorUserId = userId;
+
+          if (challenge) {
+            await tx
+              .update(challenges)
+              .set({
+                onChainStatus: 'disputed',
+                resolutionProposal: {
+                  ...(challenge.resolutionProposal as ResolutionProposalRecord),
+                  disputer: event.args.disputer,
+                  disputerUserId: userId,
+                  bond: event.args.bond.toString(),
+                  disputeTxHash: transactionHash,
+                  disputedAt: blockTime.toISOString(),
+                },
+              })
+              .where(eq(challenges.id, challenge.id));
+          }
+          break;
+        }
+
+        case 'DisputeRuled': {
+          // The ChallengeResolved/GroupChallengeResolved in this tx settles the challenge
+          const challenge = await this.findChallenge(tx, onChainId);
+          dbChallengeId = challenge?.id ?? null;
+
+          if (challenge) {
+            await tx
+              .update(challenges)
+              .set({
+                resolutionProposal: {
+                  ...(challenge.resolutionProposal as ResolutionProposalRecord),
+                  ruling: {
+                    upheld: Boolean(event.args.upheld),
+                    winner: event.args.winner === ethers.ZeroAddress ? null : event.args.winner,
+                    outcome: GROUP_OUTCOME_BY_INDEX[Number(event.args.outcome)] ?? null,
+                    bondReturned: event.args.bondReturned.toString(),
+                    txHash: transactionHash,
+                    ruledAt: blockTime.toISOString(),
+                  },
+                },
+              })
+              .where(eq(challenges.id, challenge.id));
+          }
+          break;
+        }
+
+        case 'PointsSettled': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.user);
+          dbChallengeId = dbChallengeId ?? challenge?.id ?? null;
+
+          if (userId) {
+            const [existing] = await tx
+              .select({ id: pointsTransactions.id })
+              .from(pointsTransactions)
+              .where(
+                and(
+                  eq(pointsTransactions.blockchainTxHash, transactionHash),
+                  eq(pointsTransactions.userId, userId),
+                  eq(pointsTransactions.transactionType, 'settled_escrow')
+                )
+              )
+              .limit(1);
+
+            // The stake leaves the balance and the payout (if any) comes back in
+            if (!existing) {
+              const base = {
+                userId,
+                challengeId: challenge?.id ?? null,
+                blockchainTxHash: transactionHash,
+                blockNumber,
+                chainId: this.config.chainId,
+              };
+              await tx.insert(pointsTransactions).values({
+                ...base,
+                transactionType: 'settled_escrow',
+                amount: event.args.locked.toString(),
+                reason: 'Challenge stake settled',
+              });
+              if (BigInt(event.args.payout) > BigInt(0)) {
+                await tx.insert(pointsTransactions).values({
+                  ...base,
+                  transactionType: 'transferred_escrow',
+                  amount: event.args.payout.toString(),
+                  reason: STAKE_PAYOUT_REASON,
+                });
+              }
+            }
+            pointsUsers.push(userId);
+          }
+          break;
+        }
+
+        case 'PointsAwarded': {
+          const challenge = await this.findChallenge(tx, onChainId);
+          const userId = await this.findUserByWallet(event.args.user);
+          dbChallengeId = dbChallengeId ?? challenge?.id ?? null;
+          actorUserId = actorUserId ?? userId;
+
+          // Stake payouts are recorded from PointsSettled
+          if (userId && event.args.reason !== STAKE_PAYOUT_REASON) {
+            // The resolve route may already have recorded this award
+            const [existing] = await tx
+              .select({ id: pointsTransactions.id })
+              .from(pointsTransactions)
+              .where(
+                and(
+                  eq(pointsTransactions.blockchainTxHash, transactionHash),
+                  eq(pointsTransactions.userId, userId),
+                  eq(pointsTransactions.transactionType, 'earned_challenge')
+                )
+              )
+              .limit(1);
+
+            if (existing) {
+              await tx
+                .update(pointsTransactions)
+                .set({ blockNumber, chainId: this.config.chainId })
+                .where(eq(pointsTransactions.id, existing.id));
+            } else {
+              await tx.insert(pointsTransactions).values({
+                userId,
+                challengeId: challenge?.id ?? null,
+                transactionType: 'earned_challenge',
+                amount: event.args.amount.toString(),
+                reason: event.args.reason,
+                blockchainTxHash: transactionHash,
+                blockNumber,
+                chainId: this.config.chainId,
+              });
+            }
+            pointsUsers.push(userId);
+          }
+          break;
+        }
+      }
+    }
+
+    const source = EVENT_SOURCE[ordered[0].name];
+    const transactionType = classifyTransaction(events.map((e) => e.name));
+
+    await tx
+      .insert(blockchainTransactions)
+      .values({
+        chainId: this.config.chainId,
+        transactionHash,
+        blockNumber,
+        transactionType,
+        contractAddress: ordered[0].address,
+        contractName: CONTRACT_NAMES[source],
+        fromAddress: receipt?.from || ordered[0].address,
+        toAddress: receipt?.to || null,
+        status: 'success',
+        gasUsed: receipt ? Number(receipt.gasUsed) : null,
+        gasPrice: receipt ? Number(receipt.gasPrice) : null,
+        challengeId: dbChallengeId,
+        userId: actorUserId,
+        metadata: JSON.stringify({
+          indexed: true,
+          events: events.map((e) => e.name),
+          onChainChallengeId: Number(ordered[0].args.challengeId),
+        }),
+        confirmedAt: blockTime,
+      })
+      .onConflictDoUpdate({
+        target: blockchainTransactions.transactionHash,
+        set: {
+          status: 'success',
+          blockNumber,
+          errorMessage: null,
+          confirmedAt: blockTime,
+          ...(receipt && { gasUsed: Number(receipt.gasUsed) }),
+          ...(dbChallengeId !== null && { challengeId: dbChallengeId }),
+        },
+      });
+
+    return pointsUsers;
+  }
+
+  /**
+   * Undo everything derived from blocks after `ancestor`
+   */
+  async rollback(ancestor: number): Promise<void> {
+    const pointsUsers = new Set<string>();
+
+    await db.transaction(async (tx) => {
+      const orphaned = await tx
+        .select({
+          hash: blockchainTransactions.transactionHash,
+          transactionType: blockchainTransactions.transactionType,
+          challengeId: blockchainTransactions.challengeId,
+        })
+        .from(blockchainTransactions)
+        .where(and(eq(blockchainTransactions.chainId, this.config.chainId), gt(blockchainTransactions.blockNumber, ancestor)));
+      const hashes = orphaned.map((row) => row.hash);
+
+      // P2P accepts on the orphaned branch no longer happened
+      const acceptedChallengeIds = orphaned
+        .filter((row) => row.transactionType === 'challenge_accept' && row.challengeId !== null)
+        .map((row) => row.challengeId!);
+
+      if (hashes.length > 0) {
+        // Claims, then releases, then locks — the reverse of how they were applied
+        const orphanedClaims = await tx
+          .select({ challengeId: challengeEscrowRecords.challengeId, userId: challengeEscrowRecords.userId })
+          .from(challengeEscrowRecords)
+          .where(inArray(challengeEscrowRecords.claimTxHash, hashes));
+        await revertPayoutClaims(tx, orphanedClaims);
+
+        const unsettled = await tx
+          .select({ id: challenges.id })
+          .from(challenges)
+          .where(inArray(challenges.blockchainResolutionTxHash, hashes));
+        await deletePayoutJobs(tx, unsettled.map((c) => c.id));
+
+        await tx
+          .update(challengeEscrowRecords)
+          .set({ status: 'released', claimTxHash: null, claimedAt: null, amountClaimed: '0' })
+          .where(inArray(challengeEscrowRecords.claimTxHash, hashes));
+        await tx
+          .update(challengeEscrowRecords)
+          .set({ status: 'locked', releaseTxHash: null, releasedAt: null })
+          .where(inArray(challengeEscrowRecords.releaseTxHash, hashes));
+        await tx.delete(challengeEscrowRecords).where(inArray(challengeEscrowRecords.lockTxHash, hashes));
+
+        await tx
+          .update(challenges)
+          .set({ onChainStatus: 'resolved', blockchainPayoutTxHash: null })
+          .where(inArray(challenges.blockchainPayoutTxHash, hashes));
+        await tx
+          .update(challenges)
+          .set({
+            onChainStatus: 'active',
+            onChainResolved: false,
+            blockchainResolutionTxHash: null,
+            blockchainSettlementBlockNumber: null,
+            resolutionTimestamp: null,
+          })
+          .where(inArray(challenges.blockchainResolutionTxHash, hashes));
+        // A finalized or ruled proposal goes back to awaiting finalize/ruling, then
+        // orphaned rulings, disputes and proposals are undone in reverse order
+        if (unsettled.length > 0) {
+          await tx
+            .update(challenges)
+            .set({
+              onChainStatus: sql`CASE WHEN ${challenges.resolutionProposal} ? 'disputeTxHash' THEN 'disputed' ELSE 'proposed' END`,
+            })
+            .where(and(inArray(challenges.id, unsettled.map((c) => c.id)), isNotNull(challenges.resolutionProposal)));
+        }
+        await tx
+          .update(challenges)
+          .set({ resolutionProposal: sql`${challenges.resolutionProposal} - 'ruling'` })
+          .where(inArray(sql`${challenges.resolutionProposal} -> 'ruling' ->> 'txHash'`, hashes));
+        await tx
+          .update(challenges)
+          .set({
+            onChainStatus: 'proposed',
+            resolutionProposal: sql`${challenges.resolutionProposal} - 'disputer' - 'disputerUserId' - 'bond' - 'disputeTxHash' - 'disputedAt'`,
+          })
+          .where(inArray(sql`${challenges.resolutionProposal} ->> 'disputeTxHash'`, hashes));
+        await tx
+          .update(challenges)
+          .set({ onChainStatus: 'active', resolutionProposal: null, disputeDeadline: null })
+          .where(inArray(sql`${challenges.resolutionProposal} ->> 'proposalTxHash'`, hashes));
+        await tx
+          .update(challenges)
+          .set({ onChainChallengeId: null, blockchainBlockNumber: null, onChainStatus: 'pending' })
+          .where(inArray(challenges.blockchainCreationTxHash, hashes));
+        if (acceptedChallengeIds.length > 0) {
+          await tx
+            .update(challenges)
+            .set({ onChainStatus: 'created' })
+            .where(and(inArray(challenges.id, acceptedChallengeIds), eq(challenges.onChainStatus, 'active')));
+        }
+
+        const removedPoints = await tx
+          .delete(pointsTransactions)
+          .where(
+            and(
+              inArray(pointsTransactions.blockchainTxHash, hashes),
+              inArray(pointsTransactions.transactionType, INDEXED_POINTS_TYPES)
+            )
+          )
+          .returning({ userId: pointsTransactions.userId });
+        removedPoints.forEach((row) => pointsUsers.add(row.userId));
+
+        // The tx may be mined again on the new branch
+        await tx
+          .update(blockchainTransactions)
+          .set({ status: 'pending', blockNumber: null, confirmedAt: null })
+          .where(inArray(blockchainTransactions.transactionHash, hashes));
+      }
+
+      await tx
+        .delete(chainIndexerBlocks)
+        .where(
+          and(
+            eq(chainIndexerBlocks.chainId, this.config.chainId),
+            eq(chainIndexerBlocks.indexerName, this.config.indexerName),
+            gt(chainIndexerBlocks.blockNumber, ancestor)
+          )
+        );
+
+      const [ancestorBlock] = await tx
+        .select({ blockHash: chainIndexerBlocks.blockHash })
+        .from(chainIndexerBlocks)
+        .where(
+          and(
+            eq(chainIndexerBlocks.chainId, this.config.chainId),
+            eq(chainIndexerBlocks.indexerName, this.config.indexerName),
+            eq(chainIndexerBlocks.blockNumber, ancestor)
+          )
+        );
+
+      await this.saveCheckpoint(tx, ancestor, ancestorBlock?.blockHash ?? null);
+    });
+
+    await this.syncPointsLedgers(pointsUsers);
+  }
+
+  /**
+   * Highest stored block whose hash still matches the chain. Block hashes
+   * commit to their parents, so everything at or below it is unchanged.
+   */
+  async findCommonAncestor(lastProcessed: number): Promise<number> {
+    const stored = await db
+      .select({ blockNumber: chainIndexerBlocks.blockNumber, blockHash: chainIndexerBlocks.blockHash })
+      .from(chainIndexerBlocks)
+      .where(
+        and(
+          eq(chainIndexerBlocks.chainId, this.config.chainId),
+          eq(chainIndexerBlocks.indexerName, this.config.indexerName),
+          lte(chainIndexerBlocks.blockNumber, lastProcessed)
+        )
+      )
+      .orderBy(desc(chainIndexerBlocks.blockNumber))
+      .limit(this.config.reorgDepth);
+
+    if (stored.length === 0) {
+      return lastProcessed;
+    }
+
+    for (const row of stored) {
+      const block = await this.provider.getBlock(row.blockNumber);
+      if (block?.hash === row.blockHash) {
+        return row.blockNumber;
+      }
+    }
+
+    // Deeper than we keep hashes for: re-index the whole window
+    console.error(`❌ Reorg deeper than ${this.config.reorgDepth} stored blocks on chain ${this.config.chainId}`);
+    return stored[stored.length - 1].blockNumber - 1;
+  }
+
+  /**
+   * Mark submitted txs that reverted (or were confirmed without indexed events)
+   */
+  async reconcilePendingTransactions(confirmedBlock: number): Promise<number> {
+    const pending = await db
+      .select({ id: blockchainTransactions.id, hash: blockchainTransactions.transactionHash })
+      .from(blockchainTransactions)
+      .where(
+        and(
+          eq(blockchainTransactions.chainId, this.config.chainId),
+          eq(blockchainTransactions.status, 'pending'),
+          lte(blockchainTransactions.submittedAt, new Date(Date.now() - PENDING_TX_GRACE_MS))
+        )
+      )
+      .limit(100);
+
+    let failed = 0;
+    for (const row of pending) {
+      const receipt = await this.provider.getTransactionReceipt(row.hash);
+      if (!receipt || receipt.blockNumber > confirmedBlock) continue;
+
+      const reverted = receipt.status === 0;
+      await db
+        .update(blockchainTransactions)
+        .set({
+          status: reverted ? 'failed' : 'success',
+          blockNumber: receipt.blockNumber,
+          gasUsed: Number(receipt.gasUsed),
+          errorMessage: reverted ? 'Transaction reverted' : null,
+          confirmedAt: new Date(),
+        })
+        .where(eq(blockchainTransactions.id, row.id));
+
+      if (reverted) {
+        failed++;
+        await db
+          .update(challenges)
+          .set({ onChainStatus: 'failed' })
+          .where(and(eq(challenges.blockchainCreationTxHash, row.hash), isNull(challenges.onChainChallengeId)));
+      }
+    }
+
+    return failed;
+  }
+
+  start(intervalMs: number = INDEXER_TICK_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        const result = await this.runOnce();
+        if (result.events > 0 || result.reorgedFrom !== null) {
+          console.log(
+            `⛓️  Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events in ${result.transactions} txs`
+          );
+        }
+      } catch (error) {
+        console.error('❌ Chain indexer pass failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Chain indexer running every ${Math.round(intervalMs / 1000)}s (chain ${this.config.chainId})`);
+
+    return () => clearInterval(timer);
+  }
+
+  private async getSourceAddresses(): Promise<Record<EventSource, string | null>> {
+    const factory = new ethers.Contract(
+      this.config.challengeFactoryAddress,
+      ['function stakeEscrow() view returns (address)', 'function pointsEscrow() view returns (address)'],
+      this.provider
+    );
+    if (!this.escrowAddress) {
+      this.escrowAddress = (await factory.stakeEscrow()) as string;
+    }
+    // Unset until points staking is enabled, so keep asking
+    if (!this.pointsEscrowAddress) {
+      const pointsEscrow = (await factory.pointsEscrow()) as string;
+      this.pointsEscrowAddress = pointsEscrow === ethers.ZeroAddress ? null : pointsEscrow;
+    }
+
+    return {
+      factory: this.config.challengeFactoryAddress,
+      escrow: this.escrowAddress,
+      points: this.config.pointsContractAddress,
+      pointsEscrow: this.pointsEscrowAddress,
+    };
+  }
+
+  private async getLastProcessedBlock(): Promise<number | null> {
+    const [checkpoint] = await db
+      .select({ lastProcessedBlock: chainIndexerCheckpoints.lastProcessedBlock })
+      .from(chainIndexerCheckpoints)
+      .where(
+        and(
+          eq(chainIndexerCheckpoints.chainId, this.config.chainId),
+          eq(chainIndexerCheckpoints.indexerName, this.config.indexerName)
+        )
+      );
+    return checkpoint ? checkpoint.lastProcessedBlock : null;
+  }
+
+  private async getStartBlock(): Promise<number> {
+    if (this.config.startBlock !== undefined) {
+      return this.config.startBlock;
+    }
+    const deployment = await getContractByName('ChallengeFactory', this.config.chainId);
+    return deployment?.blockNumber ?? 0;
+  }
+
+  private async saveCheckpoint(tx: Tx, blockNumber: number, blockHash: string | null): Promise<void> {
+    await tx
+      .insert(chainIndexerCheckpoints)
+      .values({
+        chainId: this.config.chainId,
+        indexerName: this.config.indexerName,
+        lastProcessedBlock: blockNumber,
+        lastProcessedHash: blockHash,
+      })
+      .onConflictDoUpdate({
+        target: [chainIndexerCheckpoints.chainId, chainIndexerCheckpoints.indexerName],
+        set: { lastProcessedBlock: blockNumber, lastProcessedHash: blockHash, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Keep only the `reorgDepth` most recent stored block hashes
+   */
+  private async pruneBlocks(): Promise<void> {
+    const scope = and(
+      eq(chainIndexerBlocks.chainId, this.config.chainId),
+      eq(chainIndexerBlocks.indexerName, this.config.indexerName)
+    );
+
+    const [oldestKept] = await db
+      .select({ blockNumber: chainIndexerBlocks.blockNumber })
+      .from(chainIndexerBlocks)
+      .where(scope)
+      .orderBy(desc(chainIndexerBlocks.blockNumber))
+      .offset(this.config.reorgDepth - 1)
+      .limit(1);
+
+    if (oldestKept) {
+      await db.delete(chainIndexerBlocks).where(and(scope, lt(chainIndexerBlocks.blockNumber, oldestKept.blockNumber)));
+    }
+  }
+
+  private async findChallenge(tx: Tx, onChainId: number) {
+    const [challenge] = await tx
+      .select({ id: challenges.id, onChainStatus: challenges.onChainStatus, resolutionProposal: challenges.resolutionProposal })
+      .from(challenges)
+      .where(and(eq(challenges.blockchainChainId, this.config.chainId), eq(challenges.onChainChallengeId, onChainId)))
+      .limit(1);
+    return challenge || null;
+  }
+
+  private async findUserByWallet(address: string): Promise<string | null> {
+    const key = address.toLowerCase();
+    if (this.walletCache.has(key)) {
+      return this.walletCache.get(key)!;
+    }
+
+    const [wallet] = await db
+      .select({ userId: userWalletAddresses.userId })
+      .from(userWalletAddresses)
+      .where(and(eq(userWalletAddresses.chainId, this.config.chainId), sql`lower(${userWalletAddresses.walletAddress}) = ${key}`))
+      .limit(1);
+
+    const userId = wallet?.userId ?? null;
+    this.walletCache.set(key, userId);
+    return userId;
+  }
+
+  private async syncPointsLedgers(userIds: Set<string>): Promise<void> {
+    for (const userId of Array.from(userIds)) {
+      await ensureUserPointsLedger(userId);
+      await updateUserPointsBalance(userId);
+      await db
+        .update(userPointsLedgers)
+        .set({ chainSyncedAt: new Date() })
+        .where(eq(userPointsLedgers.userId, userId));
+    }
+  }
+}
+
+/**
+ * Indexer for one registry chain (default chain unless overridden). Returns
+ * null when the chain isn't configured.
+ */
+export function createChainIndexer(overrides: Partial<ChainIndexerConfig> = {}): ChainIndexer | null {
+  if (process.env.CHAIN_INDEXER_ENABLED === 'false') {
+    return null;
+  }
+
+  const chainId = overrides.chainId ?? Number(process.env.CHAIN_INDEXER_CHAIN_ID || getDefaultChainId());
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    return null;
+  }
+
+  // CHAIN_INDEXER_RPC_URL lets the default chain index through a separate (archive) endpoint
+  const rpcUrl = process.env[`CHAIN_${chainId}_INDEXER_RPC_URL`]
+    || (chainId === getDefaultChainId() ? process.env.CHAIN_INDEXER_RPC_URL : undefined)
+    || chain.rpcUrl;
+  const challengeFactoryAddress = overrides.challengeFactoryAddress || chain.contracts.challengeFactory;
+  const pointsContractAddress = overrides.pointsContractAddress || chain.contracts.points;
+
+  if (!rpcUrl || !challengeFactoryAddress || !pointsContractAddress) {
+    return null;
+  }
+
+  const startBlock = process.env[`CHAIN_${chainId}_INDEXER_START_BLOCK`] || process.env.CHAIN_INDEXER_START_BLOCK;
+
+  const config: ChainIndexerConfig = {
+    ...DEFAULT_INDEXER_CONFIG,
+    chainId,
+    challengeFactoryAddress,
+    pointsContractAddress,
+    challengeEscrowAddress: chain.contracts.challengeEscrow || undefined,
+    pointsEscrowAddress: chain.contracts.pointsEscrow || undefined,
+    startBlock: startBlock ? Number(startBlock) : undefined,
+    confirmations: Number(process.env.CHAIN_INDEXER_CONFIRMATIONS || DEFAULT_INDEXER_CONFIG.confirmations),
+    batchSize: Number(process.env.CHAIN_INDEXER_BATCH_SIZE || DEFAULT_INDEXER_CONFIG.batchSize),
+    ...overrides,
+  };
+
+  return new ChainIndexer(new ethers.JsonRpcProvider(rpcUrl, chainId), config);
+}
+
+/**
+ * One indexer per enabled chain (CHAIN_INDEXER_CHAIN_ID pins a single chain)
+ */
+export function createChainIndexers(): ChainIndexer[] {
+  if (process.env.CHAIN_INDEXER_CHAIN_ID) {
+    const indexer = createChainIndexer();
+    return indexer ? [indexer] : [];
+  }
+
+  return getEnabledChains()
+    .map((chain) => createChainIndexer({ chainId: chain.chainId }))
+    .filter((indexer): indexer is ChainIndexer => indexer !== null);
+}
@@ -11,57 +11,81 @@
  */
 
 import { initBlockchainClient, type BlockchainConfig } from './client';
+import {
+  getDefaultChainId,
+  getEnabledChains,
+  getMissingChainSettings,
+  type ChainConfig,
+} from './chains';
 
 /**
- * Initialize blockchain client from environment variables
+ * Client config for a registry chain. Admin and relayer keys are shared
+ * across chains unless CHAIN_<id>_ADMIN_PRIVATE_KEY / _RELAYER_PRIVATE_KEY is set.
+ */
+export function toBlockchainConfig(chain: ChainConfig): BlockchainConfig {
+  const env = (name: string) => process.env[`CHAIN_${chain.chainId}_${name}`] || process.env[name];
+
+  return {
+    rpcUrl: chain.rpcUrl!,
+    chainId: chain.chainId,
+    chainName: chain.name,
+    pointsContractAddress: chain.contracts.points!,
+    challengeFactoryAddress: chain.contracts.challengeFactory!,
+    pointsEscrowAddress: chain.contracts.pointsEscrow!,
+    tokens: chain.tokens,
+    adminPrivateKey: env('ADMIN_PRIVATE_KEY')!,
+    adminAddress: env('ADMIN_ADDRESS')!,
+    forwarderAddress: chain.contracts.forwarder || undefined,
+    relayerPrivateKey: env('RELAYER_PRIVATE_KEY'),
+  };
+}
+
+/**
+ * Initialize a blockchain client for every enabled chain from environment variables.
+ * The default chain must be fully configured; other chains are skipped with a warning.
  */
 export async function initializeBlockchain(): Promise<void> {
-  const requiredEnvVars = [
-    'VITE_BASE_TESTNET_RPC',
-    'VITE_POINTS_CONTRACT_ADDRESS',
-    'VITE_CHALLENGE_FACTORY_ADDRESS',
-    'VITE_POINTS_ESCROW_ADDRESS',
-    'VITE_USDC_ADDRESS',
-    'VITE_USDT_ADDRESS',
-    'ADMIN_PRIVATE_KEY',
-    'ADMIN_ADDRESS',
-  ];
+  const defaultChainId = getDefaultChainId();
 
-  // Check required env vars
-  const missing = requiredEnvVars.filter((v) => !process.env[v]);
-  if (missing.length > 0) {
-    console.error('❌ Missing environment variables for blockchain:');
-    missing.forEach((v) => console.error(`   - ${v}`));
-    console.error('\nPlease update your .env file with contract addresses from deployment');
-    throw new Error('Blockchain configuration incomplete');
-  }
+  for (const chain of getEnabledChains()) {
+    const missing = getMissingChainSettings(chain);
+    if (!process.env[`CHAIN_${chain.chainId}_ADMIN_PRIVATE_KEY`] && !process.env.ADMIN_PRIVATE_KEY) {
+      missing.push('ADMIN_PRIVATE_KEY');
+    }
+    if (!process.env[`CHAIN_${chain.chainId}_ADMIN_ADDRESS`] && !process.env.ADMIN_ADDRESS) {
+      missing.push('ADMIN_ADDRESS');
+    }
 
-  const config: BlockchainConfig = {
-    rpcUrl: process.env.VITE_BASE_TESTNET_RPC!,
-    chainId: 84532, // Base Testnet Sepolia
-    pointsContractAddress: process.env.VITE_POINTS_CONTRACT_ADDRESS!,
-    challengeFactoryAddress: process.env.VITE_CHALLENGE_FACTORY_ADDRESS!,
-    pointsEscrowAddress: process.env.VITE_POINTS_ESCROW_ADDRESS!,
-    usdcAddress: process.env.VITE_USDC_ADDRESS!,
-    usdtAddress: process.env.VITE_USDT_ADDRESS!,
-    adminPrivateKey: process.env.ADMIN_PRIVATE_KEY!,
-    adminAddress: process.env.ADMIN_ADDRESS!,
-  };
+    if (missing.length > 0) {
+      if (chain.chainId !== defaultChainId) {
+        console.warn(`⚠️  Skipping ${chain.name} (${chain.chainId}), missing: ${missing.join(', ')}`);
+        continue;
+      }
+      console.error(`❌ Missing environment variables for ${chain.name} (${chain.chainId}):`);
+      missing.forEach((v) => console.error(`   - ${v}`));
+      console.error('\nPlease update your .env file with contract addresses from deployment');
+      throw new Error('Blockchain configuration incomplete');
+    }
 
+    await initializeChain(chain);
+  }
+}
+
+async function initializeChain(chain: ChainConfig): Promise<void> {
   try {
-    console.log('\n🔗 Initializing blockchain client...');
-    const client = initBlockchainClient(config);
+    console.log(`\n🔗 Initializing blockchain client for ${chain.name}...`);
+    const client = initBlockchainClient(toBlockchainConfig(chain));
 
     // Verify connection
     const connected = await client.verifyConnection();
     if (!connected) {
-      throw new Error('Failed to connect to blockchain');
+      throw new Error(`Failed to connect to ${chain.name}`);
     }
 
     // Log network info
     const networkInfo = await client.getNetworkInfo();
     console.log(`\n✅ Blockchain initialized successfully`);
-    console.log(`   Network: Base Testnet Sepolia (Chain: ${networkInfo.chainId})`);
+    console.log(`   Network: ${chain.name} (Chain: ${networkInfo.chainId})`);
     console.log(`   Block: ${networkInfo.blockNumber}`);
     console.log(`   Gas Price: ${networkInfo.gasPrice} Gwei`);
     console.log(`   Admin Balance: ${networkInfo.adminBalance} ETH`);
@@ -73,10 +97,12 @@ export async function initializeBlockchain(): Promise<void> {
     console.log(`   Points: ${addresses.points}`);
     console.log(`   Factory: ${addresses.challengeFactory}`);
     console.log(`   Escrow: ${addresses.pointsEscrow}`);
-    console.log(`   USDC: ${addresses.usdc}`);
-    console.log(`   USDT: ${addresses.usdt}\n`);
+    for (const [symbol, address] of Object.entries(addresses.tokens)) {
+      console.log(`   ${symbol}: ${address}`);
+    }
+    console.log(`   Forwarder: ${addresses.forwarder || 'not configured (gasless relaying off)'}\n`);
   } catch (error: any) {
-    console.error('❌ Blockchain initialization failed:');
+    console.error(`❌ Blockchain initialization failed for ${chain.name}:`);
     console.error(error.message);
     throw error;
   }
@@ -0,0 +1,366 @@
+/**
+ * Optimistic Resolution - Dispute window on ChallengeFactory resolutions
+ *
+ * While ChallengeFactory.disputePeriod is non-zero a signed resolution only
+ * proposes the winner (P2P) or outcome (GROUP):
+ *
+ *   PROPOSED -> finalizeResolution after disputeDeadline (anyone; the
+ *               finalizer below sends it from the admin signer)
+ *   PROPOSED -> DISPUTED when a participant the proposal goes against posts
+ *               a bond of disputeBondPercentage of the stake
+ *   DISPUTED -> ruleOnDispute by the admin; upholding the proposal forfeits
+ *               the bond to the fee recipient, overturning it refunds it
+ *
+ * challenges.resolution_proposal mirrors the proposal, dispute and ruling as
+ * the indexer sees them; challenges.dispute_deadline drives the finalizer.
+ */
+
+import { and, asc, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { db } from '../db';
+import { challenges } from '../../shared/schema';
+import { outboundTransactions } from '../../shared/schema-blockchain';
+import { getBlockchainClient, getBlockchainClients, hasBlockchainClient } from './client';
+import { GROUP_OUTCOME_BY_INDEX, type GroupSettlementOutcome } from './groupSettlement';
+import { getTransactionManager } from './txManager';
+
+const RESOLUTION_FINALIZER_TICK_MS = 60 * 1000;
+const FINALIZE_BATCH_SIZE = 20;
+
+// ChallengeFactory.ChallengeStatus
+const STATUS_PROPOSED = 5;
+const STATUS_DISPUTED = 6;
+
+const GROUP_OUTCOME_INDEX: Record<GroupSettlementOutcome, number> = { YES: 1, NO: 2, DRAW: 3 };
+
+export class ResolutionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ResolutionError';
+  }
+}
+
+/**
+ * Shape of challenges.resolution_proposal
+ */
+export interface ResolutionProposalRecord {
+  winner: string | null;                    // P2P proposed winner
+  outcome: GroupSettlementOutcome | null;   // GROUP proposed outcome
+  pointsAwarded: number;
+  proposalTxHash: string;
+  proposedAt: string;
+  disputer?: string;
+  disputerUserId?: string | null;
+  bond?: string;                            // Token base units
+  disputeTxHash?: string;
+  disputedAt?: string;
+  ruling?: {
+    upheld: boolean;
+    winner: string | null;
+    outcome: GroupSettlementOutcome | null;
+    bondReturned: string;
+    txHash: string;
+    ruledAt: string;
+  };
+}
+
+export interface OnChainResolutionProposal {
+  status: 'proposed' | 'disputed';
+  challengeType: 'GROUP' | 'P2P';
+  winner: string | null;
+  outcome: GroupSettlementOutcome | null;
+  pointsAwarded: number;
+  disputeDeadline: Date;
+  disputer: string | null;
+  bond: string;
+}
+
+/**
+ * Decode ChallengeFactory.getResolutionProposal alongside getChallenge;
+ * null unless the challenge is PROPOSED or DISPUTED
+ */
+export function parseResolutionProposal(
+  proposal: { winner: string; outcome: bigint | number; pointsAwarded: bigint; disputeDeadline: bigint; disputer: string; bond: bigint },
+  challenge: { status: bigint | number; challengeType: bigint | number }
+): OnChainResolutionProposal | null {
+  const code = Number(challenge.status);
+  if (code !== STATUS_PROPOSED && code !== STATUS_DISPUTED) {
+    return null;
+  }
+
+  return {
+    status: code === STATUS_PROPOSED ? 'proposed' : 'disputed',
+    challengeType: Number(challenge.challengeType) === 0 ? 'GROUP' : 'P2P',
+    winner: proposal.winner === ethers.ZeroAddress ? null : proposal.winner,
+    outcome: GROUP_OUTCOME_BY_INDEX[Number(proposal.outcome)] ?? null,
+    pointsAwarded: Number(proposal.pointsAwarded),
+    disputeDeadline: new Date(Number(proposal.disputeDeadline) * 1000),
+    disputer: proposal.disputer === ethers.ZeroAddress ? null : proposal.disputer,
+    bond: proposal.bond.toString(),
+  };
+}
+
+/**
+ * Read the pending proposal for an on-chain challenge (null once settled)
+ */
+export async function getResolutionProposal(
+  onChainChallengeId: number,
+  chainId?: number
+): Promise<OnChainResolutionProposal | null> {
+  const contract = getBlockchainClient(chainId).challengeFactoryContract;
+  const [challenge, proposal] = await Promise.all([
+    contract.getChallenge(onChainChallengeId),
+    contract.getResolutionProposal(onChainChallengeId),
+  ]);
+  return parseResolutionProposal(proposal, challenge);
+}
+
+/**
+ * Mirror a proposal right after the resolve tx confirmed, so routes and the
+ * admin UI see it before the indexer catches up
+ */
+export async function recordResolutionProposal(
+  dbChallengeId: number,
+  proposal: OnChainResolutionProposal,
+  transactionHash: string
+): Promise<void> {
+  const record: ResolutionProposalRecord = {
+    winner: proposal.winner,
+    outcome: proposal.outcome,
+    pointsAwarded: proposal.pointsAwarded,
+    proposalTxHash: transactionHash,
+    proposedAt: new Date().toISOString(),
+  };
+
+  await db
+    .update(challenges)
+    .set({
+      onChainStatus: 'proposed',
+      resolutionProposal: record,
+      disputeDeadline: proposal.disputeDeadline,
+    })
+    .where(eq(challenges.id, dbChallengeId));
+}
+
+/**
+ * Challenges waiting on the dispute window or an admin ruling
+ */
+export async function listResolutionProposals(status?: 'proposed' | 'disputed') {
+  return db
+    .select({
+      id: challenges.id,
+      title: challenges.title,
+      onChainStatus: challenges.onChainStatus,
+      onChainChallengeId: challenges.onChainChallengeId,
+      chainId: challenges.blockchainChainId,
+      resolutionProposal: challenges.resolutionProposal,
+      disputeDeadline: challenges.disputeDeadline,
+    })
+    .from(challenges)
+    .where(inArray(challenges.onChainStatus, status ? [status] : ['proposed', 'disputed']))
+    .orderBy(asc(challenges.disputeDeadline));
+}
+
+async function loadOnChainChallenge(dbChallengeId: number) {
+  const [challenge] = await db.select().from(challenges).where(eq(challenges.id, dbChallengeId)).limit(1);
+  if (!challenge) {
+    throw new ResolutionError('Challenge not found', 404);
+  }
+  if (challenge.onChainChallengeId === null || challenge.blockchainChainId === null) {
+    throw new ResolutionError('Challenge is not on-chain');
+  }
+  if (!hasBlockchainClient(challenge.blockchainChainId)) {
+    throw new ResolutionError(`Chain ${challenge.blockchainChainId} is not configured`, 503);
+  }
+  return challenge as typeof challenge & { onChainChallengeId: number; blockchainChainId: number };
+}
+
+/**
+ * Settle an undisputed proposal whose dispute period is over
+ */
+export async function finalizeResolutionOnChain(dbChallengeId: number) {
+  const challenge = await loadOnChainChallenge(dbChallengeId);
+  const proposal = await getResolutionProposal(challenge.onChainChallengeId, challenge.blockchainChainId);
+  if (proposal?.status !== 'proposed') {
+    throw new ResolutionError(proposal ? 'Resolution is disputed; rule on the dispute instead' : 'No proposed resolution', 409);
+  }
+  if (proposal.disputeDeadline.getTime() > Date.now()) {
+    throw new ResolutionError(`Dispute period ends at ${proposal.disputeDeadline.toISOString()}`, 409);
+  }
+
+  const client = getBlockchainClient(challenge.blockchainChainId);
+  const manager = getTransactionManager(challenge.blockchainChainId);
+  const sent = await manager.sendContractCall(
+    client.challengeFactoryContract,
+    'finalizeResolution',
+    [challenge.onChainChallengeId],
+    {
+      transactionType: 'challenge_resolve',
+      contractName: 'ChallengeFactory',
+      parameters: { challengeId: challenge.onChainChallengeId },
+      challengeId: challenge.id,
+    }
+  );
+  const confirmed = await manager.wait(sent.id);
+
+  return {
+    transactionHash: confirmed.transactionHash,
+    blockNumber: confirmed.blockNumber ?? 0,
+    proposal,
+  };
+}
+
+/**
+ * Admin ruling on a disputed proposal. P2P rulings name the winner, GROUP
+ * rulings the outcome; the ruling settles the challenge either way.
+ */
+export async function ruleOnDisputeOnChain(
+  dbChallengeId: number,
+  ruling: { winner?: string; outcome?: GroupSettlementOutcome; pointsAwarded: number }
+) {
+  const challenge = await loadOnChainChallenge(dbChallengeId);
+  const proposal = await getResolutionProposal(challenge.onChainChallengeId, challenge.blockchainChainId);
+  if (proposal?.status !== 'disputed') {
+    throw new ResolutionError('Resolution is not disputed', 409);
+  }
+
+  const isGroup = proposal.challengeType === 'GROUP';
+  if (isGroup && !ruling.outcome) {
+    throw new ResolutionError('outcome (YES, NO or DRAW) is required for group challenges');
+  }
+  if (!isGroup && (!ruling.winner || !ethers.isAddress(ruling.winner))) {
+    throw new ResolutionError('winner must be a wallet address');
+  }
+
+  const winner = isGroup ? ethers.ZeroAddress : ruling.winner!;
+  const outcome = isGroup ? GROUP_OUTCOME_INDEX[ruling.outcome!] : 0;
+  const upheld = isGroup ? ruling.outcome === proposal.outcome : winner.toLowerCase() === proposal.winner?.toLowerCase();
+
+  const client = getBlockchainClient(challenge.blockchainChainId);
+  const manager = getTransactionManager(challenge.blockchainChainId);
+  const sent = await manager.sendContractCall(
+    client.challengeFactoryContract,
+    'ruleOnDispute',
+    [challenge.onChainChallengeId, winner, outcome, ruling.pointsAwarded],
+    {
+      transactionType: 'challenge_resolve',
+      contractName: 'ChallengeFactory',
+      parameters: {
+        challengeId: challenge.onChainChallengeId,
+        winner: isGroup ? null : winner,
+        outcome: isGroup ? ruling.outcome : null,
+        pointsAwarded: ruling.pointsAwarded,
+      },
+      challengeId: challenge.id,
+    }
+  );
+  const confirmed = await manager.wait(sent.id);
+
+  return {
+    transactionHash: confirmed.transactionHash,
+    blockNumber: confirmed.blockNumber ?? 0,
+    upheld,
+    proposal,
+  };
+}
+
+// ============================================================================
+// FINALIZER
+// ============================================================================
+
+export class ResolutionFinalizer {
+  /**
+   * Send finalizeResolution for every proposal whose dispute period is over.
+   * Sends are left to the transaction monitor and the indexer marks the
+   * challenge resolved, so a challenge with a finalize tx in flight is skipped.
+   */
+  async runOnce(): Promise<number> {
+    const due = await db
+      .select({
+        id: challenges.id,
+        onChainChallengeId: challenges.onChainChallengeId,
+        chainId: challenges.blockchainChainId,
+      })
+      .from(challenges)
+      .where(
+        and(
+          eq(challenges.onChainStatus, 'proposed'),
+          lte(challenges.disputeDeadline, new Date()),
+          isNotNull(challenges.onChainChallengeId)
+        )
+      )
+      .orderBy(asc(challenges.disputeDeadline))
+      .limit(FINALIZE_BATCH_SIZE);
+
+    if (due.length === 0) return 0;
+
+    const inFlight = await db
+      .select({ challengeId: outboundTransactions.challengeId })
+      .from(outboundTransactions)
+      .where(
+        and(
+          eq(outboundTransactions.functionName, 'finalizeResolution'),
+          inArray(outboundTransactions.status, ['pending', 'cancelling']),
+          inArray(outboundTransactions.challengeId, due.map((c) => c.id))
+        )
+      );
+    const skip = new Set(inFlight.map((row) => row.challengeId));
+
+    const chains = new Set(getBlockchainClients().map((client) => client.getChainId()));
+    let sent = 0;
+
+    for (const challenge of due) {
+      if (skip.has(challenge.id) || challenge.chainId === null || !chains.has(challenge.chainId)) continue;
+
+      try {
+        const client = getBlockchainClient(challenge.chainId);
+        await getTransactionManager(challenge.chainId).sendContractCall(
+          client.challengeFactoryContract,
+          'finalizeResolution',
+          [challenge.onChainChallengeId],
+          {
+            transactionType: 'challenge_resolve',
+            contractName: 'ChallengeFactory',
+            parameters: { challengeId: challenge.onChainChallengeId },
+            challengeId: challenge.id,
+          }
+        );
+        sent++;
+      } catch (error) {
+        // Simulation reverts (already finalized, disputed in the meantime) cost nothing; retried next pass
+        console.error(`❌ Failed to finalize resolution for challenge ${challenge.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Run runOnce on an interval. Returns a function that stops it.
+   */
+  start(intervalMs: number = RESOLUTION_FINALIZER_TICK_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        const sent = await this.runOnce();
+        if (sent > 0) {
+          console.log(`⚖️  Finalizing ${sent} proposed resolution(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Resolution finalizer failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Resolution finalizer running every ${Math.round(intervalMs / 1000)}s`);
+
+    return () => clearInterval(timer);
+  }
+}
+
+export const resolutionFinalizer = new ResolutionFinalizer();
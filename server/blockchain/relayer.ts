@@ -0,0 +1,741 @@
+/**
+ * Relayer - Gasless joins, accepts, disputes and claims via ERC-2771 meta-transactions
+ *
+ * Users sign an EIP-712 ForwardRequest (and, when the factory's allowance is
+ * short, an EIP-2612 permit) in the browser; the funded relayer wallet pays gas
+ * to submit both. ChallengeFactory reads the original sender through
+ * BantahForwarder, so stakes and payouts stay on the user's wallet.
+ * BantahPoints stakes need neither: PointsEscrow burns them directly.
+ *
+ * Flow:
+ *   prepare -> typed data returned, relayer_requests row 'prepared'
+ *   submit  -> signatures checked against the user's wallet, permit + execute
+ *              broadcast, row 'submitted'
+ *   receipt -> 'confirmed' or 'failed' (indexer handles escrow/payout state)
+ *
+ * Forwarder nonces are sequential per wallet. A request's nonce is the on-chain
+ * nonce plus the wallet's requests already in flight; anything that drifts is
+ * rejected at submit so the user prepares again instead of burning gas.
+ */
+
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { ethers, Contract, type TransactionResponse } from 'ethers';
+import { db } from '../db';
+import { challenges, type Challenge } from '../../shared/schema';
+import {
+  blockchainTransactions,
+  relayerRequests,
+  type RelayerRequest,
+} from '../../shared/schema-blockchain';
+import {
+  getBlockchainClient,
+  getBlockchainClients,
+  hasBlockchainClient,
+  type BlockchainClient,
+} from './client';
+import { getDefaultChainId, isPointsToken } from './chains';
+import { getAvailablePointsBalance, getUserPrimaryWallet } from './db-utils';
+
+export const RELAYER_ACTIONS = ['join_group', 'accept_p2p', 'dispute', 'claim'] as const;
+export type RelayerAction = (typeof RELAYER_ACTIONS)[number];
+
+export const FORWARDER_DOMAIN_NAME = 'BantahForwarder';
+export const FORWARDER_DOMAIN_VERSION = '1';
+
+// OpenZeppelin ERC2771Forwarder request type (nonce is read from the forwarder, not sent)
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const RELAYER_REQUEST_TTL_SECONDS = 10 * 60;
+export const RELAYER_CALL_GAS = 500_000;
+
+export const DEFAULT_RELAYER_RATE_LIMIT = {
+  maxRequests: parseInt(process.env.RELAYER_RATE_LIMIT_PER_HOUR || '20'),
+  windowMs: 60 * 60 * 1000,
+};
+
+const TRANSACTION_TYPES: Record<RelayerAction, string> = {
+  join_group: 'challenge_join',
+  accept_p2p: 'challenge_accept',
+  dispute: 'resolution_dispute',
+  claim: 'payout_claim',
+};
+
+const PERMIT_TOKEN_ABI = [
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function nonces(address owner) external view returns (uint256)',
+  'function name() external view returns (string)',
+  'function version() external view returns (string)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external',
+];
+
+export class RelayerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RelayerError';
+  }
+}
+
+export interface RelayInput {
+  action: RelayerAction;
+  challengeId: number;
+  side?: boolean;      // join_group: true = YES
+  amount?: string;     // join_group: stake in token base units, defaults to the challenge stake
+}
+
+export interface TypedDataPayload {
+  domain: Record<string, unknown>;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export interface PreparedRelay {
+  requestId: number;
+  action: RelayerAction;
+  challengeId: number;
+  walletAddress: string;
+  expiresAt: Date;
+  forwardRequest: TypedDataPayload;
+  permit: TypedDataPayload | null;
+}
+
+export interface RelaySignatures {
+  signature: string;
+  permitSignature?: string;
+}
+
+interface StoredForwardRequest {
+  to: string;
+  value: string;
+  gas: string;
+  deadline: number;
+  data: string;
+}
+
+interface StoredPermit {
+  token: string;
+  name: string;
+  version: string;
+  spender: string;
+  value: string;
+  nonce: string;
+  deadline: number;
+}
+
+/**
+ * EIP-712 payload in the shape eth_signTypedData_v4 expects (EIP712Domain
+ * included, integers as strings)
+ */
+export function toTypedDataPayload(
+  domain: ethers.TypedDataDomain,
+  types: Record<string, Array<{ name: string; type: string }>>,
+  message: Record<string, unknown>
+): TypedDataPayload {
+  const payload = ethers.TypedDataEncoder.getPayload(domain, types, message) as TypedDataPayload;
+  // Wallets compare chainId with the active chain; ethers emits it as hex
+  if (domain.chainId !== undefined && domain.chainId !== null) {
+    payload.domain.chainId = Number(domain.chainId);
+  }
+  return payload;
+}
+
+export function getForwarderDomain(chainId: number, verifyingContract: string): ethers.TypedDataDomain {
+  return {
+    name: FORWARDER_DOMAIN_NAME,
+    version: FORWARDER_DOMAIN_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+function buildForwardMessage(row: Pick<RelayerRequest, 'walletAddress' | 'forwarderNonce' | 'requestData'>) {
+  const request = row.requestData as StoredForwardRequest;
+  return {
+    from: row.walletAddress,
+    to: request.to,
+    value: request.value,
+    gas: request.gas,
+    nonce: row.forwarderNonce,
+    deadline: request.deadline,
+    data: request.data,
+  };
+}
+
+function buildPermit(row: Pick<RelayerRequest, 'chainId' | 'walletAddress' | 'permitData'>) {
+  const permit = row.permitData as StoredPermit;
+  return {
+    permit,
+    domain: { name: permit.name, version: permit.version, chainId: row.chainId, verifyingContract: permit.token },
+    message: {
+      owner: row.walletAddress,
+      spender: permit.spender,
+      value: permit.value,
+      nonce: permit.nonce,
+      deadline: permit.deadline,
+    },
+  };
+}
+
+/**
+ * Recover the signer of a stored ForwardRequest
+ */
+export function recoverForwardRequestSigner(
+  row: Pick<RelayerRequest, 'chainId' | 'walletAddress' | 'forwarderNonce' | 'requestData'>,
+  forwarderAddress: string,
+  signature: string
+): string {
+  return ethers.verifyTypedData(
+    getForwarderDomain(row.chainId, forwarderAddress),
+    FORWARD_REQUEST_TYPES,
+    buildForwardMessage(row),
+    signature
+  );
+}
+
+/**
+ * Recover the signer of a stored permit
+ */
+export function recoverPermitSigner(
+  row: Pick<RelayerRequest, 'chainId' | 'walletAddress' | 'permitData'>,
+  signature: string
+): string {
+  const { domain, message } = buildPermit(row);
+  return ethers.verifyTypedData(domain, PERMIT_TYPES, message, signature);
+}
+
+export class RelayerService {
+  // One relayer wallet: broadcasts are serialized so its account nonce never collides
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private rateLimit = DEFAULT_RELAYER_RATE_LIMIT) {}
+
+  isEnabled(chainId?: number): boolean {
+    try {
+      const client = getBlockchainClient(chainId);
+      return client.forwarderContract !== null && client.getRelayerSigner() !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  getConfig() {
+    const chains = getBlockchainClients().map((client) => ({
+      chainId: client.getChainId(),
+      enabled: this.isEnabled(client.getChainId()),
+      forwarderAddress: client.getContractAddresses().forwarder,
+    }));
+    return {
+      enabled: chains.some((chain) => chain.enabled),
+      chains,
+      rateLimitPerHour: this.rateLimit.maxRequests,
+      requestTtlSeconds: RELAYER_REQUEST_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Build typed data for one action
+   */
+  async prepare(userId: string, input: RelayInput): Promise<PreparedRelay> {
+    const [prepared] = await this.prepareMany(userId, [input]);
+    return prepared;
+  }
+
+  /**
+   * Build typed data for several actions with consecutive forwarder nonces;
+   * the client must sign and submit them in order. All challenges must live
+   * on the same chain.
+   */
+  async prepareMany(userId: string, inputs: RelayInput[]): Promise<PreparedRelay[]> {
+    if (inputs.length === 0) {
+      throw new RelayerError('Nothing to relay');
+    }
+
+    const loaded: Challenge[] = [];
+    for (const input of inputs) {
+      loaded.push(await this.loadChallenge(input.challengeId));
+    }
+    const chainId = loaded[0].blockchainChainId ?? getDefaultChainId();
+    if (loaded.some((challenge) => (challenge.blockchainChainId ?? getDefaultChainId()) !== chainId)) {
+      throw new RelayerError('Relay requests in one batch must be on the same chain');
+    }
+
+    const { client, forwarder } = this.requireRelayer(chainId);
+    await this.assertWithinRateLimit(userId, inputs.length);
+
+    const wallet = await getUserPrimaryWallet(userId, chainId);
+    if (!wallet) {
+      throw new RelayerError('Connect a wallet on this chain before joining or claiming', 403);
+    }
+    // Payouts land on the calling wallet, so it must be one the user proved they own
+    if (!wallet.isVerified && inputs.some((input) => input.action === 'claim')) {
+      throw new RelayerError(
+        'Wallet ownership not verified: sign the message from POST /api/points/connect-wallet/nonce to receive payouts',
+        403
+      );
+    }
+    const walletAddress = ethers.getAddress(wallet.walletAddress);
+    const factoryAddress = await client.challengeFactoryContract.getAddress();
+
+    const baseNonce = await this.getNextNonce(chainId, walletAddress);
+
+    // Unsigned requests from earlier prepares would now collide on nonce
+    await db
+      .update(relayerRequests)
+      .set({ status: 'expired', errorMessage: 'Superseded by a newer request' })
+      .where(
+        and(
+          eq(relayerRequests.chainId, chainId),
+          eq(relayerRequests.walletAddress, walletAddress),
+          eq(relayerRequests.status, 'prepared')
+        )
+      );
+
+    const now = Math.floor(Date.now() / 1000);
+    const deadline = now + RELAYER_REQUEST_TTL_SECONDS;
+    const expiresAt = new Date(deadline * 1000);
+    const allowances = new Map<string, bigint>();
+    const permitCounts = new Map<string, number>();
+    const prepared: PreparedRelay[] = [];
+    let availablePoints: bigint | null = null;
+
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+      const challenge = loaded[i];
+      const { data, stake } = await this.encodeCall(client, userId, challenge, input);
+
+      let permitData: StoredPermit | null = null;
+      const pointsStake = isPointsToken(chainId, challenge.paymentTokenAddress) && input.action !== 'dispute';
+      if (stake > BigInt(0) && pointsStake) {
+        // PointsEscrow burns BantahPoints stakes itself, so no allowance is needed,
+        // but points already locked elsewhere can't back another stake
+        if (availablePoints === null) {
+          availablePoints = await getAvailablePointsBalance(userId);
+        }
+        if (availablePoints < stake) {
+          throw new RelayerError('Insufficient available points for this stake');
+        }
+        availablePoints -= stake;
+      } else if (stake > BigInt(0)) {
+        const tokenAddress = ethers.getAddress(challenge.paymentTokenAddress!);
+        const token = new Contract(tokenAddress, PERMIT_TOKEN_ABI, client.getProvider());
+        if (!allowances.has(tokenAddress)) {
+          allowances.set(tokenAddress, await token.allowance(walletAddress, factoryAddress));
+        }
+        const remaining = allowances.get(tokenAddress)!;
+
+        if (remaining >= stake) {
+          allowances.set(tokenAddress, remaining - stake);
+        } else if (isPointsToken(chainId, tokenAddress)) {
+          throw new RelayerError('BantahPoints has no permit: approve the ChallengeFactory for the dispute bond first', 409);
+        } else {
+          // Permit exactly this stake; the call it precedes spends all of it
+          const [name, version, nonce] = await Promise.all([
+            token.name() as Promise<string>,
+            (token.version() as Promise<string>).catch(() => '1'),
+            token.nonces(walletAddress) as Promise<bigint>,
+          ]);
+          const earlierPermits = permitCounts.get(tokenAddress) ?? 0;
+          permitData = {
+            token: tokenAddress,
+            name,
+            version,
+            spender: factoryAddress,
+            value: stake.toString(),
+            nonce: (nonce + BigInt(earlierPermits)).toString(),
+            deadline,
+          };
+          permitCounts.set(tokenAddress, earlierPermits + 1);
+          allowances.set(tokenAddress, BigInt(0));
+        }
+      }
+
+      const requestData: StoredForwardRequest = {
+        to: factoryAddress,
+        value: '0',
+        gas: RELAYER_CALL_GAS.toString(),
+        deadline,
+        data,
+      };
+
+      const [row] = await db
+        .insert(relayerRequests)
+        .values({
+          userId,
+          chainId,
+          walletAddress,
+          action: input.action,
+          challengeId: challenge.id,
+          forwarderNonce: baseNonce + i,
+          requestData,
+          permitData,
+          status: 'prepared',
+          expiresAt,
+        })
+        .returning();
+
+      prepared.push(this.toPrepared(row, await forwarder.getAddress()));
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Verify the user's signatures and broadcast. Resolves once the forwarder
+   * call is sent; confirmation is tracked in the background.
+   */
+  async submit(userId: string, requestId: number, signatures: RelaySignatures): Promise<RelayerRequest> {
+    const row = await this.getRequest(userId, requestId);
+    const { forwarder, relayer } = this.requireRelayer(row.chainId);
+
+    if (row.status !== 'prepared') {
+      throw new RelayerError(`Request is already ${row.status}`, 409);
+    }
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await this.markFinished(row.id, 'expired', 'Request expired before submission');
+      throw new RelayerError('Request expired, prepare it again', 410);
+    }
+    await this.assertWithinRateLimit(userId, 1);
+
+    const forwarderAddress = await forwarder.getAddress();
+    if (!this.signedBy(() => recoverForwardRequestSigner(row, forwarderAddress, signatures.signature), row.walletAddress)) {
+      throw new RelayerError('Signature does not match your wallet', 403);
+    }
+    if (row.permitData) {
+      if (!signatures.permitSignature) {
+        throw new RelayerError('Permit signature required');
+      }
+      if (!this.signedBy(() => recoverPermitSigner(row, signatures.permitSignature!), row.walletAddress)) {
+        throw new RelayerError('Permit signature does not match your wallet', 403);
+      }
+    }
+
+    const expectedNonce = await this.getNextNonce(row.chainId, row.walletAddress);
+    if (row.forwarderNonce !== expectedNonce) {
+      await this.markFinished(row.id, 'expired', `Stale nonce ${row.forwarderNonce}, expected ${expectedNonce}`);
+      throw new RelayerError('Request is out of date, prepare it again', 409);
+    }
+
+    const [submitted] = await db
+      .update(relayerRequests)
+      .set({ status: 'submitted', submittedAt: new Date() })
+      .where(and(eq(relayerRequests.id, row.id), eq(relayerRequests.status, 'prepared')))
+      .returning();
+    if (!submitted) {
+      throw new RelayerError('Request is already being submitted', 409);
+    }
+
+    try {
+      const tx = await this.enqueue(() => this.broadcast(submitted, signatures, forwarder, relayer));
+      const [updated] = await db
+        .update(relayerRequests)
+        .set({ transactionHash: tx.hash })
+        .where(eq(relayerRequests.id, row.id))
+        .returning();
+
+      await db
+        .insert(blockchainTransactions)
+        .values({
+          chainId: row.chainId,
+          transactionHash: tx.hash,
+          transactionType: TRANSACTION_TYPES[row.action as RelayerAction],
+          contractAddress: forwarderAddress,
+          contractName: 'BantahForwarder',
+          fromAddress: relayer.address,
+          toAddress: forwarderAddress,
+          functionName: 'execute',
+          parameters: JSON.stringify({ action: row.action, from: row.walletAddress, nonce: row.forwarderNonce }),
+          status: 'pending',
+          challengeId: row.challengeId,
+          userId,
+        })
+        .onConflictDoNothing({ target: blockchainTransactions.transactionHash });
+
+      void this.trackConfirmation(updated, tx);
+      console.log(`⛽ Relayed ${row.action} for ${row.walletAddress}: ${tx.hash}`);
+      return updated;
+    } catch (error: any) {
+      const message = error?.shortMessage || error?.message || 'Relay failed';
+      await this.markFinished(row.id, 'failed', message);
+      throw new RelayerError(`Relay failed: ${message}`, 502);
+    }
+  }
+
+  async getRequest(userId: string, requestId: number): Promise<RelayerRequest> {
+    const [row] = await db
+      .select()
+      .from(relayerRequests)
+      .where(and(eq(relayerRequests.id, requestId), eq(relayerRequests.userId, userId)));
+    if (!row) {
+      throw new RelayerError('Relay request not found', 404);
+    }
+    return row;
+  }
+
+  async listRequests(userId: string, limit: number = 20): Promise<RelayerRequest[]> {
+    return db
+      .select()
+      .from(relayerRequests)
+      .where(eq(relayerRequests.userId, userId))
+      .orderBy(desc(relayerRequests.createdAt))
+      .limit(Math.min(Math.max(limit, 1), 100));
+  }
+
+  /**
+   * Next forwarder nonce for a wallet: on-chain nonce plus requests broadcast
+   * but not yet mined
+   */
+  async getNextNonce(chainId: number, walletAddress: string): Promise<number> {
+    const { forwarder } = this.requireRelayer(chainId);
+    const onChain = Number(await forwarder.nonces(walletAddress));
+
+    const [{ inFlight }] = await db
+      .select({ inFlight: sql<number>`count(*)::int` })
+      .from(relayerRequests)
+      .where(
+        and(
+          eq(relayerRequests.chainId, chainId),
+          eq(relayerRequests.walletAddress, walletAddress),
+          eq(relayerRequests.status, 'submitted'),
+          gte(relayerRequests.forwarderNonce, onChain)
+        )
+      );
+
+    return onChain + inFlight;
+  }
+
+  /**
+   * Requests that reached the relayer (prepared-only rows cost nothing)
+   */
+  private async assertWithinRateLimit(userId: string, adding: number): Promise<void> {
+    const since = new Date(Date.now() - this.rateLimit.windowMs);
+    const [{ used }] = await db
+      .select({ used: sql<number>`count(*)::int` })
+      .from(relayerRequests)
+      .where(
+        and(
+          eq(relayerRequests.userId, userId),
+          inArray(relayerRequests.status, ['submitted', 'confirmed', 'failed']),
+          gte(relayerRequests.submittedAt, since)
+        )
+      );
+
+    if (used + adding > this.rateLimit.maxRequests) {
+      throw new RelayerError(
+        `Gasless limit reached (${this.rateLimit.maxRequests} per hour). Try again later or send the transaction from your wallet.`,
+        429
+      );
+    }
+  }
+
+  private requireRelayer(chainId: number) {
+    if (!hasBlockchainClient(chainId)) {
+      throw new RelayerError(`Chain ${chainId} is not enabled`, 503);
+    }
+    const client = getBlockchainClient(chainId);
+    const forwarder = client.forwarderContract;
+    const relayer = client.getRelayerSigner();
+    if (!forwarder || !relayer) {
+      throw new RelayerError('Gasless transactions are not configured', 503);
+    }
+    return { client, forwarder, relayer };
+  }
+
+  private async loadChallenge(challengeId: number): Promise<Challenge> {
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    if (!challenge) {
+      throw new RelayerError('Challenge not found', 404);
+    }
+    if (challenge.onChainChallengeId === null) {
+      throw new RelayerError('Challenge is not on-chain yet', 409);
+    }
+    return challenge;
+  }
+
+  private async encodeCall(
+    client: BlockchainClient,
+    userId: string,
+    challenge: Challenge,
+    input: RelayInput
+  ): Promise<{ data: string; stake: bigint }> {
+    const factory = client.challengeFactoryContract.interface;
+    const onChainId = challenge.onChainChallengeId!;
+    const minimumStake = challenge.stakeAmountWei ?? BigInt(0);
+
+    switch (input.action) {
+      case 'join_group': {
+        if (!challenge.adminCreated) {
+          throw new RelayerError('Only group challenges can be joined');
+        }
+        if (typeof input.side !== 'boolean') {
+          throw new RelayerError('Missing required field: side (true for YES, false for NO)');
+        }
+        const amount = input.amount !== undefined ? BigInt(input.amount) : minimumStake;
+        if (amount < minimumStake || amount <= BigInt(0)) {
+          throw new RelayerError('Stake below minimum');
+        }
+        return {
+          data: factory.encodeFunctionData('joinGroupChallenge', [onChainId, input.side, amount]),
+          stake: amount,
+        };
+      }
+      case 'accept_p2p':
+        if (challenge.challenged !== userId) {
+          throw new RelayerError('Not the challenged user', 403);
+        }
+        return {
+          data: factory.encodeFunctionData('acceptP2PChallenge', [onChainId]),
+          stake: minimumStake,
+        };
+      case 'dispute': {
+        if (challenge.onChainStatus !== 'proposed') {
+          throw new RelayerError(`No proposed resolution to dispute (status: ${challenge.onChainStatus})`);
+        }
+        if (challenge.disputeDeadline && challenge.disputeDeadline.getTime() <= Date.now()) {
+          throw new RelayerError('Dispute period is over');
+        }
+        // The bond is pulled like a stake, so it rides on the same permit
+        const bond: bigint = await client.challengeFactoryContract.getDisputeBond(onChainId);
+        return {
+          data: factory.encodeFunctionData('disputeResolution', [onChainId]),
+          stake: bond,
+        };
+      }
+      case 'claim':
+        if (challenge.onChainStatus !== 'resolved') {
+          throw new RelayerError(`Challenge not resolved yet (status: ${challenge.onChainStatus})`);
+        }
+        return {
+          data: factory.encodeFunctionData('claimStake', [onChainId]),
+          stake: BigInt(0),
+        };
+      default:
+        throw new RelayerError(`Unsupported action: ${input.action}`);
+    }
+  }
+
+  private toPrepared(row: RelayerRequest, forwarderAddress: string): PreparedRelay {
+    const permit = row.permitData ? buildPermit(row) : null;
+    return {
+      requestId: row.id,
+      action: row.action as RelayerAction,
+      challengeId: row.challengeId!,
+      walletAddress: row.walletAddress,
+      expiresAt: row.expiresAt,
+      forwardRequest: toTypedDataPayload(
+        getForwarderDomain(row.chainId, forwarderAddress),
+        FORWARD_REQUEST_TYPES,
+        buildForwardMessage(row)
+      ),
+      permit: permit ? toTypedDataPayload(permit.domain, PERMIT_TYPES, permit.message) : null,
+    };
+  }
+
+  private signedBy(recover: () => string, walletAddress: string): boolean {
+    try {
+      return recover().toLowerCase() === walletAddress.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async broadcast(
+    row: RelayerRequest,
+    signatures: RelaySignatures,
+    forwarder: Contract,
+    relayer: ethers.Wallet
+  ): Promise<TransactionResponse> {
+    if (row.permitData && signatures.permitSignature) {
+      const { permit, message } = buildPermit(row);
+      const token = new Contract(permit.token, PERMIT_TOKEN_ABI, relayer);
+      const { v, r, s } = ethers.Signature.from(signatures.permitSignature);
+      try {
+        const permitTx = await token.permit(message.owner, message.spender, message.value, message.deadline, v, r, s);
+        await permitTx.wait();
+        await db.update(relayerRequests).set({ permitTxHash: permitTx.hash }).where(eq(relayerRequests.id, row.id));
+      } catch (error) {
+        // Someone may have submitted the same permit first; fine if the allowance is there
+        const allowance: bigint = await token.allowance(message.owner, message.spender);
+        if (allowance < BigInt(message.value)) throw error;
+      }
+    }
+
+    const request = row.requestData as StoredForwardRequest;
+    return forwarder.connect(relayer).getFunction('execute')(
+      {
+        from: row.walletAddress,
+        to: request.to,
+        value: request.value,
+        gas: request.gas,
+        deadline: request.deadline,
+        data: request.data,
+        signature: signatures.signature,
+      },
+      { gasLimit: BigInt(request.gas) + BigInt(100_000) }
+    );
+  }
+
+  private async trackConfirmation(row: RelayerRequest, tx: TransactionResponse): Promise<void> {
+    try {
+      const receipt = await tx.wait();
+      await db
+        .update(relayerRequests)
+        .set({ status: 'confirmed', confirmedAt: new Date(), gasUsed: receipt ? Number(receipt.gasUsed) : null })
+        .where(eq(relayerRequests.id, row.id));
+
+      if (row.action === 'accept_p2p' && row.challengeId !== null) {
+        await db
+          .update(challenges)
+          .set({ status: 'active', onChainStatus: 'active' })
+          .where(eq(challenges.id, row.challengeId));
+      }
+    } catch (error: any) {
+      const message = error?.shortMessage || error?.message || 'Transaction failed';
+      console.error(`Relayed ${row.action} ${tx.hash} failed:`, message);
+      await this.markFinished(row.id, 'failed', message, error?.receipt ? Number(error.receipt.gasUsed) : null);
+      await db
+        .update(blockchainTransactions)
+        .set({ status: 'failed', errorMessage: message })
+        .where(eq(blockchainTransactions.transactionHash, tx.hash));
+    }
+  }
+
+  private async markFinished(
+    id: number,
+    status: 'failed' | 'expired',
+    errorMessage: string,
+    gasUsed: number | null = null
+  ): Promise<void> {
+    await db
+      .update(relayerRequests)
+      .set({ status, errorMessage, ...(gasUsed !== null && { gasUsed }) })
+      .where(eq(relayerRequests.id, id));
+  }
+}
+
+export const relayerService = new RelayerService();
@@ -5,52 +5,150 @@
 
 import { ethers } from 'ethers';
 import { getBlockchainClient } from './client';
+import { getTransactionManager } from './txManager';
+import { getResolutionProposal, type OnChainResolutionProposal } from './optimisticResolution';
+
+/**
+ * EIP-712 Resolution, verified by ChallengeFactory.resolveChallenge.
+ * Domain and struct must match the contract exactly (RESOLUTION_TYPEHASH,
+ * EIP712("ChallengeFactory", "1")); contracts/test/ResolutionSignature.t.sol
+ * pins both sides to the same test vector.
+ */
+export const RESOLUTION_DOMAIN_NAME = 'ChallengeFactory';
+export const RESOLUTION_DOMAIN_VERSION = '1';
+export const RESOLUTION_SIGNATURE_TTL_SECONDS = 60 * 60;
+
+export const RESOLUTION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Resolution: [
+    { name: 'challengeId', type: 'uint256' },
+    { name: 'winner', type: 'address' },
+    { name: 'pointsAwarded', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+/**
+ * Group pools resolve by side (ChallengeFactory.GroupOutcome, NONE = 0 is invalid)
+ */
+export const GROUP_OUTCOMES = { YES: 1, NO: 2, DRAW: 3 } as const;
+export type GroupOutcome = keyof typeof GROUP_OUTCOMES;
+
+export const GROUP_RESOLUTION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  GroupResolution: [
+    { name: 'challengeId', type: 'uint256' },
+    { name: 'outcome', type: 'uint8' },
+    { name: 'pointsAwarded', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
 
 interface SignableChallenge {
-  challengeId: number;
+  challengeId: number;          // ChallengeFactory challenge id
   winner: string;
   pointsAwarded: number;
+  nonce?: number | bigint;      // Defaults to ChallengeFactory.resolutionNonces(challengeId)
+  deadline?: number;            // Unix seconds; defaults to now + RESOLUTION_SIGNATURE_TTL_SECONDS
+  chainId?: number;             // Chain the challenge lives on; defaults to DEFAULT_CHAIN_ID
+}
+
+export interface ResolutionMessage {
+  challengeId: number | bigint;
+  winner: string;
+  pointsAwarded: number | bigint;
+  nonce: number | bigint;
+  deadline: number | bigint;
+}
+
+/**
+ * EIP-712 domain for a ChallengeFactory deployment
+ */
+export function getResolutionDomain(chainId: number | bigint, verifyingContract: string): ethers.TypedDataDomain {
+  return {
+    name: RESOLUTION_DOMAIN_NAME,
+    version: RESOLUTION_DOMAIN_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+/**
+ * Digest the contract recovers from (ChallengeFactory.hashResolution)
+ */
+export function hashResolution(domain: ethers.TypedDataDomain, message: ResolutionMessage): string {
+  return ethers.TypedDataEncoder.hash(domain, RESOLUTION_TYPES, message);
+}
+
+/**
+ * Recover the signer of a resolution
+ */
+export function recoverResolutionSigner(
+  domain: ethers.TypedDataDomain,
+  message: ResolutionMessage,
+  signature: string
+): string {
+  return ethers.verifyTypedData(domain, RESOLUTION_TYPES, message, signature);
+}
+
+/**
+ * Fill in nonce (from the contract) and deadline, and build the domain
+ */
+async function buildResolution(
+  challenge: SignableChallenge
+): Promise<{ domain: ethers.TypedDataDomain; message: ResolutionMessage }> {
+  const client = getBlockchainClient(challenge.chainId);
+  const network = await client.getProvider().getNetwork();
+  const factoryAddress = client.getContractAddresses().challengeFactory;
+
+  const nonce = challenge.nonce ?? (await client.challengeFactoryContract.resolutionNonces(challenge.challengeId));
+  const deadline = challenge.deadline ?? Math.floor(Date.now() / 1000) + RESOLUTION_SIGNATURE_TTL_SECONDS;
+
+  return {
+    domain: getResolutionDomain(network.chainId, factoryAddress),
+    message: {
+      challengeId: challenge.challengeId,
+      winner: challenge.winner,
+      pointsAwarded: challenge.pointsAwarded,
+      nonce: BigInt(nonce),
+      deadline,
+    },
+  };
 }
 
 /**
  * Sign a challenge resolution
- * Returns signature that can be verified on-chain by the admin signer
- * 
+ * Returns an EIP-712 signature that ChallengeFactory.resolveChallenge accepts
+ *
  * Admin signature proves:
  * 1. Admin authorized this specific winner
  * 2. Admin awarded these specific points
- * 3. For this specific challenge
+ * 3. For this specific challenge, contract and chain
+ * 4. Only once (nonce) and only until the deadline
  */
 export async function signChallengeResolution(
   challenge: SignableChallenge
 ): Promise<{
   signature: string;
   messageHash: string;
-  ethSignedMessage: string;
   signer: string;
+  nonce: string;
+  deadline: number;
   timestamp: number;
 }> {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(challenge.chainId);
   const adminSigner = client.getAdminSigner();
 
   try {
-    // Create message hash following Solidity format
-    const messageHash = ethers.solidityPacked(
-      ['uint256', 'address', 'uint256'],
-      [challenge.challengeId, challenge.winner, challenge.pointsAwarded]
-    );
-
-    // Hash it again with keccak256
-    const hashFinal = ethers.keccak256(messageHash);
-
-    // Sign with admin wallet
-    const signature = await adminSigner.signMessage(ethers.toBeArray(hashFinal));
+    const { domain, message } = await buildResolution(challenge);
+    const signature = await adminSigner.signTypedData(domain, RESOLUTION_TYPES, message);
 
     return {
       signature,
-      messageHash: hashFinal,
-      ethSignedMessage: ethers.hashMessage(ethers.toBeArray(hashFinal)),
+      messageHash: hashResolution(domain, message),
       signer: adminSigner.address,
+      nonce: message.nonce.toString(),
+      deadline: Number(message.deadline),
       timestamp: Math.floor(Date.now() / 1000),
     };
   } catch (error) {
@@ -61,61 +159,56 @@ export async function signChallengeResolution(
 
 /**
  * Verify a signature (for testing/validation)
- * Returns the signer address if valid
+ * Returns the signer address; valid only if signed by the admin and not expired
  */
 export async function verifyChallengeSignature(
-  challenge: SignableChallenge,
+  challenge: SignableChallenge & { deadline: number },
   signature: string
 ): Promise<{
   isValid: boolean;
   signer: string;
+  expired: boolean;
 }> {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(challenge.chainId);
   const expectedAdmin = client.getAdminAddress();
 
   try {
-    // Recreate message hash
-    const messageHash = ethers.solidityPacked(
-      ['uint256', 'address', 'uint256'],
-      [challenge.challengeId, challenge.winner, challenge.pointsAwarded]
-    );
-
-    const hashFinal = ethers.keccak256(messageHash);
-
-    // Recover signer from signature
-    const signer = ethers.recoverAddress(
-      ethers.hashMessage(ethers.toBeArray(hashFinal)),
-      signature
-    );
-
-    const isValid = signer.toLowerCase() === expectedAdmin.toLowerCase();
+    const { domain, message } = await buildResolution(challenge);
+    const signer = recoverResolutionSigner(domain, message, signature);
+    const expired = Number(message.deadline) < Math.floor(Date.now() / 1000);
 
     return {
-      isValid,
+      isValid: signer.toLowerCase() === expectedAdmin.toLowerCase() && !expired,
       signer,
+      expired,
     };
   } catch (error) {
     console.error('Failed to verify signature:', error);
     return {
       isValid: false,
       signer: '',
+      expired: false,
     };
   }
 }
 
 /**
  * Create and submit a challenge resolution on-chain
- * This combines signing + contract call
+ * This combines signing + contract call. While the factory has a dispute
+ * period the resolution is only proposed and `proposal` is set.
+ * challengeId is the on-chain id; dbChallengeId links the recorded
+ * transaction to the challenge row.
  */
 export async function resolveChallengeOnChain(
-  challenge: SignableChallenge
+  challenge: SignableChallenge & { dbChallengeId?: number }
 ): Promise<{
   transactionHash: string;
   blockNumber: number;
   gasUsed: string;
   status: 'success' | 'failed';
+  proposal: OnChainResolutionProposal | null;
 }> {
-  const client = getBlockchainClient();
+  const client = getBlockchainClient(challenge.chainId);
 
   try {
     // Step 1: Sign the resolution
@@ -125,32 +218,48 @@ export async function resolveChallengeOnChain(
 
     // Step 2: Verify signature before submitting
     console.log(`🔍 Verifying signature...`);
-    const verification = await verifyChallengeSignature(challenge, signatureData.signature);
+    const signed = { ...challenge, nonce: BigInt(signatureData.nonce), deadline: signatureData.deadline };
+    const verification = await verifyChallengeSignature(signed, signatureData.signature);
     if (!verification.isValid) {
       throw new Error('Signature verification failed');
     }
     console.log(`✅ Signature verified`);
 
-    // Step 3: Submit to blockchain
+    // Step 3: Submit through the transaction manager and wait for confirmations
     console.log(`📤 Submitting resolution to blockchain...`);
-    const contract = client.getChallengeFactoryForWriting();
-    
-    const tx = await contract.resolveChallenge(
-      challenge.challengeId,
-      challenge.winner,
-      challenge.pointsAwarded,
-      signatureData.signature
+    const manager = getTransactionManager(client.getChainId());
+    const sent = await manager.sendContractCall(
+      client.challengeFactoryContract,
+      'resolveChallenge',
+      [
+        challenge.challengeId,
+        challenge.winner,
+        challenge.pointsAwarded,
+        signatureData.deadline,
+        signatureData.signature,
+      ],
+      {
+        transactionType: 'challenge_resolve',
+        contractName: 'ChallengeFactory',
+        parameters: { challengeId: challenge.challengeId, winner: challenge.winner, pointsAwarded: challenge.pointsAwarded },
+        challengeId: challenge.dbChallengeId ?? null,
+      }
     );
+    const confirmed = await manager.wait(sent.id);
+    const proposal = await getResolutionProposal(challenge.challengeId, client.getChainId());
 
-    const receipt = await tx.wait();
-
-    console.log(`✅ Challenge resolved! TX: ${receipt.transactionHash}`);
+    console.log(
+      proposal
+        ? `✅ Resolution proposed, disputable until ${proposal.disputeDeadline.toISOString()}. TX: ${confirmed.transactionHash}`
+        : `✅ Challenge resolved! TX: ${confirmed.transactionHash}`
+    );
 
     return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
-      gasUsed: receipt.gasUsed.toString(),
+      transactionHash: confirmed.transactionHash,
+      blockNumber: confirmed.blockNumber ?? 0,
+      gasUsed: String(confirmed.gasUsed ?? 0),
       status: 'success',
+      proposal,
     };
   } catch (error) {
     console.error('Failed to resolve challenge on-chain:', error);
@@ -158,6 +267,79 @@ export async function resolveChallengeOnChain(
   }
 }
 
+/**
+ * Sign and submit a group challenge resolution by winning side
+ * (DRAW refunds every participant). challengeId is the on-chain id;
+ * dbChallengeId links the recorded transaction to the challenge row.
+ */
+export async function resolveGroupChallengeOnChain(challenge: {
+  challengeId: number;
+  outcome: GroupOutcome;
+  pointsAwarded: number;
+  chainId?: number;
+  dbChallengeId?: number;
+}): Promise<{
+  transactionHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  status: string;
+  proposal: OnChainResolutionProposal | null;
+}> {
+  const client = getBlockchainClient(challenge.chainId);
+  const adminSigner = client.getAdminSigner();
+
+  try {
+    const network = await client.getProvider().getNetwork();
+    const domain = getResolutionDomain(network.chainId, client.getContractAddresses().challengeFactory);
+    const message = {
+      challengeId: challenge.challengeId,
+      outcome: GROUP_OUTCOMES[challenge.outcome],
+      pointsAwarded: challenge.pointsAwarded,
+      nonce: await client.challengeFactoryContract.resolutionNonces(challenge.challengeId),
+      deadline: Math.floor(Date.now() / 1000) + RESOLUTION_SIGNATURE_TTL_SECONDS,
+    };
+
+    console.log(`📝 Signing group resolution for challenge ${challenge.challengeId} (${challenge.outcome})...`);
+    const signature = await adminSigner.signTypedData(domain, GROUP_RESOLUTION_TYPES, message);
+
+    const manager = getTransactionManager(client.getChainId());
+    const sent = await manager.sendContractCall(
+      client.challengeFactoryContract,
+      'resolveGroupChallenge',
+      [message.challengeId, message.outcome, message.pointsAwarded, message.deadline, signature],
+      {
+        transactionType: 'challenge_resolve',
+        contractName: 'ChallengeFactory',
+        parameters: {
+          challengeId: challenge.challengeId,
+          outcome: challenge.outcome,
+          pointsAwarded: challenge.pointsAwarded,
+        },
+        challengeId: challenge.dbChallengeId ?? null,
+      }
+    );
+    const confirmed = await manager.wait(sent.id);
+    const proposal = await getResolutionProposal(challenge.challengeId, client.getChainId());
+
+    console.log(
+      proposal
+        ? `✅ Group resolution proposed, disputable until ${proposal.disputeDeadline.toISOString()}. TX: ${confirmed.transactionHash}`
+        : `✅ Group challenge resolved! TX: ${confirmed.transactionHash}`
+    );
+
+    return {
+      transactionHash: confirmed.transactionHash,
+      blockNumber: confirmed.blockNumber ?? 0,
+      gasUsed: String(confirmed.gasUsed ?? 0),
+      status: 'success',
+      proposal,
+    };
+  } catch (error) {
+    console.error('Failed to resolve group challenge on-chain:', error);
+    throw error;
+  }
+}
+
 /**
  * Batch sign multiple challenges (for dashboard admin panel)
  * Useful for bulk challenge resolution
@@ -168,6 +350,8 @@ export async function batchSignChallenges(
   challengeId: number;
   signature: string;
   signer: string;
+  nonce?: string;
+  deadline?: number;
   error?: string;
 }>> {
   const results = [];
@@ -179,6 +363,8 @@ export async function batchSignChallenges(
         challengeId: challenge.challengeId,
         signature: signatureData.signature,
         signer: signatureData.signer,
+        nonce: signatureData.nonce,
+        deadline: signatureData.deadline,
       });
     } catch (error) {
       results.push({
@@ -196,14 +382,14 @@ export async function batchSignChallenges(
 /**
  * Get signing stats for admin dashboard
  */
-export async function getSigningStats(): Promise<{
+export async function getSigningStats(chainId?: number): Promise<{
   adminAddress: string;
   chainId: number;
   contractAddress: string;
   status: 'ready' | 'error';
 }> {
   try {
-    const client = getBlockchainClient();
+    const client = getBlockchainClient(chainId);
     const networkInfo = await client.getNetworkInfo();
 
     return {
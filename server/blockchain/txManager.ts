@@ -0,0 +1,798 @@
+/**
+ * Transaction Manager - Outbound admin-signer transactions
+ *
+ * Backend writes signed by the admin key go through here instead of
+ * `contract.method()` + `tx.wait()`:
+ *
+ *   send    -> simulated first (a revert costs no nonce and comes back with its
+ *              reason), nonce allocated, outbound_transactions row written,
+ *              signed tx broadcast, blockchain_transactions row 'pending'
+ *   monitor -> receipts polled; 'confirmed' after TX_CONFIRMATIONS blocks,
+ *              'failed' with the revert reason decoded from the ChallengeFactory
+ *              ABI, or re-signed at the same nonce with higher fees when stuck
+ *              for TX_STUCK_AFTER_MS (up to TX_MAX_ATTEMPTS broadcasts)
+ *
+ * Nonces are persisted per chain and signer: the next nonce is the larger of the
+ * node's pending count and the highest nonce we recorded + 1, so a restart or an
+ * RPC node that lost our mempool txs neither reuses nor skips a nonce. Sends for
+ * one signer are serialized.
+ *
+ * Final status is mirrored into blockchain_transactions (pending -> success |
+ * failed) through updateBlockchainTransactionStatus.
+ */
+
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { ethers, Contract, type TransactionReceipt } from 'ethers';
+import { db } from '../db';
+import {
+  blockchainTransactions,
+  outboundTransactions,
+  type OutboundTransaction,
+} from '../../shared/schema-blockchain';
+import { CHALLENGE_FACTORY_ABI, getBlockchainClient, getBlockchainClients, type BlockchainClient } from './client';
+import { getDefaultChainId, getExplorerTxUrl } from './chains';
+import { updateBlockchainTransactionStatus } from './db-utils';
+
+export const TX_CONFIRMATIONS = Number(process.env.TX_CONFIRMATIONS || 2);
+export const TX_STUCK_AFTER_MS = Number(process.env.TX_STUCK_AFTER_MS || 2 * 60 * 1000);
+export const TX_MAX_ATTEMPTS = Number(process.env.TX_MAX_ATTEMPTS || 6);
+export const TX_FEE_BUMP_PERCENT = 20; // nodes only accept a replacement paying >= 10% more
+export const TX_WAIT_TIMEOUT_MS = 3 * 60 * 1000;
+
+const TX_MAX_FEE_PER_GAS = process.env.TX_MAX_FEE_GWEI
+  ? ethers.parseUnits(process.env.TX_MAX_FEE_GWEI, 'gwei')
+  : null;
+const GAS_LIMIT_BUFFER_PERCENT = 20;
+const TX_MONITOR_TICK_MS = 15 * 1000;
+const WAIT_POLL_MS = 2 * 1000;
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+const ACTIVE_STATUSES = ['pending', 'cancelling'];
+export const OUTBOUND_TX_STATUSES = ['pending', 'cancelling', 'confirmed', 'failed', 'cancelled'] as const;
+
+const challengeFactoryInterface = new ethers.Interface(CHALLENGE_FACTORY_ABI);
+
+export class TxManagerError extends Error {
+  constructor(message: string, public status: number = 400, public revertReason: string | null = null) {
+    super(message);
+    this.name = 'TxManagerError';
+  }
+}
+
+export interface OutboundCall {
+  to: string;
+  data: string;
+  value?: bigint;
+  transactionType: string; // blockchain_transactions.transaction_type
+  contractName?: string;
+  functionName?: string;
+  parameters?: Record<string, unknown>;
+  challengeId?: number | null;
+}
+
+export interface FeeSettings {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface MonitorResult {
+  confirmed: number;
+  failed: number;
+  replaced: number;
+}
+
+// ============================================================================
+// REVERT DECODING & FEES
+// ============================================================================
+
+/**
+ * Human-readable reason from revert data: require() strings, panics and the
+ * custom errors in the ChallengeFactory ABI
+ */
+export function decodeRevertReason(
+  data: string | null | undefined,
+  iface: ethers.Interface = challengeFactoryInterface
+): string | null {
+  if (!data || !ethers.isHexString(data) || data.length < 10) return null;
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (data.startsWith(ERROR_STRING_SELECTOR)) {
+      return coder.decode(['string'], ethers.dataSlice(data, 4))[0];
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const code: bigint = coder.decode(['uint256'], ethers.dataSlice(data, 4))[0];
+      return `Panic(0x${code.toString(16)})`;
+    }
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return `${parsed.name}(${Array.from(parsed.args).map(String).join(', ')})`;
+    }
+  } catch {
+    // Malformed payload: fall through to the raw selector
+  }
+  return `Unknown error ${ethers.dataSlice(data, 0, 4)}`;
+}
+
+/**
+ * Revert data buried in an ethers/JSON-RPC error, if any
+ */
+export function extractRevertData(error: any): string | null {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.revert?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate)) return candidate;
+    if (typeof candidate?.data === 'string' && ethers.isHexString(candidate.data)) return candidate.data;
+  }
+  return null;
+}
+
+function revertReasonOf(error: any): string {
+  return (
+    decodeRevertReason(extractRevertData(error)) ||
+    error?.reason ||
+    error?.shortMessage ||
+    error?.message ||
+    'Transaction reverted'
+  );
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Replacement fees: previous fees raised by `percent` (rounded up), never
+ * below what the network currently asks for
+ */
+export function bumpFees(previous: FeeSettings, network: FeeSettings, percent: number = TX_FEE_BUMP_PERCENT): FeeSettings {
+  const bump = (value: bigint) => (value * BigInt(100 + percent) + BigInt(99)) / BigInt(100);
+  const maxPriorityFeePerGas = maxBigInt(bump(previous.maxPriorityFeePerGas), network.maxPriorityFeePerGas);
+  const maxFeePerGas = maxBigInt(maxBigInt(bump(previous.maxFeePerGas), network.maxFeePerGas), maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Errors after which nothing reached the mempool, so the nonce is still free
+function isRejectedBroadcast(error: unknown): boolean {
+  return (
+    ethers.isError(error, 'INSUFFICIENT_FUNDS') ||
+    ethers.isError(error, 'NONCE_EXPIRED') ||
+    ethers.isError(error, 'REPLACEMENT_UNDERPRICED') ||
+    ethers.isError(error, 'CALL_EXCEPTION')
+  );
+}
+
+function errorMessageOf(error: any): string {
+  return error?.shortMessage || error?.message || 'Unknown error';
+}
+
+// ============================================================================
+// PER-CHAIN MANAGER
+// ============================================================================
+
+export class TransactionManager {
+  private queue: Promise<unknown> = Promise.resolve();
+  private ticking: Promise<MonitorResult> | null = null;
+
+  constructor(readonly client: BlockchainClient) {}
+
+  get chainId(): number {
+    return this.client.getChainId();
+  }
+
+  get fromAddress(): string {
+    return this.client.getAdminSigner().address;
+  }
+
+  /**
+   * Encode a contract call and send it from the admin signer
+   */
+  async sendContractCall(
+    contract: Contract,
+    functionName: string,
+    args: unknown[],
+    meta: Omit<OutboundCall, 'to' | 'data' | 'functionName'>
+  ): Promise<OutboundTransaction> {
+    return this.send({
+      ...meta,
+      to: await contract.getAddress(),
+      data: contract.interface.encodeFunctionData(functionName, args),
+      functionName,
+    });
+  }
+
+  async send(call: OutboundCall): Promise<OutboundTransaction> {
+    return this.enqueue(() => this.broadcastNew(call));
+  }
+
+  /**
+   * Resolve once the transaction has TX_CONFIRMATIONS confirmations; throws
+   * with the revert reason if it failed, or a 504 if it is still pending at
+   * the timeout (the monitor keeps tracking it)
+   */
+  async wait(id: number, timeoutMs: number = TX_WAIT_TIMEOUT_MS): Promise<OutboundTransaction> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const row = await this.getTransaction(id);
+      if (row.status === 'confirmed') return row;
+      if (row.status === 'failed' || row.status === 'cancelled') {
+        const reason = row.revertReason || row.errorMessage || 'Transaction failed';
+        throw new TxManagerError(`${row.functionName || 'Transaction'} failed: ${reason}`, 422, row.revertReason);
+      }
+      if (Date.now() >= deadline) {
+        throw new TxManagerError(
+          `Transaction ${row.transactionHash} still pending after ${Math.round(timeoutMs / 1000)}s; it is still being tracked`,
+          504
+        );
+      }
+
+      await this.tick();
+      await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_MS));
+    }
+  }
+
+  async getTransaction(id: number): Promise<OutboundTransaction> {
+    const [row] = await db
+      .select()
+      .from(outboundTransactions)
+      .where(and(eq(outboundTransactions.id, id), eq(outboundTransactions.chainId, this.chainId)))
+      .limit(1);
+    if (!row) {
+      throw new TxManagerError('Transaction not found', 404);
+    }
+    return row;
+  }
+
+  /**
+   * Next nonce for the admin signer: never behind the node, never behind our own records
+   */
+  async getNextNonce(): Promise<number> {
+    const [recorded] = await db
+      .select({ nonce: sql<number | null>`max(${outboundTransactions.nonce})` })
+      .from(outboundTransactions)
+      .where(and(eq(outboundTransactions.chainId, this.chainId), eq(outboundTransactions.fromAddress, this.fromAddress)));
+
+    const onChain = await this.client.getProvider().getTransactionCount(this.fromAddress, 'pending');
+    const next = recorded?.nonce === null || recorded?.nonce === undefined ? 0 : Number(recorded.nonce) + 1;
+    return Math.max(onChain, next);
+  }
+
+  /**
+   * Replace a pending transaction with higher fees now (admin "speed up")
+   */
+  async bump(id: number): Promise<OutboundTransaction> {
+    return this.enqueue(async () => {
+      const row = await this.getTransaction(id);
+      this.assertActive(row);
+      return this.replace(row, { force: true });
+    });
+  }
+
+  /**
+   * Replace a pending transaction with a 0-value self-transfer at the same nonce
+   */
+  async cancel(id: number): Promise<OutboundTransaction> {
+    return this.enqueue(async () => {
+      const row = await this.getTransaction(id);
+      this.assertActive(row);
+      return this.replace(row, { force: true, cancel: true });
+    });
+  }
+
+  /**
+   * One monitor pass; concurrent callers share the pass in flight
+   */
+  tick(): Promise<MonitorResult> {
+    if (!this.ticking) {
+      this.ticking = this.runOnce().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async runOnce(): Promise<MonitorResult> {
+    const result: MonitorResult = { confirmed: 0, failed: 0, replaced: 0 };
+    const active = await db
+      .select()
+      .from(outboundTransactions)
+      .where(
+        and(
+          eq(outboundTransactions.chainId, this.chainId),
+          eq(outboundTransactions.fromAddress, this.fromAddress),
+          inArray(outboundTransactions.status, ACTIVE_STATUSES)
+        )
+      )
+      .orderBy(asc(outboundTransactions.nonce));
+    if (active.length === 0) return result;
+
+    const provider = this.client.getProvider();
+    const head = await provider.getBlockNumber();
+    const minedNonce = await provider.getTransactionCount(this.fromAddress, 'latest');
+
+    for (const row of active) {
+      const receipt = await this.findReceipt(row);
+      if (receipt) {
+        const status = await this.settle(row, receipt, head);
+        if (status === 'confirmed') result.confirmed++;
+        if (status === 'failed' || status === 'cancelled') result.failed++;
+        continue;
+      }
+
+      const stale = Date.now() - new Date(row.lastSentAt).getTime() >= TX_STUCK_AFTER_MS;
+      if (!stale) continue;
+
+      if (row.nonce < minedNonce) {
+        // The nonce went to a transaction we have no hash for
+        await this.finish(row, 'failed', { errorMessage: `Nonce ${row.nonce} used by another transaction` });
+        result.failed++;
+        continue;
+      }
+
+      const replaced = await this.enqueue(async () => {
+        const fresh = await this.getTransaction(row.id);
+        if (!ACTIVE_STATUSES.includes(fresh.status) || fresh.transactionHash !== row.transactionHash) return null;
+        return this.replace(fresh, { force: false });
+      });
+      if (replaced && replaced.transactionHash !== row.transactionHash) result.replaced++;
+    }
+
+    return result;
+  }
+
+  private assertActive(row: OutboundTransaction): void {
+    if (!ACTIVE_STATUSES.includes(row.status)) {
+      throw new TxManagerError(`Transaction is ${row.status}`, 409);
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async getNetworkFees(): Promise<FeeSettings> {
+    const feeData = await this.client.getProvider().getFeeData();
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+    const maxFeePerGas = maxBigInt(feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0), maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private async broadcastNew(call: OutboundCall): Promise<OutboundTransaction> {
+    const signer = this.client.getAdminSigner();
+    const provider = this.client.getProvider();
+    const value = call.value ?? BigInt(0);
+    const label = call.functionName || call.transactionType;
+
+    let gasEstimate: bigint;
+    try {
+      gasEstimate = await provider.estimateGas({ from: signer.address, to: call.to, data: call.data, value });
+    } catch (error) {
+      const reason = revertReasonOf(error);
+      throw new TxManagerError(`${label} would revert: ${reason}`, 422, reason);
+    }
+
+    const fees = await this.getNetworkFees();
+    const nonce = await this.getNextNonce();
+    const gasLimit = (gasEstimate * BigInt(100 + GAS_LIMIT_BUFFER_PERCENT)) / BigInt(100);
+
+    const signed = await signer.signTransaction({
+      type: 2,
+      chainId: this.chainId,
+      to: call.to,
+      data: call.data,
+      value,
+      nonce,
+      gasLimit,
+      ...fees,
+    });
+    const hash = ethers.keccak256(signed);
+
+    const [row] = await db
+      .insert(outboundTransactions)
+      .values({
+        chainId: this.chainId,
+        fromAddress: signer.address,
+        nonce,
+        toAddress: call.to,
+        data: call.data,
+        value: value.toString(),
+        gasLimit: Number(gasLimit),
+        maxFeePerGas: Number(fees.maxFeePerGas),
+        maxPriorityFeePerGas: Number(fees.maxPriorityFeePerGas),
+        transactionType: call.transactionType,
+        contractName: call.contractName ?? null,
+        functionName: call.functionName ?? null,
+        challengeId: call.challengeId ?? null,
+        transactionHash: hash,
+      })
+      .returning();
+
+    try {
+      await provider.broadcastTransaction(signed);
+    } catch (error) {
+      if (isRejectedBroadcast(error)) {
+        // Nothing reached the mempool: give the nonce back
+        await db.delete(outboundTransactions).where(eq(outboundTransactions.id, row.id));
+        throw new TxManagerError(`${label} rejected by node: ${errorMessageOf(error)}`, 502);
+      }
+      // Unknown outcome (timeout, dropped connection); the monitor re-sends if it never lands
+      console.warn(`⚠️  Broadcast of ${hash} (nonce ${nonce}) unconfirmed: ${errorMessageOf(error)}`);
+    }
+
+    await db
+      .insert(blockchainTransactions)
+      .values({
+        chainId: this.chainId,
+        transactionHash: hash,
+        transactionType: call.transactionType,
+        contractAddress: call.to,
+        contractName: call.contractName ?? null,
+        fromAddress: signer.address,
+        toAddress: call.to,
+        functionName: call.functionName ?? null,
+        parameters: call.parameters ? JSON.stringify(call.parameters) : null,
+        status: 'pending',
+        challengeId: call.challengeId ?? null,
+      })
+      .onConflictDoNothing();
+
+    console.log(`📤 ${label} sent on chain ${this.chainId}: ${hash} (nonce ${nonce})`);
+    return row;
+  }
+
+  /**
+   * Re-sign at the same nonce with higher fees (or as a self-transfer to cancel)
+   */
+  private async replace(
+    row: OutboundTransaction,
+    options: { force: boolean; cancel?: boolean }
+  ): Promise<OutboundTransaction> {
+    if (!options.force && row.attempts >= TX_MAX_ATTEMPTS) {
+      const errorMessage = `Stuck after ${row.attempts} broadcasts; bump or cancel manually`;
+      if (row.errorMessage !== errorMessage) {
+        await db.update(outboundTransactions).set({ errorMessage }).where(eq(outboundTransactions.id, row.id));
+        console.warn(`⚠️  Outbound tx ${row.id} (nonce ${row.nonce}) on chain ${this.chainId}: ${errorMessage}`);
+      }
+      return row;
+    }
+
+    const fees = bumpFees(
+      { maxFeePerGas: BigInt(row.maxFeePerGas), maxPriorityFeePerGas: BigInt(row.maxPriorityFeePerGas) },
+      await this.getNetworkFees()
+    );
+    if (TX_MAX_FEE_PER_GAS !== null && fees.maxFeePerGas > TX_MAX_FEE_PER_GAS) {
+      if (BigInt(row.maxFeePerGas) >= TX_MAX_FEE_PER_GAS) {
+        const errorMessage = 'Fee cap (TX_MAX_FEE_GWEI) reached';
+        await db.update(outboundTransactions).set({ errorMessage }).where(eq(outboundTransactions.id, row.id));
+        return { ...row, errorMessage };
+      }
+      fees.maxFeePerGas = TX_MAX_FEE_PER_GAS;
+      if (fees.maxPriorityFeePerGas > TX_MAX_FEE_PER_GAS) fees.maxPriorityFeePerGas = TX_MAX_FEE_PER_GAS;
+    }
+
+    const cancel = options.cancel || row.status === 'cancelling';
+    const call = cancel
+      ? { to: row.fromAddress, data: '0x', value: BigInt(0), gasLimit: BigInt(21000) }
+      : { to: row.toAddress, data: row.data, value: BigInt(row.value), gasLimit: BigInt(row.gasLimit) };
+
+    const signed = await this.client.getAdminSigner().signTransaction({
+      type: 2,
+      chainId: this.chainId,
+      nonce: row.nonce,
+      ...call,
+      ...fees,
+    });
+    const hash = ethers.keccak256(signed);
+
+    try {
+      await this.client.getProvider().broadcastTransaction(signed);
+    } catch (error) {
+      if (ethers.isError(error, 'NONCE_EXPIRED')) {
+        // An earlier broadcast got mined meanwhile; the next pass settles it
+        return row;
+      }
+      const errorMessage = `Replacement failed: ${errorMessageOf(error)}`;
+      await db.update(outboundTransactions).set({ errorMessage }).where(eq(outboundTransactions.id, row.id));
+      if (options.force) {
+        throw new TxManagerError(errorMessage, 502);
+      }
+      return { ...row, errorMessage };
+    }
+
+    const [updated] = await db
+      .update(outboundTransactions)
+      .set({
+        status: cancel ? 'cancelling' : row.status,
+        ...(cancel && { toAddress: call.to, data: call.data, value: '0', gasLimit: Number(call.gasLimit) }),
+        transactionHash: hash,
+        replacedHashes: [...row.replacedHashes, row.transactionHash],
+        attempts: row.attempts + 1,
+        maxFeePerGas: Number(fees.maxFeePerGas),
+        maxPriorityFeePerGas: Number(fees.maxPriorityFeePerGas),
+        lastSentAt: new Date(),
+        errorMessage: null,
+      })
+      .where(eq(outboundTransactions.id, row.id))
+      .returning();
+
+    await db
+      .update(blockchainTransactions)
+      .set({ transactionHash: hash })
+      .where(eq(blockchainTransactions.transactionHash, row.transactionHash));
+
+    console.log(
+      `⛽ ${cancel ? 'Cancelling' : 'Replaced'} nonce ${row.nonce} on chain ${this.chainId}: ${row.transactionHash} -> ${hash} ` +
+        `(maxFee ${ethers.formatUnits(fees.maxFeePerGas, 'gwei')} gwei)`
+    );
+    return updated;
+  }
+
+  private async findReceipt(row: OutboundTransaction): Promise<TransactionReceipt | null> {
+    const provider = this.client.getProvider();
+    for (const hash of [row.transactionHash, ...row.replacedHashes.slice().reverse()]) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  private async settle(row: OutboundTransaction, receipt: TransactionReceipt, head: number): Promise<string> {
+    const confirmations = Math.max(0, head - receipt.blockNumber + 1);
+    if (receipt.hash !== row.transactionHash) {
+      // An earlier broadcast won the nonce
+      await this.adoptMinedHash(row, receipt.hash);
+    }
+
+    if (confirmations < TX_CONFIRMATIONS) {
+      await db
+        .update(outboundTransactions)
+        .set({ confirmations, blockNumber: receipt.blockNumber, transactionHash: receipt.hash })
+        .where(eq(outboundTransactions.id, row.id));
+      return row.status;
+    }
+
+    const mined = {
+      transactionHash: receipt.hash,
+      confirmations,
+      blockNumber: receipt.blockNumber,
+      gasUsed: Number(receipt.gasUsed),
+    };
+    if (row.status === 'cancelling' && receipt.to?.toLowerCase() === row.fromAddress.toLowerCase()) {
+      await this.finish({ ...row, ...mined }, 'cancelled', { errorMessage: 'Cancelled by admin' });
+      return 'cancelled';
+    }
+    if (receipt.status === 0) {
+      const revertReason = await this.replayRevert(row, receipt.blockNumber);
+      await this.finish({ ...row, ...mined }, 'failed', { revertReason });
+      return 'failed';
+    }
+
+    await this.finish({ ...row, ...mined }, 'confirmed', {});
+    return 'confirmed';
+  }
+
+  private async finish(
+    row: OutboundTransaction,
+    status: 'confirmed' | 'failed' | 'cancelled',
+    details: { revertReason?: string; errorMessage?: string }
+  ): Promise<void> {
+    await db
+      .update(outboundTransactions)
+      .set({
+        status,
+        transactionHash: row.transactionHash,
+        confirmations: row.confirmations,
+        blockNumber: row.blockNumber,
+        gasUsed: row.gasUsed,
+        revertReason: details.revertReason ?? null,
+        errorMessage: details.errorMessage ?? null,
+        confirmedAt: new Date(),
+      })
+      .where(eq(outboundTransactions.id, row.id));
+
+    await updateBlockchainTransactionStatus(row.transactionHash, status === 'confirmed' ? 'success' : 'failed', {
+      blockNumber: row.blockNumber,
+      gasUsed: row.gasUsed,
+      errorMessage: details.revertReason ?? details.errorMessage ?? null,
+      ...(status !== 'confirmed' && { confirmedAt: new Date() }),
+    });
+
+    if (status === 'confirmed') {
+      console.log(`✅ ${row.functionName || row.transactionType} confirmed on chain ${this.chainId}: ${row.transactionHash}`);
+    } else {
+      console.error(
+        `❌ ${row.functionName || row.transactionType} ${status} on chain ${this.chainId}: ${row.transactionHash}` +
+          ` (${details.revertReason ?? details.errorMessage})`
+      );
+    }
+  }
+
+  private async adoptMinedHash(row: OutboundTransaction, minedHash: string): Promise<void> {
+    const [existing] = await db
+      .select({ id: blockchainTransactions.id })
+      .from(blockchainTransactions)
+      .where(eq(blockchainTransactions.transactionHash, minedHash))
+      .limit(1);
+
+    if (existing) {
+      // The indexer already recorded the mined hash; drop our row for the unmined one
+      await db.delete(blockchainTransactions).where(eq(blockchainTransactions.transactionHash, row.transactionHash));
+    } else {
+      await db
+        .update(blockchainTransactions)
+        .set({ transactionHash: minedHash })
+        .where(eq(blockchainTransactions.transactionHash, row.transactionHash));
+    }
+
+    const replacedHashes = [...row.replacedHashes.filter((hash) => hash !== minedHash), row.transactionHash];
+    await db
+      .update(outboundTransactions)
+      .set({ transactionHash: minedHash, replacedHashes })
+      .where(eq(outboundTransactions.id, row.id));
+    row.transactionHash = minedHash;
+    row.replacedHashes = replacedHashes;
+  }
+
+  private async replayRevert(row: OutboundTransaction, blockNumber: number): Promise<string> {
+    try {
+      await this.client.getProvider().call({
+        from: row.fromAddress,
+        to: row.toAddress,
+        data: row.data,
+        value: BigInt(row.value),
+        blockTag: blockNumber,
+      });
+    } catch (error) {
+      return revertReasonOf(error);
+    }
+    return 'Transaction reverted';
+  }
+}
+
+// ============================================================================
+// REGISTRY & ADMIN QUERIES
+// ============================================================================
+
+const managers = new Map<number, TransactionManager>();
+
+/**
+ * Manager for the admin signer on a chain (default chain if omitted)
+ */
+export function getTransactionManager(chainId: number = getDefaultChainId()): TransactionManager {
+  const client = getBlockchainClient(chainId);
+  let manager = managers.get(chainId);
+  if (!manager || manager.client !== client) {
+    manager = new TransactionManager(client);
+    managers.set(chainId, manager);
+  }
+  return manager;
+}
+
+function describeOutboundTransaction(row: OutboundTransaction) {
+  const stuck =
+    ACTIVE_STATUSES.includes(row.status) && Date.now() - new Date(row.lastSentAt).getTime() >= TX_STUCK_AFTER_MS;
+  return {
+    ...row,
+    stuck,
+    explorerUrl: getExplorerTxUrl(row.chainId, row.transactionHash),
+  };
+}
+
+export async function listOutboundTransactions(filters: {
+  chainId?: number;
+  status?: string;
+  limit?: number;
+}) {
+  const conditions = [];
+  if (filters.chainId !== undefined) conditions.push(eq(outboundTransactions.chainId, filters.chainId));
+  if (filters.status) conditions.push(eq(outboundTransactions.status, filters.status));
+
+  const rows = await db
+    .select()
+    .from(outboundTransactions)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(outboundTransactions.createdAt))
+    .limit(Math.min(filters.limit || 50, 200));
+
+  return rows.map(describeOutboundTransaction);
+}
+
+export async function getOutboundTransaction(id: number) {
+  const [row] = await db.select().from(outboundTransactions).where(eq(outboundTransactions.id, id)).limit(1);
+  if (!row) {
+    throw new TxManagerError('Transaction not found', 404);
+  }
+  return describeOutboundTransaction(row);
+}
+
+/**
+ * Counts per chain and status, plus transactions stuck past TX_STUCK_AFTER_MS
+ */
+export async function getOutboundTransactionStats() {
+  const counts = await db
+    .select({
+      chainId: outboundTransactions.chainId,
+      status: outboundTransactions.status,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(outboundTransactions)
+    .groupBy(outboundTransactions.chainId, outboundTransactions.status);
+
+  const stuck = await db
+    .select({ chainId: outboundTransactions.chainId, count: sql<number>`count(*)::int` })
+    .from(outboundTransactions)
+    .where(
+      and(
+        inArray(outboundTransactions.status, ACTIVE_STATUSES),
+        sql`${outboundTransactions.lastSentAt} <= now() - (${TX_STUCK_AFTER_MS} * interval '1 millisecond')`
+      )
+    )
+    .groupBy(outboundTransactions.chainId);
+
+  return {
+    counts,
+    stuck,
+    settings: {
+      confirmations: TX_CONFIRMATIONS,
+      stuckAfterMs: TX_STUCK_AFTER_MS,
+      maxAttempts: TX_MAX_ATTEMPTS,
+      feeBumpPercent: TX_FEE_BUMP_PERCENT,
+      maxFeeGwei: TX_MAX_FEE_PER_GAS !== null ? ethers.formatUnits(TX_MAX_FEE_PER_GAS, 'gwei') : null,
+    },
+  };
+}
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+export class TransactionMonitor {
+  /**
+   * One pass over every chain with a client
+   */
+  async runOnce(): Promise<MonitorResult> {
+    const total: MonitorResult = { confirmed: 0, failed: 0, replaced: 0 };
+    for (const client of getBlockchainClients()) {
+      try {
+        const result = await getTransactionManager(client.getChainId()).tick();
+        total.confirmed += result.confirmed;
+        total.failed += result.failed;
+        total.replaced += result.replaced;
+      } catch (error) {
+        console.error(`❌ Transaction monitor failed on chain ${client.getChainId()}:`, error);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Run runOnce on an interval. Returns a function that stops it.
+   */
+  start(intervalMs: number = TX_MONITOR_TICK_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        const result = await this.runOnce();
+        if (result.confirmed + result.failed + result.replaced > 0) {
+          console.log('⛓️  Outbound transactions:', result);
+        }
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Transaction monitor running every ${Math.round(intervalMs / 1000)}s`);
+
+    return () => clearInterval(timer);
+  }
+}
+
+export const transactionMonitor = new TransactionMonitor();
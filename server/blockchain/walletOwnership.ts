@@ -0,0 +1,291 @@
+/**
+ * Wallet Ownership - Sign-In with Ethereum (EIP-4361) proofs for linking wallets
+ *
+ * A wallet is only linked to a Bantah account once its key signs a
+ * server-issued message, so nobody can attach someone else's address and
+ * appear to own its balances or redirect payouts to it.
+ *
+ * Flow:
+ *   nonce  -> EIP-4361 message for (user, wallet, chain) stored with a single-use
+ *             nonce and an expiry (wallet_proof_nonces)
+ *   verify -> the exact message must come back with a personal_sign signature
+ *             that recovers to the wallet before it expires; the wallet is
+ *             recorded on user_wallet_addresses as verified and primary
+ *
+ * A wallet can be verified by one account per chain. Unverified wallets (rows
+ * linked before proofs existed) are rejected as payout destinations.
+ */
+
+import crypto from 'crypto';
+import { and, eq, isNull, ne, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { db } from '../db';
+import {
+  userWalletAddresses,
+  walletProofNonces,
+  type UserWalletAddress,
+} from '../../shared/schema-blockchain';
+import { getChainConfig } from './chains';
+import { addUserWallet, setPrimaryWallet } from './db-utils';
+
+export const WALLET_PROOF_TTL_MS = 10 * 60 * 1000;
+export const WALLET_PROOF_STATEMENT = 'Link this wallet to your Bantah account. This does not cost gas.';
+
+export class WalletOwnershipError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WalletOwnershipError';
+  }
+}
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export interface WalletProofRequest {
+  nonce: string;
+  message: string;
+  walletAddress: string;
+  chainId: number;
+  expiresAt: Date;
+}
+
+/**
+ * Render an EIP-4361 message (https://eips.ethereum.org/EIPS/eip-4361)
+ */
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse the fields of an EIP-4361 message; null when it isn't one
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  if (!header || !ethers.isAddress(lines[1] ?? '') || lines[2] !== '') {
+    return null;
+  }
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    statement = lines[index];
+    if (lines[index + 1] !== '') return null;
+    index += 2;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(': ');
+    if (separator === -1) return null;
+    fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  const chainId = Number(fields['Chain ID']);
+  if (!fields.URI || !fields.Version || !Number.isInteger(chainId) || !fields.Nonce || !fields['Issued At']) {
+    return null;
+  }
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement,
+    uri: fields.URI,
+    version: fields.Version,
+    chainId,
+    nonce: fields.Nonce,
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'],
+  };
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+export class WalletOwnershipService {
+  /**
+   * Issue a single-use proof message for linking a wallet. `appUrl` is the
+   * site the user signs in to; its host becomes the message domain.
+   */
+  async createProofRequest(
+    userId: string,
+    input: { walletAddress: string; chainId: number; appUrl: string }
+  ): Promise<WalletProofRequest> {
+    if (!ethers.isAddress(input.walletAddress)) {
+      throw new WalletOwnershipError('Invalid wallet address');
+    }
+    if (!getChainConfig(input.chainId)) {
+      throw new WalletOwnershipError(`Unsupported chain: ${input.chainId}`);
+    }
+
+    let url: URL;
+    try {
+      url = new URL(input.appUrl);
+    } catch {
+      throw new WalletOwnershipError('Invalid app URL', 500);
+    }
+
+    const walletAddress = ethers.getAddress(input.walletAddress);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + WALLET_PROOF_TTL_MS);
+    const message = buildSiweMessage({
+      domain: url.host,
+      address: walletAddress,
+      statement: WALLET_PROOF_STATEMENT,
+      uri: url.origin,
+      version: '1',
+      chainId: input.chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString(),
+    });
+
+    // Earlier unsigned messages for this wallet are superseded
+    await db
+      .delete(walletProofNonces)
+      .where(
+        and(
+          eq(walletProofNonces.userId, userId),
+          eq(walletProofNonces.chainId, input.chainId),
+          eq(walletProofNonces.walletAddress, walletAddress),
+          isNull(walletProofNonces.usedAt)
+        )
+      );
+
+    await db.insert(walletProofNonces).values({
+      userId,
+      chainId: input.chainId,
+      walletAddress,
+      nonce,
+      message,
+      expiresAt,
+    });
+
+    return { nonce, message, walletAddress, chainId: input.chainId, expiresAt };
+  }
+
+  /**
+   * Check a signed proof message and link the wallet as verified and primary
+   */
+  async verifyProof(
+    userId: string,
+    input: { message: string; signature: string; walletType?: string }
+  ): Promise<UserWalletAddress> {
+    const fields = parseSiweMessage(input.message);
+    if (!fields) {
+      throw new WalletOwnershipError('Not a Sign-In with Ethereum message');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(input.message, input.signature);
+    } catch {
+      throw new WalletOwnershipError('Invalid signature');
+    }
+
+    const proof = await db.transaction(async (tx) => {
+      const [proof] = await tx
+        .select()
+        .from(walletProofNonces)
+        .where(eq(walletProofNonces.nonce, fields.nonce))
+        .for('update');
+
+      // The stored message pins domain, address, chain and expiry; any edit fails here
+      if (!proof || proof.userId !== userId || proof.message !== input.message) {
+        throw new WalletOwnershipError('Unknown wallet proof, request a new message', 404);
+      }
+      if (proof.usedAt) {
+        throw new WalletOwnershipError('This message was already used, request a new one', 409);
+      }
+      if (proof.expiresAt.getTime() <= Date.now()) {
+        throw new WalletOwnershipError('Message expired, request a new one', 410);
+      }
+      if (signer !== proof.walletAddress) {
+        throw new WalletOwnershipError('Signature does not match the wallet', 403);
+      }
+
+      const [claimed] = await tx
+        .select({ id: userWalletAddresses.id })
+        .from(userWalletAddresses)
+        .where(
+          and(
+            eq(userWalletAddresses.chainId, proof.chainId),
+            sql`lower(${userWalletAddresses.walletAddress}) = ${proof.walletAddress.toLowerCase()}`,
+            eq(userWalletAddresses.isVerified, true),
+            ne(userWalletAddresses.userId, userId)
+          )
+        )
+        .limit(1);
+      if (claimed) {
+        throw new WalletOwnershipError('Wallet is already verified by another account', 409);
+      }
+
+      await tx.update(walletProofNonces).set({ usedAt: new Date() }).where(eq(walletProofNonces.id, proof.id));
+      return proof;
+    });
+
+    try {
+      const wallet = await addUserWallet({
+        userId,
+        walletAddress: proof.walletAddress,
+        walletType: input.walletType || 'privy',
+        chainId: proof.chainId,
+        isVerified: true,
+        verificationSignature: input.signature,
+        verifiedAt: new Date(),
+      });
+      return (await setPrimaryWallet(wallet.id, userId, proof.chainId)) ?? wallet;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new WalletOwnershipError('Wallet is already linked', 409);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Wallets can only receive payouts once their owner has proven control
+ */
+export function assertVerifiedPayoutWallet(wallet: Pick<UserWalletAddress, 'isVerified'> | null): void {
+  if (!wallet) {
+    throw new WalletOwnershipError('Connect a wallet on this chain first', 403);
+  }
+  if (!wallet.isVerified) {
+    throw new WalletOwnershipError(
+      'Wallet ownership not verified: sign the message from POST /api/points/connect-wallet/nonce to receive payouts',
+      403
+    );
+  }
+}
+
+export const walletOwnershipService = new WalletOwnershipService();
@@ -0,0 +1,149 @@
+/**
+ * 💬 Challenge Chat Service
+ * Messages between the people in a challenge
+ *
+ * - Anyone signed in can read a challenge's chat (challenge rooms are public);
+ *   only the challenger, the challenged user and joined participants can post
+ * - Posting needs chat enabled platform-wide and respects maxChatLength
+ * - Posts pass chat moderation first; shadow-hidden messages are only shown
+ *   to their author and are not broadcast
+ * - New messages are pushed to the challenge's realtime room
+ */
+
+import { and, desc, eq, inArray, or } from 'drizzle-orm';
+import { db } from './db';
+import { challengeMessages, challengeParticipants, challenges, users, type ChallengeMessage } from '../shared/schema';
+import { realtime } from './realtime';
+import { chatModerationService } from './chatModeration';
+import { eventChatService } from './eventChat';
+
+export const DEFAULT_CHALLENGE_PAGE_SIZE = 100;
+
+export class ChallengeChatError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ChallengeChatError';
+  }
+}
+
+export type ChallengeChatMessage = Pick<ChallengeMessage, 'id' | 'challengeId' | 'userId' | 'message' | 'createdAt'> & {
+  user: { id: string; username: string | null; firstName: string | null; profileImageUrl: string | null } | null;
+};
+
+export class ChallengeChatService {
+  /**
+   * Latest messages, oldest first
+   */
+  async listMessages(challengeId: number, viewerId: string): Promise<ChallengeChatMessage[]> {
+    await this.getChallenge(challengeId);
+
+    const rows = await db
+      .select()
+      .from(challengeMessages)
+      .where(
+        and(
+          eq(challengeMessages.challengeId, challengeId),
+          or(
+            eq(challengeMessages.moderationStatus, 'visible'),
+            and(eq(challengeMessages.moderationStatus, 'hidden'), eq(challengeMessages.userId, viewerId))
+          )
+        )
+      )
+      .orderBy(desc(challengeMessages.id))
+      .limit(DEFAULT_CHALLENGE_PAGE_SIZE);
+
+    return this.hydrate(rows.reverse());
+  }
+
+  async postMessage(challengeId: number, userId: string, input: { message?: unknown }): Promise<ChallengeChatMessage> {
+    const limits = await eventChatService.getChatLimits();
+    if (!limits.chatEnabled) {
+      throw new ChallengeChatError('Chat is currently disabled', 403);
+    }
+
+    const challenge = await this.getChallenge(challengeId);
+    if (challenge.challenger !== userId && challenge.challenged !== userId) {
+      const [participant] = await db
+        .select({ id: challengeParticipants.id })
+        .from(challengeParticipants)
+        .where(and(eq(challengeParticipants.challengeId, challengeId), eq(challengeParticipants.userId, userId)))
+        .limit(1);
+      if (!participant) {
+        throw new ChallengeChatError('Only challenge participants can post in this chat', 403);
+      }
+    }
+
+    const text = typeof input.message === 'string' ? input.message.trim() : '';
+    if (!text) {
+      throw new ChallengeChatError('Message cannot be empty');
+    }
+    if (text.length > limits.maxChatLength) {
+      throw new ChallengeChatError(`Message is too long (max ${limits.maxChatLength} characters)`);
+    }
+
+    const verdict = await chatModerationService.screenMessage('challenge', challengeId, userId, text);
+    const hidden = verdict.action === 'hide';
+
+    const [saved] = await db
+      .insert(challengeMessages)
+      .values({
+        challengeId,
+        userId,
+        message: text,
+        moderationStatus: hidden ? 'hidden' : 'visible',
+        moderationReason: verdict.reason,
+      })
+      .returning();
+
+    if (hidden) {
+      await chatModerationService.recordHidden('challenge', challengeId, saved.id, userId, verdict.reason);
+    } else {
+      await realtime.publish(`challenge:${challengeId}`, 'challenge_message', {
+        challengeId,
+        messageId: saved.id,
+        userId,
+      });
+    }
+
+    const [message] = await this.hydrate([saved]);
+    return message;
+  }
+
+  private async getChallenge(challengeId: number) {
+    const [challenge] = await db
+      .select({ id: challenges.id, challenger: challenges.challenger, challenged: challenges.challenged })
+      .from(challenges)
+      .where(eq(challenges.id, challengeId));
+    if (!challenge) {
+      throw new ChallengeChatError('Challenge not found', 404);
+    }
+    return challenge;
+  }
+
+  private async hydrate(rows: ChallengeMessage[]): Promise<ChallengeChatMessage[]> {
+    if (rows.length === 0) return [];
+
+    const userIds = Array.from(new Set(rows.map((row) => row.userId)));
+    const authors = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        profileImageUrl: users.profileImageUrl,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const authorById = new Map(authors.map((a) => [a.id, a]));
+
+    return rows.map((row) => ({
+      id: row.id,
+      challengeId: row.challengeId,
+      userId: row.userId,
+      message: row.message,
+      createdAt: row.createdAt,
+      user: authorById.get(row.userId) ?? null,
+    }));
+  }
+}
+
+export const challengeChatService = new ChallengeChatService();
@@ -0,0 +1,408 @@
+/**
+ * ⏱️ Challenge Lifecycle Scheduler
+ * Background job that watches challenge deadlines
+ *
+ * Every tick it:
+ * 1. Emits CHALLENGE_STARTING_SOON when `startsAt` is within the lead window
+ * 2. Emits CHALLENGE_ENDING_SOON when `dueDate` is within the lead window
+ * 3. Emits BONUS_EXPIRING when `bonusEndsAt` is within the lead window
+ * 4. Emits IMBALANCE_DETECTED when one side holds most of the pool
+ * 5. Moves open/active challenges past `dueDate` to `pending_admin` (awaiting resolution)
+ *
+ * Reminders go to participants (challenger/challenged, queue entries,
+ * challenge_participants) and followers. Each reminder is claimed in
+ * `challenge_lifecycle_events` first, so it fires at most once per challenge.
+ */
+
+import { and, eq, gt, inArray, isNotNull, isNull, lte, or } from 'drizzle-orm';
+import { db } from './db';
+import {
+  challenges,
+  challengeFollowers,
+  challengeLifecycleEvents,
+  challengeParticipants,
+  pairQueue,
+  type Challenge,
+} from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+
+export const AWAITING_RESOLUTION_STATUS = 'pending_admin';
+export const LIFECYCLE_TICK_MS = 60 * 1000;
+
+// Challenges still taking stakes / in play
+const LIVE_STATUSES = ['open', 'active'];
+// A pending P2P challenge can still have a kickoff coming up
+const UPCOMING_STATUSES = ['pending', 'open', 'active'];
+
+export interface LifecycleConfig {
+  startingSoonLeadMs: number;
+  endingSoonLeadMs: number;
+  bonusExpiringLeadMs: number;
+  imbalanceRatio: number;       // Share of the pool on one side that counts as imbalanced
+  imbalanceMinPool: number;     // Ignore tiny pools (coins)
+}
+
+export const DEFAULT_LIFECYCLE_CONFIG: LifecycleConfig = {
+  startingSoonLeadMs: 60 * 60 * 1000,    // 1 hour
+  endingSoonLeadMs: 60 * 60 * 1000,      // 1 hour
+  bonusExpiringLeadMs: 30 * 60 * 1000,   // 30 mins
+  imbalanceRatio: 0.75,
+  imbalanceMinPool: 100,
+};
+
+export interface LifecycleRunResult {
+  startingSoon: number;
+  endingSoon: number;
+  bonusExpiring: number;
+  imbalanced: number;
+  awaitingResolution: number;
+}
+
+/**
+ * The side that needs backers, or null when the pool is balanced enough
+ */
+export function detectImbalance(
+  yesStakeTotal: number,
+  noStakeTotal: number,
+  config: Pick<LifecycleConfig, 'imbalanceRatio' | 'imbalanceMinPool'> = DEFAULT_LIFECYCLE_CONFIG
+): { lightSide: 'YES' | 'NO'; heavyShare: number } | null {
+  const total = yesStakeTotal + noStakeTotal;
+  if (total < config.imbalanceMinPool) {
+    return null;
+  }
+
+  const heavy = Math.max(yesStakeTotal, noStakeTotal);
+  const heavyShare = heavy / total;
+  if (heavyShare < config.imbalanceRatio) {
+    return null;
+  }
+
+  return { lightSide: yesStakeTotal >= noStakeTotal ? 'NO' : 'YES', heavyShare };
+}
+
+/**
+ * "in 45 minutes", "in 2 hours"
+ */
+export function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) {
+    return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.round(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export class ChallengeLifecycleScheduler {
+  constructor(private config: LifecycleConfig = DEFAULT_LIFECYCLE_CONFIG) {}
+
+  /**
+   * One pass over all challenges. Safe to run repeatedly.
+   */
+  async runOnce(now: Date = new Date()): Promise<LifecycleRunResult> {
+    const result: LifecycleRunResult = {
+      startingSoon: 0,
+      endingSoon: 0,
+      bonusExpiring: 0,
+      imbalanced: 0,
+      awaitingResolution: 0,
+    };
+
+    result.awaitingResolution = await this.markAwaitingResolution(now);
+    result.startingSoon = await this.emitStartingSoon(now);
+    result.endingSoon = await this.emitEndingSoon(now);
+    result.bonusExpiring = await this.emitBonusExpiring(now);
+    result.imbalanced = await this.emitImbalanceDetected(now);
+
+    const total = Object.values(result).reduce((sum, n) => sum + n, 0);
+    if (total > 0) {
+      console.log('⏱️ Challenge lifecycle pass:', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Move open/active challenges past their due date to awaiting resolution
+   */
+  async markAwaitingResolution(now: Date = new Date()): Promise<number> {
+    const moved = await db
+      .update(challenges)
+      .set({ status: AWAITING_RESOLUTION_STATUS })
+      .where(
+        and(
+          inArray(challenges.status, LIVE_STATUSES),
+          isNotNull(challenges.dueDate),
+          lte(challenges.dueDate, now)
+        )
+      )
+      .returning({ id: challenges.id });
+
+    for (const { id } of moved) {
+      console.log(`⌛ Challenge ${id} passed its due date - awaiting admin resolution`);
+    }
+
+    return moved.length;
+  }
+
+  private async emitStartingSoon(now: Date): Promise<number> {
+    const due = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          inArray(challenges.status, UPCOMING_STATUSES),
+          gt(challenges.startsAt, now),
+          lte(challenges.startsAt, new Date(now.getTime() + this.config.startingSoonLeadMs))
+        )
+      );
+
+    let fired = 0;
+    for (const challenge of due) {
+      const timeLeft = formatTimeLeft(challenge.startsAt!.getTime() - now.getTime());
+      const sent = await this.emit(challenge, NotificationEvent.CHALLENGE_STARTING_SOON, {
+        title: '🚀 Challenge starting soon',
+        body: `"${challenge.title}" starts ${timeLeft}.`,
+        priority: NotificationPriority.MEDIUM,
+        data: { startsAt: challenge.startsAt },
+      });
+      if (sent) fired++;
+    }
+    return fired;
+  }
+
+  private async emitEndingSoon(now: Date): Promise<number> {
+    const due = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          inArray(challenges.status, LIVE_STATUSES),
+          gt(challenges.dueDate, now),
+          lte(challenges.dueDate, new Date(now.getTime() + this.config.endingSoonLeadMs))
+        )
+      );
+
+    let fired = 0;
+    for (const challenge of due) {
+      const timeLeft = formatTimeLeft(challenge.dueDate!.getTime() - now.getTime());
+      const sent = await this.emit(challenge, NotificationEvent.CHALLENGE_ENDING_SOON, {
+        title: '⏳ Challenge ending soon',
+        body: `"${challenge.title}" ends ${timeLeft}.`,
+        priority: NotificationPriority.MEDIUM,
+        data: { dueDate: challenge.dueDate },
+      });
+      if (sent) fired++;
+    }
+    return fired;
+  }
+
+  private async emitBonusExpiring(now: Date): Promise<number> {
+    const due = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          inArray(challenges.status, LIVE_STATUSES),
+          isNotNull(challenges.bonusSide),
+          gt(challenges.bonusEndsAt, now),
+          lte(challenges.bonusEndsAt, new Date(now.getTime() + this.config.bonusExpiringLeadMs))
+        )
+      );
+
+    let fired = 0;
+    for (const challenge of due) {
+      const timeLeft = formatTimeLeft(challenge.bonusEndsAt!.getTime() - now.getTime());
+      const sent = await this.emit(challenge, NotificationEvent.BONUS_EXPIRING, {
+        title: '🎁 Bonus expiring',
+        body: `The ${challenge.bonusMultiplier}x ${challenge.bonusSide} bonus on "${challenge.title}" ends ${timeLeft}.`,
+        priority: NotificationPriority.MEDIUM,
+        data: { bonusSide: challenge.bonusSide, bonusEndsAt: challenge.bonusEndsAt },
+      });
+      if (sent) fired++;
+    }
+    return fired;
+  }
+
+  private async emitImbalanceDetected(now: Date): Promise<number> {
+    const live = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          inArray(challenges.status, LIVE_STATUSES),
+          or(isNull(challenges.dueDate), gt(challenges.dueDate, now))
+        )
+      );
+
+    let fired = 0;
+    for (const challenge of live) {
+      const imbalance = detectImbalance(challenge.yesStakeTotal || 0, challenge.noStakeTotal || 0, this.config);
+      if (!imbalance) continue;
+
+      const lightShare = Math.round((1 - imbalance.heavyShare) * 100);
+      const bonusNote = challenge.bonusSide === imbalance.lightSide
+        ? ` A ${challenge.bonusMultiplier}x bonus is live on ${imbalance.lightSide}.`
+        : '';
+
+      // Keyed by side: fires again only if the pool tips the other way
+      const sent = await this.emit(
+        challenge,
+        NotificationEvent.IMBALANCE_DETECTED,
+        {
+          title: `⚖️ ${imbalance.lightSide} side needs backers`,
+          body: `Only ${lightShare}% of stakes on "${challenge.title}" are on ${imbalance.lightSide}.${bonusNote}`,
+          priority: NotificationPriority.LOW,
+          data: {
+            lightSide: imbalance.lightSide,
+            yesStakeTotal: challenge.yesStakeTotal,
+            noStakeTotal: challenge.noStakeTotal,
+          },
+        },
+        `${NotificationEvent.IMBALANCE_DETECTED}:${imbalance.lightSide}`
+      );
+      if (sent) fired++;
+    }
+    return fired;
+  }
+
+  /**
+   * Claim the marker, then notify everyone watching the challenge.
+   * Returns false if this reminder was already sent.
+   */
+  private async emit(
+    challenge: Challenge,
+    event: NotificationEvent,
+    message: { title: string; body: string; priority: NotificationPriority; data?: Record<string, any> },
+    marker: string = event
+  ): Promise<boolean> {
+    try {
+      const [claimed] = await db
+        .insert(challengeLifecycleEvents)
+        .values({ challengeId: challenge.id, marker })
+        .onConflictDoNothing()
+        .returning({ id: challengeLifecycleEvents.id });
+
+      if (!claimed) {
+        return false;
+      }
+
+      const audience = await this.getAudience(challenge);
+
+      for (const userId of audience) {
+        await notificationService.send({
+          userId,
+          challengeId: String(challenge.id),
+          event,
+          title: message.title,
+          body: message.body,
+          channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+          priority: message.priority,
+          data: { challengeId: challenge.id, ...message.data },
+        });
+      }
+
+      await db
+        .update(challengeLifecycleEvents)
+        .set({ recipients: audience.length })
+        .where(eq(challengeLifecycleEvents.id, claimed.id));
+
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to emit ${marker} for challenge ${challenge.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Participants and followers of a challenge, deduplicated
+   */
+  async getAudience(challenge: Pick<Challenge, 'id' | 'challenger' | 'challenged'>): Promise<string[]> {
+    const audience = new Set<string>();
+
+    if (challenge.challenger) audience.add(challenge.challenger);
+    if (challenge.challenged) audience.add(challenge.challenged);
+
+    const queued = await db
+      .selectDistinct({ userId: pairQueue.userId })
+      .from(pairQueue)
+      .where(and(eq(pairQueue.challengeId, challenge.id), inArray(pairQueue.status, ['waiting', 'matched'])));
+
+    const joined = await db
+      .selectDistinct({ userId: challengeParticipants.userId })
+      .from(challengeParticipants)
+      .where(and(eq(challengeParticipants.challengeId, challenge.id), eq(challengeParticipants.status, 'active')));
+
+    const followers = await db
+      .select({ userId: challengeFollowers.userId })
+      .from(challengeFollowers)
+      .where(eq(challengeFollowers.challengeId, challenge.id));
+
+    for (const { userId } of [...queued, ...joined, ...followers]) {
+      audience.add(userId);
+    }
+
+    return Array.from(audience);
+  }
+
+  /**
+   * Follow a challenge to get its lifecycle reminders. Idempotent.
+   */
+  async follow(challengeId: number, userId: string): Promise<void> {
+    await db
+      .insert(challengeFollowers)
+      .values({ challengeId, userId })
+      .onConflictDoNothing();
+  }
+
+  async unfollow(challengeId: number, userId: string): Promise<boolean> {
+    const removed = await db
+      .delete(challengeFollowers)
+      .where(and(eq(challengeFollowers.challengeId, challengeId), eq(challengeFollowers.userId, userId)))
+      .returning({ id: challengeFollowers.id });
+
+    return removed.length > 0;
+  }
+
+  async getFollowState(challengeId: number, userId: string): Promise<{ following: boolean; followers: number }> {
+    const rows = await db
+      .select({ userId: challengeFollowers.userId })
+      .from(challengeFollowers)
+      .where(eq(challengeFollowers.challengeId, challengeId));
+
+    return {
+      following: rows.some((row) => row.userId === userId),
+      followers: rows.length,
+    };
+  }
+
+  /**
+   * Run runOnce on an interval. Returns a function that stops it.
+   */
+  start(intervalMs: number = LIFECYCLE_TICK_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('❌ Challenge lifecycle pass failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Challenge lifecycle scheduler running every ${Math.round(intervalMs / 1000)}s`);
+
+    return () => clearInterval(timer);
+  }
+}
+
+export const challengeLifecycleScheduler = new ChallengeLifecycleScheduler();
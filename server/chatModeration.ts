@@ -0,0 +1,531 @@
+/**
+ * 🛡️ Chat Moderation
+ * Automatic screening and admin tools for event and challenge chat
+ *
+ * - Screening runs only while platform_settings.autoModeration is on;
+ *   mutes and timeouts apply either way
+ * - Admin word/regex filters hide or reject a message, per filter
+ * - Messages with more than MAX_LINKS_PER_MESSAGE links are shadow-hidden:
+ *   the author still sees them, nobody else does
+ * - Posting FLOOD_MESSAGES_PER_MINUTE messages within a minute rejects the next one
+ * - Hidden messages form the admin review queue; admins delete or restore them
+ * - Mutes are global or scoped to one event/challenge chat; a timeout is a
+ *   mute with an expiry
+ * - Every automatic and admin action is written to chat_moderation_log
+ */
+
+import { and, desc, eq, gt, inArray, isNull, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+  challengeMessages,
+  chatFilters,
+  chatModerationLog,
+  chatMutes,
+  eventMessages,
+  events,
+  platformSettings,
+  users,
+  type ChatFilter,
+  type ChatModerationEntry,
+  type ChatMute,
+  type Event,
+} from '../shared/schema';
+import { realtime } from './realtime';
+
+export const FLOOD_MESSAGES_PER_MINUTE = 8;
+export const MAX_LINKS_PER_MESSAGE = 2;
+export const MAX_FILTER_LENGTH = 200;
+export const MAX_TIMEOUT_MINUTES = 30 * 24 * 60;
+export const DEFAULT_QUEUE_SIZE = 50;
+export const MAX_QUEUE_SIZE = 200;
+
+export type ChatType = 'event' | 'challenge';
+export type FilterAction = 'hide' | 'reject';
+
+export class ChatModerationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ChatModerationError';
+  }
+}
+
+export interface FilterRule {
+  pattern: string;
+  isRegex: boolean;
+  action: FilterAction;
+}
+
+export interface ModerationContext {
+  recentMessageCount: number;  // The author's messages in the last minute
+}
+
+export interface ModerationVerdict {
+  action: 'allow' | 'hide' | 'reject';
+  reason: string | null;
+}
+
+export interface ReviewItem {
+  chatType: ChatType;
+  chatId: number;
+  messageId: number;
+  userId: string;
+  message: string;
+  reason: string | null;
+  createdAt: Date | null;
+  user: { id: string; username: string | null; firstName: string | null } | null;
+}
+
+const LINK_PATTERN = /(?:https?:\/\/|www\.)[^\s]+/gi;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive matcher for a filter; plain words match whole words only
+ */
+export function compileFilter(rule: Pick<FilterRule, 'pattern' | 'isRegex'>): RegExp {
+  if (!rule.isRegex) {
+    return new RegExp(`(^|[^\\w])${escapeRegex(rule.pattern)}(?=[^\\w]|$)`, 'i');
+  }
+  try {
+    return new RegExp(rule.pattern, 'i');
+  } catch {
+    throw new ChatModerationError(`Invalid regular expression: ${rule.pattern}`);
+  }
+}
+
+export function countLinks(text: string): number {
+  return (text.match(LINK_PATTERN) ?? []).length;
+}
+
+/**
+ * Decide what happens to a message: flooding and reject filters refuse it,
+ * hide filters and link spam shadow-hide it
+ */
+export function evaluateMessage(
+  text: string,
+  context: ModerationContext,
+  rules: FilterRule[]
+): ModerationVerdict {
+  if (context.recentMessageCount >= FLOOD_MESSAGES_PER_MINUTE) {
+    return { action: 'reject', reason: 'flood' };
+  }
+
+  let hiddenBy: FilterRule | null = null;
+  for (const rule of rules) {
+    let matcher: RegExp;
+    try {
+      matcher = compileFilter(rule);
+    } catch {
+      continue;  // Filters are validated on creation; never let a bad row block chat
+    }
+    if (!matcher.test(text)) continue;
+    if (rule.action === 'reject') {
+      return { action: 'reject', reason: `filter: ${rule.pattern}` };
+    }
+    hiddenBy = hiddenBy ?? rule;
+  }
+
+  if (hiddenBy) {
+    return { action: 'hide', reason: `filter: ${hiddenBy.pattern}` };
+  }
+  if (countLinks(text) > MAX_LINKS_PER_MESSAGE) {
+    return { action: 'hide', reason: 'link spam' };
+  }
+  return { action: 'allow', reason: null };
+}
+
+/**
+ * Both chat tables share the moderation columns; eventMessages is declared `any`,
+ * so the challenge table's type stands in for either
+ */
+function messageTable(chatType: ChatType): typeof challengeMessages {
+  return chatType === 'event' ? eventMessages : challengeMessages;
+}
+
+function chatIdOf(chatType: ChatType, row: any): number {
+  return chatType === 'event' ? row.eventId : row.challengeId;
+}
+
+function parseChatType(value: unknown): ChatType {
+  if (value !== 'event' && value !== 'challenge') {
+    throw new ChatModerationError('Chat type must be "event" or "challenge"');
+  }
+  return value;
+}
+
+function parseQueueSize(limit: unknown): number {
+  const parsed = Number(limit);
+  if (!Number.isInteger(parsed) || parsed <= 0) return DEFAULT_QUEUE_SIZE;
+  return Math.min(parsed, MAX_QUEUE_SIZE);
+}
+
+export class ChatModerationService {
+  async isAutoModerationEnabled(): Promise<boolean> {
+    const [settings] = await db
+      .select({ autoModeration: platformSettings.autoModeration })
+      .from(platformSettings)
+      .orderBy(desc(platformSettings.id))
+      .limit(1);
+    return settings?.autoModeration ?? true;
+  }
+
+  /**
+   * The mute that currently silences the user in this chat, if any
+   */
+  async getActiveMute(userId: string, chatType: ChatType, chatId: number): Promise<ChatMute | null> {
+    const [mute] = await db
+      .select()
+      .from(chatMutes)
+      .where(
+        and(
+          eq(chatMutes.userId, userId),
+          isNull(chatMutes.liftedAt),
+          or(isNull(chatMutes.expiresAt), gt(chatMutes.expiresAt, new Date())),
+          or(
+            eq(chatMutes.scope, 'global'),
+            and(eq(chatMutes.scope, chatType), eq(chatMutes.scopeId, chatId))
+          )
+        )
+      )
+      .orderBy(sql`${chatMutes.expiresAt} desc nulls first`)
+      .limit(1);
+    return mute ?? null;
+  }
+
+  /**
+   * Throw if a mute or timeout keeps the user out of this chat
+   */
+  async assertNotMuted(userId: string, chatType: ChatType, chatId: number): Promise<void> {
+    const mute = await this.getActiveMute(userId, chatType, chatId);
+    if (mute) {
+      throw new ChatModerationError(
+        mute.expiresAt
+          ? `You are timed out from chat until ${mute.expiresAt.toISOString()}`
+          : 'You are muted from chat',
+        403
+      );
+    }
+  }
+
+  /**
+   * Run before saving a message. Throws for muted users and rejected
+   * messages; otherwise says whether to store the message visible or hidden.
+   */
+  async screenMessage(chatType: ChatType, chatId: number, userId: string, text: string): Promise<ModerationVerdict> {
+    await this.assertNotMuted(userId, chatType, chatId);
+
+    if (!(await this.isAutoModerationEnabled())) {
+      return { action: 'allow', reason: null };
+    }
+
+    const table = messageTable(chatType);
+    const [recent] = await db
+      .select({ value: sql<number>`count(*)` })
+      .from(table)
+      .where(and(eq(table.userId, userId), gt(table.createdAt, new Date(Date.now() - 60 * 1000))));
+    const rules = await db.select().from(chatFilters);
+
+    const verdict = evaluateMessage(text, { recentMessageCount: Number(recent?.value ?? 0) }, rules.map(toRule));
+
+    if (verdict.action === 'reject') {
+      await this.log({ chatType, chatId, userId, action: 'rejected', reason: verdict.reason, details: { message: text } });
+      throw verdict.reason === 'flood'
+        ? new ChatModerationError('You are sending messages too quickly. Please wait a moment.', 429)
+        : new ChatModerationError('Your message was blocked by chat moderation');
+    }
+    return verdict;
+  }
+
+  /**
+   * Log a message that was stored shadow-hidden by screenMessage
+   */
+  async recordHidden(chatType: ChatType, chatId: number, messageId: number, userId: string, reason: string | null) {
+    await this.log({ chatType, chatId, messageId, userId, action: 'hidden', reason });
+  }
+
+  /**
+   * Hidden messages awaiting review, newest first
+   */
+  async listReviewQueue(options: { chatType?: unknown; limit?: unknown } = {}): Promise<ReviewItem[]> {
+    const limit = parseQueueSize(options.limit);
+    const chatTypes: ChatType[] = options.chatType == null ? ['event', 'challenge'] : [parseChatType(options.chatType)];
+
+    const items: ReviewItem[] = [];
+    for (const chatType of chatTypes) {
+      const table = messageTable(chatType);
+      const rows = await db
+        .select()
+        .from(table)
+        .where(eq(table.moderationStatus, 'hidden'))
+        .orderBy(desc(table.createdAt))
+        .limit(limit);
+
+      for (const row of rows) {
+        items.push({
+          chatType,
+          chatId: chatIdOf(chatType, row),
+          messageId: row.id,
+          userId: row.userId,
+          message: row.message,
+          reason: row.moderationReason,
+          createdAt: row.createdAt,
+          user: null,
+        });
+      }
+    }
+
+    items.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    const page = items.slice(0, limit);
+
+    const userIds = Array.from(new Set(page.map((item) => item.userId)));
+    if (userIds.length > 0) {
+      const authors = await db
+        .select({ id: users.id, username: users.username, firstName: users.firstName })
+        .from(users)
+        .where(inArray(users.id, userIds));
+      const authorById = new Map(authors.map((a) => [a.id, a]));
+      for (const item of page) {
+        item.user = authorById.get(item.userId) ?? null;
+      }
+    }
+    return page;
+  }
+
+  async deleteMessage(actorId: string, chatTypeInput: unknown, messageId: number, reason?: unknown) {
+    const chatType = parseChatType(chatTypeInput);
+    const note = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+    const row = await this.setMessageStatus(chatType, messageId, 'deleted', note);
+
+    await this.log({
+      chatType,
+      chatId: chatIdOf(chatType, row),
+      messageId,
+      userId: row.userId,
+      actorId,
+      action: 'deleted',
+      reason: note,
+    });
+    await realtime.publish(`${chatType}:${chatIdOf(chatType, row)}`, 'message_deleted', {
+      [`${chatType}Id`]: chatIdOf(chatType, row),
+      messageId,
+    });
+    return row;
+  }
+
+  async restoreMessage(actorId: string, chatTypeInput: unknown, messageId: number) {
+    const chatType = parseChatType(chatTypeInput);
+    const row = await this.setMessageStatus(chatType, messageId, 'visible', null);
+
+    await this.log({
+      chatType,
+      chatId: chatIdOf(chatType, row),
+      messageId,
+      userId: row.userId,
+      actorId,
+      action: 'restored',
+    });
+    // Same event the chat clients already refetch on
+    await realtime.publish(`${chatType}:${chatIdOf(chatType, row)}`, `${chatType}_message`, {
+      [`${chatType}Id`]: chatIdOf(chatType, row),
+      messageId,
+      userId: row.userId,
+    });
+    return row;
+  }
+
+  /**
+   * Mute a user, globally or in one chat; durationMinutes makes it a timeout
+   */
+  async muteUser(
+    actorId: string,
+    input: { userId?: unknown; scope?: unknown; scopeId?: unknown; durationMinutes?: unknown; reason?: unknown }
+  ): Promise<ChatMute> {
+    const userId = typeof input.userId === 'string' ? input.userId.trim() : '';
+    if (!userId) {
+      throw new ChatModerationError('userId is required');
+    }
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new ChatModerationError('User not found', 404);
+    }
+
+    const scope = input.scope == null ? 'global' : input.scope;
+    let scopeId: number | null = null;
+    if (scope !== 'global') {
+      parseChatType(scope);
+      scopeId = Number(input.scopeId);
+      if (!Number.isInteger(scopeId) || scopeId <= 0) {
+        throw new ChatModerationError('scopeId is required for event and challenge mutes');
+      }
+    }
+
+    let expiresAt: Date | null = null;
+    if (input.durationMinutes != null) {
+      const minutes = Number(input.durationMinutes);
+      if (!Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_TIMEOUT_MINUTES) {
+        throw new ChatModerationError(`durationMinutes must be a whole number between 1 and ${MAX_TIMEOUT_MINUTES}`);
+      }
+      expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    }
+
+    const reason = typeof input.reason === 'string' && input.reason.trim() ? input.reason.trim() : null;
+    const [mute] = await db
+      .insert(chatMutes)
+      .values({ userId, scope: scope as string, scopeId, reason, mutedBy: actorId, expiresAt })
+      .returning();
+
+    await this.log({
+      chatType: scope === 'global' ? null : (scope as ChatType),
+      chatId: scopeId,
+      userId,
+      actorId,
+      action: 'muted',
+      reason,
+      details: { muteId: mute.id, expiresAt },
+    });
+    return mute;
+  }
+
+  async liftMute(actorId: string, muteId: number): Promise<ChatMute> {
+    const [mute] = await db
+      .update(chatMutes)
+      .set({ liftedAt: new Date(), liftedBy: actorId })
+      .where(and(eq(chatMutes.id, muteId), isNull(chatMutes.liftedAt)))
+      .returning();
+    if (!mute) {
+      throw new ChatModerationError('Mute not found or already lifted', 404);
+    }
+
+    await this.log({
+      chatType: mute.scope === 'global' ? null : (mute.scope as ChatType),
+      chatId: mute.scopeId,
+      userId: mute.userId,
+      actorId,
+      action: 'unmuted',
+      details: { muteId },
+    });
+    return mute;
+  }
+
+  /**
+   * Mutes and timeouts still in force
+   */
+  async listActiveMutes(): Promise<ChatMute[]> {
+    return db
+      .select()
+      .from(chatMutes)
+      .where(and(isNull(chatMutes.liftedAt), or(isNull(chatMutes.expiresAt), gt(chatMutes.expiresAt, new Date()))))
+      .orderBy(desc(chatMutes.createdAt));
+  }
+
+  async listFilters(): Promise<ChatFilter[]> {
+    return db.select().from(chatFilters).orderBy(desc(chatFilters.createdAt));
+  }
+
+  async addFilter(actorId: string, input: { pattern?: unknown; isRegex?: unknown; action?: unknown }): Promise<ChatFilter> {
+    const pattern = typeof input.pattern === 'string' ? input.pattern.trim() : '';
+    if (!pattern || pattern.length > MAX_FILTER_LENGTH) {
+      throw new ChatModerationError(`Pattern must be 1-${MAX_FILTER_LENGTH} characters`);
+    }
+    const action = input.action ?? 'hide';
+    if (action !== 'hide' && action !== 'reject') {
+      throw new ChatModerationError('Filter action must be "hide" or "reject"');
+    }
+    const isRegex = input.isRegex === true;
+    compileFilter({ pattern, isRegex });
+
+    const [filter] = await db.insert(chatFilters).values({ pattern, isRegex, action, createdBy: actorId }).returning();
+    await this.log({ actorId, action: 'filter_added', details: { filterId: filter.id, pattern, isRegex, action } });
+    return filter;
+  }
+
+  async removeFilter(actorId: string, filterId: number): Promise<void> {
+    const [filter] = await db.delete(chatFilters).where(eq(chatFilters.id, filterId)).returning();
+    if (!filter) {
+      throw new ChatModerationError('Filter not found', 404);
+    }
+    await this.log({ actorId, action: 'filter_removed', details: { filterId, pattern: filter.pattern } });
+  }
+
+  /**
+   * Moderation log, newest first; filter by the user acted on
+   */
+  async listLog(options: { userId?: unknown; limit?: unknown } = {}): Promise<ChatModerationEntry[]> {
+    const limit = parseQueueSize(options.limit);
+    const query = db.select().from(chatModerationLog);
+    const filtered =
+      typeof options.userId === 'string' && options.userId
+        ? query.where(eq(chatModerationLog.userId, options.userId))
+        : query;
+    return filtered.orderBy(desc(chatModerationLog.createdAt), desc(chatModerationLog.id)).limit(limit);
+  }
+
+  /**
+   * Admin switch for one event's chat
+   */
+  async setEventChatEnabled(actorId: string, eventId: number, enabled: unknown): Promise<Event> {
+    if (typeof enabled !== 'boolean') {
+      throw new ChatModerationError('enabled must be true or false');
+    }
+    const [event] = await db.update(events).set({ chatEnabled: enabled }).where(eq(events.id, eventId)).returning();
+    if (!event) {
+      throw new ChatModerationError('Event not found', 404);
+    }
+
+    await this.log({ chatType: 'event', chatId: eventId, actorId, action: enabled ? 'chat_enabled' : 'chat_disabled' });
+    await realtime.publish(`event:${eventId}`, 'chat_settings', { eventId, chatEnabled: enabled });
+    return event;
+  }
+
+  private async setMessageStatus(chatType: ChatType, messageId: number, status: 'visible' | 'deleted', reason: string | null) {
+    const table = messageTable(chatType);
+    const [current] = await db.select().from(table).where(eq(table.id, messageId));
+    if (!current) {
+      throw new ChatModerationError('Message not found', 404);
+    }
+    if (current.moderationStatus === status) {
+      throw new ChatModerationError(`Message is already ${status}`, 409);
+    }
+
+    const [row] = await db
+      .update(table)
+      .set({ moderationStatus: status, moderationReason: status === 'visible' ? null : reason ?? current.moderationReason })
+      .where(eq(table.id, messageId))
+      .returning();
+    return row;
+  }
+
+  private async log(entry: {
+    chatType?: ChatType | null;
+    chatId?: number | null;
+    messageId?: number | null;
+    userId?: string | null;
+    actorId?: string | null;
+    action: string;
+    reason?: string | null;
+    details?: Record<string, unknown>;
+  }): Promise<void> {
+    await db.insert(chatModerationLog).values({
+      chatType: entry.chatType ?? null,
+      chatId: entry.chatId ?? null,
+      messageId: entry.messageId ?? null,
+      userId: entry.userId ?? null,
+      actorId: entry.actorId ?? null,
+      action: entry.action,
+      reason: entry.reason ?? null,
+      details: entry.details ?? null,
+    });
+  }
+}
+
+function toRule(filter: ChatFilter): FilterRule {
+  return {
+    pattern: filter.pattern,
+    isRegex: filter.isRegex ?? false,
+    action: filter.action === 'reject' ? 'reject' : 'hide',
+  };
+}
+
+export const chatModerationService = new ChatModerationService();
@@ -0,0 +1,520 @@
+/**
+ * ⚖️ Dispute Service
+ * Participant-raised disputes on P2P challenges with admin rulings
+ *
+ * - Challenger or challenged can move an active challenge to `disputed`
+ * - Evidence (text, images, links) is stored on `challenges.evidence.dispute`
+ * - Admin rulings settle the held stakes in one transaction and notify both sides
+ * - Every step is written to `dispute_audit_log`
+ */
+
+import { and, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from './db';
+import {
+  challenges,
+  disputeAuditLog,
+  escrow,
+  transactions,
+  users,
+  type Challenge,
+  type DisputeAuditEntry,
+} from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type DisputeDecision = 'challenger_won' | 'challenged_won' | 'draw' | 'refund';
+export type EvidenceType = 'text' | 'image' | 'link';
+
+export const DISPUTE_DECISIONS: DisputeDecision[] = ['challenger_won', 'challenged_won', 'draw', 'refund'];
+export const DISPUTABLE_STATUSES = ['active', 'pending_admin'];
+export const PLATFORM_FEE_RATE = 0.05;
+export const MAX_EVIDENCE_ITEMS_PER_USER = 20;
+export const MAX_TEXT_EVIDENCE_LENGTH = 5000;
+export const MAX_IMAGE_EVIDENCE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=]+$/;
+
+export interface DisputeEvidenceItem {
+  id: string;
+  type: EvidenceType;
+  content: string;           // Text body, URL, or image data URL
+  submittedBy: string;
+  submittedAt: string;
+}
+
+export interface DisputePayout {
+  userId: string;
+  amount: number;
+  type: 'challenge_win' | 'challenge_refund';
+}
+
+export interface DisputeRuling {
+  decision: DisputeDecision;
+  adminId: string;
+  adminNotes: string | null;
+  ruledAt: string;
+  payouts: DisputePayout[];
+  platformFee: number;
+}
+
+export interface DisputeRecord {
+  raisedBy: string;
+  reason: string;
+  raisedAt: string;
+  items: DisputeEvidenceItem[];
+  ruling?: DisputeRuling;
+}
+
+export interface EvidenceInput {
+  type: EvidenceType;
+  content: string;
+}
+
+export class DisputeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+/**
+ * Who gets paid what for a ruling. `amount` is the stake per side, so the pot is
+ * twice that: the winner takes the pot minus the platform fee, while a draw or
+ * refund returns each side its own stake.
+ */
+export function computeDisputePayouts(
+  challenge: { amount: number; challenger: string; challenged: string },
+  decision: DisputeDecision
+): { payouts: DisputePayout[]; platformFee: number } {
+  const stake = challenge.amount;
+  const pot = stake * 2;
+
+  if (decision === 'challenger_won' || decision === 'challenged_won') {
+    const platformFee = Math.floor(pot * PLATFORM_FEE_RATE);
+    const winnerId = decision === 'challenger_won' ? challenge.challenger : challenge.challenged;
+    return { payouts: [{ userId: winnerId, amount: pot - platformFee, type: 'challenge_win' }], platformFee };
+  }
+
+  return {
+    payouts: [
+      { userId: challenge.challenger, amount: stake, type: 'challenge_refund' },
+      { userId: challenge.challenged, amount: stake, type: 'challenge_refund' },
+    ],
+    platformFee: 0,
+  };
+}
+
+/**
+ * Validate and normalize one piece of evidence
+ */
+export function validateEvidence(input: EvidenceInput): EvidenceInput {
+  const content = typeof input?.content === 'string' ? input.content.trim() : '';
+
+  if (!content) {
+    throw new DisputeError('Evidence content is required');
+  }
+
+  switch (input.type) {
+    case 'text':
+      if (content.length > MAX_TEXT_EVIDENCE_LENGTH) {
+        throw new DisputeError(`Text evidence must be at most ${MAX_TEXT_EVIDENCE_LENGTH} characters`);
+      }
+      return { type: 'text', content };
+
+    case 'link': {
+      let url: URL;
+      try {
+        url = new URL(content);
+      } catch {
+        throw new DisputeError('Link evidence must be a valid URL');
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new DisputeError('Link evidence must use http or https');
+      }
+      return { type: 'link', content: url.toString() };
+    }
+
+    case 'image': {
+      if (!IMAGE_DATA_URL.test(content)) {
+        throw new DisputeError('Image evidence must be a PNG, JPEG, GIF or WebP image');
+      }
+      const base64 = content.slice(content.indexOf(',') + 1);
+      if (Math.floor((base64.length * 3) / 4) > MAX_IMAGE_EVIDENCE_BYTES) {
+        throw new DisputeError('Image evidence must be 5MB or smaller');
+      }
+      return { type: 'image', content };
+    }
+
+    default:
+      throw new DisputeError('Evidence type must be text, image or link');
+  }
+}
+
+function getDispute(challenge: Challenge): DisputeRecord | null {
+  const evidence = challenge.evidence as Record<string, any> | null;
+  return evidence?.dispute ?? null;
+}
+
+function withDispute(challenge: Challenge, dispute: DisputeRecord): Record<string, any> {
+  const evidence = (challenge.evidence as Record<string, any> | null) ?? {};
+  return { ...evidence, dispute };
+}
+
+function isParticipant(challenge: Challenge, userId: string): boolean {
+  return challenge.challenger === userId || challenge.challenged === userId;
+}
+
+export class DisputeService {
+  /**
+   * Move an active challenge to `disputed` with a reason and optional evidence
+   */
+  async raiseDispute(
+    challengeId: number,
+    userId: string,
+    reason: string,
+    evidence: EvidenceInput[] = []
+  ): Promise<DisputeRecord> {
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    if (!trimmedReason) {
+      throw new DisputeError('A reason is required to raise a dispute');
+    }
+
+    const validated = evidence.map(validateEvidence);
+    const now = new Date().toISOString();
+
+    const { challenge, dispute } = await db.transaction(async (tx) => {
+      const challenge = await this.lockChallenge(tx, challengeId);
+
+      if (!isParticipant(challenge, userId)) {
+        throw new DisputeError('Only challenge participants can raise a dispute', 403);
+      }
+
+      if (challenge.status === 'disputed') {
+        throw new DisputeError('Challenge is already disputed', 409);
+      }
+
+      if (!DISPUTABLE_STATUSES.includes(challenge.status || '')) {
+        throw new DisputeError(`Challenge cannot be disputed (status: ${challenge.status})`);
+      }
+
+      const dispute: DisputeRecord = {
+        raisedBy: userId,
+        reason: trimmedReason,
+        raisedAt: now,
+        items: validated.map((item) => ({
+          id: nanoid(),
+          ...item,
+          submittedBy: userId,
+          submittedAt: now,
+        })),
+      };
+
+      await tx
+        .update(challenges)
+        .set({ status: 'disputed', evidence: withDispute(challenge, dispute) })
+        .where(eq(challenges.id, challengeId));
+
+      await this.audit(tx, challengeId, userId, 'raised', {
+        reason: trimmedReason,
+        previousStatus: challenge.status,
+        evidenceCount: dispute.items.length,
+      });
+
+      return { challenge, dispute };
+    });
+
+    console.log(`⚖️ Dispute raised on challenge ${challengeId} by ${userId}`);
+
+    const opponentId = challenge.challenger === userId ? challenge.challenged : challenge.challenger;
+    if (opponentId) {
+      await notificationService.send({
+        userId: opponentId,
+        challengeId: String(challengeId),
+        event: NotificationEvent.DISPUTE_RAISED,
+        title: '⚖️ Challenge disputed',
+        body: `Your opponent disputed "${challenge.title}". Add your evidence before an admin rules.`,
+        channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+        priority: NotificationPriority.HIGH,
+        actorId: userId,
+        data: { challengeId, raisedBy: userId },
+      });
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Attach evidence to an open dispute (participants only)
+   */
+  async addEvidence(challengeId: number, userId: string, input: EvidenceInput): Promise<DisputeEvidenceItem> {
+    const validated = validateEvidence(input);
+
+    return db.transaction(async (tx) => {
+      const challenge = await this.lockChallenge(tx, challengeId);
+      const dispute = getDispute(challenge);
+
+      if (!isParticipant(challenge, userId)) {
+        throw new DisputeError('Only challenge participants can submit evidence', 403);
+      }
+
+      if (challenge.status !== 'disputed' || !dispute) {
+        throw new DisputeError('Challenge has no open dispute');
+      }
+
+      const submittedByUser = dispute.items.filter((item) => item.submittedBy === userId).length;
+      if (submittedByUser >= MAX_EVIDENCE_ITEMS_PER_USER) {
+        throw new DisputeError(`Evidence limit reached (${MAX_EVIDENCE_ITEMS_PER_USER} items per participant)`);
+      }
+
+      const item: DisputeEvidenceItem = {
+        id: nanoid(),
+        ...validated,
+        submittedBy: userId,
+        submittedAt: new Date().toISOString(),
+      };
+
+      await tx
+        .update(challenges)
+        .set({ evidence: withDispute(challenge, { ...dispute, items: [...dispute.items, item] }) })
+        .where(eq(challenges.id, challengeId));
+
+      await this.audit(tx, challengeId, userId, 'evidence_added', { evidenceId: item.id, type: item.type });
+
+      return item;
+    });
+  }
+
+  /**
+   * Admin ruling: settle held stakes, close the challenge and notify both sides
+   */
+  async resolveDispute(
+    challengeId: number,
+    adminId: string,
+    decision: DisputeDecision,
+    adminNotes?: string
+  ): Promise<{ challenge: Challenge; ruling: DisputeRuling }> {
+    if (!DISPUTE_DECISIONS.includes(decision)) {
+      throw new DisputeError(`Invalid decision. Must be one of: ${DISPUTE_DECISIONS.join(', ')}`);
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const challenge = await this.lockChallenge(tx, challengeId);
+      const dispute = getDispute(challenge);
+
+      if (challenge.status !== 'disputed' || !dispute) {
+        throw new DisputeError('Challenge has no open dispute', 409);
+      }
+
+      if (!challenge.challenger || !challenge.challenged) {
+        throw new DisputeError('Challenge is missing a participant and cannot be settled');
+      }
+
+      const { payouts, platformFee } = computeDisputePayouts(
+        { amount: challenge.amount, challenger: challenge.challenger, challenged: challenge.challenged },
+        decision
+      );
+
+      for (const payout of payouts) {
+        await tx
+          .update(users)
+          .set({ coins: sql`coalesce(${users.coins}, 0) + ${payout.amount}` })
+          .where(eq(users.id, payout.userId));
+
+        await tx.insert(transactions).values({
+          userId: payout.userId,
+          type: payout.type,
+          amount: payout.amount.toString(),
+          description: `Dispute ruling (${decision}) on challenge #${challengeId}`,
+          relatedId: challengeId,
+          status: 'completed',
+        });
+      }
+
+      const now = new Date();
+
+      await tx
+        .update(escrow)
+        .set({ status: payouts[0].type === 'challenge_win' ? 'released' : 'refunded', releasedAt: now })
+        .where(and(eq(escrow.challengeId, challengeId), eq(escrow.status, 'holding')));
+
+      const ruling: DisputeRuling = {
+        decision,
+        adminId,
+        adminNotes: adminNotes?.trim() || null,
+        ruledAt: now.toISOString(),
+        payouts,
+        platformFee,
+      };
+
+      const [updated] = await tx
+        .update(challenges)
+        .set({
+          status: decision === 'refund' ? 'cancelled' : 'completed',
+          result: decision === 'refund' ? null : decision,
+          completedAt: now,
+          evidence: withDispute(challenge, { ...dispute, ruling }),
+        })
+        .where(eq(challenges.id, challengeId))
+        .returning();
+
+      await this.audit(tx, challengeId, adminId, 'ruled', { ...ruling });
+
+      return { challenge: updated, ruling };
+    });
+
+    console.log(`👨‍⚖️ Dispute on challenge ${challengeId} ruled ${decision} by admin ${adminId}`);
+
+    await this.notifyRuling(result.challenge, result.ruling);
+
+    return result;
+  }
+
+  /**
+   * Admin queue: disputed challenges (open first), with participant profiles
+   */
+  async listDisputes(filter: 'open' | 'resolved' | 'all' = 'all') {
+    const hasDispute = isNotNull(sql`${challenges.evidence} -> 'dispute'`);
+    const where =
+      filter === 'open'
+        ? and(hasDispute, eq(challenges.status, 'disputed'))
+        : filter === 'resolved'
+          ? and(hasDispute, sql`${challenges.status} <> 'disputed'`)
+          : hasDispute;
+
+    const rows = await db
+      .select()
+      .from(challenges)
+      .where(where)
+      .orderBy(sql`${challenges.status} = 'disputed' desc`, desc(challenges.createdAt));
+
+    const userIds = Array.from(
+      new Set(
+        rows.flatMap((row) => [row.challenger, row.challenged, getDispute(row)?.raisedBy])
+          .filter((id): id is string => !!id)
+      )
+    );
+
+    const profiles = userIds.length
+      ? await db
+          .select({
+            id: users.id,
+            username: users.username,
+            firstName: users.firstName,
+            profileImageUrl: users.profileImageUrl,
+          })
+          .from(users)
+          .where(inArray(users.id, userIds))
+      : [];
+
+    const profileOf = (id: string | null) => profiles.find((p) => p.id === id) ?? null;
+
+    return rows.map((row) => {
+      const dispute = getDispute(row)!;
+      const { dispute: _dispute, ...challengeEvidence } = (row.evidence as Record<string, any>) ?? {};
+
+      return {
+        ...row,
+        status: row.status === 'disputed' ? 'disputed' : 'resolved',
+        challengeStatus: row.status,
+        evidence: Object.keys(challengeEvidence).length ? challengeEvidence : null,
+        challengerUser: profileOf(row.challenger),
+        challengedUser: profileOf(row.challenged),
+        disputer: profileOf(dispute.raisedBy),
+        disputeReason: dispute.reason,
+        disputeEvidence: dispute.items,
+        disputedAt: dispute.raisedAt,
+        ruling: dispute.ruling ?? null,
+        adminNotes: dispute.ruling?.adminNotes ?? null,
+      };
+    });
+  }
+
+  /**
+   * Dispute record for one challenge; participants and admins only
+   */
+  async getDisputeForUser(challengeId: number, userId: string, isAdmin = false): Promise<DisputeRecord> {
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId)).limit(1);
+
+    if (!challenge) {
+      throw new DisputeError('Challenge not found', 404);
+    }
+
+    if (!isAdmin && !isParticipant(challenge, userId)) {
+      throw new DisputeError('Only challenge participants can view this dispute', 403);
+    }
+
+    const dispute = getDispute(challenge);
+    if (!dispute) {
+      throw new DisputeError('Challenge has no dispute', 404);
+    }
+
+    return dispute;
+  }
+
+  async getAuditTrail(challengeId: number): Promise<DisputeAuditEntry[]> {
+    return db
+      .select()
+      .from(disputeAuditLog)
+      .where(eq(disputeAuditLog.challengeId, challengeId))
+      .orderBy(disputeAuditLog.createdAt);
+  }
+
+  private async lockChallenge(tx: Tx, challengeId: number): Promise<Challenge> {
+    const [challenge] = await tx
+      .select()
+      .from(challenges)
+      .where(eq(challenges.id, challengeId))
+      .for('update');
+
+    if (!challenge) {
+      throw new DisputeError('Challenge not found', 404);
+    }
+
+    return challenge;
+  }
+
+  private async audit(
+    tx: Tx,
+    challengeId: number,
+    actorId: string,
+    action: 'raised' | 'evidence_added' | 'ruled',
+    details: Record<string, any>
+  ): Promise<void> {
+    await tx.insert(disputeAuditLog).values({ challengeId, actorId, action, details });
+  }
+
+  private async notifyRuling(challenge: Challenge, ruling: DisputeRuling): Promise<void> {
+    const summary: Record<DisputeDecision, string> = {
+      challenger_won: 'The challenger was ruled the winner.',
+      challenged_won: 'The challenged player was ruled the winner.',
+      draw: 'The dispute was ruled a draw and stakes were returned.',
+      refund: 'The challenge was cancelled and stakes were refunded.',
+    };
+
+    for (const userId of [challenge.challenger, challenge.challenged]) {
+      if (!userId) continue;
+
+      const payout = ruling.payouts.find((p) => p.userId === userId);
+
+      await notificationService.send({
+        userId,
+        challengeId: String(challenge.id),
+        event: NotificationEvent.DISPUTE_RESOLVED,
+        title: '⚖️ Dispute resolved',
+        body: `${summary[ruling.decision]}${payout ? ` ${payout.amount} coins credited to you.` : ''}`,
+        channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+        priority: NotificationPriority.HIGH,
+        data: { challengeId: challenge.id, decision: ruling.decision, payout: payout?.amount ?? 0 },
+      });
+    }
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -0,0 +1,514 @@
+/**
+ * 💬 Event Chat Service
+ * Messages, threaded replies, @mentions and emoji reactions for event chats
+ *
+ * - Posting needs chat enabled both platform-wide (platform_settings) and on
+ *   the event; messages are capped at platform_settings.maxChatLength
+ * - Private event chats are limited to the creator and participants
+ * - Replies point at a message in the same event; a thread is every reply
+ *   to one message
+ * - @username mentions resolve against the event's creator and participants;
+ *   resolved users are stored on the message and notified
+ * - Reactions toggle: the same emoji from the same user again removes it;
+ *   like posting, they need chat switched on and an unmuted user
+ * - History pages backwards from a message id cursor, oldest first per page
+ * - New messages and reaction changes are pushed to the event's realtime room
+ * - Posts pass chat moderation first; shadow-hidden messages are only shown
+ *   to their author, and are neither broadcast nor notified
+ */
+
+import { and, asc, count, desc, eq, inArray, lt, or, sql, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import {
+  eventMessages,
+  eventParticipants,
+  events,
+  messageReactions,
+  platformSettings,
+  users,
+  type Event,
+  type User,
+} from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+import { realtime } from './realtime';
+import { chatModerationService } from './chatModeration';
+
+export const DEFAULT_MAX_CHAT_LENGTH = 500;
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+export const MAX_MENTIONS_PER_MESSAGE = 10;
+export const MAX_EMOJI_LENGTH = 16;
+
+export class EventChatError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EventChatError';
+  }
+}
+
+type ChatUser = Pick<User, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl' | 'level'>;
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: string[];
+  userReacted: boolean;
+}
+
+export interface ChatMessage {
+  id: number;
+  eventId: number;
+  userId: string;
+  message: string;
+  replyToId: number | null;
+  mentions: string[];
+  createdAt: Date | null;
+  type: 'user';
+  user: ChatUser | null;
+  replyTo: { id: number; message: string; user: Pick<ChatUser, 'firstName' | 'username'> | null } | null;
+  replyCount: number;
+  reactions: ReactionSummary[];
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  nextCursor: number | null;  // Pass as `before` to load older messages
+}
+
+export interface ChatLimits {
+  chatEnabled: boolean;
+  maxChatLength: number;
+}
+
+const chatUserColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+  level: users.level,
+};
+
+/**
+ * Distinct @usernames in a message, in order of appearance
+ */
+export function extractMentions(text: string): string[] {
+  const seen = new Set<string>();
+  const mentions: string[] = [];
+  const pattern = /(^|[^\w@])@(\w{1,32})/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const key = match[2].toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      mentions.push(match[2]);
+    }
+  }
+  return mentions;
+}
+
+/**
+ * Group reaction rows per emoji, keeping first-reaction order
+ */
+export function summarizeReactions(
+  rows: Array<{ emoji: string; userId: string }>,
+  viewerId?: string
+): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  for (const row of rows) {
+    const summary = byEmoji.get(row.emoji) ?? { emoji: row.emoji, count: 0, users: [], userReacted: false };
+    summary.count++;
+    summary.users.push(row.userId);
+    summary.userReacted = summary.userReacted || row.userId === viewerId;
+    byEmoji.set(row.emoji, summary);
+  }
+  return Array.from(byEmoji.values());
+}
+
+/**
+ * Messages the viewer may see: visible ones plus their own shadow-hidden ones
+ */
+function visibleTo(viewerId: string): SQL {
+  return or(
+    eq(eventMessages.moderationStatus, 'visible'),
+    and(eq(eventMessages.moderationStatus, 'hidden'), eq(eventMessages.userId, viewerId))
+  )!;
+}
+
+function parseLimit(limit: unknown): number {
+  const parsed = Number(limit);
+  if (!Number.isInteger(parsed) || parsed <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(parsed, MAX_PAGE_SIZE);
+}
+
+export class EventChatService {
+  /**
+   * Platform-wide chat switch and length limit (defaults when unset)
+   */
+  async getChatLimits(): Promise<ChatLimits> {
+    const [settings] = await db
+      .select({ chatEnabled: platformSettings.chatEnabled, maxChatLength: platformSettings.maxChatLength })
+      .from(platformSettings)
+      .orderBy(desc(platformSettings.id))
+      .limit(1);
+
+    return {
+      chatEnabled: settings?.chatEnabled ?? true,
+      maxChatLength: settings?.maxChatLength ?? DEFAULT_MAX_CHAT_LENGTH,
+    };
+  }
+
+  /**
+   * One page of history, newest page first; messages inside a page run oldest to newest
+   */
+  async listMessages(
+    eventId: number,
+    viewerId: string,
+    options: { before?: unknown; limit?: unknown } = {}
+  ): Promise<MessagePage> {
+    await this.getAccessibleEvent(eventId, viewerId);
+
+    const limit = parseLimit(options.limit);
+    const before = options.before == null ? null : Number(options.before);
+    if (before !== null && (!Number.isInteger(before) || before <= 0)) {
+      throw new EventChatError('Invalid cursor');
+    }
+
+    const rows = await db
+      .select()
+      .from(eventMessages)
+      .where(
+        before === null
+          ? and(eq(eventMessages.eventId, eventId), visibleTo(viewerId))
+          : and(eq(eventMessages.eventId, eventId), lt(eventMessages.id, before), visibleTo(viewerId))
+      )
+      .orderBy(desc(eventMessages.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit).reverse();
+
+    return {
+      messages: await this.hydrate(page, viewerId),
+      nextCursor: hasMore && page.length > 0 ? page[0].id : null,
+    };
+  }
+
+  /**
+   * Every reply to one message, oldest first
+   */
+  async listReplies(eventId: number, messageId: number, viewerId: string): Promise<ChatMessage[]> {
+    await this.getAccessibleEvent(eventId, viewerId);
+    await this.getMessage(eventId, messageId, viewerId);
+
+    const rows = await db
+      .select()
+      .from(eventMessages)
+      .where(and(eq(eventMessages.eventId, eventId), eq(eventMessages.replyToId, messageId), visibleTo(viewerId)))
+      .orderBy(asc(eventMessages.id));
+
+    return this.hydrate(rows, viewerId);
+  }
+
+  async postMessage(
+    eventId: number,
+    userId: string,
+    input: { message?: unknown; replyToId?: unknown }
+  ): Promise<ChatMessage> {
+    const limits = await this.getChatLimits();
+    const event = await this.getWritableEvent(eventId, userId, limits);
+
+    const text = typeof input.message === 'string' ? input.message.trim() : '';
+    if (!text) {
+      throw new EventChatError('Message cannot be empty');
+    }
+    if (text.length > limits.maxChatLength) {
+      throw new EventChatError(`Message is too long (max ${limits.maxChatLength} characters)`);
+    }
+
+    let replyToId: number | null = null;
+    if (input.replyToId != null && input.replyToId !== '') {
+      replyToId = Number(input.replyToId);
+      if (!Number.isInteger(replyToId) || replyToId <= 0) {
+        throw new EventChatError('Invalid reply target');
+      }
+      await this.getMessage(eventId, replyToId, userId);
+    }
+
+    const verdict = await chatModerationService.screenMessage('event', eventId, userId, text);
+    const hidden = verdict.action === 'hide';
+    const mentioned = hidden ? [] : await this.resolveMentions(event, extractMentions(text), userId);
+
+    // eventMessages is declared `any` (self-referencing replyToId), so the row type is lost
+    const [saved] = (await db
+      .insert(eventMessages)
+      .values({
+        eventId,
+        userId,
+        message: text,
+        replyToId,
+        mentions: mentioned.map((u) => u.username),
+        moderationStatus: hidden ? 'hidden' : 'visible',
+        moderationReason: verdict.reason,
+      })
+      .returning()) as any[];
+
+    const [message] = await this.hydrate([saved], userId);
+
+    if (hidden) {
+      await chatModerationService.recordHidden('event', eventId, saved.id, userId, verdict.reason);
+      return message;
+    }
+
+    await realtime.publish(`event:${eventId}`, 'event_message', {
+      eventId,
+      messageId: message.id,
+      userId,
+      replyToId,
+    });
+    await this.notifyMentions(event, message, mentioned);
+
+    return message;
+  }
+
+  /**
+   * Add the emoji reaction, or remove it if the user already reacted with it
+   */
+  async toggleReaction(
+    eventId: number,
+    messageId: number,
+    userId: string,
+    emoji: unknown
+  ): Promise<{ added: boolean; reactions: ReactionSummary[] }> {
+    const value = typeof emoji === 'string' ? emoji.trim() : '';
+    if (!value || value.length > MAX_EMOJI_LENGTH || /\s/.test(value)) {
+      throw new EventChatError('Invalid emoji');
+    }
+
+    await this.getWritableEvent(eventId, userId, await this.getChatLimits());
+    await chatModerationService.assertNotMuted(userId, 'event', eventId);
+    await this.getMessage(eventId, messageId, userId);
+
+    const removed = await db
+      .delete(messageReactions)
+      .where(
+        and(
+          eq(messageReactions.messageId, messageId),
+          eq(messageReactions.userId, userId),
+          eq(messageReactions.emoji, value)
+        )
+      )
+      .returning({ id: messageReactions.id });
+
+    const added = removed.length === 0;
+    if (added) {
+      // A double-tap racing the delete above lands on the unique constraint
+      await db.insert(messageReactions).values({ messageId, userId, emoji: value }).onConflictDoNothing();
+    }
+
+    const reactions = await this.loadReactions([messageId], userId);
+    const summary = reactions.get(messageId) ?? [];
+
+    await realtime.publish(`event:${eventId}`, 'message_reaction', {
+      eventId,
+      messageId,
+      userId,
+      emoji: value,
+      added,
+    });
+
+    return { added, reactions: summary };
+  }
+
+  /**
+   * Event the user may read and write in; private chats need the creator or a participant
+   */
+  private async getAccessibleEvent(eventId: number, userId: string): Promise<Event> {
+    const [event] = await db.select().from(events).where(eq(events.id, eventId));
+    if (!event) {
+      throw new EventChatError('Event not found', 404);
+    }
+    if (!event.isPrivate || event.creatorId === userId) {
+      return event;
+    }
+
+    const [participant] = await db
+      .select({ id: eventParticipants.id })
+      .from(eventParticipants)
+      .where(and(eq(eventParticipants.eventId, eventId), eq(eventParticipants.userId, userId)))
+      .limit(1);
+    if (!participant) {
+      throw new EventChatError('Only participants can use this event chat', 403);
+    }
+    return event;
+  }
+
+  /**
+   * Accessible event whose chat is switched on, platform-wide and for the event
+   */
+  private async getWritableEvent(eventId: number, userId: string, limits: ChatLimits): Promise<Event> {
+    if (!limits.chatEnabled) {
+      throw new EventChatError('Chat is currently disabled', 403);
+    }
+
+    const event = await this.getAccessibleEvent(eventId, userId);
+    if (event.chatEnabled === false) {
+      throw new EventChatError('Chat is disabled for this event', 403);
+    }
+    return event;
+  }
+
+  private async getMessage(eventId: number, messageId: number, viewerId: string) {
+    const [message] = await db
+      .select({ id: eventMessages.id })
+      .from(eventMessages)
+      .where(and(eq(eventMessages.id, messageId), eq(eventMessages.eventId, eventId), visibleTo(viewerId)));
+    if (!message) {
+      throw new EventChatError('Message not found', 404);
+    }
+    return message;
+  }
+
+  /**
+   * Mentioned usernames that belong to the event's creator or participants
+   */
+  private async resolveMentions(
+    event: Event,
+    usernames: string[],
+    authorId: string
+  ): Promise<Array<{ id: string; username: string }>> {
+    if (usernames.length === 0) return [];
+
+    const wanted = usernames.slice(0, MAX_MENTIONS_PER_MESSAGE).map((u) => u.toLowerCase());
+    const candidates = await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(inArray(sql`lower(${users.username})`, wanted));
+    if (candidates.length === 0) return [];
+
+    const members = await db
+      .select({ userId: eventParticipants.userId })
+      .from(eventParticipants)
+      .where(
+        and(
+          eq(eventParticipants.eventId, event.id),
+          inArray(eventParticipants.userId, candidates.map((c) => c.id))
+        )
+      );
+    const memberIds = new Set(members.map((m) => m.userId).concat(event.creatorId));
+
+    return candidates
+      .filter((c): c is { id: string; username: string } => !!c.username && memberIds.has(c.id) && c.id !== authorId)
+      .sort((a, b) => wanted.indexOf(a.username.toLowerCase()) - wanted.indexOf(b.username.toLowerCase()));
+  }
+
+  private async notifyMentions(
+    event: Event,
+    message: ChatMessage,
+    mentioned: Array<{ id: string; username: string }>
+  ): Promise<void> {
+    const author = message.user?.firstName || message.user?.username || 'Someone';
+    const preview = message.message.length > 80 ? `${message.message.slice(0, 77)}...` : message.message;
+
+    for (const user of mentioned) {
+      await notificationService.send({
+        userId: user.id,
+        challengeId: '',
+        event: NotificationEvent.EVENT_MENTION,
+        title: `💬 ${author} mentioned you`,
+        body: `In "${event.title}": ${preview}`,
+        channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+        priority: NotificationPriority.MEDIUM,
+        actorId: message.userId,
+        data: { eventId: event.id, messageId: message.id, url: `/events/${event.id}/chat` },
+      });
+    }
+  }
+
+  private async loadReactions(messageIds: number[], viewerId: string): Promise<Map<number, ReactionSummary[]>> {
+    const result = new Map<number, ReactionSummary[]>();
+    if (messageIds.length === 0) return result;
+
+    const rows = await db
+      .select({ messageId: messageReactions.messageId, userId: messageReactions.userId, emoji: messageReactions.emoji })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .orderBy(asc(messageReactions.createdAt), asc(messageReactions.id));
+
+    const grouped = new Map<number, Array<{ emoji: string; userId: string }>>();
+    for (const row of rows) {
+      if (row.messageId === null || row.userId === null) continue;
+      if (!grouped.has(row.messageId)) grouped.set(row.messageId, []);
+      grouped.get(row.messageId)!.push({ emoji: row.emoji, userId: row.userId });
+    }
+    Array.from(grouped).forEach(([messageId, reactions]) => {
+      result.set(messageId, summarizeReactions(reactions, viewerId));
+    });
+    return result;
+  }
+
+  /**
+   * Attach authors, reply previews, reply counts and reactions
+   */
+  private async hydrate(rows: any[], viewerId: string): Promise<ChatMessage[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((row) => row.id as number);
+    const parentIds = Array.from(new Set(rows.map((row) => row.replyToId).filter((id): id is number => !!id)));
+
+    const parents = parentIds.length
+      ? await db
+          .select({ id: eventMessages.id, message: eventMessages.message, userId: eventMessages.userId })
+          .from(eventMessages)
+          .where(and(inArray(eventMessages.id, parentIds), visibleTo(viewerId)))
+      : [];
+
+    const userIds = Array.from(new Set(rows.map((row) => row.userId).concat(parents.map((p: any) => p.userId))));
+    const authors = await db.select(chatUserColumns).from(users).where(inArray(users.id, userIds));
+    const authorById = new Map(authors.map((a) => [a.id, a]));
+
+    const replyCounts = await db
+      .select({ replyToId: eventMessages.replyToId, value: count() })
+      .from(eventMessages)
+      .where(and(inArray(eventMessages.replyToId, ids), visibleTo(viewerId)))
+      .groupBy(eventMessages.replyToId);
+    const replyCountById = new Map(replyCounts.map((r: any) => [r.replyToId as number, Number(r.value)]));
+
+    const reactions = await this.loadReactions(ids, viewerId);
+    const parentById = new Map(parents.map((p: any) => [p.id as number, p]));
+
+    return rows.map((row) => {
+      const parent = row.replyToId ? parentById.get(row.replyToId) : undefined;
+      const parentAuthor = parent ? authorById.get(parent.userId) : undefined;
+
+      return {
+        id: row.id,
+        eventId: row.eventId,
+        userId: row.userId,
+        message: row.message,
+        replyToId: row.replyToId ?? null,
+        mentions: row.mentions ?? [],
+        createdAt: row.createdAt,
+        type: 'user' as const,
+        user: authorById.get(row.userId) ?? null,
+        replyTo: parent
+          ? {
+              id: parent.id,
+              message: parent.message,
+              user: parentAuthor ? { firstName: parentAuthor.firstName, username: parentAuthor.username } : null,
+            }
+          : null,
+        replyCount: replyCountById.get(row.id) ?? 0,
+        reactions: reactions.get(row.id) ?? [],
+      };
+    });
+  }
+}
+
+export const eventChatService = new EventChatService();
@@ -0,0 +1,876 @@
+/**
+ * 🎲 Event Service
+ * YES/NO prediction events paid in coins, with pooled payouts
+ *
+ * - Every participant pays the event's entryFee; joining and leaving run in
+ *   one transaction that locks the event row, so the FCFS maxParticipants
+ *   limit and the yes/no/event pools stay consistent under concurrency
+ * - Entries close at endDate; leaving before then refunds the entry fee
+ * - Private events take join requests instead: the entry fee is held when
+ *   the request is made, approval turns it into a participation, and
+ *   rejection or the event ending releases the hold
+ * - When an admin sets adminResult, the creator takes a 3% fee and winners
+ *   split the pool pro-rata to their stake (see computeEventSettlement)
+ * - Every coin movement writes a `transactions` row
+ * - Pool changes are pushed to the event's realtime room after each commit
+ */
+
+import { and, asc, count, eq, gte, inArray, lte, ne, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+  eventActivity,
+  eventJoinRequests,
+  eventParticipants,
+  eventPools,
+  events,
+  transactions,
+  users,
+  type Event,
+  type EventJoinRequest,
+  type EventParticipant,
+  type User,
+} from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+import { realtime } from './realtime';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const EVENT_CREATOR_FEE_RATE = 0.03;
+export const EVENT_CATEGORIES = ['crypto', 'sports', 'gaming', 'music', 'politics', 'entertainment', 'news'];
+export const DEFAULT_MAX_PARTICIPANTS = 100;
+export const MAX_EVENT_PARTICIPANTS = 10000;
+export const JOIN_REQUEST_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class EventError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EventError';
+  }
+}
+
+export interface CreateEventInput {
+  title?: unknown;
+  description?: unknown;
+  category?: unknown;
+  entryFee?: unknown;
+  endDate?: unknown;
+  isPrivate?: unknown;
+  maxParticipants?: unknown;
+  imageUrl?: unknown;
+  chatEnabled?: unknown;
+}
+
+export interface EventStake {
+  userId: string;
+  prediction: boolean;
+  amount: number;
+}
+
+export interface EventPayout {
+  userId: string;
+  amount: number;
+}
+
+export interface EventSettlement {
+  refund: boolean;            // No winners or no losers: every stake goes back
+  totalPool: number;
+  winningPool: number;
+  losingPool: number;
+  creatorFee: number;
+  payouts: EventPayout[];
+}
+
+type PublicUser = Pick<User, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl'>;
+
+export type PublicParticipant = EventParticipant & { user: PublicUser };
+export type PublicJoinRequest = EventJoinRequest & { user: PublicUser };
+
+export interface JoinRequestSweepResult {
+  eventsSwept: number;
+  requestsExpired: number;
+  coinsReleased: number;
+}
+
+const publicUserColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+};
+
+/**
+ * Split a settled event's pool. The creator fee is 3% of the whole pool but
+ * never more than the losing side, so winners always get their stake back.
+ * Winners share the rest pro-rata to their stake; the last winner takes the
+ * rounding remainder so payouts plus fee equal the pool exactly.
+ */
+export function computeEventSettlement(stakes: EventStake[], result: boolean): EventSettlement {
+  const totalPool = stakes.reduce((sum, s) => sum + s.amount, 0);
+  const winners = stakes.filter((s) => s.prediction === result);
+  const winningPool = winners.reduce((sum, s) => sum + s.amount, 0);
+  const losingPool = totalPool - winningPool;
+
+  if (winningPool === 0 || losingPool === 0) {
+    return {
+      refund: true,
+      totalPool,
+      winningPool,
+      losingPool,
+      creatorFee: 0,
+      payouts: stakes.map((s) => ({ userId: s.userId, amount: s.amount })),
+    };
+  }
+
+  const creatorFee = Math.min(Math.floor(totalPool * EVENT_CREATOR_FEE_RATE), losingPool);
+  const distributable = totalPool - creatorFee;
+  let remaining = distributable;
+
+  const payouts = winners.map((s, index) => {
+    const amount = index === winners.length - 1
+      ? remaining
+      : Math.floor((distributable * s.amount) / winningPool);
+    remaining -= amount;
+    return { userId: s.userId, amount };
+  });
+
+  return { refund: false, totalPool, winningPool, losingPool, creatorFee, payouts };
+}
+
+function validateCreateInput(input: CreateEventInput) {
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (!title) {
+    throw new EventError('Title is required');
+  }
+
+  const category = typeof input.category === 'string' ? input.category.toLowerCase() : '';
+  if (!EVENT_CATEGORIES.includes(category)) {
+    throw new EventError(`Invalid category. Must be one of: ${EVENT_CATEGORIES.join(', ')}`);
+  }
+
+  const entryFee = Number(input.entryFee);
+  if (!Number.isInteger(entryFee) || entryFee <= 0) {
+    throw new EventError('Entry fee must be a positive whole number of coins');
+  }
+
+  const endDate = new Date(typeof input.endDate === 'string' || typeof input.endDate === 'number' ? input.endDate : NaN);
+  if (isNaN(endDate.getTime()) || endDate.getTime() <= Date.now()) {
+    throw new EventError('End date must be in the future');
+  }
+
+  const maxParticipants = input.maxParticipants == null ? DEFAULT_MAX_PARTICIPANTS : Number(input.maxParticipants);
+  if (!Number.isInteger(maxParticipants) || maxParticipants < 2 || maxParticipants > MAX_EVENT_PARTICIPANTS) {
+    throw new EventError(`Max participants must be a whole number between 2 and ${MAX_EVENT_PARTICIPANTS}`);
+  }
+
+  return {
+    title,
+    description: typeof input.description === 'string' ? input.description.trim() || null : null,
+    category,
+    entryFee,
+    endDate,
+    maxParticipants,
+    isPrivate: input.isPrivate === true,
+    chatEnabled: input.chatEnabled !== false,
+    imageUrl: typeof input.imageUrl === 'string' && input.imageUrl ? input.imageUrl : null,
+  };
+}
+
+export class EventService {
+  async createEvent(creatorId: string, input: CreateEventInput): Promise<Event> {
+    const values = validateCreateInput(input);
+
+    return db.transaction(async (tx) => {
+      const [event] = await tx
+        .insert(events)
+        .values({ ...values, creatorId, status: 'active' })
+        .returning();
+
+      await tx.insert(eventPools).values({ eventId: event.id });
+      return event;
+    });
+  }
+
+  async getEvent(eventId: number): Promise<Event> {
+    const [event] = await db.select().from(events).where(eq(events.id, eventId));
+    if (!event) {
+      throw new EventError('Event not found', 404);
+    }
+    return event;
+  }
+
+  async listParticipants(eventId: number): Promise<PublicParticipant[]> {
+    await this.getEvent(eventId);
+
+    const rows = await db
+      .select({ participant: eventParticipants, user: publicUserColumns })
+      .from(eventParticipants)
+      .innerJoin(users, eq(users.id, eventParticipants.userId))
+      .where(eq(eventParticipants.eventId, eventId))
+      .orderBy(asc(eventParticipants.joinedAt), asc(eventParticipants.id));
+
+    return rows.map((row) => ({ ...row.participant, user: row.user }));
+  }
+
+  /**
+   * Pay the entry fee and take a YES/NO side
+   */
+  async joinEvent(userId: string, eventId: number, prediction: unknown): Promise<EventParticipant> {
+    if (typeof prediction !== 'boolean') {
+      throw new EventError('Prediction must be true (YES) or false (NO)');
+    }
+
+    const participant = await db.transaction(async (tx) => {
+      const event = await this.lockOpenEvent(tx, eventId);
+
+      if (event.isPrivate && event.creatorId !== userId) {
+        throw new EventError('This event is private; request to join instead', 403);
+      }
+
+      await this.assertSeatAvailable(tx, event, userId);
+      await this.debit(
+        tx,
+        userId,
+        event.entryFee,
+        'event_entry',
+        `Entry fee for ${prediction ? 'YES' : 'NO'} on event #${eventId}`,
+        eventId
+      );
+
+      return this.addParticipant(tx, eventId, userId, prediction, event.entryFee);
+    });
+
+    await this.publishPoolUpdate(eventId);
+    return participant;
+  }
+
+  /**
+   * Give up a side before the event ends and get the entry fee back
+   */
+  async leaveEvent(userId: string, eventId: number): Promise<{ refunded: number }> {
+    const left = await db.transaction(async (tx) => {
+      await this.lockOpenEvent(tx, eventId);
+
+      const [participant] = await tx
+        .delete(eventParticipants)
+        .where(and(eq(eventParticipants.eventId, eventId), eq(eventParticipants.userId, userId)))
+        .returning();
+      if (!participant) {
+        throw new EventError('You have not joined this event', 404);
+      }
+
+      await this.credit(tx, userId, participant.amount, 'event_refund', `Left event #${eventId}`, eventId);
+      await this.adjustPools(tx, eventId, participant.prediction, -participant.amount);
+      await tx.insert(eventActivity).values({
+        eventId,
+        userId,
+        action: 'left',
+        data: { prediction: participant.prediction, amount: participant.amount },
+      });
+
+      return { refunded: participant.amount };
+    });
+
+    await this.publishPoolUpdate(eventId);
+    return left;
+  }
+
+  /**
+   * Ask to join a private event. The entry fee is held until the creator
+   * responds or the event ends.
+   */
+  async requestToJoin(userId: string, eventId: number, prediction: unknown): Promise<EventJoinRequest> {
+    if (typeof prediction !== 'boolean') {
+      throw new EventError('Prediction must be true (YES) or false (NO)');
+    }
+
+    const { event, request } = await db.transaction(async (tx) => {
+      const event = await this.lockOpenEvent(tx, eventId);
+
+      if (!event.isPrivate) {
+        throw new EventError('This event is public; join it directly');
+      }
+      if (event.creatorId === userId) {
+        throw new EventError('Creators join their own events directly');
+      }
+
+      const [pending] = await tx
+        .select({ id: eventJoinRequests.id })
+        .from(eventJoinRequests)
+        .where(
+          and(
+            eq(eventJoinRequests.eventId, eventId),
+            eq(eventJoinRequests.userId, userId),
+            eq(eventJoinRequests.status, 'pending')
+          )
+        )
+        .limit(1);
+      if (pending) {
+        throw new EventError('You already have a pending request for this event', 409);
+      }
+
+      await this.assertSeatAvailable(tx, event, userId);
+      await this.debit(
+        tx,
+        userId,
+        event.entryFee,
+        'event_join_hold',
+        `Entry fee held for ${prediction ? 'YES' : 'NO'} join request on event #${eventId}`,
+        eventId
+      );
+
+      const [request] = await tx
+        .insert(eventJoinRequests)
+        .values({ eventId, userId, prediction, amount: event.entryFee, status: 'pending' })
+        .returning();
+
+      await tx.insert(eventActivity).values({
+        eventId,
+        userId,
+        action: 'join_requested',
+        data: { requestId: request.id, prediction, amount: event.entryFee },
+      });
+
+      return { event, request };
+    });
+
+    await this.notify({
+      userId: event.creatorId,
+      actorId: userId,
+      event: NotificationEvent.EVENT_JOIN_REQUESTED,
+      title: '🙋 New join request',
+      body: `Someone wants to join "${event.title}" on ${prediction ? 'YES' : 'NO'}. Approve or reject their request.`,
+      priority: NotificationPriority.MEDIUM,
+      data: { eventId, requestId: request.id, requesterId: userId },
+    });
+
+    return request;
+  }
+
+  /**
+   * Pending requests for an event (creator only), oldest first
+   */
+  async listJoinRequests(eventId: number, creatorId: string): Promise<PublicJoinRequest[]> {
+    const event = await this.getEvent(eventId);
+    if (event.creatorId !== creatorId) {
+      throw new EventError('Only the event creator can see join requests', 403);
+    }
+
+    const rows = await db
+      .select({ request: eventJoinRequests, user: publicUserColumns })
+      .from(eventJoinRequests)
+      .innerJoin(users, eq(users.id, eventJoinRequests.userId))
+      .where(and(eq(eventJoinRequests.eventId, eventId), eq(eventJoinRequests.status, 'pending')))
+      .orderBy(asc(eventJoinRequests.requestedAt), asc(eventJoinRequests.id));
+
+    return rows.map((row) => ({ ...row.request, user: row.user }));
+  }
+
+  /**
+   * Turn a pending request into a participation; the held fee becomes the stake
+   */
+  async approveJoinRequest(creatorId: string, requestId: number): Promise<EventParticipant> {
+    const { event, request, participant } = await db.transaction(async (tx) => {
+      const { event, request } = await this.lockPendingRequest(tx, requestId, creatorId, true);
+
+      await this.assertSeatAvailable(tx, event, request.userId);
+      const participant = await this.addParticipant(
+        tx,
+        event.id,
+        request.userId,
+        request.prediction,
+        request.amount,
+        request.id
+      );
+
+      await tx
+        .update(eventJoinRequests)
+        .set({ status: 'approved', respondedAt: new Date() })
+        .where(eq(eventJoinRequests.id, request.id));
+
+      return { event, request, participant };
+    });
+
+    await this.publishPoolUpdate(event.id);
+
+    await this.notify({
+      userId: request.userId,
+      actorId: creatorId,
+      event: NotificationEvent.EVENT_JOIN_APPROVED,
+      title: '✅ Join request approved',
+      body: `You're in "${event.title}" on ${request.prediction ? 'YES' : 'NO'}. Your ${request.amount} coins are now staked.`,
+      priority: NotificationPriority.HIGH,
+      data: { eventId: event.id, requestId: request.id },
+    });
+
+    return participant;
+  }
+
+  /**
+   * Turn down a pending request and release the held fee
+   */
+  async rejectJoinRequest(creatorId: string, requestId: number): Promise<EventJoinRequest> {
+    const { event, rejected } = await db.transaction(async (tx) => {
+      const { event, request } = await this.lockPendingRequest(tx, requestId, creatorId, false);
+      const [rejected] = await this.releaseJoinRequests(tx, event.id, 'rejected', [request.id]);
+      return { event, rejected };
+    });
+
+    await this.notifyDeclined(event, rejected, creatorId);
+    return rejected;
+  }
+
+  /**
+   * Expire pending requests on events that have ended or closed and release
+   * their holds. Safe to run repeatedly.
+   */
+  async expireJoinRequests(now: Date = new Date()): Promise<JoinRequestSweepResult> {
+    const due = await db
+      .selectDistinct({ eventId: eventJoinRequests.eventId })
+      .from(eventJoinRequests)
+      .innerJoin(events, eq(events.id, eventJoinRequests.eventId))
+      .where(
+        and(
+          eq(eventJoinRequests.status, 'pending'),
+          or(lte(events.endDate, now), ne(events.status, 'active'))
+        )
+      );
+
+    const result: JoinRequestSweepResult = { eventsSwept: 0, requestsExpired: 0, coinsReleased: 0 };
+
+    for (const { eventId } of due) {
+      try {
+        const { event, expired } = await db.transaction(async (tx) => {
+          const event = await this.lockEvent(tx, eventId);
+          return { event, expired: await this.releaseJoinRequests(tx, eventId, 'expired') };
+        });
+
+        result.eventsSwept++;
+        result.requestsExpired += expired.length;
+        result.coinsReleased += expired.reduce((sum, request) => sum + request.amount, 0);
+
+        for (const request of expired) {
+          await this.notifyDeclined(event, request);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to expire join requests for event ${eventId}:`, error);
+      }
+    }
+
+    if (result.requestsExpired > 0) {
+      console.log(`⏰ Expired ${result.requestsExpired} event join requests across ${result.eventsSwept} events`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run expireJoinRequests on an interval. Returns a function that stops it.
+   */
+  startJoinRequestSweeper(intervalMs: number = JOIN_REQUEST_SWEEP_INTERVAL_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.expireJoinRequests();
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Event join request sweeper running every ${Math.round(intervalMs / 1000)}s`);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Record the admin's outcome and pay out the pool
+   */
+  async settleEvent(
+    eventId: number,
+    adminId: string,
+    result: unknown
+  ): Promise<{ event: Event; settlement: EventSettlement }> {
+    if (typeof result !== 'boolean') {
+      throw new EventError('Result must be true (YES) or false (NO)');
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const event = await this.lockEvent(tx, eventId);
+
+      if (event.adminResult !== null || event.status === 'completed') {
+        throw new EventError('Event has already been settled', 409);
+      }
+      if (event.status !== 'active' && event.status !== 'pending_admin') {
+        throw new EventError(`Event cannot be settled (status: ${event.status})`, 409);
+      }
+      if (event.endDate.getTime() > Date.now()) {
+        throw new EventError('Event has not ended yet', 409);
+      }
+
+      // Requests nobody answered before the event ended never get a seat
+      const expired = await this.releaseJoinRequests(tx, eventId, 'expired');
+
+      const participants = await tx
+        .select()
+        .from(eventParticipants)
+        .where(eq(eventParticipants.eventId, eventId))
+        .orderBy(asc(eventParticipants.joinedAt), asc(eventParticipants.id));
+
+      const settlement = computeEventSettlement(participants, result);
+      const now = new Date();
+      const payoutByUser = new Map(settlement.payouts.map((p) => [p.userId, p.amount]));
+
+      for (const payout of settlement.payouts) {
+        await this.credit(
+          tx,
+          payout.userId,
+          payout.amount,
+          settlement.refund ? 'event_refund' : 'event_win',
+          settlement.refund
+            ? `Refund for event #${eventId}: no opposing side`
+            : `Winnings for ${result ? 'YES' : 'NO'} on event #${eventId}`,
+          eventId
+        );
+      }
+
+      for (const participant of participants) {
+        const won = participant.prediction === result;
+        await tx
+          .update(eventParticipants)
+          .set({
+            status: settlement.refund ? participant.status : won ? 'won' : 'lost',
+            payout: payoutByUser.get(participant.userId) ?? 0,
+            payoutAt: now,
+          })
+          .where(eq(eventParticipants.id, participant.id));
+      }
+
+      if (settlement.creatorFee > 0) {
+        await this.credit(
+          tx,
+          event.creatorId,
+          settlement.creatorFee,
+          'event_creator_fee',
+          `Creator fee for event #${eventId}`,
+          eventId
+        );
+      }
+
+      await tx
+        .update(eventPools)
+        .set({ creatorFeeCollected: settlement.creatorFee > 0, updatedAt: now })
+        .where(eq(eventPools.eventId, eventId));
+
+      const [settled] = await tx
+        .update(events)
+        .set({
+          adminResult: result,
+          result,
+          status: 'completed',
+          creatorFee: settlement.creatorFee,
+          updatedAt: now,
+        })
+        .where(eq(events.id, eventId))
+        .returning();
+
+      await tx.insert(eventActivity).values({
+        eventId,
+        userId: adminId,
+        action: 'settled',
+        data: { result, refund: settlement.refund, creatorFee: settlement.creatorFee },
+      });
+
+      return { event: settled, settlement, expired };
+    });
+
+    await this.publishPoolUpdate(eventId);
+    for (const request of outcome.expired) {
+      await this.notifyDeclined(outcome.event, request);
+    }
+
+    return { event: outcome.event, settlement: outcome.settlement };
+  }
+
+  private async lockEvent(tx: Tx, eventId: number): Promise<Event> {
+    const [event] = await tx.select().from(events).where(eq(events.id, eventId)).for('update');
+    if (!event) {
+      throw new EventError('Event not found', 404);
+    }
+    return event;
+  }
+
+  private async lockOpenEvent(tx: Tx, eventId: number): Promise<Event> {
+    const event = await this.lockEvent(tx, eventId);
+    if (event.status !== 'active') {
+      throw new EventError(`Event is not open (status: ${event.status})`, 409);
+    }
+    if (event.endDate.getTime() <= Date.now()) {
+      throw new EventError('Event has already ended', 409);
+    }
+    return event;
+  }
+
+  private async lockPendingRequest(
+    tx: Tx,
+    requestId: number,
+    creatorId: string,
+    requireOpen: boolean
+  ): Promise<{ event: Event; request: EventJoinRequest }> {
+    const [found] = await tx
+      .select({ eventId: eventJoinRequests.eventId })
+      .from(eventJoinRequests)
+      .where(eq(eventJoinRequests.id, requestId));
+    if (!found) {
+      throw new EventError('Join request not found', 404);
+    }
+
+    // Event first, then request: the same lock order as joins and the sweeper
+    const event = requireOpen
+      ? await this.lockOpenEvent(tx, found.eventId)
+      : await this.lockEvent(tx, found.eventId);
+    if (event.creatorId !== creatorId) {
+      throw new EventError('Only the event creator can respond to join requests', 403);
+    }
+
+    const [request] = await tx
+      .select()
+      .from(eventJoinRequests)
+      .where(eq(eventJoinRequests.id, requestId))
+      .for('update');
+    if (request.status !== 'pending') {
+      throw new EventError(`Join request has already been ${request.status}`, 409);
+    }
+
+    return { event, request };
+  }
+
+  /**
+   * Close pending requests (all of an event's, or the given ids) and give the
+   * held entry fees back
+   */
+  private async releaseJoinRequests(
+    tx: Tx,
+    eventId: number,
+    status: 'rejected' | 'expired',
+    requestIds?: number[]
+  ): Promise<EventJoinRequest[]> {
+    const released = await tx
+      .update(eventJoinRequests)
+      .set({ status, respondedAt: new Date() })
+      .where(
+        and(
+          eq(eventJoinRequests.eventId, eventId),
+          eq(eventJoinRequests.status, 'pending'),
+          requestIds ? inArray(eventJoinRequests.id, requestIds) : undefined
+        )
+      )
+      .returning();
+
+    for (const request of released) {
+      await this.credit(
+        tx,
+        request.userId,
+        request.amount,
+        'event_join_release',
+        `Held entry fee released: join request on event #${eventId} ${status}`,
+        eventId
+      );
+    }
+
+    return released;
+  }
+
+  private async assertSeatAvailable(tx: Tx, event: Event, userId: string): Promise<void> {
+    const [existing] = await tx
+      .select({ id: eventParticipants.id })
+      .from(eventParticipants)
+      .where(and(eq(eventParticipants.eventId, event.id), eq(eventParticipants.userId, userId)))
+      .limit(1);
+    if (existing) {
+      throw new EventError('Already joined this event', 409);
+    }
+
+    const [{ value: joined }] = await tx
+      .select({ value: count() })
+      .from(eventParticipants)
+      .where(eq(eventParticipants.eventId, event.id));
+    if (joined >= (event.maxParticipants ?? DEFAULT_MAX_PARTICIPANTS)) {
+      throw new EventError('This event is full', 409);
+    }
+  }
+
+  private async addParticipant(
+    tx: Tx,
+    eventId: number,
+    userId: string,
+    prediction: boolean,
+    amount: number,
+    requestId?: number
+  ): Promise<EventParticipant> {
+    const [participant] = await tx
+      .insert(eventParticipants)
+      .values({ eventId, userId, prediction, amount, status: 'active' })
+      .returning();
+
+    await this.adjustPools(tx, eventId, prediction, amount);
+    await tx.insert(eventActivity).values({
+      eventId,
+      userId,
+      action: 'joined',
+      data: requestId ? { prediction, amount, requestId } : { prediction, amount },
+    });
+
+    return participant;
+  }
+
+  private async adjustPools(tx: Tx, eventId: number, prediction: boolean, delta: number): Promise<void> {
+    await tx
+      .update(events)
+      .set({
+        eventPool: sql`coalesce(${events.eventPool}, 0) + ${delta}`,
+        ...(prediction
+          ? { yesPool: sql`coalesce(${events.yesPool}, 0) + ${delta}` }
+          : { noPool: sql`coalesce(${events.noPool}, 0) + ${delta}` }),
+        updatedAt: new Date(),
+      })
+      .where(eq(events.id, eventId));
+
+    // Events created before the pool row existed get one on first use
+    await tx
+      .insert(eventPools)
+      .values({
+        eventId,
+        yesAmount: prediction ? delta : 0,
+        noAmount: prediction ? 0 : delta,
+        totalPool: delta,
+      })
+      .onConflictDoUpdate({
+        target: eventPools.eventId,
+        set: {
+          totalPool: sql`coalesce(${eventPools.totalPool}, 0) + ${delta}`,
+          ...(prediction
+            ? { yesAmount: sql`coalesce(${eventPools.yesAmount}, 0) + ${delta}` }
+            : { noAmount: sql`coalesce(${eventPools.noAmount}, 0) + ${delta}` }),
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  private async debit(
+    tx: Tx,
+    userId: string,
+    amount: number,
+    type: string,
+    description: string,
+    eventId: number
+  ): Promise<void> {
+    // Conditional debit: fails instead of taking the balance negative
+    const [payer] = await tx
+      .update(users)
+      .set({ coins: sql`${users.coins} - ${amount}` })
+      .where(and(eq(users.id, userId), gte(users.coins, amount)))
+      .returning({ coins: users.coins });
+    if (!payer) {
+      throw new EventError('Insufficient coins to cover the entry fee', 402);
+    }
+
+    await tx.insert(transactions).values({
+      userId,
+      type,
+      amount: (-amount).toString(),
+      description,
+      relatedId: eventId,
+      status: 'completed',
+    });
+  }
+
+  private async credit(
+    tx: Tx,
+    userId: string,
+    amount: number,
+    type: string,
+    description: string,
+    eventId: number
+  ): Promise<void> {
+    await tx
+      .update(users)
+      .set({ coins: sql`coalesce(${users.coins}, 0) + ${amount}` })
+      .where(eq(users.id, userId));
+
+    await tx.insert(transactions).values({
+      userId,
+      type,
+      amount: amount.toString(),
+      description,
+      relatedId: eventId,
+      status: 'completed',
+    });
+  }
+
+  /**
+   * Push the event's current pools and status to its realtime room
+   */
+  private async publishPoolUpdate(eventId: number): Promise<void> {
+    const [event] = await db
+      .select({
+        eventPool: events.eventPool,
+        yesPool: events.yesPool,
+        noPool: events.noPool,
+        status: events.status,
+        result: events.result,
+      })
+      .from(events)
+      .where(eq(events.id, eventId));
+    if (!event) return;
+
+    const [{ value: participants }] = await db
+      .select({ value: count() })
+      .from(eventParticipants)
+      .where(eq(eventParticipants.eventId, eventId));
+
+    await realtime.publish(`event:${eventId}`, 'pool_update', { eventId, ...event, participants });
+  }
+
+  private async notify(payload: {
+    userId: string;
+    actorId?: string;
+    event: NotificationEvent;
+    title: string;
+    body: string;
+    priority: NotificationPriority;
+    data: { eventId: number } & Record<string, unknown>;
+  }): Promise<void> {
+    // Events aren't challenges: no challengeId, and the push deep link points at the event
+    await notificationService.send({
+      ...payload,
+      challengeId: '',
+      channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+      data: { ...payload.data, url: `/events/${payload.data.eventId}` },
+    });
+  }
+
+  private async notifyDeclined(event: Event, request: EventJoinRequest, creatorId?: string): Promise<void> {
+    await this.notify({
+      userId: request.userId,
+      actorId: creatorId,
+      event: NotificationEvent.EVENT_JOIN_DECLINED,
+      title: request.status === 'expired' ? '⌛ Join request expired' : '❌ Join request declined',
+      body: request.status === 'expired'
+        ? `"${event.title}" closed before your request was answered. ${request.amount} coins were returned.`
+        : `Your request to join "${event.title}" was declined. ${request.amount} coins were returned.`,
+      priority: NotificationPriority.HIGH,
+      data: { eventId: event.id, requestId: request.id, status: request.status },
+    });
+  }
+}
+
+export const eventService = new EventService();
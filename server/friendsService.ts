@@ -0,0 +1,535 @@
+/**
+ * 🤝 Friends Service
+ * Friend graph on the `friends` table (pending / accepted / blocked)
+ *
+ * - One row per pair of users (unique regardless of direction)
+ * - A request to someone who already asked you accepts theirs
+ * - Blocking replaces any relation; the blocker is stored as requester
+ * - Suggestions come from people you've shared challenges with
+ * - Performance compares win rate and P&L from challenge and event bets
+ */
+
+import { and, eq, inArray, isNotNull, ne, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+  challengeParticipants,
+  challenges,
+  eventParticipants,
+  friends,
+  pairQueue,
+  users,
+  type User,
+} from '../shared/schema';
+
+export const SUGGESTION_LIMIT = 10;
+
+export class FriendsError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'FriendsError';
+  }
+}
+
+export type PublicUser = Pick<User, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl' | 'level' | 'xp'>;
+
+export interface FriendRelation {
+  id: number;
+  requesterId: string;
+  addresseeId: string;
+  status: string | null;
+  createdAt: Date | null;
+  acceptedAt: Date | null;
+  requester?: PublicUser;
+  addressee?: PublicUser;
+  mutualFriends: number;
+}
+
+export interface FriendSuggestion extends PublicUser {
+  sharedChallenges: number;
+  mutualFriends: number;
+}
+
+export interface BetStats {
+  wins: number;
+  losses: number;
+  totalBets: number;          // Decided bets (wins + losses)
+  activeBets: number;
+  totalStaked: number;
+  profit: number;             // Net P&L in coins on decided bets
+}
+
+export interface PerformanceEntry extends PublicUser {
+  name: string;
+  winRate: number;            // Percentage, 0-100
+  stats: BetStats;
+}
+
+export interface PerformanceComparison {
+  userStats: PerformanceEntry;
+  friendsStats: PerformanceEntry[];
+  comparison: {
+    totalFriends: number;
+    winRateRank: number;
+    levelRank: number;
+    xpRank: number;
+    profitRank: number;
+    rankings: {
+      winRate: PerformanceEntry[];
+      level: PerformanceEntry[];
+      profit: PerformanceEntry[];
+    };
+  } | null;
+}
+
+const publicUserColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+  level: users.level,
+  xp: users.xp,
+};
+
+function pairCondition(a: string, b: string) {
+  return or(
+    and(eq(friends.requesterId, a), eq(friends.addresseeId, b)),
+    and(eq(friends.requesterId, b), eq(friends.addresseeId, a))
+  );
+}
+
+function displayName(user: PublicUser): string {
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return user.username || fullName || 'Anonymous';
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+export class FriendsService {
+  /**
+   * Accepted and pending relations of a user, with both users and mutual-friend counts.
+   * Blocked relations are not listed here (see getBlockedUsers).
+   */
+  async listRelations(userId: string, status?: 'accepted' | 'pending'): Promise<FriendRelation[]> {
+    const rows = await db
+      .select()
+      .from(friends)
+      .where(
+        and(
+          or(eq(friends.requesterId, userId), eq(friends.addresseeId, userId)),
+          status ? eq(friends.status, status) : inArray(friends.status, ['accepted', 'pending'])
+        )
+      )
+      .orderBy(friends.createdAt);
+
+    const otherIds = rows.map((row) => (row.requesterId === userId ? row.addresseeId : row.requesterId));
+    const people = await this.getPublicUsers([userId, ...otherIds]);
+    const mutual = await this.countMutualFriends(userId, otherIds);
+
+    return rows.map((row) => {
+      const otherId = row.requesterId === userId ? row.addresseeId : row.requesterId;
+      return {
+        id: row.id,
+        requesterId: row.requesterId,
+        addresseeId: row.addresseeId,
+        status: row.status,
+        createdAt: row.createdAt,
+        acceptedAt: row.acceptedAt,
+        requester: people.get(row.requesterId),
+        addressee: people.get(row.addresseeId),
+        mutualFriends: mutual.get(otherId) || 0,
+      };
+    });
+  }
+
+  /**
+   * Incoming pending requests
+   */
+  async listIncomingRequests(userId: string): Promise<FriendRelation[]> {
+    const pending = await this.listRelations(userId, 'pending');
+    return pending.filter((relation) => relation.addresseeId === userId);
+  }
+
+  /**
+   * Send a friend request. If the other user already asked, their request is accepted.
+   */
+  async sendRequest(requesterId: string, addresseeId: string): Promise<{ relation: typeof friends.$inferSelect; autoAccepted: boolean }> {
+    if (requesterId === addresseeId) {
+      throw new FriendsError('You cannot add yourself as a friend');
+    }
+
+    const [addressee] = await db.select({ id: users.id }).from(users).where(eq(users.id, addresseeId)).limit(1);
+    if (!addressee) {
+      throw new FriendsError('User not found', 404);
+    }
+
+    const [existing] = await db.select().from(friends).where(pairCondition(requesterId, addresseeId)).limit(1);
+
+    if (existing?.status === 'blocked') {
+      // Don't reveal to the blocked user that they are blocked
+      throw new FriendsError(
+        existing.requesterId === requesterId ? 'Unblock this user before sending a request' : 'Cannot send a friend request to this user',
+        403
+      );
+    }
+    if (existing?.status === 'accepted') {
+      throw new FriendsError('You are already friends', 409);
+    }
+    if (existing?.status === 'pending' && existing.requesterId === requesterId) {
+      throw new FriendsError('Friend request already sent', 409);
+    }
+    if (existing?.status === 'pending') {
+      const relation = await this.acceptRequest(requesterId, existing.id);
+      return { relation, autoAccepted: true };
+    }
+
+    try {
+      const [relation] = await db
+        .insert(friends)
+        .values({ requesterId, addresseeId, status: 'pending' })
+        .returning();
+      return { relation, autoAccepted: false };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new FriendsError('A friend request between you already exists', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Accept a pending request addressed to the user
+   */
+  async acceptRequest(userId: string, requestId: number) {
+    const [accepted] = await db
+      .update(friends)
+      .set({ status: 'accepted', acceptedAt: new Date() })
+      .where(and(eq(friends.id, requestId), eq(friends.addresseeId, userId), eq(friends.status, 'pending')))
+      .returning();
+
+    if (!accepted) {
+      throw new FriendsError('Friend request not found', 404);
+    }
+    return accepted;
+  }
+
+  /**
+   * Decline an incoming request, or cancel one you sent
+   */
+  async declineRequest(userId: string, requestId: number): Promise<void> {
+    const removed = await db
+      .delete(friends)
+      .where(
+        and(
+          eq(friends.id, requestId),
+          eq(friends.status, 'pending'),
+          or(eq(friends.addresseeId, userId), eq(friends.requesterId, userId))
+        )
+      )
+      .returning({ id: friends.id });
+
+    if (removed.length === 0) {
+      throw new FriendsError('Friend request not found', 404);
+    }
+  }
+
+  async removeFriend(userId: string, friendId: string): Promise<void> {
+    const removed = await db
+      .delete(friends)
+      .where(and(pairCondition(userId, friendId), eq(friends.status, 'accepted')))
+      .returning({ id: friends.id });
+
+    if (removed.length === 0) {
+      throw new FriendsError('Not friends with this user', 404);
+    }
+  }
+
+  /**
+   * Block a user: replaces any friendship or request between the two
+   */
+  async blockUser(userId: string, blockedId: string): Promise<void> {
+    if (userId === blockedId) {
+      throw new FriendsError('You cannot block yourself');
+    }
+
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(friends).where(pairCondition(userId, blockedId)).for('update');
+
+      // They already blocked you: keep their block, nothing to add
+      if (existing?.status === 'blocked' && existing.requesterId === blockedId) {
+        return;
+      }
+
+      if (existing) {
+        await tx.delete(friends).where(eq(friends.id, existing.id));
+      }
+
+      await tx.insert(friends).values({ requesterId: userId, addresseeId: blockedId, status: 'blocked' });
+    });
+  }
+
+  async unblockUser(userId: string, blockedId: string): Promise<void> {
+    const removed = await db
+      .delete(friends)
+      .where(and(eq(friends.requesterId, userId), eq(friends.addresseeId, blockedId), eq(friends.status, 'blocked')))
+      .returning({ id: friends.id });
+
+    if (removed.length === 0) {
+      throw new FriendsError('User is not blocked', 404);
+    }
+  }
+
+  async getBlockedUsers(userId: string): Promise<PublicUser[]> {
+    return db
+      .select(publicUserColumns)
+      .from(friends)
+      .innerJoin(users, eq(users.id, friends.addresseeId))
+      .where(and(eq(friends.requesterId, userId), eq(friends.status, 'blocked')));
+  }
+
+  /**
+   * True if either user blocked the other
+   */
+  async isBlocked(a: string, b: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: friends.id })
+      .from(friends)
+      .where(and(pairCondition(a, b), eq(friends.status, 'blocked')))
+      .limit(1);
+    return !!row;
+  }
+
+  async getFriendIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ requesterId: friends.requesterId, addresseeId: friends.addresseeId })
+      .from(friends)
+      .where(and(eq(friends.status, 'accepted'), or(eq(friends.requesterId, userId), eq(friends.addresseeId, userId))));
+
+    return rows.map((row) => (row.requesterId === userId ? row.addresseeId : row.requesterId));
+  }
+
+  /**
+   * Mutual-friend count between `userId` and each of `otherIds`
+   */
+  async countMutualFriends(userId: string, otherIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (otherIds.length === 0) {
+      return counts;
+    }
+
+    const mine = new Set(await this.getFriendIds(userId));
+    if (mine.size === 0) {
+      return counts;
+    }
+
+    const edges = await db
+      .select({ requesterId: friends.requesterId, addresseeId: friends.addresseeId })
+      .from(friends)
+      .where(
+        and(
+          eq(friends.status, 'accepted'),
+          or(inArray(friends.requesterId, otherIds), inArray(friends.addresseeId, otherIds))
+        )
+      );
+
+    const others = new Set(otherIds);
+    for (const edge of edges) {
+      for (const [other, theirFriend] of [[edge.requesterId, edge.addresseeId], [edge.addresseeId, edge.requesterId]]) {
+        if (others.has(other) && theirFriend !== userId && mine.has(theirFriend)) {
+          counts.set(other, (counts.get(other) || 0) + 1);
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * People you've shared challenges with (same challenge, P2P opponents, queue
+   * matches), excluding existing friends, pending requests and blocks
+   */
+  async getSuggestions(userId: string, limit: number = SUGGESTION_LIMIT): Promise<FriendSuggestion[]> {
+    const shared = new Map<string, Set<number>>();
+    const addShared = (otherId: string | null, challengeId: number) => {
+      if (!otherId || otherId === userId) return;
+      if (!shared.has(otherId)) shared.set(otherId, new Set());
+      shared.get(otherId)!.add(challengeId);
+    };
+
+    const myChallengeIds = (
+      await db
+        .selectDistinct({ challengeId: challengeParticipants.challengeId })
+        .from(challengeParticipants)
+        .where(eq(challengeParticipants.userId, userId))
+    ).map((row) => row.challengeId);
+
+    if (myChallengeIds.length > 0) {
+      const coParticipants = await db
+        .select({ userId: challengeParticipants.userId, challengeId: challengeParticipants.challengeId })
+        .from(challengeParticipants)
+        .where(and(inArray(challengeParticipants.challengeId, myChallengeIds), ne(challengeParticipants.userId, userId)));
+      coParticipants.forEach((row) => addShared(row.userId, row.challengeId));
+    }
+
+    const p2p = await db
+      .select({ id: challenges.id, challenger: challenges.challenger, challenged: challenges.challenged })
+      .from(challenges)
+      .where(or(eq(challenges.challenger, userId), eq(challenges.challenged, userId)));
+    p2p.forEach((row) => addShared(row.challenger === userId ? row.challenged : row.challenger, row.id));
+
+    const matched = await db
+      .select({ matchedWith: pairQueue.matchedWith, challengeId: pairQueue.challengeId })
+      .from(pairQueue)
+      .where(and(eq(pairQueue.userId, userId), isNotNull(pairQueue.matchedWith)));
+    matched.forEach((row) => addShared(row.matchedWith, row.challengeId));
+
+    // Anyone with an existing relation (friend, pending, blocked) is not a suggestion
+    const related = await db
+      .select({ requesterId: friends.requesterId, addresseeId: friends.addresseeId })
+      .from(friends)
+      .where(or(eq(friends.requesterId, userId), eq(friends.addresseeId, userId)));
+    for (const row of related) {
+      shared.delete(row.requesterId === userId ? row.addresseeId : row.requesterId);
+    }
+
+    const candidateIds = Array.from(shared.keys());
+    if (candidateIds.length === 0) {
+      return [];
+    }
+
+    const people = await this.getPublicUsers(candidateIds, true);
+    const mutual = await this.countMutualFriends(userId, candidateIds);
+
+    return candidateIds
+      .filter((id) => people.has(id))
+      .map((id) => ({
+        ...people.get(id)!,
+        sharedChallenges: shared.get(id)!.size,
+        mutualFriends: mutual.get(id) || 0,
+      }))
+      .sort((a, b) => b.sharedChallenges * 2 + b.mutualFriends - (a.sharedChallenges * 2 + a.mutualFriends))
+      .slice(0, limit);
+  }
+
+  /**
+   * Win rate, P&L, level and XP for the user and their friends, with rankings
+   */
+  async getPerformanceComparison(userId: string): Promise<PerformanceComparison> {
+    const friendIds = await this.getFriendIds(userId);
+    const ids = [userId, ...friendIds];
+
+    const people = await this.getPublicUsers(ids);
+    const stats = await this.getBetStats(ids);
+
+    const entries = ids
+      .filter((id) => people.has(id))
+      .map((id): PerformanceEntry => {
+        const person = people.get(id)!;
+        const s = stats.get(id) || { wins: 0, losses: 0, totalBets: 0, activeBets: 0, totalStaked: 0, profit: 0 };
+        return {
+          ...person,
+          level: person.level ?? 1,
+          xp: person.xp ?? 0,
+          name: displayName(person),
+          winRate: s.totalBets > 0 ? Math.round((s.wins / s.totalBets) * 1000) / 10 : 0,
+          stats: s,
+        };
+      });
+
+    const userStats = entries.find((entry) => entry.id === userId);
+    if (!userStats) {
+      throw new FriendsError('User not found', 404);
+    }
+
+    const friendsStats = entries.filter((entry) => entry.id !== userId);
+    if (friendsStats.length === 0) {
+      return { userStats, friendsStats, comparison: null };
+    }
+
+    const byWinRate = [...entries].sort((a, b) => b.winRate - a.winRate || b.stats.wins - a.stats.wins);
+    const byLevel = [...entries].sort((a, b) => (b.level ?? 0) - (a.level ?? 0) || (b.xp ?? 0) - (a.xp ?? 0));
+    const byXp = [...entries].sort((a, b) => (b.xp ?? 0) - (a.xp ?? 0));
+    const byProfit = [...entries].sort((a, b) => b.stats.profit - a.stats.profit);
+    const rankOf = (list: PerformanceEntry[]) => list.findIndex((entry) => entry.id === userId) + 1;
+
+    return {
+      userStats,
+      friendsStats,
+      comparison: {
+        totalFriends: friendsStats.length,
+        winRateRank: rankOf(byWinRate),
+        levelRank: rankOf(byLevel),
+        xpRank: rankOf(byXp),
+        profitRank: rankOf(byProfit),
+        rankings: { winRate: byWinRate, level: byLevel, profit: byProfit },
+      },
+    };
+  }
+
+  /**
+   * Aggregate bet outcomes from challenge_participants and event_participants
+   */
+  async getBetStats(userIds: string[]): Promise<Map<string, BetStats>> {
+    const result = new Map<string, BetStats>();
+    if (userIds.length === 0) {
+      return result;
+    }
+
+    const challengeRows = await db
+      .select({
+        userId: challengeParticipants.userId,
+        wins: sql<number>`count(*) filter (where ${challengeParticipants.status} = 'settled' and ${challengeParticipants.payoutAmount} > 0)::int`,
+        losses: sql<number>`count(*) filter (where ${challengeParticipants.status} = 'settled' and coalesce(${challengeParticipants.payoutAmount}, 0) = 0)::int`,
+        active: sql<number>`count(*) filter (where ${challengeParticipants.status} = 'active')::int`,
+        staked: sql<number>`coalesce(sum(${challengeParticipants.amount}) filter (where ${challengeParticipants.status} <> 'refunded'), 0)::int`,
+        profit: sql<number>`coalesce(sum(coalesce(${challengeParticipants.payoutAmount}, 0) - ${challengeParticipants.amount}) filter (where ${challengeParticipants.status} = 'settled'), 0)::int`,
+      })
+      .from(challengeParticipants)
+      .where(inArray(challengeParticipants.userId, userIds))
+      .groupBy(challengeParticipants.userId);
+
+    const eventRows = await db
+      .select({
+        userId: eventParticipants.userId,
+        wins: sql<number>`count(*) filter (where ${eventParticipants.status} = 'won')::int`,
+        losses: sql<number>`count(*) filter (where ${eventParticipants.status} = 'lost')::int`,
+        active: sql<number>`count(*) filter (where ${eventParticipants.status} in ('active', 'matched'))::int`,
+        staked: sql<number>`coalesce(sum(${eventParticipants.amount}), 0)::int`,
+        profit: sql<number>`coalesce(sum(case when ${eventParticipants.status} = 'won' then coalesce(${eventParticipants.payout}, 0) - ${eventParticipants.amount} when ${eventParticipants.status} = 'lost' then -${eventParticipants.amount} else 0 end), 0)::int`,
+      })
+      .from(eventParticipants)
+      .where(inArray(eventParticipants.userId, userIds))
+      .groupBy(eventParticipants.userId);
+
+    for (const row of [...challengeRows, ...eventRows]) {
+      const current = result.get(row.userId) || { wins: 0, losses: 0, totalBets: 0, activeBets: 0, totalStaked: 0, profit: 0 };
+      current.wins += Number(row.wins);
+      current.losses += Number(row.losses);
+      current.totalBets = current.wins + current.losses;
+      current.activeBets += Number(row.active);
+      current.totalStaked += Number(row.staked);
+      current.profit += Number(row.profit);
+      result.set(row.userId, current);
+    }
+
+    return result;
+  }
+
+  private async getPublicUsers(ids: string[], activeOnly = false): Promise<Map<string, PublicUser>> {
+    const unique = Array.from(new Set(ids));
+    if (unique.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .select(publicUserColumns)
+      .from(users)
+      .where(and(inArray(users.id, unique), activeOnly ? eq(users.status, 'active') : undefined));
+
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+}
+
+export const friendsService = new FriendsService();
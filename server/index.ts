@@ -8,6 +8,14 @@ import { fileURLToPath } from "url";
 import fs from "fs";
 
 import { registerRoutes } from "./routes";
+import { db } from "./db";
+import { createPairingEngine } from "./pairingEngine";
+import { eventService } from "./eventService";
+import { notificationDigestScheduler } from "./notificationDigest";
+import { challengeLifecycleScheduler } from "./challengeLifecycle";
+import { createChainIndexers } from "./blockchain/indexer";
+import { transactionMonitor } from "./blockchain/txManager";
+import { resolutionFinalizer } from "./blockchain/optimisticResolution";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -67,6 +75,13 @@ app.use((_req, res, next) => {
     },
     () => {
       console.log(`✅ Server running on port ${port}`);
+      createPairingEngine(db).startExpirySweeper();
+      eventService.startJoinRequestSweeper();
+      notificationDigestScheduler.start();
+      challengeLifecycleScheduler.start();
+      createChainIndexers().forEach((indexer) => indexer.start());
+      transactionMonitor.start();
+      resolutionFinalizer.start();
     }
   );
 })();
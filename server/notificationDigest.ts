@@ -0,0 +1,205 @@
+/**
+ * 📬 Notification Digest Scheduler
+ * Rolls held notifications into one summary per user
+ *
+ * - `batched` users get a summary every NOTIFICATION_BATCH_INTERVAL_MINUTES (default 15)
+ * - `digest` users get one every NOTIFICATION_DIGEST_INTERVAL_HOURS (default 24)
+ * - The cadence is measured from the user's oldest held notification
+ * - Users who switched back to `immediate` are flushed on the next tick
+ */
+
+import { and, asc, eq, inArray, isNull, min } from 'drizzle-orm';
+import { db } from './db';
+import { heldNotifications, type HeldNotification } from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+
+export interface DigestSchedulerConfig {
+  batchIntervalMs: number;
+  digestIntervalMs: number;
+  tickMs: number;
+}
+
+export interface DigestFlushResult {
+  usersFlushed: number;
+  notificationsRolledUp: number;
+}
+
+export function getDigestConfig(): DigestSchedulerConfig {
+  const batchMinutes = Number(process.env.NOTIFICATION_BATCH_INTERVAL_MINUTES) || 15;
+  const digestHours = Number(process.env.NOTIFICATION_DIGEST_INTERVAL_HOURS) || 24;
+
+  return {
+    batchIntervalMs: batchMinutes * 60 * 1000,
+    digestIntervalMs: digestHours * 60 * 60 * 1000,
+    tickMs: 60 * 1000,
+  };
+}
+
+// [singular, plural] wording per event for summary lines
+const EVENT_LABELS: Partial<Record<string, [string, string]>> = {
+  [NotificationEvent.CHALLENGE_CREATED]: ['new challenge', 'new challenges'],
+  [NotificationEvent.CHALLENGE_STARTING_SOON]: ['challenge starting soon', 'challenges starting soon'],
+  [NotificationEvent.CHALLENGE_ENDING_SOON]: ['challenge ending soon', 'challenges ending soon'],
+  [NotificationEvent.CHALLENGE_JOINED_FRIEND]: ['friend joined a challenge', 'friends joined challenges'],
+  [NotificationEvent.IMBALANCE_DETECTED]: ['imbalanced challenge', 'imbalanced challenges'],
+  [NotificationEvent.BONUS_ACTIVATED]: ['bonus activated', 'bonuses activated'],
+  [NotificationEvent.BONUS_EXPIRING]: ['bonus expiring', 'bonuses expiring'],
+  [NotificationEvent.SYSTEM_JOINED]: ['system update', 'system updates'],
+  [NotificationEvent.DISPUTE_RAISED]: ['dispute raised', 'disputes raised'],
+  [NotificationEvent.EVENT_JOIN_REQUESTED]: ['event join request', 'event join requests'],
+  [NotificationEvent.EVENT_MENTION]: ['chat mention', 'chat mentions'],
+  [NotificationEvent.ADMIN_BROADCAST]: ['announcement', 'announcements'],
+};
+
+/**
+ * Count held notifications per event, most frequent first
+ */
+export function countByEvent(items: Pick<HeldNotification, 'event'>[]): Array<{ event: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item.event, (counts.get(item.event) || 0) + 1);
+  }
+
+  // Map keeps first-seen order, so ties stay in arrival order
+  return Array.from(counts, ([event, count]) => ({ event, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * e.g. "3 challenges ending soon, 2 bonuses activated"
+ */
+export function summarizeHeldNotifications(items: Pick<HeldNotification, 'event'>[]): string {
+  return countByEvent(items)
+    .map(({ event, count }) => {
+      const [singular, plural] = EVENT_LABELS[event] ?? ['update', 'updates'];
+      return `${count} ${count === 1 ? singular : plural}`;
+    })
+    .join(', ');
+}
+
+export class NotificationDigestScheduler {
+  constructor(private config: DigestSchedulerConfig = getDigestConfig()) {}
+
+  /**
+   * Flush every user whose oldest held notification has waited a full cadence
+   */
+  async flushDue(now: Date = new Date()): Promise<DigestFlushResult> {
+    const pending = await db
+      .select({ userId: heldNotifications.userId, oldest: min(heldNotifications.createdAt) })
+      .from(heldNotifications)
+      .where(isNull(heldNotifications.deliveredAt))
+      .groupBy(heldNotifications.userId);
+
+    const result: DigestFlushResult = { usersFlushed: 0, notificationsRolledUp: 0 };
+
+    for (const { userId, oldest } of pending) {
+      try {
+        const prefs = await notificationService.getUserPreferences(userId);
+        const interval =
+          prefs.notificationFrequency === 'digest'
+            ? this.config.digestIntervalMs
+            : prefs.notificationFrequency === 'batched'
+              ? this.config.batchIntervalMs
+              : 0;
+
+        if (oldest && now.getTime() - new Date(oldest).getTime() < interval) {
+          continue;
+        }
+
+        const rolledUp = await this.flushUser(userId, now);
+        if (rolledUp > 0) {
+          result.usersFlushed++;
+          result.notificationsRolledUp += rolledUp;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to flush notification digest for user ${userId}:`, error);
+      }
+    }
+
+    if (result.usersFlushed > 0) {
+      console.log(`📬 Sent ${result.usersFlushed} notification digests (${result.notificationsRolledUp} notifications)`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one summary of everything held for a user. Returns how many were
+   * rolled up; 0 if sending failed and they stay held.
+   */
+  async flushUser(userId: string, now: Date = new Date()): Promise<number> {
+    const items = await db
+      .select()
+      .from(heldNotifications)
+      .where(and(eq(heldNotifications.userId, userId), isNull(heldNotifications.deliveredAt)))
+      .orderBy(asc(heldNotifications.createdAt), asc(heldNotifications.id));
+
+    if (items.length === 0) {
+      return 0;
+    }
+
+    // A single held notification goes out as itself rather than as "1 update"
+    const single = items.length === 1 ? items[0] : null;
+
+    const result = await notificationService.dispatch({
+      userId,
+      challengeId: single?.challengeId || '',
+      event: NotificationEvent.NOTIFICATION_DIGEST,
+      title: single ? single.title : `📬 ${items.length} updates while you were away`,
+      body: single ? single.body || '' : summarizeHeldNotifications(items),
+      channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+      priority: NotificationPriority.MEDIUM,
+      data: {
+        ...(single ? (single.data as Record<string, any> | null) : {}),
+        url: single?.challengeId ? undefined : '/',
+        counts: countByEvent(items),
+        heldIds: items.map((item) => item.id),
+      },
+    });
+
+    // Keep everything held for the next tick if sending broke. A suppressed
+    // summary (muted, channels disabled) is the user's or an admin's choice,
+    // so those items count as delivered.
+    if (result === 'failed') {
+      return 0;
+    }
+
+    await db
+      .update(heldNotifications)
+      .set({ deliveredAt: now })
+      .where(inArray(heldNotifications.id, items.map((item) => item.id)));
+
+    return items.length;
+  }
+
+  /**
+   * Run flushDue on an interval. Returns a function that stops it.
+   */
+  start(): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.flushDue();
+      } finally {
+        running = false;
+      }
+    }, this.config.tickMs);
+
+    timer.unref?.();
+    console.log(
+      `✅ Notification digest scheduler running (batched every ${Math.round(this.config.batchIntervalMs / 60000)}m, ` +
+      `digest every ${Math.round(this.config.digestIntervalMs / 3600000)}h)`
+    );
+
+    return () => clearInterval(timer);
+  }
+}
+
+export const notificationDigestScheduler = new NotificationDigestScheduler();
@@ -0,0 +1,555 @@
+/**
+ * 🔔 FOMO Notification System (Final Spec)
+ * Push + In-App Only
+ * Core Events with Rate Limiting, Anti-Spam & User Preferences
+ *
+ * Every send passes through, in order:
+ * 1. Admin event mutes (global, time-boxed)
+ * 2. User preferences (muted challenges/users, enabled channels)
+ * 3. Delivery mode: non-urgent sends for batched/digest users are held
+ *    and later rolled into one summary by ./notificationDigest
+ * 4. Rate limits & per-event cooldowns
+ */
+
+import { db } from './db';
+import { heldNotifications, notifications, userNotificationPreferences } from '../shared/schema';
+import { eq, and, gt, desc, sql } from 'drizzle-orm';
+import { webPushService, getDeepLink, DEFAULT_PUSH_ICON, DEFAULT_PUSH_BADGE } from './webPush';
+import { realtime } from './realtime';
+
+export enum NotificationEvent {
+  CHALLENGE_CREATED = 'challenge.created',
+  CHALLENGE_STARTING_SOON = 'challenge.starting_soon',
+  CHALLENGE_ENDING_SOON = 'challenge.ending_soon',
+  CHALLENGE_JOINED_FRIEND = 'challenge.joined.friend',
+  IMBALANCE_DETECTED = 'imbalance.detected',
+  BONUS_ACTIVATED = 'bonus.activated',
+  BONUS_EXPIRING = 'bonus.expiring',
+  MATCH_FOUND = 'match.found',
+  SYSTEM_JOINED = 'system.joined',
+  DISPUTE_RAISED = 'challenge.dispute_raised',
+  DISPUTE_RESOLVED = 'challenge.dispute_resolved',
+  EVENT_JOIN_REQUESTED = 'event.join_requested',
+  EVENT_JOIN_APPROVED = 'event.join_approved',
+  EVENT_JOIN_DECLINED = 'event.join_declined',
+  EVENT_MENTION = 'event.mention',
+  ADMIN_BROADCAST = 'admin.broadcast',
+  NOTIFICATION_DIGEST = 'notification.digest',
+}
+
+export enum NotificationChannel {
+  IN_APP = 'in_app',
+  PUSH = 'push',
+}
+
+export enum NotificationPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+export interface NotificationPayload {
+  userId: string;
+  challengeId: string;
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  channels: NotificationChannel[];
+  priority: NotificationPriority;
+  actorId?: string;           // User who triggered it (checked against mutedUsers)
+  deviceIds?: number[];       // Limit push to these push_subscriptions ids
+  data?: Record<string, any>;
+}
+
+export type NotificationSendResult = 'sent' | 'held' | 'suppressed' | 'failed';
+
+/**
+ * Preference update shape used by the notifications API
+ */
+export interface UserNotificationPreferences {
+  userId: string;
+  enablePushNotifications?: boolean;
+  enableTelegramNotifications?: boolean;
+  enableInAppNotifications?: boolean;
+  notificationFrequency?: 'immediate' | 'batched' | 'digest';
+  mutedChallenges?: string[];
+  mutedUsers?: string[];
+}
+
+export type ResolvedPreferences = Required<Omit<UserNotificationPreferences, 'userId'>>;
+
+export const DEFAULT_PREFERENCES: ResolvedPreferences = {
+  enablePushNotifications: true,
+  enableTelegramNotifications: false,
+  enableInAppNotifications: true,
+  notificationFrequency: 'immediate',
+  mutedChallenges: [],
+  mutedUsers: [],
+};
+
+/**
+ * Rate limiting & deduplication rules
+ */
+interface RateLimitConfig {
+  perUserPerMinute: number;           // Max notifications per user per minute
+  perChallengePerEvent: number;       // Max same event per challenge per hour
+  eventCooldownSeconds: Record<NotificationEvent, number>;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  perUserPerMinute: 5,
+  perChallengePerEvent: 1,
+  eventCooldownSeconds: {
+    [NotificationEvent.CHALLENGE_CREATED]: 300,           // 5 mins
+    [NotificationEvent.CHALLENGE_STARTING_SOON]: 120,     // 2 mins
+    [NotificationEvent.CHALLENGE_ENDING_SOON]: 300,       // 5 mins
+    [NotificationEvent.CHALLENGE_JOINED_FRIEND]: 60,      // 1 min
+    [NotificationEvent.IMBALANCE_DETECTED]: 600,          // 10 mins
+    [NotificationEvent.BONUS_ACTIVATED]: 60,              // 1 min
+    [NotificationEvent.BONUS_EXPIRING]: 120,              // 2 mins
+    [NotificationEvent.MATCH_FOUND]: 0,                   // No cooldown (critical)
+    [NotificationEvent.SYSTEM_JOINED]: 300,               // 5 mins
+    [NotificationEvent.DISPUTE_RAISED]: 0,                // No cooldown (one per dispute)
+    [NotificationEvent.DISPUTE_RESOLVED]: 0,              // No cooldown (critical)
+    [NotificationEvent.EVENT_JOIN_REQUESTED]: 0,          // One per request
+    [NotificationEvent.EVENT_JOIN_APPROVED]: 0,           // No cooldown (critical)
+    [NotificationEvent.EVENT_JOIN_DECLINED]: 0,           // No cooldown (critical)
+    [NotificationEvent.EVENT_MENTION]: 0,                 // One per mention; the per-minute throttle still applies
+    [NotificationEvent.ADMIN_BROADCAST]: 0,               // Admin-initiated
+    [NotificationEvent.NOTIFICATION_DIGEST]: 0,           // Paced by the digest scheduler
+  },
+};
+
+// Events that skip the per-minute throttle: users must always hear about these
+const CRITICAL_EVENTS = new Set<NotificationEvent>([
+  NotificationEvent.MATCH_FOUND,
+  NotificationEvent.DISPUTE_RESOLVED,
+  NotificationEvent.EVENT_JOIN_APPROVED,
+  NotificationEvent.EVENT_JOIN_DECLINED,
+  NotificationEvent.ADMIN_BROADCAST,
+  NotificationEvent.NOTIFICATION_DIGEST,    // Already paced by the digest scheduler
+]);
+
+export class FOSMNotificationService {
+  private rateLimitConfig: RateLimitConfig;
+  private mutedEvents = new Map<string, Date>();  // event -> muted until
+
+  constructor(rateLimitConfig = DEFAULT_RATE_LIMIT) {
+    this.rateLimitConfig = rateLimitConfig;
+  }
+
+  /**
+   * Main entry point: Send notification. True when it went out or was held
+   * for a summary.
+   */
+  async send(payload: NotificationPayload): Promise<boolean> {
+    const result = await this.dispatch(payload);
+    return result === 'sent' || result === 'held';
+  }
+
+  /**
+   * Send a notification and say what happened to it. 'suppressed' means it
+   * was dropped on purpose (admin mute, user preferences or rate limits);
+   * 'failed' means something broke and sending again may work.
+   */
+  async dispatch(payload: NotificationPayload): Promise<NotificationSendResult> {
+    try {
+      if (this.isEventMuted(payload.event)) {
+        console.log(`🔇 Notification skipped (event muted by admin): ${payload.event}`);
+        return 'suppressed';
+      }
+
+      const prefs = await this.getUserPreferences(payload.userId);
+
+      if (payload.challengeId && prefs.mutedChallenges.includes(String(payload.challengeId))) {
+        console.log(`🔇 Notification skipped (challenge ${payload.challengeId} muted): ${payload.event} for user ${payload.userId}`);
+        return 'suppressed';
+      }
+
+      if (payload.actorId && prefs.mutedUsers.includes(payload.actorId)) {
+        console.log(`🔇 Notification skipped (user ${payload.actorId} muted): ${payload.event} for user ${payload.userId}`);
+        return 'suppressed';
+      }
+
+      // Determine which channels to send based on priority and preferences
+      const channels = this.filterChannelsByPreferences(
+        this.filterChannelsByPriority(payload.channels, payload.priority),
+        prefs
+      );
+
+      if (channels.length === 0) {
+        console.log(`🔇 Notification skipped (all channels disabled): ${payload.event} for user ${payload.userId}`);
+        return 'suppressed';
+      }
+
+      if (this.shouldHold(payload, prefs)) {
+        await this.hold(payload);
+        console.log(`📥 Notification held for ${prefs.notificationFrequency} delivery: ${payload.event} for user ${payload.userId}`);
+        return 'held';
+      }
+
+      // Check rate limits
+      const canSend = await this.checkRateLimits(payload);
+      if (!canSend) {
+        console.log(`⏸ Notification rate-limited: ${payload.event} for user ${payload.userId}`);
+        return 'suppressed';
+      }
+
+      // The in-app feed is the notifications table, so only persist when
+      // the user still receives in-app notifications
+      if (channels.includes(NotificationChannel.IN_APP)) {
+        await this.saveToDatabase(payload, channels);
+        await this.sendInApp(payload);
+      }
+
+      if (channels.includes(NotificationChannel.PUSH)) {
+        const pushed = await this.sendPush(payload);
+        // With the feed entry saved the notification is delivered; push is its only copy otherwise
+        if (!pushed && !channels.includes(NotificationChannel.IN_APP)) {
+          return 'failed';
+        }
+      }
+
+      console.log(`✅ Notification sent: ${payload.event} to ${payload.userId}`);
+      return 'sent';
+    } catch (error) {
+      console.error(`❌ Error sending notification: ${payload.event}`, error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Urgent notifications always go out immediately, whatever the delivery mode
+   */
+  isUrgent(payload: Pick<NotificationPayload, 'event' | 'priority'>): boolean {
+    return payload.priority === NotificationPriority.HIGH || CRITICAL_EVENTS.has(payload.event);
+  }
+
+  private shouldHold(payload: NotificationPayload, prefs: ResolvedPreferences): boolean {
+    return (
+      prefs.notificationFrequency !== 'immediate' &&
+      !this.isUrgent(payload)
+    );
+  }
+
+  private async hold(payload: NotificationPayload): Promise<void> {
+    await db.insert(heldNotifications).values({
+      userId: payload.userId,
+      event: payload.event,
+      challengeId: payload.challengeId || null,
+      title: payload.title,
+      body: payload.body,
+      data: payload.data ?? null,
+    });
+  }
+
+  /**
+   * Rate limiting: Check if notification can be sent
+   */
+  private async checkRateLimits(payload: NotificationPayload): Promise<boolean> {
+    const now = new Date();
+    const oneMinuteAgo = new Date(now.getTime() - 60000);
+
+    // Check per-user-per-minute limit
+    const recentCount = await db
+      .select({ count: db.$count(notifications) })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, payload.userId),
+          gt(notifications.createdAt, oneMinuteAgo)
+        )
+      );
+
+    const recentCountValue = Array.isArray(recentCount) && recentCount.length > 0
+      ? Number(recentCount[0]?.count || 0)
+      : 0;
+
+    if (recentCountValue >= this.rateLimitConfig.perUserPerMinute && !CRITICAL_EVENTS.has(payload.event)) {
+      return false;
+    }
+
+    // Check event cooldown (best-effort). Wrap in try/catch because some DB schemas
+    // or reserved column names (e.g. `type`) may cause SQL generation issues in
+    // edge environments. If the cooldown check fails, allow sending to avoid
+    // blocking notifications.
+    try {
+      const cooldownSeconds = this.rateLimitConfig.eventCooldownSeconds[payload.event];
+      if (cooldownSeconds > 0) {
+        // Cooldowns are per challenge; without a challengeId there is nothing to key on
+        if (!payload.challengeId) {
+          return true;
+        }
+        const cooldownTime = new Date(now.getTime() - cooldownSeconds * 1000);
+
+        // challengeId lives in the notification's data payload
+        const recentSameEvent = await db
+          .select({ count: db.$count(notifications) })
+          .from(notifications)
+          .where(
+            and(
+              eq(notifications.userId, payload.userId),
+              sql`${notifications.data} ->> 'challengeId' = ${String(payload.challengeId)}`,
+              eq(notifications.type, payload.event),
+              gt(notifications.createdAt, cooldownTime)
+            )
+          );
+
+        const recentSameEventValue = Array.isArray(recentSameEvent) && recentSameEvent.length > 0
+          ? Number(recentSameEvent[0]?.count || 0)
+          : 0;
+
+        if (recentSameEventValue > 0) {
+          return false;
+        }
+      }
+    } catch (err) {
+      console.error('Rate limit cooldown check failed (allowing notification):', err);
+    }
+
+    return true;
+  }
+
+  /**
+   * Filter channels based on priority
+   */
+  private filterChannelsByPriority(
+    requestedChannels: NotificationChannel[],
+    priority: NotificationPriority
+  ): NotificationChannel[] {
+    // Always include in-app
+    const result = [NotificationChannel.IN_APP];
+
+    // Only add push for high/medium priority
+    if (
+      priority === NotificationPriority.HIGH ||
+      priority === NotificationPriority.MEDIUM
+    ) {
+      if (requestedChannels.includes(NotificationChannel.PUSH)) {
+        result.push(NotificationChannel.PUSH);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop channels the user has switched off
+   */
+  private filterChannelsByPreferences(
+    channels: NotificationChannel[],
+    prefs: ResolvedPreferences
+  ): NotificationChannel[] {
+    return channels.filter((channel) => {
+      if (channel === NotificationChannel.IN_APP) return prefs.enableInAppNotifications;
+      if (channel === NotificationChannel.PUSH) return prefs.enablePushNotifications;
+      return true;
+    });
+  }
+
+  /**
+   * Save notification to database
+   */
+  private async saveToDatabase(payload: NotificationPayload, channels: NotificationChannel[]): Promise<void> {
+    const priorityMap: Record<string, number> = {
+      [NotificationPriority.LOW]: 1,
+      [NotificationPriority.MEDIUM]: 2,
+      [NotificationPriority.HIGH]: 3,
+    };
+
+    const priorityValue = priorityMap[payload.priority] || 1;
+
+    await db.insert(notifications).values({
+      id: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: payload.userId,
+      type: payload.event,
+      title: payload.title,
+      message: payload.body,
+      data: { ...payload.data, challengeId: payload.challengeId || undefined } as any,
+      channels: channels as any,
+      priority: priorityValue,
+      read: false,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Send to the in-app feed over the user's realtime room
+   */
+  private async sendInApp(payload: NotificationPayload): Promise<void> {
+    try {
+      await realtime.publish(`user:${payload.userId}`, 'notification', {
+        id: `notif_${Date.now()}`,
+        event: payload.event,
+        title: payload.title,
+        body: payload.body,
+        challengeId: payload.challengeId,
+        priority: payload.priority,
+        timestamp: new Date(),
+        data: payload.data,
+      });
+    } catch (error) {
+      console.error('Error sending in-app notification:', error);
+    }
+  }
+
+  /**
+   * Send web push to the user's devices; clicks deep-link into the challenge.
+   * False only when sending threw (push switched off server-wide is not a failure).
+   */
+  private async sendPush(payload: NotificationPayload): Promise<boolean> {
+    try {
+      if (!webPushService.enabled) {
+        return true;
+      }
+
+      const summary = await webPushService.sendToUser(
+        payload.userId,
+        {
+          title: payload.title,
+          body: payload.body,
+          icon: DEFAULT_PUSH_ICON,
+          badge: DEFAULT_PUSH_BADGE,
+          type: payload.event,
+          data: {
+            ...payload.data,
+            event: payload.event,
+            challengeId: payload.challengeId || undefined,
+            url: payload.data?.url || getDeepLink(payload.challengeId),
+          },
+        },
+        {
+          subscriptionIds: payload.deviceIds,
+          urgency: payload.priority === NotificationPriority.HIGH ? 'high' : 'normal',
+        }
+      );
+
+      console.log(`📱 [PUSH] ${payload.title}: ${summary.sent} sent, ${summary.failed} failed, ${summary.removed} removed`);
+      return true;
+    } catch (error) {
+      console.error('Error sending push notification:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stored preferences for a user, falling back to defaults
+   */
+  async getUserPreferences(userId: string): Promise<ResolvedPreferences> {
+    const [prefs] = await db
+      .select()
+      .from(userNotificationPreferences)
+      .where(eq(userNotificationPreferences.userId, userId))
+      .limit(1);
+
+    if (!prefs) {
+      return { ...DEFAULT_PREFERENCES };
+    }
+
+    return {
+      enablePushNotifications: prefs.enablePush ?? DEFAULT_PREFERENCES.enablePushNotifications,
+      enableTelegramNotifications: prefs.enableTelegram ?? DEFAULT_PREFERENCES.enableTelegramNotifications,
+      enableInAppNotifications: prefs.enableInApp ?? DEFAULT_PREFERENCES.enableInAppNotifications,
+      notificationFrequency:
+        (prefs.notificationFrequency as ResolvedPreferences['notificationFrequency']) ||
+        DEFAULT_PREFERENCES.notificationFrequency,
+      mutedChallenges: prefs.mutedChallenges || [],
+      mutedUsers: prefs.mutedUsers || [],
+    };
+  }
+
+  /**
+   * Create or update preferences; only provided fields are changed
+   */
+  async updateUserPreferences(userId: string, update: UserNotificationPreferences): Promise<void> {
+    const values = {
+      ...(update.enablePushNotifications !== undefined && { enablePush: update.enablePushNotifications }),
+      ...(update.enableTelegramNotifications !== undefined && { enableTelegram: update.enableTelegramNotifications }),
+      ...(update.enableInAppNotifications !== undefined && { enableInApp: update.enableInAppNotifications }),
+      ...(update.notificationFrequency !== undefined && { notificationFrequency: update.notificationFrequency }),
+      ...(update.mutedChallenges !== undefined && { mutedChallenges: update.mutedChallenges.map(String) }),
+      ...(update.mutedUsers !== undefined && { mutedUsers: update.mutedUsers }),
+    };
+
+    await db
+      .insert(userNotificationPreferences)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({
+        target: userNotificationPreferences.userId,
+        set: { ...values, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Admin: globally mute an event type for a while
+   */
+  muteEvent(event: string, durationMinutes: number): Date {
+    const until = new Date(Date.now() + durationMinutes * 60 * 1000);
+    this.mutedEvents.set(event, until);
+    return until;
+  }
+
+  unmuteEvent(event: string): void {
+    this.mutedEvents.delete(event);
+  }
+
+  getMutedEvents(): Array<{ event: string; until: Date }> {
+    return Array.from(this.mutedEvents.entries())
+      .filter(([event]) => this.isEventMuted(event))
+      .map(([event, until]) => ({ event, until }));
+  }
+
+  private isEventMuted(event: string): boolean {
+    const until = this.mutedEvents.get(event);
+    if (!until) return false;
+    if (until.getTime() <= Date.now()) {
+      this.mutedEvents.delete(event);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get unread notification count for user
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const result = await db
+      .select({ count: db.$count(notifications) })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+
+    return result[0].count || 0;
+  }
+
+  /**
+   * Get notifications for user (paginated)
+   */
+  async getNotifications(userId: string, limit = 20, offset = 0) {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Mark notification as read
+   */
+  async markAsRead(notificationId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, notificationId));
+  }
+
+  /**
+   * Delete every notification for a user
+   */
+  async clearAllNotifications(userId: string): Promise<void> {
+    await db.delete(notifications).where(eq(notifications.userId, userId));
+  }
+}
+
+export const notificationService = new FOSMNotificationService();
@@ -0,0 +1,584 @@
+/**
+ * 🎯 Pairing Engine
+ * Deterministic FCFS queue matching for YES/NO challenge stakes
+ *
+ * - Opponents are matched first-come-first-served within ±20% stake tolerance
+ * - Every join runs inside one transaction that locks the challenge row,
+ *   so concurrent joins on the same challenge are serialized
+ * - Joining holds the stake from the user's coins; a match moves both
+ *   held stakes into escrow rows in the same transaction
+ * - Waiting entries can be cancelled, and expire once the challenge's
+ *   dueDate passes; either way the held stake is refunded
+ * - MATCH_FOUND notifications fire only after the transaction commits, and
+ *   the challenge's realtime room hears about the match at the same time
+ */
+
+import { and, asc, count, eq, gte, lte, ne, or, lt, sql } from 'drizzle-orm';
+import type { db as Database } from './db';
+import { challenges, escrow, pairQueue, transactions, users, type Challenge } from '../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from './notificationSystem';
+import { realtime } from './realtime';
+
+type Db = typeof Database;
+type Tx = Parameters<Parameters<Db['transaction']>[0]>[0];
+type QueueEntry = typeof pairQueue.$inferSelect;
+
+export type QueueSide = 'YES' | 'NO';
+
+export const STAKE_TOLERANCE = 0.2;
+export const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface MatchResult {
+  user1Id: string;           // Opponent who was waiting in the queue
+  user2Id: string;           // User whose join triggered the match
+  challengeId: number;
+  amount: number;            // Total pot (both stakes)
+  escrowIds: number[];
+}
+
+export interface JoinResult {
+  success: boolean;
+  message: string;
+  queuePosition?: number;
+  match?: MatchResult;
+}
+
+export interface CancelResult {
+  success: boolean;
+  message: string;
+  refundedAmount?: number;
+}
+
+export interface ExpirySweepResult {
+  challengesSwept: number;
+  entriesExpired: number;
+  coinsRefunded: number;
+}
+
+export interface QueueStatus {
+  side: QueueSide;
+  waitingCount: number;
+  queue: QueueEntry[];
+}
+
+export interface UserQueueStatus {
+  status: 'waiting' | 'matched' | 'not_joined';
+  side?: QueueSide;
+  stakeAmount?: number;
+  queuePosition?: number;
+  matchedWith?: string | null;
+  matchedAt?: Date | null;
+  joinedAt?: Date | null;
+}
+
+export interface ChallengeOverview {
+  challenge: Challenge;
+  yesQueue: number;
+  noQueue: number;
+  yesStakeTotal: number;
+  noStakeTotal: number;
+}
+
+/**
+ * Stake range an opponent must fall in to be matched with `stakeAmount`
+ */
+export function getStakeToleranceRange(stakeAmount: number): { min: number; max: number } {
+  return {
+    min: Math.floor(stakeAmount * (1 - STAKE_TOLERANCE)),
+    max: Math.ceil(stakeAmount * (1 + STAKE_TOLERANCE)),
+  };
+}
+
+function oppositeSide(side: QueueSide): QueueSide {
+  return side === 'YES' ? 'NO' : 'YES';
+}
+
+export class PairingEngine {
+  constructor(private db: Db) {}
+
+  /**
+   * Join a challenge queue. Matches immediately with the oldest waiting
+   * opponent inside the stake tolerance, otherwise waits in the queue.
+   */
+  async joinChallenge(
+    userId: string,
+    challengeId: number,
+    side: QueueSide,
+    stakeAmount: number
+  ): Promise<JoinResult> {
+    if (side !== 'YES' && side !== 'NO') {
+      return { success: false, message: 'Invalid side. Must be YES or NO' };
+    }
+
+    if (!Number.isInteger(stakeAmount) || stakeAmount <= 0) {
+      return { success: false, message: 'Invalid stake amount. Must be a positive whole number of coins' };
+    }
+
+    let result: JoinResult;
+
+    try {
+      result = await this.db.transaction(async (tx) => {
+        // Lock the challenge row: every join on this challenge waits here,
+        // which keeps matching and queue positions race-free.
+        const [challenge] = await tx
+          .select()
+          .from(challenges)
+          .where(eq(challenges.id, challengeId))
+          .for('update');
+
+        if (!challenge) {
+          return { success: false, message: 'Challenge not found' };
+        }
+
+        if (challenge.status !== 'open') {
+          return { success: false, message: `Challenge is not open for joining (status: ${challenge.status})` };
+        }
+
+        if (challenge.dueDate && challenge.dueDate.getTime() <= Date.now()) {
+          return { success: false, message: 'Challenge has already closed' };
+        }
+
+        const [existing] = await tx
+          .select({ id: pairQueue.id })
+          .from(pairQueue)
+          .where(
+            and(
+              eq(pairQueue.challengeId, challengeId),
+              eq(pairQueue.userId, userId),
+              eq(pairQueue.status, 'waiting')
+            )
+          )
+          .limit(1);
+
+        if (existing) {
+          return { success: false, message: 'Already waiting in the queue for this challenge' };
+        }
+
+        // Hold the stake up front; the conditional update fails if the
+        // user can't cover it, so the balance never goes negative.
+        const [holder] = await tx
+          .update(users)
+          .set({ coins: sql`${users.coins} - ${stakeAmount}` })
+          .where(and(eq(users.id, userId), gte(users.coins, stakeAmount)))
+          .returning({ coins: users.coins });
+
+        if (!holder) {
+          return { success: false, message: 'Insufficient coins to cover this stake' };
+        }
+
+        await tx.insert(transactions).values({
+          userId,
+          type: 'challenge_stake',
+          amount: (-stakeAmount).toString(),
+          description: `Stake held for ${side} queue on challenge #${challengeId}`,
+          relatedId: challengeId,
+          status: 'completed',
+        });
+
+        const { min, max } = getStakeToleranceRange(stakeAmount);
+
+        const [opponent] = await tx
+          .select()
+          .from(pairQueue)
+          .where(
+            and(
+              eq(pairQueue.challengeId, challengeId),
+              eq(pairQueue.side, oppositeSide(side)),
+              eq(pairQueue.status, 'waiting'),
+              ne(pairQueue.userId, userId),
+              gte(pairQueue.stakeAmount, min),
+              lte(pairQueue.stakeAmount, max)
+            )
+          )
+          .orderBy(asc(pairQueue.createdAt), asc(pairQueue.id))
+          .limit(1)
+          .for('update');
+
+        if (!opponent) {
+          const [entry] = await tx
+            .insert(pairQueue)
+            .values({ challengeId, userId, side, stakeAmount, status: 'waiting' })
+            .returning();
+
+          const queuePosition = await this.getQueuePosition(tx, entry);
+
+          return {
+            success: true,
+            message: `Added to ${side} queue. Your stake is held until you are matched.`,
+            queuePosition,
+          };
+        }
+
+        const matchedAt = new Date();
+
+        await tx
+          .update(pairQueue)
+          .set({ status: 'matched', matchedWith: userId, matchedAt })
+          .where(eq(pairQueue.id, opponent.id));
+
+        await tx.insert(pairQueue).values({
+          challengeId,
+          userId,
+          side,
+          stakeAmount,
+          status: 'matched',
+          matchedWith: opponent.userId,
+          matchedAt,
+        });
+
+        const escrowRows = await tx
+          .insert(escrow)
+          .values([
+            { challengeId, amount: opponent.stakeAmount, status: 'holding' },
+            { challengeId, amount: stakeAmount, status: 'holding' },
+          ])
+          .returning({ id: escrow.id });
+
+        const yesStake = side === 'YES' ? stakeAmount : opponent.stakeAmount;
+        const noStake = side === 'NO' ? stakeAmount : opponent.stakeAmount;
+
+        await tx
+          .update(challenges)
+          .set({
+            yesStakeTotal: sql`coalesce(${challenges.yesStakeTotal}, 0) + ${yesStake}`,
+            noStakeTotal: sql`coalesce(${challenges.noStakeTotal}, 0) + ${noStake}`,
+          })
+          .where(eq(challenges.id, challengeId));
+
+        return {
+          success: true,
+          message: 'Match found! Stakes locked in escrow.',
+          match: {
+            user1Id: opponent.userId,
+            user2Id: userId,
+            challengeId,
+            amount: opponent.stakeAmount + stakeAmount,
+            escrowIds: escrowRows.map((row) => row.id),
+          },
+        };
+      });
+    } catch (error: any) {
+      console.error(`❌ Pairing failed for user ${userId} on challenge ${challengeId}:`, error);
+      return { success: false, message: error?.message || 'Failed to join challenge queue' };
+    }
+
+    // The match is committed; a failed notification must not report it as failed
+    if (result.match) {
+      try {
+        await this.notifyMatch(result.match);
+      } catch (error) {
+        console.error(`❌ Match notification failed for challenge ${challengeId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Leave the queue. Only waiting entries can be cancelled; the held stake
+   * is refunded in the same transaction.
+   */
+  async cancelFromQueue(userId: string, challengeId: number): Promise<CancelResult> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Same lock as joinChallenge, so a cancel can't race a match
+        await tx
+          .select({ id: challenges.id })
+          .from(challenges)
+          .where(eq(challenges.id, challengeId))
+          .for('update');
+
+        const [entry] = await tx
+          .select()
+          .from(pairQueue)
+          .where(
+            and(
+              eq(pairQueue.challengeId, challengeId),
+              eq(pairQueue.userId, userId),
+              eq(pairQueue.status, 'waiting')
+            )
+          )
+          .limit(1)
+          .for('update');
+
+        if (!entry) {
+          const [matched] = await tx
+            .select({ id: pairQueue.id })
+            .from(pairQueue)
+            .where(
+              and(
+                eq(pairQueue.challengeId, challengeId),
+                eq(pairQueue.userId, userId),
+                eq(pairQueue.status, 'matched')
+              )
+            )
+            .limit(1);
+
+          return {
+            success: false,
+            message: matched
+              ? 'Cannot cancel: you have already been matched on this challenge'
+              : 'No waiting queue entry found for this challenge',
+          };
+        }
+
+        await tx
+          .update(pairQueue)
+          .set({ status: 'cancelled' })
+          .where(eq(pairQueue.id, entry.id));
+
+        await this.refundStake(tx, entry, `Refund for cancelled ${entry.side} queue entry on challenge #${challengeId}`);
+
+        return {
+          success: true,
+          message: 'Removed from queue. Your stake has been refunded.',
+          refundedAmount: entry.stakeAmount,
+        };
+      });
+    } catch (error: any) {
+      console.error(`❌ Queue cancel failed for user ${userId} on challenge ${challengeId}:`, error);
+      return { success: false, message: error?.message || 'Failed to cancel queue entry' };
+    }
+  }
+
+  /**
+   * Expire every waiting entry on challenges whose dueDate has passed and
+   * refund the held stakes. Safe to run repeatedly.
+   */
+  async expireStaleEntries(now: Date = new Date()): Promise<ExpirySweepResult> {
+    const due = await this.db
+      .selectDistinct({ challengeId: pairQueue.challengeId })
+      .from(pairQueue)
+      .innerJoin(challenges, eq(challenges.id, pairQueue.challengeId))
+      .where(and(eq(pairQueue.status, 'waiting'), lte(challenges.dueDate, now)));
+
+    const result: ExpirySweepResult = { challengesSwept: 0, entriesExpired: 0, coinsRefunded: 0 };
+
+    for (const { challengeId } of due) {
+      try {
+        const expired = await this.db.transaction(async (tx) => {
+          await tx
+            .select({ id: challenges.id })
+            .from(challenges)
+            .where(eq(challenges.id, challengeId))
+            .for('update');
+
+          const entries = await tx
+            .update(pairQueue)
+            .set({ status: 'expired' })
+            .where(and(eq(pairQueue.challengeId, challengeId), eq(pairQueue.status, 'waiting')))
+            .returning();
+
+          for (const entry of entries) {
+            await this.refundStake(tx, entry, `Refund for unmatched ${entry.side} queue entry on challenge #${challengeId} (expired)`);
+          }
+
+          return entries;
+        });
+
+        result.challengesSwept++;
+        result.entriesExpired += expired.length;
+        result.coinsRefunded += expired.reduce((sum, entry) => sum + entry.stakeAmount, 0);
+      } catch (error) {
+        console.error(`❌ Failed to expire queue entries for challenge ${challengeId}:`, error);
+      }
+    }
+
+    if (result.entriesExpired > 0) {
+      console.log(`⏰ Expired ${result.entriesExpired} queue entries across ${result.challengesSwept} challenges`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run expireStaleEntries on an interval. Returns a function that stops it.
+   */
+  startExpirySweeper(intervalMs: number = EXPIRY_SWEEP_INTERVAL_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.expireStaleEntries();
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+
+    timer.unref?.();
+    console.log(`✅ Pair queue expiry sweeper running every ${Math.round(intervalMs / 1000)}s`);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Waiting entries on one side of a challenge, in FCFS order
+   */
+  async getQueueStatus(challengeId: number, side: QueueSide): Promise<QueueStatus> {
+    const queue = await this.db
+      .select()
+      .from(pairQueue)
+      .where(
+        and(
+          eq(pairQueue.challengeId, challengeId),
+          eq(pairQueue.side, side),
+          eq(pairQueue.status, 'waiting')
+        )
+      )
+      .orderBy(asc(pairQueue.createdAt), asc(pairQueue.id));
+
+    return { side, waitingCount: queue.length, queue };
+  }
+
+  /**
+   * Latest non-cancelled queue entry for a user on a challenge
+   */
+  async getUserStatus(userId: string, challengeId: number): Promise<UserQueueStatus> {
+    const [entry] = await this.db
+      .select()
+      .from(pairQueue)
+      .where(
+        and(
+          eq(pairQueue.challengeId, challengeId),
+          eq(pairQueue.userId, userId),
+          or(eq(pairQueue.status, 'waiting'), eq(pairQueue.status, 'matched'))
+        )
+      )
+      .orderBy(sql`${pairQueue.createdAt} desc`, sql`${pairQueue.id} desc`)
+      .limit(1);
+
+    if (!entry) {
+      return { status: 'not_joined' };
+    }
+
+    if (entry.status === 'waiting') {
+      return {
+        status: 'waiting',
+        side: entry.side as QueueSide,
+        stakeAmount: entry.stakeAmount,
+        queuePosition: await this.getQueuePosition(this.db, entry),
+        joinedAt: entry.createdAt,
+      };
+    }
+
+    return {
+      status: 'matched',
+      side: entry.side as QueueSide,
+      stakeAmount: entry.stakeAmount,
+      matchedWith: entry.matchedWith,
+      matchedAt: entry.matchedAt,
+      joinedAt: entry.createdAt,
+    };
+  }
+
+  /**
+   * Queue sizes and matched stake totals for a challenge
+   */
+  async getChallengeOverview(challengeId: number): Promise<ChallengeOverview> {
+    const [challenge] = await this.db
+      .select()
+      .from(challenges)
+      .where(eq(challenges.id, challengeId))
+      .limit(1);
+
+    if (!challenge) {
+      throw new Error('Challenge not found');
+    }
+
+    const waiting = await this.db
+      .select({ side: pairQueue.side, count: count(pairQueue.id) })
+      .from(pairQueue)
+      .where(and(eq(pairQueue.challengeId, challengeId), eq(pairQueue.status, 'waiting')))
+      .groupBy(pairQueue.side);
+
+    const waitingOn = (side: QueueSide) => Number(waiting.find((w) => w.side === side)?.count || 0);
+
+    return {
+      challenge,
+      yesQueue: waitingOn('YES'),
+      noQueue: waitingOn('NO'),
+      yesStakeTotal: challenge.yesStakeTotal || 0,
+      noStakeTotal: challenge.noStakeTotal || 0,
+    };
+  }
+
+  /**
+   * 1-based FCFS position of a waiting entry within its side of the queue
+   */
+  private async getQueuePosition(
+    executor: Db | Tx,
+    entry: QueueEntry
+  ): Promise<number> {
+    const createdAt = entry.createdAt ?? new Date();
+
+    const [ahead] = await executor
+      .select({ count: count(pairQueue.id) })
+      .from(pairQueue)
+      .where(
+        and(
+          eq(pairQueue.challengeId, entry.challengeId),
+          eq(pairQueue.side, entry.side),
+          eq(pairQueue.status, 'waiting'),
+          or(
+            lt(pairQueue.createdAt, createdAt),
+            and(eq(pairQueue.createdAt, createdAt), lt(pairQueue.id, entry.id))
+          )
+        )
+      );
+
+    return Number(ahead?.count || 0) + 1;
+  }
+
+  private async refundStake(tx: Tx, entry: QueueEntry, description: string): Promise<void> {
+    await tx
+      .update(users)
+      .set({ coins: sql`coalesce(${users.coins}, 0) + ${entry.stakeAmount}` })
+      .where(eq(users.id, entry.userId));
+
+    await tx.insert(transactions).values({
+      userId: entry.userId,
+      type: 'challenge_refund',
+      amount: entry.stakeAmount.toString(),
+      description,
+      relatedId: entry.challengeId,
+      status: 'completed',
+    });
+  }
+
+  private async notifyMatch(match: MatchResult): Promise<void> {
+    await realtime.publish(`challenge:${match.challengeId}`, 'match_found', {
+      challengeId: match.challengeId,
+      amount: match.amount,
+      users: [match.user1Id, match.user2Id],
+    });
+
+    const pairs: Array<[string, string]> = [
+      [match.user1Id, match.user2Id],
+      [match.user2Id, match.user1Id],
+    ];
+
+    for (const [userId, opponentId] of pairs) {
+      await notificationService.send({
+        userId,
+        challengeId: String(match.challengeId),
+        event: NotificationEvent.MATCH_FOUND,
+        title: '🎯 Match found!',
+        body: `You've been matched on challenge #${match.challengeId}. ${match.amount} coins are locked in escrow.`,
+        channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+        priority: NotificationPriority.HIGH,
+        data: { opponentId, amount: match.amount, escrowIds: match.escrowIds },
+      });
+    }
+  }
+}
+
+export function createPairingEngine(db: Db): PairingEngine {
+  return new PairingEngine(db);
+}
@@ -39,6 +39,7 @@ function getInitialsFromEmail(email?: string) {
 }
 
 import { storage } from './storage';
+import { telegramLinkService, TelegramLinkError } from './telegramLink';
 
 async function getUserFromDb(userId: string) {
   try {
@@ -87,12 +88,17 @@ async function upsertPrivyUser(verifiedClaims: any) {
         
         // Update user with Telegram ID if not already set
         if (!dbUser.telegramId) {
-          dbUser = await storage.updateUserTelegramInfo(userId, {
-            telegramId: telegramAccount.telegramUserId.toString(),
-            telegramUsername: telegramAccount.telegramUsername || `tg_${telegramAccount.telegramUserId}`,
-            isTelegramUser: true,
-          });
-          console.log(`✅ User ${userId} linked with Telegram ID ${telegramAccount.telegramUserId}`);
+          try {
+            dbUser = await telegramLinkService.linkVerifiedIdentity(userId, {
+              telegramId: telegramAccount.telegramUserId.toString(),
+              telegramUsername: telegramAccount.telegramUsername || `tg_${telegramAccount.telegramUserId}`,
+            });
+            console.log(`✅ User ${userId} linked with Telegram ID ${telegramAccount.telegramUserId}`);
+          } catch (error) {
+            // Already linked to another Bantah user: sign in without linking
+            if (!(error instanceof TelegramLinkError)) throw error;
+            console.warn(`⚠️ Telegram ID ${telegramAccount.telegramUserId} not linked to ${userId}: ${error.message}`);
+          }
         }
       }
     }
@@ -104,6 +110,18 @@ async function upsertPrivyUser(verifiedClaims: any) {
   }
 }
 
+/**
+ * User for a Privy access token (created on first sight), or null when the
+ * token doesn't verify. For callers that can't go through the middleware.
+ */
+export async function resolvePrivyUser(token: string) {
+  const verifiedClaims = await verifyPrivyToken(token);
+  if (!verifiedClaims?.userId) {
+    return null;
+  }
+  return upsertPrivyUser(verifiedClaims);
+}
+
 export async function PrivyAuthMiddleware(req: any, res: any, next: any) {
   const authHeader = req.headers.authorization;
 
@@ -0,0 +1,394 @@
+/**
+ * 📡 Realtime Hub
+ * Room-based WebSocket fan-out at /ws, with Pusher as an optional extra adapter
+ *
+ * - Upgrades are authenticated with the session cookie, or a Privy access
+ *   token in `?token=` for clients that can't send cookies
+ * - Clients subscribe to rooms: `event:<id>`, `challenge:<id>`, `user:<id>`
+ *   (own room only; private event rooms need the creator or a participant)
+ * - Server code publishes with `realtime.publish(room, type, payload)`; every
+ *   local subscriber gets `{ type, room, ...payload }` and each adapter
+ *   (Pusher when PUSHER_* is configured) gets a copy
+ * - Typing indicators are stored in `event_typing` and relayed to the room
+ * - Dead sockets are dropped by a ping/pong heartbeat
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import Pusher from 'pusher';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { eventParticipants, eventTyping, events, users } from '../shared/schema';
+import { resolveSessionUserId } from './auth';
+import { resolvePrivyUser } from './privyAuth';
+
+export const REALTIME_PATH = '/ws';
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const MAX_ROOMS_PER_SOCKET = 50;
+export const MAX_CLIENT_MESSAGE_BYTES = 4 * 1024;
+
+export type RoomKind = 'event' | 'challenge' | 'user';
+
+export interface RealtimeAdapter {
+  name: string;
+  publish(room: string, type: string, payload: Record<string, unknown>): Promise<void>;
+}
+
+interface ClientState {
+  userId: string;
+  username: string;
+  rooms: Set<string>;
+  alive: boolean;
+}
+
+/**
+ * Split a room name into its kind and id; null for anything else
+ */
+export function parseRoom(room: unknown): { kind: RoomKind; id: string } | null {
+  if (typeof room !== 'string') return null;
+
+  const match = room.match(/^(event|challenge|user):([A-Za-z0-9_:-]{1,128})$/);
+  if (!match) return null;
+
+  const kind = match[1] as RoomKind;
+  if (kind !== 'user' && !/^[1-9][0-9]{0,9}$/.test(match[2])) {
+    return null;
+  }
+  return { kind, id: match[2] };
+}
+
+// Event names the existing pusher-js listeners bind to
+const PUSHER_EVENT_NAMES: Record<string, string> = {
+  event_message: 'new-message',
+  message_reaction: 'reaction-update',
+};
+
+/**
+ * Mirrors every publish to Pusher channels (`event-5`, `user-abc`, ...)
+ */
+export class PusherAdapter implements RealtimeAdapter {
+  name = 'pusher';
+
+  constructor(private pusher: Pusher) {}
+
+  async publish(room: string, type: string, payload: Record<string, unknown>): Promise<void> {
+    await this.pusher.trigger(room.replace(':', '-'), PUSHER_EVENT_NAMES[type] ?? type, payload);
+  }
+}
+
+/**
+ * Pusher adapter from PUSHER_APP_ID / PUSHER_KEY / PUSHER_SECRET, or null when not configured
+ */
+export function createPusherAdapterFromEnv(): PusherAdapter | null {
+  const { PUSHER_APP_ID, PUSHER_KEY, PUSHER_SECRET } = process.env;
+  if (!PUSHER_APP_ID || !PUSHER_KEY || !PUSHER_SECRET) {
+    console.warn('⚠️ PUSHER_APP_ID / PUSHER_KEY / PUSHER_SECRET not set - Pusher fan-out disabled');
+    return null;
+  }
+
+  return new PusherAdapter(
+    new Pusher({
+      appId: PUSHER_APP_ID,
+      key: PUSHER_KEY,
+      secret: PUSHER_SECRET,
+      cluster: process.env.PUSHER_CLUSTER || 'mt1',
+      useTLS: true,
+    })
+  );
+}
+
+export class RealtimeHub {
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, ClientState>();
+  private rooms = new Map<string, Set<WebSocket>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private adapters: RealtimeAdapter[] = []) {}
+
+  addAdapter(adapter: RealtimeAdapter): void {
+    this.adapters.push(adapter);
+  }
+
+  /**
+   * Serve WebSocket upgrades on REALTIME_PATH of the given HTTP server
+   */
+  attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_CLIENT_MESSAGE_BYTES });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      // Other upgrade paths (e.g. the Vite HMR socket in development) are not ours
+      if (url.pathname !== REALTIME_PATH) return;
+
+      this.authenticate(req, url)
+        .then((user) => {
+          if (!user) {
+            socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+          this.wss!.handleUpgrade(req, socket, head, (ws) => this.onConnection(ws, user));
+        })
+        .catch((error) => {
+          console.error('WebSocket upgrade failed:', error);
+          socket.destroy();
+        });
+    });
+
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref?.();
+
+    console.log(`✅ Realtime WebSocket server listening on ${REALTIME_PATH}`);
+  }
+
+  close(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    Array.from(this.clients.keys()).forEach((ws) => ws.terminate());
+    this.clients.clear();
+    this.rooms.clear();
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  /**
+   * Send to every subscriber of a room, locally and through the adapters.
+   * Never throws: realtime delivery is best-effort.
+   */
+  async publish(room: string, type: string, payload: Record<string, unknown> = {}): Promise<void> {
+    this.broadcast(room, { type, room, ...payload });
+
+    for (const adapter of this.adapters) {
+      try {
+        await adapter.publish(room, type, payload);
+      } catch (error) {
+        console.error(`Realtime ${adapter.name} publish to ${room} failed:`, error);
+      }
+    }
+  }
+
+  subscriberCount(room: string): number {
+    return this.rooms.get(room)?.size ?? 0;
+  }
+
+  private async authenticate(req: IncomingMessage, url: URL): Promise<{ id: string; username: string } | null> {
+    const token = url.searchParams.get('token');
+    if (token) {
+      const user = await resolvePrivyUser(token).catch(() => null);
+      return user ? { id: user.id, username: user.firstName || user.username || 'User' } : null;
+    }
+
+    const userId = await resolveSessionUserId(req);
+    if (!userId) return null;
+
+    const [user] = await db
+      .select({ id: users.id, username: users.username, firstName: users.firstName })
+      .from(users)
+      .where(eq(users.id, userId));
+    return user ? { id: user.id, username: user.firstName || user.username || 'User' } : null;
+  }
+
+  private onConnection(ws: WebSocket, user: { id: string; username: string }): void {
+    const state: ClientState = { userId: user.id, username: user.username, rooms: new Set(), alive: true };
+    this.clients.set(ws, state);
+    this.join(ws, state, `user:${user.id}`);
+
+    ws.on('pong', () => {
+      state.alive = true;
+    });
+    ws.on('message', (data) => {
+      this.onMessage(ws, state, data).catch((error) => {
+        console.error('Realtime message handling failed:', error);
+        this.send(ws, { type: 'error', message: 'Message could not be processed' });
+      });
+    });
+    ws.on('close', () => this.onClose(ws, state));
+    ws.on('error', (error) => console.error('WebSocket client error:', error));
+
+    this.send(ws, { type: 'connected', userId: user.id, rooms: Array.from(state.rooms) });
+  }
+
+  private async onMessage(ws: WebSocket, state: ClientState, data: RawData): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return this.send(ws, { type: 'error', message: 'Messages must be JSON' });
+    }
+
+    switch (message?.type) {
+      case 'ping':
+        return this.send(ws, { type: 'pong' });
+
+      case 'subscribe':
+        return this.subscribe(ws, state, message.room);
+
+      case 'unsubscribe':
+        this.leave(ws, state, message.room);
+        return this.send(ws, { type: 'unsubscribed', room: message.room });
+
+      // EventChatPage announces itself with user_join / user_leave
+      case 'user_join':
+        return this.subscribe(ws, state, `event:${message.eventId}`);
+
+      case 'user_leave': {
+        const room = `event:${message.eventId}`;
+        if (!state.rooms.has(room)) return;
+        this.leave(ws, state, room);
+        return this.setTyping(state, room, false);
+      }
+
+      case 'user_typing': {
+        const room = message.eventId != null ? `event:${message.eventId}` : `challenge:${message.challengeId}`;
+        if (!state.rooms.has(room)) {
+          return this.send(ws, { type: 'error', message: `Subscribe to ${room} first` });
+        }
+        return this.setTyping(state, room, message.isTyping === true, ws);
+      }
+
+      default:
+        return this.send(ws, { type: 'error', message: `Unknown message type: ${message?.type}` });
+    }
+  }
+
+  private async subscribe(ws: WebSocket, state: ClientState, room: unknown): Promise<void> {
+    const parsed = parseRoom(room);
+    if (!parsed) {
+      return this.send(ws, { type: 'error', message: 'Invalid room' });
+    }
+    const name = room as string;
+
+    if (state.rooms.has(name)) {
+      return this.send(ws, { type: 'subscribed', room: name });
+    }
+    if (state.rooms.size >= MAX_ROOMS_PER_SOCKET) {
+      return this.send(ws, { type: 'error', message: `At most ${MAX_ROOMS_PER_SOCKET} rooms per connection` });
+    }
+    if (!(await this.canJoin(state.userId, parsed))) {
+      return this.send(ws, { type: 'error', message: `Not allowed to join ${name}` });
+    }
+
+    this.join(ws, state, name);
+    this.send(ws, { type: 'subscribed', room: name });
+  }
+
+  private async canJoin(userId: string, room: { kind: RoomKind; id: string }): Promise<boolean> {
+    if (room.kind === 'user') {
+      return room.id === userId;
+    }
+    if (room.kind === 'challenge') {
+      return true;
+    }
+
+    const eventId = Number(room.id);
+    const [event] = await db
+      .select({ creatorId: events.creatorId, isPrivate: events.isPrivate })
+      .from(events)
+      .where(eq(events.id, eventId));
+    if (!event) return false;
+    if (!event.isPrivate || event.creatorId === userId) return true;
+
+    const [participant] = await db
+      .select({ id: eventParticipants.id })
+      .from(eventParticipants)
+      .where(and(eq(eventParticipants.eventId, eventId), eq(eventParticipants.userId, userId)))
+      .limit(1);
+    return !!participant;
+  }
+
+  /**
+   * Record a typing indicator (event rooms) and relay it to everyone else in the room
+   */
+  private async setTyping(state: ClientState, room: string, isTyping: boolean, sender?: WebSocket): Promise<void> {
+    const parsed = parseRoom(room);
+    if (!parsed || parsed.kind === 'user') return;
+
+    const id = Number(parsed.id);
+    if (parsed.kind === 'event') {
+      await db
+        .insert(eventTyping)
+        .values({ eventId: id, userId: state.userId, isTyping, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [eventTyping.eventId, eventTyping.userId],
+          set: { isTyping, updatedAt: new Date() },
+        });
+    }
+
+    this.broadcast(
+      room,
+      {
+        type: 'user_typing',
+        room,
+        [parsed.kind === 'event' ? 'eventId' : 'challengeId']: id,
+        userId: state.userId,
+        username: state.username,
+        isTyping,
+      },
+      sender
+    );
+  }
+
+  private join(ws: WebSocket, state: ClientState, room: string): void {
+    state.rooms.add(room);
+    if (!this.rooms.has(room)) this.rooms.set(room, new Set());
+    this.rooms.get(room)!.add(ws);
+  }
+
+  private leave(ws: WebSocket, state: ClientState, room: string): void {
+    // Sockets always stay in their own user room
+    if (room === `user:${state.userId}`) return;
+
+    state.rooms.delete(room);
+    const members = this.rooms.get(room);
+    members?.delete(ws);
+    if (members && members.size === 0) this.rooms.delete(room);
+  }
+
+  private onClose(ws: WebSocket, state: ClientState): void {
+    const rooms = Array.from(state.rooms);
+    for (const room of rooms) {
+      state.rooms.delete(room);
+      const members = this.rooms.get(room);
+      members?.delete(ws);
+      if (members && members.size === 0) this.rooms.delete(room);
+    }
+    this.clients.delete(ws);
+
+    // A closed tab stops typing everywhere it was subscribed
+    for (const room of rooms.filter((r) => r.startsWith('event:'))) {
+      this.setTyping(state, room, false).catch((error) => console.error('Failed to clear typing state:', error));
+    }
+  }
+
+  private broadcast(room: string, message: Record<string, unknown>, except?: WebSocket): void {
+    const members = this.rooms.get(room);
+    if (!members) return;
+
+    const data = JSON.stringify(message);
+    Array.from(members).forEach((ws) => {
+      if (ws !== except && ws.readyState === WebSocket.OPEN) ws.send(data);
+    });
+  }
+
+  private send(ws: WebSocket, message: Record<string, unknown>): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  }
+
+  private checkHeartbeats(): void {
+    Array.from(this.clients).forEach(([ws, state]) => {
+      if (!state.alive) {
+        ws.terminate();
+        return;
+      }
+      state.alive = false;
+      ws.ping();
+    });
+  }
+}
+
+const pusherAdapter = createPusherAdapterFromEnv();
+
+export const realtime = new RealtimeHub(pusherAdapter ? [pusherAdapter] : []);
@@ -6,6 +6,16 @@ import { PrivyAuthMiddleware } from "./privyAuth";
 import { setupOGImageRoutes } from "./ogImageGenerator";
 import ogMetadataRouter from './routes/og-metadata';
 import { registerBlockchainRoutes } from './routes/index';
+import notificationsRouter from './routes/notificationsApi';
+import adminNotificationsRouter from './routes/adminNotificationsApi';
+import pushRouter from './routes/pushApi';
+import telegramRouter from './routes/telegramApi';
+import friendsRouter from './routes/friendsApi';
+import eventsRouter from './routes/eventsApi';
+import adminEventsRouter from './routes/adminEventsApi';
+import challengeChatRouter from './routes/challengeChatApi';
+import adminChatRouter from './routes/adminChatApi';
+import { realtime } from './realtime';
 
 interface AuthenticatedRequest extends Request {
   user: {
@@ -26,6 +36,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   await setupAuth(app);
 
+  // Realtime rooms over WebSocket at /ws (authenticates with the session set up above)
+  realtime.attach(httpServer);
+
   // Profile routes
   app.get('/api/profile', PrivyAuthMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
@@ -37,15 +50,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Event routes
-  app.get('/api/events', async (req, res) => {
-    try {
-      const events = await storage.getEvents(20);
-      res.json(events);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch events" });
-    }
-  });
+  // Prediction events: create, join/leave with entry fees, admin settlement
+  app.use('/api/events', eventsRouter);
+  app.use('/api/admin/events', adminEventsRouter);
+
+  // Challenge chat and chat moderation (review queue, mutes, filters, log)
+  app.use('/api/challenges', challengeChatRouter);
+  app.use('/api/admin/chat', adminChatRouter);
 
   // Users routes
   app.get('/api/users', PrivyAuthMiddleware, async (req: AuthenticatedRequest, res) => {
@@ -73,6 +84,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   setupOGImageRoutes(app);
   app.use(ogMetadataRouter);
 
+  // Notification feed, preferences & admin controls
+  app.use('/api/notifications', notificationsRouter);
+  app.use('/api/admin/notifications', adminNotificationsRouter);
+  app.use('/api/push', pushRouter);
+
+  // Telegram account linking & Mini App login
+  app.use('/api/telegram', telegramRouter);
+
+  // Friends graph, suggestions & performance comparison
+  app.use('/api/friends', friendsRouter);
+
   // Register blockchain routes (Phase 4)
   console.log('📡 Registering blockchain routes...');
   registerBlockchainRoutes(app);
@@ -0,0 +1,175 @@
+/**
+ * 🛡️ Admin Chat Moderation
+ * Review queue, message delete/restore, mutes & timeouts, filters and the
+ * moderation log for event and challenge chat
+ */
+
+import { Router, Request, Response } from 'express';
+import { adminAuth } from '../adminAuth';
+import { chatModerationService, ChatModerationError } from '../chatModeration';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ChatModerationError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/admin/chat/queue?chatType=event|challenge&limit=50
+ * Shadow-hidden messages awaiting review, newest first
+ */
+router.get('/queue', adminAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await chatModerationService.listReviewQueue({ chatType: req.query.chatType, limit: req.query.limit }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch review queue');
+  }
+});
+
+/**
+ * POST /api/admin/chat/messages/:chatType/:messageId/delete
+ * Body: { reason?: string }
+ */
+router.post('/messages/:chatType/:messageId/delete', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const messageId = parseId(req.params.messageId);
+    if (!messageId) {
+      return res.status(400).json({ message: 'Invalid message id' });
+    }
+
+    const message = await chatModerationService.deleteMessage(
+      req.user!.id,
+      req.params.chatType,
+      messageId,
+      req.body?.reason
+    );
+    res.json({ success: true, message });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete message');
+  }
+});
+
+/**
+ * POST /api/admin/chat/messages/:chatType/:messageId/restore
+ * Makes a hidden or deleted message visible again
+ */
+router.post('/messages/:chatType/:messageId/restore', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const messageId = parseId(req.params.messageId);
+    if (!messageId) {
+      return res.status(400).json({ message: 'Invalid message id' });
+    }
+
+    const message = await chatModerationService.restoreMessage(req.user!.id, req.params.chatType, messageId);
+    res.json({ success: true, message });
+  } catch (error) {
+    handleError(res, error, 'Failed to restore message');
+  }
+});
+
+/**
+ * GET /api/admin/chat/mutes
+ * Mutes and timeouts still in force
+ */
+router.get('/mutes', adminAuth, async (_req: Request, res: Response) => {
+  try {
+    res.json(await chatModerationService.listActiveMutes());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch mutes');
+  }
+});
+
+/**
+ * POST /api/admin/chat/mutes
+ * Body: { userId, scope?: 'global'|'event'|'challenge', scopeId?, durationMinutes?, reason? }
+ * Without durationMinutes the mute lasts until lifted
+ */
+router.post('/mutes', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const mute = await chatModerationService.muteUser(req.user!.id, req.body ?? {});
+    res.status(201).json(mute);
+  } catch (error) {
+    handleError(res, error, 'Failed to mute user');
+  }
+});
+
+/**
+ * DELETE /api/admin/chat/mutes/:id
+ * Lift a mute or timeout early
+ */
+router.delete('/mutes/:id', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const muteId = parseId(req.params.id);
+    if (!muteId) {
+      return res.status(400).json({ message: 'Invalid mute id' });
+    }
+
+    res.json({ success: true, mute: await chatModerationService.liftMute(req.user!.id, muteId) });
+  } catch (error) {
+    handleError(res, error, 'Failed to lift mute');
+  }
+});
+
+/**
+ * GET /api/admin/chat/filters
+ */
+router.get('/filters', adminAuth, async (_req: Request, res: Response) => {
+  try {
+    res.json(await chatModerationService.listFilters());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch filters');
+  }
+});
+
+/**
+ * POST /api/admin/chat/filters
+ * Body: { pattern: string, isRegex?: boolean, action?: 'hide'|'reject' }
+ */
+router.post('/filters', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const filter = await chatModerationService.addFilter(req.user!.id, req.body ?? {});
+    res.status(201).json(filter);
+  } catch (error) {
+    handleError(res, error, 'Failed to add filter');
+  }
+});
+
+/**
+ * DELETE /api/admin/chat/filters/:id
+ */
+router.delete('/filters/:id', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const filterId = parseId(req.params.id);
+    if (!filterId) {
+      return res.status(400).json({ message: 'Invalid filter id' });
+    }
+
+    await chatModerationService.removeFilter(req.user!.id, filterId);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to remove filter');
+  }
+});
+
+/**
+ * GET /api/admin/chat/log?userId=<id>&limit=50
+ * Moderation log, newest first
+ */
+router.get('/log', adminAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await chatModerationService.listLog({ userId: req.query.userId, limit: req.query.limit }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch moderation log');
+  }
+});
+
+export default router;
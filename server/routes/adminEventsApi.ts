@@ -0,0 +1,67 @@
+/**
+ * 🎲 Admin Event Controls
+ * Admins record an event's outcome, which pays out its pool, and switch
+ * an event's chat on or off
+ */
+
+import { Router, Request, Response } from 'express';
+import { adminAuth } from '../adminAuth';
+import { eventService, EventError } from '../eventService';
+import { chatModerationService, ChatModerationError } from '../chatModeration';
+
+const router = Router();
+
+/**
+ * POST /api/admin/events/:id/result
+ * Body: { result: boolean } - true for YES, false for NO
+ */
+router.post('/:id/result', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseInt(req.params.id, 10);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const { event, settlement } = await eventService.settleEvent(eventId, req.user!.id, req.body?.result);
+    const message = settlement.refund
+      ? `Event settled ${event.adminResult ? 'YES' : 'NO'}; no opposing side, ${settlement.payouts.length} entries refunded`
+      : `Event settled ${event.adminResult ? 'YES' : 'NO'}; ${settlement.payouts.length} winners paid, creator fee ${settlement.creatorFee} coins`;
+
+    res.json({ success: true, message, event, settlement });
+  } catch (error) {
+    if (error instanceof EventError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Failed to settle event:', error);
+    res.status(500).json({ message: 'Failed to settle event' });
+  }
+});
+
+/**
+ * PATCH /api/admin/events/:id/chat
+ * Body: { enabled: boolean }
+ */
+router.patch('/:id/chat', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseInt(req.params.id, 10);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const event = await chatModerationService.setEventChatEnabled(req.user!.id, eventId, req.body?.enabled);
+    const enabled = event.chatEnabled === true;
+    res.json({
+      success: true,
+      enabled,
+      message: `Chat ${enabled ? 'enabled' : 'disabled'} for "${event.title}"`,
+    });
+  } catch (error) {
+    if (error instanceof ChatModerationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Failed to update event chat:', error);
+    res.status(500).json({ message: 'Failed to update event chat' });
+  }
+});
+
+export default router;
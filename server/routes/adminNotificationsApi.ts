@@ -6,27 +6,37 @@
 
 import { Router, Request, Response } from 'express';
 import { db } from '../db';
-import { notifications, users, challenges } from '../../shared/schema';
+import { adminAuth } from '../adminAuth';
+import { notifications, users } from '../../shared/schema';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from '../notificationSystem';
 import { eq, and, gt, desc } from 'drizzle-orm';
 
 const router = Router();
 
 /**
- * Middleware: Ensure user is admin
+ * Middleware: Ensure user is admin (admin bearer token, same as other admin routes)
  */
-const ensureAdmin = async (req: Request, res: Response, next: Function) => {
-  if (!req.user?.id) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+const ensureAdmin = adminAuth;
 
-  const user = await db.select().from(users).where(eq(users.id, req.user.id)).limit(1);
+const KNOWN_EVENTS = Object.values(NotificationEvent) as string[];
 
-  if (!user[0] || !user[0].isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
+function toPriority(value: string): NotificationPriority {
+  return (Object.values(NotificationPriority) as string[]).includes(value)
+    ? (value as NotificationPriority)
+    : NotificationPriority.MEDIUM;
+}
 
-  next();
-};
+function toChannels(value: unknown): NotificationChannel[] {
+  const requested = Array.isArray(value) ? value : [NotificationChannel.IN_APP];
+  return requested.filter((c): c is NotificationChannel =>
+    (Object.values(NotificationChannel) as string[]).includes(c)
+  );
+}
 
 /**
  * GET /api/admin/notifications/dashboard
@@ -124,16 +134,24 @@ router.post('/feature-challenge/:challengeId', ensureAdmin, async (req: Request,
 router.post('/mute-event/:event', ensureAdmin, async (req: Request, res: Response) => {
   try {
     const { event } = req.params;
-    const { durationMinutes = 60 } = req.body;
+    const durationMinutes = Number(req.body.durationMinutes ?? 60);
 
-    // Store in cache or database
-    // TODO: Implement muting logic
+    if (!KNOWN_EVENTS.includes(event)) {
+      return res.status(400).json({ error: `Unknown event type: ${event}` });
+    }
+
+    if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+      return res.status(400).json({ error: 'durationMinutes must be a positive number' });
+    }
+
+    const mutedUntil = notificationService.muteEvent(event, durationMinutes);
     console.log(`🔇 Muted event type: ${event} for ${durationMinutes}m`);
 
     res.json({
       success: true,
       message: `Event ${event} muted`,
       durationMinutes,
+      mutedUntil,
     });
   } catch (error) {
     console.error('Error muting event:', error);
@@ -149,6 +167,7 @@ router.post('/unmute-event/:event', ensureAdmin, async (req: Request, res: Respo
   try {
     const { event } = req.params;
 
+    notificationService.unmuteEvent(event);
     console.log(`🔔 Unmuted event type: ${event}`);
 
     res.json({
@@ -161,6 +180,14 @@ router.post('/unmute-event/:event', ensureAdmin, async (req: Request, res: Respo
   }
 });
 
+/**
+ * GET /api/admin/notifications/muted-events
+ * Event types currently muted by admins
+ */
+router.get('/muted-events', ensureAdmin, async (_req: Request, res: Response) => {
+  res.json({ data: notificationService.getMutedEvents() });
+});
+
 /**
  * POST /api/admin/notifications/broadcast
  * Send a broadcast notification to all/selected users
@@ -174,18 +201,33 @@ router.post('/broadcast', ensureAdmin, async (req: Request, res: Response) => {
     }
 
     // Get target users
-    const targetUsers = userIds || (await db.select({ id: users.id }).from(users));
-
-    console.log(`📢 Broadcasting to ${targetUsers.length} users`);
-
-    // TODO: Send notifications
-    for (const targetUser of targetUsers) {
-      console.log(`   → ${targetUser.id}`);
+    const targetIds: string[] = Array.isArray(userIds)
+      ? userIds
+      : (await db.select({ id: users.id }).from(users)).map((u) => u.id);
+
+    console.log(`📢 Broadcasting to ${targetIds.length} users`);
+
+    // Preferences are honoured per recipient, so delivered may be below targeted
+    let delivered = 0;
+    for (const userId of targetIds) {
+      const sent = await notificationService.send({
+        userId,
+        challengeId: '',
+        event: NotificationEvent.ADMIN_BROADCAST,
+        title,
+        body,
+        channels: toChannels(channels),
+        priority: toPriority(priority),
+        data: { broadcastBy: req.user?.id },
+      });
+      if (sent) delivered++;
     }
 
     res.json({
       success: true,
-      message: `Broadcast sent to ${targetUsers.length} users`,
+      message: `Broadcast sent to ${delivered} of ${targetIds.length} users`,
+      delivered,
+      targeted: targetIds.length,
       details: { title, body, priority, channels },
     });
   } catch (error) {
@@ -227,14 +269,29 @@ router.get('/users/:userId/history', ensureAdmin, async (req: Request, res: Resp
  */
 router.post('/test', ensureAdmin, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const { event = 'bonus.expiring', priority = 'high' } = req.body;
 
+    if (!KNOWN_EVENTS.includes(event)) {
+      return res.status(400).json({ error: `Unknown event type: ${event}` });
+    }
+
     console.log(`🧪 Test notification to admin ${userId}`);
 
+    const sent = await notificationService.send({
+      userId,
+      challengeId: '',
+      event: event as NotificationEvent,
+      title: '🧪 Test notification',
+      body: `This is a test of the ${event} notification.`,
+      channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+      priority: toPriority(priority),
+      data: { test: true },
+    });
+
     res.json({
-      success: true,
-      message: 'Test notification sent',
+      success: sent,
+      message: sent ? 'Test notification sent' : 'Test notification was suppressed (muted, preferences or rate limit)',
       details: { event, priority },
     });
   } catch (error) {
@@ -0,0 +1,108 @@
+/**
+ * Phase 4: API Routes - Admin Dispute Resolution
+ * REST endpoints for admins to review disputes and issue rulings
+ */
+
+import { Router, Request, Response } from 'express';
+import { adminAuth } from '../adminAuth';
+import { disputeService, DisputeError, type DisputeDecision } from '../disputeService';
+
+const router = Router();
+
+/**
+ * GET /api/admin/challenges/disputes
+ * Dispute queue, open disputes first
+ * Query: ?status=open|resolved|all (default all)
+ */
+router.get('/disputes', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'all';
+
+    if (!['open', 'resolved', 'all'].includes(status)) {
+      return res.status(400).json({ error: 'status must be one of: open, resolved, all' });
+    }
+
+    const disputes = await disputeService.listDisputes(status as 'open' | 'resolved' | 'all');
+    res.json(disputes);
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get disputes',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/admin/challenges/disputes/:id
+ * Full dispute record with audit trail
+ */
+router.get('/disputes/:id', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const adminId = (req as any).adminUser?.id;
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const dispute = await disputeService.getDisputeForUser(challengeId, adminId, true);
+    const auditTrail = await disputeService.getAuditTrail(challengeId);
+
+    res.json({ challengeId, dispute, auditTrail });
+  } catch (error: any) {
+    if (error instanceof DisputeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({
+      error: 'Failed to get dispute',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/admin/challenges/:id/resolve-dispute
+ * Issue a ruling and settle held stakes
+ * Body: { decision: 'challenger_won' | 'challenged_won' | 'draw' | 'refund', adminNotes?: string }
+ */
+router.post('/:id/resolve-dispute', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const adminId = (req as any).adminUser?.id;
+    const { decision, adminNotes } = req.body;
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    if (!decision) {
+      return res.status(400).json({ error: 'Missing required field: decision' });
+    }
+
+    const { challenge, ruling } = await disputeService.resolveDispute(
+      challengeId,
+      adminId,
+      decision as DisputeDecision,
+      adminNotes
+    );
+
+    res.json({
+      success: true,
+      message: `Dispute on "${challenge.title}" resolved: ${decision.replace('_', ' ')}`,
+      challengeId,
+      status: challenge.status,
+      ruling,
+    });
+  } catch (error: any) {
+    if (error instanceof DisputeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to resolve dispute:', error);
+    res.status(500).json({
+      error: 'Failed to resolve dispute',
+      message: error.message,
+    });
+  }
+});
+
+export default router;
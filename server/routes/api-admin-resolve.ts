@@ -1,27 +1,45 @@
 /**
  * Phase 4: API Routes - Admin Challenge Resolution
  * REST endpoints for admin to resolve challenges and sign transactions
+ *
+ * While ChallengeFactory has a dispute period, resolve/resolve-group only
+ * propose the result (onChainStatus 'proposed'); it settles when finalized
+ * after the period or when the admin rules on a dispute ('disputed').
  */
 
 import { Router, Request, Response } from 'express';
 import { adminAuth } from '../adminAuth';
 import {
   resolveChallengeOnChain,
+  resolveGroupChallengeOnChain,
   batchSignChallenges,
   getSigningStats,
+  GROUP_OUTCOMES,
+  type GroupOutcome,
 } from '../blockchain/signing';
 import {
   recordPointsTransaction,
-  logBlockchainTransaction,
   logAdminSignature,
   updateSignatureVerification,
 } from '../blockchain/db-utils';
 import { db } from '../db';
 import { challenges } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
+import { AWAITING_RESOLUTION_STATUS } from '../challengeLifecycle';
+import { getDefaultChainId } from '../blockchain/chains';
+import { TxManagerError } from '../blockchain/txManager';
+import {
+  finalizeResolutionOnChain,
+  listResolutionProposals,
+  recordResolutionProposal,
+  ResolutionError,
+  ruleOnDisputeOnChain,
+} from '../blockchain/optimisticResolution';
 
 const router = Router();
 
+const PENDING_RESOLUTION_STATUSES = ['proposed', 'disputed'];
+
 /**
  * POST /api/admin/challenges/resolve
  * Resolve a single challenge on-chain
@@ -62,6 +80,12 @@ router.post('/resolve', adminAuth, async (req: Request, res: Response) => {
 
     const challenge = dbChallenge[0];
 
+    if (challenge.onChainChallengeId === null) {
+      return res.status(400).json({
+        error: 'Challenge is not on-chain yet',
+      });
+    }
+
     // Verify challenge can be resolved
     if (challenge.onChainStatus === 'resolved') {
       return res.status(400).json({
@@ -69,14 +93,42 @@ router.post('/resolve', adminAuth, async (req: Request, res: Response) => {
       });
     }
 
+    if (PENDING_RESOLUTION_STATUSES.includes(challenge.onChainStatus ?? '')) {
+      return res.status(400).json({
+        error: `Resolution already ${challenge.onChainStatus}`,
+      });
+    }
+
+    const chainId = challenge.blockchainChainId ?? getDefaultChainId();
+
     // Step 1: Sign resolution
     console.log(`📝 Signing resolution...`);
     const signResult = await resolveChallengeOnChain({
-      challengeId,
+      challengeId: challenge.onChainChallengeId,
       winner,
       pointsAwarded,
+      chainId,
+      dbChallengeId: challengeId,
     });
 
+    if (signResult.proposal) {
+      // Funds and points move when the proposal is finalized or ruled on
+      await recordResolutionProposal(challengeId, signResult.proposal, signResult.transactionHash);
+
+      return res.json({
+        success: true,
+        message: 'Resolution proposed on-chain; it settles after the dispute period',
+        challengeId,
+        winner,
+        pointsAwarded,
+        onChainStatus: 'proposed',
+        disputeDeadline: signResult.proposal.disputeDeadline,
+        transactionHash: signResult.transactionHash,
+        blockNumber: signResult.blockNumber,
+        gasUsed: signResult.gasUsed,
+      });
+    }
+
     // Step 2: Update database
     console.log(`💾 Updating database...`);
     await db
@@ -96,30 +148,10 @@ router.post('/resolve', adminAuth, async (req: Request, res: Response) => {
       userId: winner,
       challengeId,
       transactionType: 'earned_challenge',
-      amount: BigInt(pointsAwarded),
+      amount: BigInt(pointsAwarded).toString(),
       reason: reason || `Challenge ${challengeId} win`,
       blockchainTxHash: signResult.transactionHash,
-    });
-
-    // Step 4: Log blockchain transaction
-    await logBlockchainTransaction({
-      chainId: 84532,
-      transactionHash: signResult.transactionHash,
-      blockNumber: signResult.blockNumber,
-      transactionType: 'challenge_resolve',
-      contractAddress: challenge.blockchainContractAddress || '',
-      contractName: 'ChallengeFactory',
-      fromAddress: challenge.blockchainContractAddress || '',
-      toAddress: winner,
-      functionName: 'resolveChallenge',
-      parameters: JSON.stringify({
-        challengeId,
-        winner,
-        pointsAwarded,
-      }),
-      status: 'success',
-      gasUsed: BigInt(signResult.gasUsed),
-      challengeId,
+      chainId,
     });
 
     console.log(`✅ Challenge resolved! TX: ${signResult.transactionHash}`);
@@ -136,9 +168,101 @@ router.post('/resolve', adminAuth, async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     console.error('❌ Failed to resolve challenge:', error);
-    res.status(500).json({
+    res.status(error instanceof TxManagerError ? error.status : 500).json({
       error: 'Failed to resolve challenge',
       message: error.message,
+      revertReason: error instanceof TxManagerError ? error.revertReason : undefined,
+    });
+  }
+});
+
+/**
+ * POST /api/admin/challenges/resolve-group
+ * Resolve a group challenge by winning side (YES, NO or DRAW to refund everyone)
+ * Winners claim stake plus a pro-rata share; the indexer mirrors entitlements
+ * into payout_jobs/payout_entries
+ */
+router.post('/resolve-group', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const { challengeId, outcome, pointsAwarded = 0 } = req.body;
+
+    if (!challengeId || !(outcome in GROUP_OUTCOMES)) {
+      return res.status(400).json({
+        error: 'Missing required fields: challengeId, outcome (YES, NO or DRAW)',
+      });
+    }
+
+    if (pointsAwarded < 0) {
+      return res.status(400).json({
+        error: 'Points awarded must be non-negative',
+      });
+    }
+
+    const [challenge] = await db
+      .select()
+      .from(challenges)
+      .where(eq(challenges.id, challengeId))
+      .limit(1);
+
+    if (!challenge) {
+      return res.status(404).json({
+        error: `Challenge ${challengeId} not found in database`,
+      });
+    }
+
+    if (challenge.onChainChallengeId === null) {
+      return res.status(400).json({
+        error: 'Challenge is not on-chain yet',
+      });
+    }
+
+    if (challenge.onChainStatus === 'resolved' || challenge.onChainStatus === 'cancelled') {
+      return res.status(400).json({
+        error: 'Challenge already settled',
+      });
+    }
+
+    if (PENDING_RESOLUTION_STATUSES.includes(challenge.onChainStatus ?? '')) {
+      return res.status(400).json({
+        error: `Resolution already ${challenge.onChainStatus}`,
+      });
+    }
+
+    console.log(`\n👨‍⚖️  Admin resolving group challenge ${challengeId} as ${outcome}...`);
+
+    const result = await resolveGroupChallengeOnChain({
+      challengeId: challenge.onChainChallengeId,
+      outcome: outcome as GroupOutcome,
+      pointsAwarded,
+      chainId: challenge.blockchainChainId ?? getDefaultChainId(),
+      dbChallengeId: challengeId,
+    });
+
+    if (result.proposal) {
+      await recordResolutionProposal(challengeId, result.proposal, result.transactionHash);
+    }
+
+    res.json({
+      success: true,
+      message: result.proposal
+        ? 'Group resolution proposed on-chain; it settles after the dispute period'
+        : outcome === 'DRAW'
+          ? 'Group challenge refunded on-chain'
+          : 'Group challenge resolved on-chain',
+      challengeId,
+      outcome,
+      onChainStatus: result.proposal ? 'proposed' : 'resolved',
+      disputeDeadline: result.proposal?.disputeDeadline ?? null,
+      transactionHash: result.transactionHash,
+      blockNumber: result.blockNumber,
+      gasUsed: result.gasUsed,
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to resolve group challenge:', error);
+    res.status(error instanceof TxManagerError ? error.status : 500).json({
+      error: 'Failed to resolve group challenge',
+      message: error.message,
+      revertReason: error instanceof TxManagerError ? error.revertReason : undefined,
     });
   }
 });
@@ -184,13 +308,38 @@ router.post('/batch-resolve', adminAuth, async (req: Request, res: Response) =>
           continue;
         }
 
+        const onChainChallengeId = dbChallenge[0].onChainChallengeId;
+        if (onChainChallengeId === null) {
+          failures.push({
+            challengeId,
+            error: 'Challenge is not on-chain yet',
+          });
+          continue;
+        }
+
+        const chainId = dbChallenge[0].blockchainChainId ?? getDefaultChainId();
+
         // Resolve on-chain
         const signResult = await resolveChallengeOnChain({
-          challengeId,
+          challengeId: onChainChallengeId,
           winner,
           pointsAwarded,
+          chainId,
+          dbChallengeId: challengeId,
         });
 
+        if (signResult.proposal) {
+          await recordResolutionProposal(challengeId, signResult.proposal, signResult.transactionHash);
+          results.push({
+            challengeId,
+            success: true,
+            onChainStatus: 'proposed',
+            disputeDeadline: signResult.proposal.disputeDeadline,
+            transactionHash: signResult.transactionHash,
+          });
+          continue;
+        }
+
         // Update database
         await db
           .update(challenges)
@@ -207,13 +356,15 @@ router.post('/batch-resolve', adminAuth, async (req: Request, res: Response) =>
           userId: winner,
           challengeId,
           transactionType: 'earned_challenge',
-          amount: BigInt(pointsAwarded),
+          amount: BigInt(pointsAwarded).toString(),
           blockchainTxHash: signResult.transactionHash,
+          chainId,
         });
 
         results.push({
           challengeId,
           success: true,
+          onChainStatus: 'resolved',
           transactionHash: signResult.transactionHash,
         });
       } catch (error: any) {
@@ -248,11 +399,12 @@ router.post('/batch-resolve', adminAuth, async (req: Request, res: Response) =>
  */
 router.get('/pending', adminAuth, async (req: Request, res: Response) => {
   try {
+    // Moved here automatically by the lifecycle scheduler once past due
     const pendingChallenges = await db
       .select()
       .from(challenges)
-      .where(eq(challenges.onChainStatus, 'active'))
-      .orderBy(challenges.createdAt);
+      .where(eq(challenges.status, AWAITING_RESOLUTION_STATUS))
+      .orderBy(challenges.dueDate);
 
     res.json({
       pending: pendingChallenges.length,
@@ -266,6 +418,112 @@ router.get('/pending', adminAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/challenges/proposals?status=proposed|disputed
+ * Resolutions in their dispute window or waiting on an admin ruling
+ */
+router.get('/proposals', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !PENDING_RESOLUTION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `status must be one of: ${PENDING_RESOLUTION_STATUSES.join(', ')}`,
+      });
+    }
+
+    const proposals = await listResolutionProposals(status as 'proposed' | 'disputed' | undefined);
+    res.json({
+      count: proposals.length,
+      proposals,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to fetch resolution proposals',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/admin/challenges/:challengeId/finalize
+ * Settle an undisputed proposal once its dispute period is over
+ * (the resolution finalizer does this automatically)
+ */
+router.post('/:challengeId/finalize', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    if (!Number.isInteger(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge id' });
+    }
+
+    const result = await finalizeResolutionOnChain(challengeId);
+
+    res.json({
+      success: true,
+      message: 'Resolution finalized on-chain',
+      challengeId,
+      winner: result.proposal.winner,
+      outcome: result.proposal.outcome,
+      transactionHash: result.transactionHash,
+      blockNumber: result.blockNumber,
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to finalize resolution:', error);
+    res.status(error instanceof ResolutionError || error instanceof TxManagerError ? error.status : 500).json({
+      error: 'Failed to finalize resolution',
+      message: error.message,
+      revertReason: error instanceof TxManagerError ? error.revertReason : undefined,
+    });
+  }
+});
+
+/**
+ * POST /api/admin/challenges/:challengeId/rule-dispute
+ * Rule on a disputed proposal: { winner } for P2P, { outcome } for group
+ * challenges, plus pointsAwarded. Keeping the proposed result forfeits the
+ * disputer's bond; overturning it refunds the bond.
+ */
+router.post('/:challengeId/rule-dispute', adminAuth, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    if (!Number.isInteger(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge id' });
+    }
+
+    const { winner, outcome, pointsAwarded = 0 } = req.body;
+    if (outcome !== undefined && !(outcome in GROUP_OUTCOMES)) {
+      return res.status(400).json({ error: 'outcome must be YES, NO or DRAW' });
+    }
+    if (!Number.isInteger(pointsAwarded) || pointsAwarded < 0) {
+      return res.status(400).json({ error: 'Points awarded must be a non-negative integer' });
+    }
+
+    console.log(`\n👨‍⚖️  Admin ruling on disputed challenge ${challengeId}...`);
+
+    const result = await ruleOnDisputeOnChain(challengeId, {
+      winner,
+      outcome: outcome as GroupOutcome | undefined,
+      pointsAwarded,
+    });
+
+    res.json({
+      success: true,
+      message: result.upheld ? 'Dispute rejected; proposed result upheld' : 'Dispute upheld; result overturned',
+      challengeId,
+      upheld: result.upheld,
+      transactionHash: result.transactionHash,
+      blockNumber: result.blockNumber,
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to rule on dispute:', error);
+    res.status(error instanceof ResolutionError || error instanceof TxManagerError ? error.status : 500).json({
+      error: 'Failed to rule on dispute',
+      message: error.message,
+      revertReason: error instanceof TxManagerError ? error.revertReason : undefined,
+    });
+  }
+});
+
 /**
  * GET /api/admin/challenges/by-status/:status
  * Get challenges by status
@@ -296,12 +554,12 @@ router.get('/by-status/:status', adminAuth, async (req: Request, res: Response)
 });
 
 /**
- * GET /api/admin/blockchain/signing-stats
- * Get admin signing infrastructure status
+ * GET /api/admin/blockchain/signing-stats?chainId=
+ * Get admin signing infrastructure status (default chain unless chainId is given)
  */
 router.get('/blockchain/signing-stats', adminAuth, async (req: Request, res: Response) => {
   try {
-    const stats = await getSigningStats();
+    const stats = await getSigningStats(req.query.chainId ? Number(req.query.chainId) : undefined);
     res.json(stats);
   } catch (error: any) {
     res.status(500).json({
@@ -318,11 +576,11 @@ router.get('/blockchain/signing-stats', adminAuth, async (req: Request, res: Res
  */
 router.post('/verify-resolution', adminAuth, async (req: Request, res: Response) => {
   try {
-    const { challengeId, winner, pointsAwarded, signature } = req.body;
+    const { challengeId, winner, pointsAwarded, nonce, deadline, signature, chainId } = req.body;
 
-    if (!signature) {
+    if (!signature || !deadline) {
       return res.status(400).json({
-        error: 'Signature required for verification',
+        error: 'Signature and deadline required for verification',
       });
     }
 
@@ -330,13 +588,14 @@ router.post('/verify-resolution', adminAuth, async (req: Request, res: Response)
     const { verifyChallengeSignature } = await import('../blockchain/signing');
 
     const verification = await verifyChallengeSignature(
-      { challengeId, winner, pointsAwarded },
+      { challengeId, winner, pointsAwarded, nonce, deadline, chainId },
       signature
     );
 
     res.json({
       isValid: verification.isValid,
       signer: verification.signer,
+      expired: verification.expired,
       message: verification.isValid
         ? 'Signature is valid and can be submitted'
         : 'Signature is invalid',
@@ -380,6 +639,8 @@ router.get(
         resolutionTimestamp: challenge.resolutionTimestamp,
         pointsAwarded: challenge.pointsAwarded,
         onChainResolved: challenge.onChainResolved,
+        resolutionProposal: challenge.resolutionProposal,
+        disputeDeadline: challenge.disputeDeadline,
         metadata: challenge.onChainMetadata,
       });
     } catch (error: any) {
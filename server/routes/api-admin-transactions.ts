@@ -0,0 +1,137 @@
+/**
+ * Admin Outbound Transactions API
+ *
+ * Routes for:
+ * - Admin-signer transactions tracked by the transaction manager (nonce, fees, confirmations)
+ * - Stuck/failed counts per chain
+ * - Speeding up (replace-by-fee) or cancelling a pending transaction
+ */
+
+import { Router, Request, Response } from 'express';
+import { adminAuth } from '../adminAuth';
+import { hasBlockchainClient } from '../blockchain/client';
+import {
+  getOutboundTransaction,
+  getOutboundTransactionStats,
+  getTransactionManager,
+  listOutboundTransactions,
+  OUTBOUND_TX_STATUSES,
+  TxManagerError,
+} from '../blockchain/txManager';
+
+const router = Router();
+
+router.use(adminAuth);
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof TxManagerError) {
+    return res.status(error.status).json({ error: error.message, revertReason: error.revertReason ?? undefined });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+function parseTransactionId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+async function getManagerFor(id: number) {
+  const row = await getOutboundTransaction(id);
+  if (!hasBlockchainClient(row.chainId)) {
+    throw new TxManagerError(`Chain ${row.chainId} is not configured`, 503);
+  }
+  return getTransactionManager(row.chainId);
+}
+
+/**
+ * GET /api/admin/blockchain/transactions
+ * Query: ?chainId=84532&status=pending|cancelling|confirmed|failed|cancelled&limit=50
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(OUTBOUND_TX_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${OUTBOUND_TX_STATUSES.join(', ')}` });
+    }
+
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string, 10) : undefined;
+    if (chainId !== undefined && !Number.isInteger(chainId)) {
+      return res.status(400).json({ error: 'Invalid chainId' });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || 50;
+    res.json(await listOutboundTransactions({ chainId, status, limit }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch transactions');
+  }
+});
+
+/**
+ * GET /api/admin/blockchain/transactions/stats
+ * Counts per chain and status, stuck transactions and manager settings
+ */
+router.get('/stats', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getOutboundTransactionStats());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch transaction stats');
+  }
+});
+
+/**
+ * GET /api/admin/blockchain/transactions/:id
+ * One transaction with every broadcast hash and its explorer link
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseTransactionId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid transaction id' });
+    }
+
+    res.json(await getOutboundTransaction(id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch transaction');
+  }
+});
+
+/**
+ * POST /api/admin/blockchain/transactions/:id/bump
+ * Re-broadcast at the same nonce with higher fees
+ */
+router.post('/:id/bump', async (req: Request, res: Response) => {
+  try {
+    const id = parseTransactionId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid transaction id' });
+    }
+
+    const manager = await getManagerFor(id);
+    await manager.bump(id);
+    res.json(await getOutboundTransaction(id));
+  } catch (error) {
+    handleError(res, error, 'Failed to bump transaction');
+  }
+});
+
+/**
+ * POST /api/admin/blockchain/transactions/:id/cancel
+ * Replace with a 0-value self-transfer at the same nonce
+ */
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const id = parseTransactionId(req);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid transaction id' });
+    }
+
+    const manager = await getManagerFor(id);
+    await manager.cancel(id);
+    res.json(await getOutboundTransaction(id));
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel transaction');
+  }
+});
+
+export default router;
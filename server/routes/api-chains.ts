@@ -0,0 +1,33 @@
+/**
+ * Chains API
+ *
+ * Routes for:
+ * - Listing enabled chains with contract addresses, payment tokens and explorers
+ */
+
+import { Router, Request, Response } from 'express';
+import { describeChain, getChainConfig, getEnabledChains } from '../blockchain/chains';
+
+const router = Router();
+
+/**
+ * GET /api/chains
+ * Enabled chains (default chain first)
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json(getEnabledChains().map(describeChain));
+});
+
+/**
+ * GET /api/chains/:chainId
+ * One chain's contracts, tokens and explorer
+ */
+router.get('/:chainId', (req: Request, res: Response) => {
+  const chain = getChainConfig(parseInt(req.params.chainId, 10));
+  if (!chain) {
+    return res.status(404).json({ error: 'Chain not enabled' });
+  }
+  res.json(describeChain(chain));
+});
+
+export default router;
@@ -0,0 +1,101 @@
+/**
+ * Phase 4: API Routes - Challenge Followers
+ * Follow a challenge to receive its lifecycle reminders
+ * (starting soon, ending soon, bonus expiring, imbalance)
+ */
+
+import { Router, Request, Response } from 'express';
+import { eq } from 'drizzle-orm';
+import { isAuthenticated } from '../auth';
+import { db } from '../db';
+import { challenges } from '../../shared/schema';
+import { challengeLifecycleScheduler } from '../challengeLifecycle';
+
+const router = Router();
+
+/**
+ * POST /api/challenges/:id/follow
+ * Follow a challenge
+ */
+router.post('/:id/follow', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const [challenge] = await db
+      .select({ id: challenges.id })
+      .from(challenges)
+      .where(eq(challenges.id, challengeId))
+      .limit(1);
+
+    if (!challenge) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+
+    await challengeLifecycleScheduler.follow(challengeId, userId);
+    const state = await challengeLifecycleScheduler.getFollowState(challengeId, userId);
+
+    res.json({ success: true, ...state });
+  } catch (error: any) {
+    console.error('Failed to follow challenge:', error);
+    res.status(500).json({
+      error: 'Failed to follow challenge',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/challenges/:id/follow
+ * Stop following a challenge
+ */
+router.delete('/:id/follow', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    await challengeLifecycleScheduler.unfollow(challengeId, userId);
+    const state = await challengeLifecycleScheduler.getFollowState(challengeId, userId);
+
+    res.json({ success: true, ...state });
+  } catch (error: any) {
+    console.error('Failed to unfollow challenge:', error);
+    res.status(500).json({
+      error: 'Failed to unfollow challenge',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/challenges/:id/follow
+ * Whether the current user follows the challenge, plus follower count
+ */
+router.get('/:id/follow', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const state = await challengeLifecycleScheduler.getFollowState(challengeId, req.user!.id);
+    res.json(state);
+  } catch (error: any) {
+    console.error('Failed to get follow state:', error);
+    res.status(500).json({
+      error: 'Failed to get follow state',
+      message: error.message,
+    });
+  }
+});
+
+export default router;
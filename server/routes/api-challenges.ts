@@ -4,12 +4,12 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { ethers } from 'ethers';
 import { isAuthenticated } from '../auth';
+import { adminAuth } from '../adminAuth';
 import {
   createAdminChallenge,
   createP2PChallenge,
-  joinAdminChallenge,
-  acceptP2PChallenge,
   getChallenge,
   getChallengeParticipants,
   getUserLockedStakes,
@@ -18,17 +18,63 @@ import {
 } from '../blockchain/helpers';
 import {
   recordPointsTransaction,
-  createEscrowRecord,
+  getAvailablePointsBalance,
   recordContractDeployment,
   addUserWallet,
   getUserPrimaryWallet,
 } from '../blockchain/db-utils';
+import { relayerService, RelayerError } from '../blockchain/relayer';
+import { TxManagerError } from '../blockchain/txManager';
+import {
+  findChainToken,
+  getChainConfig,
+  getDefaultChainId,
+  getPointsStakeToken,
+  isPointsToken,
+  POINTS_TOKEN_SYMBOL,
+  type ChainConfig,
+  type ChainToken,
+} from '../blockchain/chains';
 import { db } from '../db';
 import { challenges } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
 
 const router = Router();
 
+// BantahPoints promised to pool winners when the admin doesn't say otherwise
+const DEFAULT_POINTS_REWARD = 100;
+
+/**
+ * Resolve the requested chain (default chain when omitted) and payment token.
+ * BantahPoints ('BPTS' or the points contract address) stakes through PointsEscrow
+ */
+function resolveChainAndToken(
+  requestedChainId: unknown,
+  paymentToken: string
+): { chain: ChainConfig; token: ChainToken } | { error: string } {
+  const chainId = requestedChainId === undefined || requestedChainId === null
+    ? getDefaultChainId()
+    : Number(requestedChainId);
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    return { error: `Unsupported chain: ${requestedChainId}` };
+  }
+
+  const pointsToken = getPointsStakeToken(chain.chainId);
+  const isPoints = !!pointsToken && (
+    String(paymentToken).toUpperCase() === POINTS_TOKEN_SYMBOL ||
+    String(paymentToken).toLowerCase() === pointsToken.address.toLowerCase()
+  );
+  const token = isPoints ? pointsToken : findChainToken(chain.chainId, paymentToken);
+  if (!token) {
+    const symbols = chain.tokens.map((t) => t.symbol).concat(pointsToken ? [pointsToken.symbol] : []);
+    const supported = symbols.join(' or ') || 'none';
+    return { error: `Invalid token. Must be ${supported} on ${chain.name}` };
+  }
+
+  return { chain, token };
+}
+
 /**
  * GET /api/challenges/public
  * Get all public challenges (no auth required)
@@ -51,11 +97,20 @@ router.get('/public', async (req: Request, res: Response) => {
 
 /**
  * POST /api/challenges/create-admin
- * Create a new admin-created challenge (betting pool)
+ * Create a new admin-created challenge (betting pool), opened on-chain by the admin signer
  */
-router.post('/create-admin', isAuthenticated, async (req: Request, res: Response) => {
+router.post('/create-admin', adminAuth, async (req: Request, res: Response) => {
   try {
-    const { stakeAmount, paymentToken, metadataURI, title, description, category } = req.body;
+    const {
+      stakeAmount,
+      paymentToken,
+      metadataURI,
+      title,
+      description,
+      category,
+      chainId,
+      pointsReward = DEFAULT_POINTS_REWARD,
+    } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -68,16 +123,17 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
       });
     }
 
-    // Validate token addresses (USDC or USDT on Base Sepolia)
-    const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b3566dA8860';
-    const USDT = '0x3c499c542cEF5E3811e1192ce70d8cC7d307B653';
-    
-    if (![USDC, USDT].includes(paymentToken.toLowerCase())) {
-      return res.status(400).json({
-        error: 'Invalid token. Must be USDC or USDT',
-      });
+    if (!Number.isInteger(pointsReward) || pointsReward <= 0) {
+      return res.status(400).json({ error: 'pointsReward must be a positive integer' });
     }
 
+    // Validate chain and token against the chain registry
+    const resolved = resolveChainAndToken(chainId, paymentToken);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+    const { chain, token } = resolved;
+
     console.log(`\n💾 Creating admin challenge from ${userId}...`);
 
     // Create challenge in database first
@@ -91,8 +147,10 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
         status: 'pending',
         adminCreated: true,
         challenger: userId,
-        paymentTokenAddress: paymentToken,
-        stakeAmountWei: BigInt(stakeAmount + '000000'), // 6 decimals for USDC/USDT
+        blockchainChainId: chain.chainId,
+        blockchainContractAddress: chain.contracts.challengeFactory,
+        paymentTokenAddress: token.address,
+        stakeAmountWei: ethers.parseUnits(String(stakeAmount), token.decimals),
         onChainStatus: 'pending',
       })
       .returning();
@@ -103,10 +161,13 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
     // Create on-chain
     console.log(`⛓️  Creating on-chain...`);
     const txResult = await createAdminChallenge(
-      stakeAmount,
-      paymentToken,
+      String(stakeAmount),
+      token.address,
       metadataURI,
-      req.user as any // User signer would come from Privy
+      pointsReward,
+      chain.chainId,
+      token.decimals,
+      challengeId
     );
 
     // Update database with blockchain info
@@ -115,6 +176,7 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
       .set({
         blockchainCreationTxHash: txResult.transactionHash,
         blockchainBlockNumber: txResult.blockNumber,
+        onChainChallengeId: txResult.challengeId,
         onChainStatus: 'active',
         onChainResolved: false,
       })
@@ -125,6 +187,8 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
     res.json({
       success: true,
       challengeId,
+      onChainChallengeId: txResult.challengeId,
+      chainId: chain.chainId,
       transactionHash: txResult.transactionHash,
       blockNumber: txResult.blockNumber,
       title,
@@ -133,9 +197,10 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
     });
   } catch (error: any) {
     console.error('Failed to create admin challenge:', error);
-    res.status(500).json({
+    res.status(error instanceof TxManagerError ? error.status : 500).json({
       error: 'Failed to create challenge',
       message: error.message,
+      revertReason: error instanceof TxManagerError ? error.revertReason : undefined,
     });
   }
 });
@@ -146,7 +211,7 @@ router.post('/create-admin', isAuthenticated, async (req: Request, res: Response
  */
 router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { opponentId, stakeAmount, paymentToken, metadataURI, title, description } = req.body;
+    const { opponentId, stakeAmount, paymentToken, metadataURI, title, description, chainId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -165,6 +230,25 @@ router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response)
       });
     }
 
+    const resolved = resolveChainAndToken(chainId, paymentToken);
+    if ('error' in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+    const { chain, token } = resolved;
+    const stakeWei = ethers.parseUnits(String(stakeAmount), token.decimals);
+
+    // Points already staked elsewhere can't back a new challenge
+    if (isPointsToken(chain.chainId, token.address)) {
+      const available = await getAvailablePointsBalance(userId);
+      if (available < stakeWei) {
+        return res.status(400).json({
+          error: 'Insufficient available points',
+          available: available.toString(),
+          requested: stakeWei.toString(),
+        });
+      }
+    }
+
     console.log(`\n💾 Creating P2P challenge: ${userId} vs ${opponentId}...`);
 
     // Create in database
@@ -179,8 +263,10 @@ router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response)
         adminCreated: false,
         challenger: userId,
         challenged: opponentId,
-        paymentTokenAddress: paymentToken,
-        stakeAmountWei: BigInt(ethers.parseUnits(stakeAmount, 6).toString()),
+        blockchainChainId: chain.chainId,
+        blockchainContractAddress: chain.contracts.challengeFactory,
+        paymentTokenAddress: token.address,
+        stakeAmountWei: stakeWei,
         onChainStatus: 'pending',
       })
       .returning();
@@ -191,9 +277,11 @@ router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response)
     const txResult = await createP2PChallenge(
       opponentId, // opponent wallet
       stakeAmount,
-      paymentToken,
+      token.address,
       metadataURI,
-      req.user as any
+      req.user as any,
+      chain.chainId,
+      token.decimals
     );
 
     // Update with blockchain info
@@ -208,6 +296,7 @@ router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response)
     res.json({
       success: true,
       challengeId,
+      chainId: chain.chainId,
       transactionHash: txResult.transactionHash,
       title,
       opponent: opponentId,
@@ -222,13 +311,23 @@ router.post('/create-p2p', isAuthenticated, async (req: Request, res: Response)
   }
 });
 
+function sendRelayError(res: Response, error: any, fallback: string) {
+  if (error instanceof RelayerError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback, message: error.message });
+}
+
 /**
  * POST /api/challenges/:id/join
- * Join an admin challenge (choose YES or NO side)
+ * Join a group (admin) challenge on the YES or NO side, gas-free.
+ * Returns typed data for the user's wallet to sign; the signatures go to
+ * POST /api/relayer/requests/:requestId/submit
  */
 router.post('/:id/join', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { side } = req.body; // true for YES, false for NO
+    const { side, amount } = req.body; // true for YES, false for NO; amount in token base units
     const challengeId = parseInt(req.params.id);
     const userId = req.user?.id;
 
@@ -236,70 +335,39 @@ router.post('/:id/join', isAuthenticated, async (req: Request, res: Response) =>
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    if (side === undefined) {
+    if (typeof side !== 'boolean') {
       return res.status(400).json({
         error: 'Missing required field: side (true for YES, false for NO)',
       });
     }
 
-    console.log(`\n🔗 User ${userId} joining challenge ${challengeId} on side ${side ? 'YES' : 'NO'}...`);
-
-    // Get challenge
-    const dbChallenge = await db
-      .select()
-      .from(challenges)
-      .where(eq(challenges.id, challengeId))
-      .limit(1);
-
-    if (!dbChallenge.length) {
-      return res.status(404).json({ error: 'Challenge not found' });
+    if (amount !== undefined && !/^\d+$/.test(String(amount))) {
+      return res.status(400).json({ error: 'amount must be an integer string in token base units' });
     }
 
-    const challenge = dbChallenge[0];
-
-    // Get on-chain challenge
-    const onChainChallenge = await getChallenge(challengeId);
+    console.log(`\n🔗 User ${userId} preparing gasless join of challenge ${challengeId} on side ${side ? 'YES' : 'NO'}...`);
 
-    // Join on-chain
-    const txResult = await joinAdminChallenge(
+    const prepared = await relayerService.prepare(userId, {
+      action: 'join_group',
       challengeId,
       side,
-      req.user as any
-    );
-
-    // Record escrow
-    if (challenge.stakeAmountWei) {
-      await createEscrowRecord({
-        challengeId,
-        userId,
-        tokenAddress: challenge.paymentTokenAddress!,
-        amountEscrowed: challenge.stakeAmountWei,
-        status: 'locked',
-        side: side ? 'YES' : 'NO',
-        lockTxHash: txResult.transactionHash,
-      });
-    }
-
-    console.log(`✅ User joined challenge: ${txResult.transactionHash}`);
+      amount: amount !== undefined ? String(amount) : undefined,
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      challengeId,
-      transactionHash: txResult.transactionHash,
       side: side ? 'YES' : 'NO',
+      ...prepared,
     });
   } catch (error: any) {
-    console.error('Failed to join challenge:', error);
-    res.status(500).json({
-      error: 'Failed to join challenge',
-      message: error.message,
-    });
+    sendRelayError(res, error, 'Failed to join challenge');
   }
 });
 
 /**
  * POST /api/challenges/:id/accept
- * Accept a P2P challenge (as the challenged user)
+ * Accept a P2P challenge (as the challenged user), gas-free.
+ * Challenge becomes active once the relayed transaction confirms.
  */
 router.post('/:id/accept', isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -310,65 +378,19 @@ router.post('/:id/accept', isAuthenticated, async (req: Request, res: Response)
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    console.log(`\n🤝 User ${userId} accepting P2P challenge ${challengeId}...`);
+    console.log(`\n🤝 User ${userId} preparing gasless accept of P2P challenge ${challengeId}...`);
 
-    // Get challenge
-    const dbChallenge = await db
-      .select()
-      .from(challenges)
-      .where(eq(challenges.id, challengeId))
-      .limit(1);
-
-    if (!dbChallenge.length) {
-      return res.status(404).json({ error: 'Challenge not found' });
-    }
-
-    const challenge = dbChallenge[0];
-
-    if (challenge.challenged !== userId) {
-      return res.status(403).json({
-        error: 'Not the challenged user',
-      });
-    }
-
-    // Accept on-chain
-    const txResult = await acceptP2PChallenge(challengeId, req.user as any);
-
-    // Record escrow
-    if (challenge.stakeAmountWei) {
-      await createEscrowRecord({
-        challengeId,
-        userId,
-        tokenAddress: challenge.paymentTokenAddress!,
-        amountEscrowed: challenge.stakeAmountWei,
-        status: 'locked',
-        side: 'CHALLENGER', // They're the acceptor
-        lockTxHash: txResult.transactionHash,
-      });
-    }
-
-    // Update challenge
-    await db
-      .update(challenges)
-      .set({
-        status: 'active',
-        onChainStatus: 'active',
-      })
-      .where(eq(challenges.id, challengeId));
-
-    console.log(`✅ P2P challenge accepted: ${txResult.transactionHash}`);
+    const prepared = await relayerService.prepare(userId, {
+      action: 'accept_p2p',
+      challengeId,
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      challengeId,
-      transactionHash: txResult.transactionHash,
+      ...prepared,
     });
   } catch (error: any) {
-    console.error('Failed to accept challenge:', error);
-    res.status(500).json({
-      error: 'Failed to accept challenge',
-      message: error.message,
-    });
+    sendRelayError(res, error, 'Failed to accept challenge');
   }
 });
 
@@ -398,8 +420,9 @@ router.get('/:id', isAuthenticated, async (req: Request, res: Response) => {
     let participants = null;
 
     try {
-      onChainData = await getChallenge(challengeId);
-      participants = await getChallengeParticipants(challengeId);
+      const chainId = challenge.blockchainChainId ?? undefined;
+      onChainData = await getChallenge(challengeId, chainId);
+      participants = await getChallengeParticipants(challengeId, chainId);
     } catch (error) {
       console.warn('Could not fetch on-chain data:', error);
     }
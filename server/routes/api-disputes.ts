@@ -0,0 +1,144 @@
+/**
+ * Phase 4: API Routes - Challenge Disputes
+ * REST endpoints for participants to raise disputes and submit evidence
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { isAuthenticated } from '../auth';
+import {
+  disputeService,
+  DisputeError,
+  MAX_IMAGE_EVIDENCE_BYTES,
+  type EvidenceInput,
+} from '../disputeService';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_EVIDENCE_BYTES },
+});
+
+/**
+ * Accept an optional `image` file; reject oversized uploads with a 400
+ */
+function evidenceUpload(req: Request, res: Response, next: NextFunction) {
+  upload.single('image')(req, res, (err: any) => {
+    if (err) {
+      return res.status(400).json({
+        error: err.code === 'LIMIT_FILE_SIZE' ? 'Image evidence must be 5MB or smaller' : 'Invalid upload',
+        message: err.message,
+      });
+    }
+    next();
+  });
+}
+
+function handleDisputeError(res: Response, error: any, fallback: string) {
+  if (error instanceof DisputeError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({
+    error: fallback,
+    message: error.message,
+  });
+}
+
+/**
+ * POST /api/challenges/:id/dispute
+ * Raise a dispute on an active challenge (participants only)
+ * Body: { reason: string, evidence?: [{ type: 'text' | 'image' | 'link', content: string }] }
+ */
+router.post('/:id/dispute', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    const { reason, evidence } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    if (evidence !== undefined && !Array.isArray(evidence)) {
+      return res.status(400).json({ error: 'evidence must be an array' });
+    }
+
+    const dispute = await disputeService.raiseDispute(challengeId, userId, reason, evidence || []);
+
+    res.json({
+      success: true,
+      challengeId,
+      status: 'disputed',
+      dispute,
+    });
+  } catch (error: any) {
+    handleDisputeError(res, error, 'Failed to raise dispute');
+  }
+});
+
+/**
+ * POST /api/challenges/:id/dispute/evidence
+ * Attach evidence to an open dispute (participants only)
+ * JSON body: { type: 'text' | 'link' | 'image', content: string }
+ * or multipart/form-data with an `image` file
+ */
+router.post('/:id/dispute/evidence', isAuthenticated, evidenceUpload, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const input: EvidenceInput = req.file
+      ? {
+          type: 'image',
+          content: `data:${req.file.mimetype};base64,${req.file.buffer.toString('base64')}`,
+        }
+      : { type: req.body.type, content: req.body.content };
+
+    const item = await disputeService.addEvidence(challengeId, userId, input);
+
+    res.json({ success: true, challengeId, evidence: item });
+  } catch (error: any) {
+    handleDisputeError(res, error, 'Failed to add dispute evidence');
+  }
+});
+
+/**
+ * GET /api/challenges/:id/dispute
+ * Dispute details, evidence and ruling (participants only)
+ */
+router.get('/:id/dispute', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const dispute = await disputeService.getDisputeForUser(challengeId, userId, !!req.user?.isAdmin);
+
+    res.json({ challengeId, dispute });
+  } catch (error: any) {
+    handleDisputeError(res, error, 'Failed to get dispute');
+  }
+});
+
+export default router;
@@ -5,23 +5,29 @@
 
 import { Router, Request, Response } from 'express';
 import { isAuthenticated } from '../auth';
-import { claimPayout } from '../blockchain/helpers';
-import {
-  updateEscrowStatus,
-  getUserActiveEscrows,
-  recordPointsTransaction,
-  logBlockchainTransaction,
-} from '../blockchain/db-utils';
+import { relayerService, RelayerError } from '../blockchain/relayer';
+import { getDefaultChainId } from '../blockchain/chains';
+import { recordPointsTransaction } from '../blockchain/db-utils';
 import { db } from '../db';
 import { challenges } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
 
 const router = Router();
 
+function sendRelayError(res: Response, error: any, fallback: string) {
+  if (error instanceof RelayerError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback, message: error.message });
+}
+
 /**
  * POST /api/payouts/:challengeId/claim
- * Claim payout for winning a challenge
- * Only callable by the winner after challenge is resolved
+ * Claim payout (or refund) after a challenge is resolved, gas-free.
+ * Returns typed data for the user's wallet to sign; the signatures go to
+ * POST /api/relayer/requests/:requestId/submit. Escrow and payout records
+ * update when the indexer sees StakeClaimed.
  */
 router.post('/:challengeId/claim', isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -38,72 +44,16 @@ router.post('/:challengeId/claim', isAuthenticated, async (req: Request, res: Re
 
     const cId = parseInt(challengeId);
 
-    console.log(`\n💰 User ${userId} claiming payout for challenge ${cId}...`);
-
-    // Get challenge
-    const dbChallenge = await db
-      .select()
-      .from(challenges)
-      .where(eq(challenges.id, cId))
-      .limit(1);
-
-    if (!dbChallenge.length) {
-      return res.status(404).json({ error: 'Challenge not found' });
-    }
-
-    const challenge = dbChallenge[0];
-
-    // Verify user is the winner (this should be verified on-chain)
-    // For now, check if challenge is resolved and user has payout available
-
-    if (challenge.onChainStatus !== 'resolved') {
-      return res.status(400).json({
-        error: 'Challenge not resolved yet',
-        status: challenge.onChainStatus,
-      });
-    }
-
-    // Claim on-chain
-    console.log(`⛓️  Claiming payout on-chain...`);
-    const txResult = await claimPayout(cId, req.user as any);
-
-    // Update escrow record
-    const escrows = await getUserActiveEscrows(userId);
-    for (const escrow of escrows) {
-      if (escrow.challengeId === cId) {
-        await updateEscrowStatus(escrow.id, 'claimed', txResult.transactionHash);
-      }
-    }
-
-    // Log blockchain transaction
-    await logBlockchainTransaction({
-      chainId: 84532,
-      transactionHash: txResult.transactionHash,
-      transactionType: 'payout_claim',
-      contractAddress: challenge.blockchainContractAddress || '',
-      fromAddress: userId,
-      toAddress: userId,
-      functionName: 'claimPayout',
-      parameters: JSON.stringify({ challengeId: cId }),
-      status: 'success',
-      challengeId: cId,
-      userId,
-    });
+    console.log(`\n💰 User ${userId} preparing gasless claim for challenge ${cId}...`);
 
-    console.log(`✅ Payout claimed: ${txResult.transactionHash}`);
+    const prepared = await relayerService.prepare(userId, { action: 'claim', challengeId: cId });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      challengeId: cId,
-      transactionHash: txResult.transactionHash,
-      message: 'Payout claimed successfully',
+      ...prepared,
     });
   } catch (error: any) {
-    console.error('Failed to claim payout:', error);
-    res.status(500).json({
-      error: 'Failed to claim payout',
-      message: error.message,
-    });
+    sendRelayError(res, error, 'Failed to claim payout');
   }
 });
 
@@ -186,7 +136,7 @@ router.get('/:challengeId/status', isAuthenticated, async (req: Request, res: Re
 
 /**
  * POST /api/payouts/batch-claim
- * Claim multiple payouts in one request
+ * Prepare gasless claims for multiple payouts in one request
  * Useful for claiming multiple wins at once
  */
 router.post('/batch-claim', isAuthenticated, async (req: Request, res: Response) => {
@@ -206,66 +156,59 @@ router.post('/batch-claim', isAuthenticated, async (req: Request, res: Response)
 
     console.log(`\n📦 Batch claiming ${challengeIds.length} payouts for user ${userId}...`);
 
-    const results = [];
+    const claimableByChain = new Map<number, number[]>();
     const failures = [];
 
     for (const challengeId of challengeIds) {
-      try {
-        console.log(`  Claiming challenge ${challengeId}...`);
-
-        const dbChallenge = await db
-          .select()
-          .from(challenges)
-          .where(eq(challenges.id, challengeId))
-          .limit(1);
-
-        if (!dbChallenge.length) {
-          failures.push({
-            challengeId,
-            error: 'Challenge not found',
-          });
-          continue;
-        }
-
-        const challenge = dbChallenge[0];
-
-        if (challenge.onChainStatus !== 'resolved') {
-          failures.push({
-            challengeId,
-            error: `Not resolved (status: ${challenge.onChainStatus})`,
-          });
-          continue;
-        }
-
-        // Claim
-        const txResult = await claimPayout(challengeId, req.user as any);
-
-        results.push({
+      const dbChallenge = await db
+        .select()
+        .from(challenges)
+        .where(eq(challenges.id, challengeId))
+        .limit(1);
+
+      if (!dbChallenge.length) {
+        failures.push({
           challengeId,
-          success: true,
-          transactionHash: txResult.transactionHash,
+          error: 'Challenge not found',
         });
-      } catch (error: any) {
+        continue;
+      }
+
+      const challenge = dbChallenge[0];
+
+      if (challenge.onChainStatus !== 'resolved' || challenge.onChainChallengeId === null) {
         failures.push({
           challengeId,
-          error: error.message,
+          error: `Not resolved (status: ${challenge.onChainStatus})`,
         });
+        continue;
       }
+
+      const chainId = challenge.blockchainChainId ?? getDefaultChainId();
+      claimableByChain.set(chainId, [...(claimableByChain.get(chainId) ?? []), challengeId]);
+    }
+
+    // One prepare call per chain so forwarder nonces are consecutive; sign and submit in order
+    const results = [];
+    for (const challengeIds of Array.from(claimableByChain.values())) {
+      results.push(
+        ...(await relayerService.prepareMany(
+          userId,
+          challengeIds.map((challengeId) => ({ action: 'claim' as const, challengeId }))
+        ))
+      );
     }
 
-    console.log(`✅ Batch claim complete: ${results.length} successful, ${failures.length} failed`);
+    console.log(`✅ Batch claim prepared: ${results.length} to sign, ${failures.length} skipped`);
 
-    res.json({
+    res.status(results.length > 0 ? 201 : 400).json({
       successful: results.length,
       failed: failures.length,
       results,
       failures: failures.length > 0 ? failures : undefined,
     });
   } catch (error: any) {
-    res.status(500).json({
-      error: 'Batch claim failed',
-      message: error.message,
-    });
+    sendRelayError(res, error, 'Batch claim failed');
   }
 });
 
@@ -6,19 +6,25 @@
 import { Router, Request, Response } from 'express';
 import { isAuthenticated } from '../auth';
 import { getBlockchainClient } from '../blockchain/client';
+import { getDefaultChainId, isChainEnabled } from '../blockchain/chains';
 import {
   getUserPointsBalance,
+  getAvailablePointsBalance,
   recordPointsTransaction,
   ensureUserPointsLedger,
   getUserPointsTransactionHistory,
   getPointsStatistics,
   updateUserPointsBalance,
-  addUserWallet,
+  getUserWallet,
   getUserWallets,
-  getUserPrimaryWallet,
   setPrimaryWallet,
   updateWalletBalances,
 } from '../blockchain/db-utils';
+import {
+  walletOwnershipService,
+  assertVerifiedPayoutWallet,
+  WalletOwnershipError,
+} from '../blockchain/walletOwnership';
 import { userPointsLedgers } from '../../shared/schema-blockchain';
 import { db } from '../db';
 import { users } from '../../shared/schema';
@@ -62,6 +68,7 @@ router.get('/balance/:userId', isAuthenticated, async (req: Request, res: Respon
  * POST /api/points/transfer
  * Transfer points from one user to another
  * Only on-chain transfers are supported (for security)
+ * Points locked as challenge stakes can't be transferred
  */
 router.post('/transfer', isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -90,14 +97,16 @@ router.post('/transfer', isAuthenticated, async (req: Request, res: Response) =>
     await ensureUserPointsLedger(userId);
     await ensureUserPointsLedger(recipientId);
 
-    // Check sender has enough balance
+    // Check sender has enough balance outside of challenge escrow
     const balance = await getUserPointsBalance(userId);
+    const available = await getAvailablePointsBalance(userId);
     const amountBigInt = BigInt(Math.floor(parseFloat(amount) * 1e18));
 
-    if (balance < amountBigInt) {
+    if (available < amountBigInt) {
       return res.status(400).json({
-        error: 'Insufficient points balance',
+        error: balance < amountBigInt ? 'Insufficient points balance' : 'Points are locked in challenge escrow',
         balance: balance.toString(),
+        available: available.toString(),
         requested: amountBigInt.toString(),
       });
     }
@@ -106,14 +115,14 @@ router.post('/transfer', isAuthenticated, async (req: Request, res: Response) =>
     await recordPointsTransaction({
       userId,
       transactionType: 'transferred_user',
-      amount: amountBigInt,
+      amount: amountBigInt.toString(),
       reason: `Transfer to ${recipientId}`,
     });
 
     await recordPointsTransaction({
       userId: recipientId,
       transactionType: 'transferred_user',
-      amount: amountBigInt,
+      amount: amountBigInt.toString(),
       reason: `Transfer from ${userId}`,
     });
 
@@ -158,7 +167,7 @@ router.get('/leaderboard', async (req: Request, res: Response) => {
       })
       .from(userPointsLedgers)
       .leftJoin(users, eq(userPointsLedgers.userId, users.id))
-      .where(gt(userPointsLedgers.pointsBalance, 0))
+      .where(gt(userPointsLedgers.pointsBalance, '0'))
       .orderBy(desc(userPointsLedgers.pointsBalance))
       .limit(limitNum)
       .offset(offsetNum);
@@ -175,7 +184,7 @@ router.get('/leaderboard', async (req: Request, res: Response) => {
     const totalPlayers = await db
       .select({ count: () => null })
       .from(userPointsLedgers)
-      .where(gt(userPointsLedgers.pointsBalance, 0));
+      .where(gt(userPointsLedgers.pointsBalance, '0'));
 
     res.json({
       leaderboard: rankedLeaderboard,
@@ -218,7 +227,7 @@ router.get('/leaderboard/:userId', isAuthenticated, async (req: Request, res: Re
     const usersAhead = await db
       .select({ count: () => null })
       .from(userPointsLedgers)
-      .where(gt(userPointsLedgers.pointsBalance, userPointsData.pointsBalance || 0));
+      .where(gt(userPointsLedgers.pointsBalance, userPointsData.pointsBalance || '0'));
 
     const rank = usersAhead.length + 1;
 
@@ -300,13 +309,22 @@ router.get('/statistics', async (req: Request, res: Response) => {
   }
 });
 
+function sendWalletProofError(res: Response, error: any, fallback: string) {
+  if (error instanceof WalletOwnershipError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback, message: error.message });
+}
+
 /**
- * POST /api/points/connect-wallet
- * Connect blockchain wallet to user account
+ * POST /api/points/connect-wallet/nonce
+ * Issue a Sign-In with Ethereum (EIP-4361) message proving wallet ownership.
+ * The wallet signs it (personal_sign) and the result goes to POST /api/points/connect-wallet
  */
-router.post('/connect-wallet', isAuthenticated, async (req: Request, res: Response) => {
+router.post('/connect-wallet/nonce', isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { walletAddress, walletType } = req.body;
+    const { walletAddress, chainId: requestedChainId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -317,31 +335,60 @@ router.post('/connect-wallet', isAuthenticated, async (req: Request, res: Respon
       return res.status(400).json({ error: 'Wallet address required' });
     }
 
-    console.log(`\n🔗 Connecting wallet ${walletAddress} to user ${userId}...`);
+    const chainId = requestedChainId !== undefined ? Number(requestedChainId) : getDefaultChainId();
+    if (!isChainEnabled(chainId)) {
+      return res.status(400).json({ error: `Unsupported chain: ${requestedChainId}` });
+    }
 
-    // Add wallet
-    const wallet = await addUserWallet({
-      userId,
+    const proof = await walletOwnershipService.createProofRequest(userId, {
       walletAddress,
-      walletType: walletType || 'privy',
-      chainId: 84532,
-      isPrimary: true, // Default to primary
+      chainId,
+      appUrl: process.env.FRONTEND_URL || `${req.protocol}://${req.get('host')}`,
     });
 
-    console.log(`✅ Wallet connected: ${wallet.id}`);
+    res.status(201).json({ success: true, ...proof });
+  } catch (error: any) {
+    sendWalletProofError(res, error, 'Failed to create wallet proof');
+  }
+});
+
+/**
+ * POST /api/points/connect-wallet
+ * Connect blockchain wallet to user account with a signed ownership proof
+ * Body: { message, signature, walletType? } from /connect-wallet/nonce
+ */
+router.post('/connect-wallet', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { message, signature, walletType } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (typeof message !== 'string' || typeof signature !== 'string' || !message || !signature) {
+      return res.status(400).json({
+        error: 'Missing required fields: message, signature (request the message from POST /api/points/connect-wallet/nonce)',
+      });
+    }
+
+    console.log(`\n🔗 Verifying wallet ownership proof for user ${userId}...`);
+
+    const wallet = await walletOwnershipService.verifyProof(userId, { message, signature, walletType });
+
+    console.log(`✅ Wallet connected: ${wallet.id} (${wallet.walletAddress})`);
 
     res.json({
       success: true,
       walletId: wallet.id,
-      walletAddress,
+      walletAddress: wallet.walletAddress,
+      chainId: wallet.chainId,
       isPrimary: wallet.isPrimary,
+      isVerified: wallet.isVerified,
+      verifiedAt: wallet.verifiedAt,
     });
   } catch (error: any) {
-    console.error('Failed to connect wallet:', error);
-    res.status(500).json({
-      error: 'Failed to connect wallet',
-      message: error.message,
-    });
+    sendWalletProofError(res, error, 'Failed to connect wallet');
   }
 });
 
@@ -365,6 +412,8 @@ router.get('/wallets', isAuthenticated, async (req: Request, res: Response) => {
         address: w.walletAddress,
         type: w.walletType,
         isPrimary: w.isPrimary,
+        isVerified: !!w.isVerified,
+        verifiedAt: w.verifiedAt,
         usdcBalance: w.usdcBalance?.toString(),
         pointsBalance: w.pointsBalance?.toString(),
         connectedAt: w.connectedAt,
@@ -393,20 +442,21 @@ router.post('/set-primary-wallet/:walletId', isAuthenticated, async (req: Reques
 
     const walletIdNum = parseInt(walletId);
 
-    // Verify wallet belongs to user
-    const primaryWallet = await getUserPrimaryWallet(userId);
-    
-    await setPrimaryWallet(walletIdNum, userId);
+    // Verify wallet belongs to user; only proven wallets can receive payouts
+    const wallet = await getUserWallet(walletIdNum, userId);
+    if (!wallet) {
+      return res.status(404).json({ error: 'Wallet not found' });
+    }
+    assertVerifiedPayoutWallet(wallet);
+
+    await setPrimaryWallet(walletIdNum, userId, wallet.chainId);
 
     res.json({
       success: true,
       message: 'Primary wallet updated',
     });
   } catch (error: any) {
-    res.status(500).json({
-      error: 'Failed to set primary wallet',
-      message: error.message,
-    });
+    sendWalletProofError(res, error, 'Failed to set primary wallet');
   }
 });
 
@@ -0,0 +1,152 @@
+/**
+ * Phase 4: API Routes - Challenge Queue
+ * REST endpoints for joining YES/NO queues and checking pairing status
+ */
+
+import { Router, Request, Response } from 'express';
+import { isAuthenticated } from '../auth';
+import { db } from '../db';
+import { createPairingEngine, type QueueSide } from '../pairingEngine';
+
+const router = Router();
+const pairingEngine = createPairingEngine(db);
+
+/**
+ * POST /api/challenges/:id/queue/join
+ * Join the YES or NO queue of a challenge
+ * Body: { side: 'YES' | 'NO', stakeAmount: number }
+ */
+router.post('/:id/queue/join', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    const { side, stakeAmount } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const normalizedSide = typeof side === 'string' ? side.toUpperCase() : side;
+    const result = await pairingEngine.joinChallenge(
+      userId,
+      challengeId,
+      normalizedSide as QueueSide,
+      Number(stakeAmount)
+    );
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+
+    if (result.match) {
+      console.log(`🎯 Matched ${result.match.user1Id} vs ${result.match.user2Id} on challenge ${challengeId}`);
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Failed to join challenge queue:', error);
+    res.status(500).json({
+      error: 'Failed to join challenge queue',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/challenges/:id/queue/cancel
+ * Leave the queue and refund the held stake (waiting entries only)
+ */
+router.post('/:id/queue/cancel', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const result = await pairingEngine.cancelFromQueue(userId, challengeId);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Failed to cancel queue entry:', error);
+    res.status(500).json({
+      error: 'Failed to cancel queue entry',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/challenges/:id/queue/status
+ * Queue sizes on both sides plus matched stake totals
+ */
+router.get('/:id/queue/status', async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const overview = await pairingEngine.getChallengeOverview(challengeId);
+
+    res.json({
+      challengeId,
+      yesQueue: overview.yesQueue,
+      noQueue: overview.noQueue,
+      yesStakeTotal: overview.yesStakeTotal,
+      noStakeTotal: overview.noStakeTotal,
+      status: overview.challenge.status,
+    });
+  } catch (error: any) {
+    if (error.message === 'Challenge not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({
+      error: 'Failed to get queue status',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/challenges/:id/queue/user-status
+ * Current user's position in the queue, or their match
+ */
+router.get('/:id/queue/user-status', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'Invalid challenge ID' });
+    }
+
+    const status = await pairingEngine.getUserStatus(userId, challengeId);
+    res.json({ challengeId, ...status });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get queue user status',
+      message: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+/**
+ * Gasless Relayer API
+ *
+ * Routes for:
+ * - Relayer availability and limits
+ * - Preparing typed data (ForwardRequest + optional permit) for joins, accepts and claims
+ * - Submitting the user's signatures for the relayer to broadcast
+ * - Tracking relayed requests
+ */
+
+import { Router, Request, Response } from 'express';
+import { isAuthenticated } from '../auth';
+import { relayerService, RelayerError, RELAYER_ACTIONS, type RelayerAction } from '../blockchain/relayer';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RelayerError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+function parseRequestId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/relayer/config
+ * Whether gasless transactions are available, forwarder address and limits
+ */
+router.get('/config', (_req: Request, res: Response) => {
+  res.json(relayerService.getConfig());
+});
+
+/**
+ * POST /api/relayer/prepare
+ * Body: { action: 'join_group' | 'accept_p2p' | 'dispute' | 'claim', challengeId, side?, amount? }
+ * Returns EIP-712 payloads to sign with eth_signTypedData_v4
+ */
+router.post('/prepare', async (req: Request, res: Response) => {
+  try {
+    const { action, challengeId, side, amount } = req.body;
+
+    if (!RELAYER_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${RELAYER_ACTIONS.join(', ')}` });
+    }
+    if (!Number.isInteger(challengeId)) {
+      return res.status(400).json({ error: 'challengeId required' });
+    }
+    if (amount !== undefined && !/^\d+$/.test(String(amount))) {
+      return res.status(400).json({ error: 'amount must be an integer string in token base units' });
+    }
+
+    const prepared = await relayerService.prepare(req.user!.id, {
+      action: action as RelayerAction,
+      challengeId,
+      side,
+      amount: amount !== undefined ? String(amount) : undefined,
+    });
+    res.status(201).json(prepared);
+  } catch (error) {
+    handleError(res, error, 'Failed to prepare relay request');
+  }
+});
+
+/**
+ * POST /api/relayer/requests/:id/submit
+ * Body: { signature, permitSignature? }
+ */
+router.post('/requests/:id/submit', async (req: Request, res: Response) => {
+  try {
+    const requestId = parseRequestId(req);
+    if (!requestId) {
+      return res.status(400).json({ error: 'Invalid request id' });
+    }
+
+    const { signature, permitSignature } = req.body;
+    if (typeof signature !== 'string' || !signature) {
+      return res.status(400).json({ error: 'signature required' });
+    }
+
+    const request = await relayerService.submit(req.user!.id, requestId, {
+      signature,
+      permitSignature: typeof permitSignature === 'string' ? permitSignature : undefined,
+    });
+    res.status(202).json(request);
+  } catch (error) {
+    handleError(res, error, 'Failed to submit relay request');
+  }
+});
+
+/**
+ * GET /api/relayer/requests/:id
+ * Status of one relayed request (poll after submit)
+ */
+router.get('/requests/:id', async (req: Request, res: Response) => {
+  try {
+    const requestId = parseRequestId(req);
+    if (!requestId) {
+      return res.status(400).json({ error: 'Invalid request id' });
+    }
+
+    res.json(await relayerService.getRequest(req.user!.id, requestId));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch relay request');
+  }
+});
+
+/**
+ * GET /api/relayer/requests
+ * Current user's recent relayed requests
+ */
+router.get('/requests', async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    res.json(await relayerService.listRequests(req.user!.id, limit));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch relay requests');
+  }
+});
+
+export default router;
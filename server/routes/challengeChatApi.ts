@@ -0,0 +1,61 @@
+/**
+ * 💬 Challenge Chat API Endpoints
+ * Read and post messages in a challenge's chat (moderated)
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { challengeChatService, ChallengeChatError } from '../challengeChat';
+import { ChatModerationError } from '../chatModeration';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ChallengeChatError || error instanceof ChatModerationError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+function parseId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/challenges/:id/messages
+ * Latest messages, oldest first
+ */
+router.get('/:id/messages', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseId(req);
+    if (!challengeId) {
+      return res.status(400).json({ message: 'Invalid challenge id' });
+    }
+
+    res.json(await challengeChatService.listMessages(challengeId, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch messages');
+  }
+});
+
+/**
+ * POST /api/challenges/:id/messages
+ * Body: { message: string }
+ */
+router.post('/:id/messages', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const challengeId = parseId(req);
+    if (!challengeId) {
+      return res.status(400).json({ message: 'Invalid challenge id' });
+    }
+
+    const message = await challengeChatService.postMessage(challengeId, req.user!.id, req.body ?? {});
+    res.status(201).json(message);
+  } catch (error) {
+    handleError(res, error, 'Failed to send message');
+  }
+});
+
+export default router;
@@ -29,6 +29,7 @@ const router = Router();
  *   challengeId: number
  *   winner: string (wallet address)
  *   pointsAwarded: number
+ *   chainId?: number (defaults to DEFAULT_CHAIN_ID)
  * }
  */
 router.post(
@@ -36,7 +37,7 @@ router.post(
   verifyAdminToken,
   async (req: Request, res: Response) => {
     try {
-      const { challengeId, winner, pointsAwarded } = req.body;
+      const { challengeId, winner, pointsAwarded, chainId } = req.body;
 
       if (!challengeId || !winner || !pointsAwarded) {
         return res.status(400).json({
@@ -54,7 +55,7 @@ router.post(
 
       // Step 1: Verify challenge exists on-chain
       console.log(`📋 Fetching challenge details...`);
-      const challenge = await getChallenge(challengeId);
+      const challenge = await getChallenge(challengeId, chainId);
       if (!challenge) {
         return res.status(404).json({
           error: `Challenge ${challengeId} not found on-chain`,
@@ -67,6 +68,7 @@ router.post(
         challengeId,
         winner,
         pointsAwarded,
+        chainId,
       });
 
       // Step 3: Update database to track blockchain settlement
@@ -140,6 +142,7 @@ router.post(
             challengeId: challenge.challengeId,
             winner: challenge.winner,
             pointsAwarded: challenge.pointsAwarded,
+            chainId: challenge.chainId,
           });
 
           // Update database
@@ -193,7 +196,7 @@ router.post(
  */
 router.get('/blockchain/signing-stats', verifyAdminToken, async (req: Request, res: Response) => {
   try {
-    const stats = await getSigningStats();
+    const stats = await getSigningStats(req.query.chainId ? Number(req.query.chainId) : undefined);
     res.json(stats);
   } catch (error: any) {
     res.status(500).json({
@@ -257,22 +260,23 @@ router.post(
   verifyAdminToken,
   async (req: Request, res: Response) => {
     try {
-      const { challengeId, winner, pointsAwarded, signature } = req.body;
+      const { challengeId, winner, pointsAwarded, nonce, deadline, signature, chainId } = req.body;
 
-      if (!signature) {
+      if (!signature || !deadline) {
         return res.status(400).json({
-          error: 'Signature required',
+          error: 'Signature and deadline required',
         });
       }
 
       const verification = await verifyChallengeSignature(
-        { challengeId, winner, pointsAwarded },
+        { challengeId, winner, pointsAwarded, nonce, deadline, chainId },
         signature
       );
 
       res.json({
         isValid: verification.isValid,
         signer: verification.signer,
+        expired: verification.expired,
       });
     } catch (error: any) {
       res.status(500).json({
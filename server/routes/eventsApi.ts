@@ -0,0 +1,274 @@
+/**
+ * 🎲 Events API Endpoints
+ *
+ * Routes for:
+ * - Listing events and fetching one event
+ * - Creating YES/NO prediction events with a coin entry fee
+ * - Joining (pays the entry fee) and leaving (refunds it) before endDate
+ * - Private events: join requests that hold the fee until the creator
+ *   approves or rejects them
+ * - Listing an event's participants
+ * - Event chat: paged history, reply threads, @mentions and reactions
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { storage } from '../storage';
+import { eventService, EventError } from '../eventService';
+import { eventChatService, EventChatError } from '../eventChat';
+import { ChatModerationError } from '../chatModeration';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof EventError || error instanceof EventChatError || error instanceof ChatModerationError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+function parseId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/events
+ * Latest events
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getEvents(20));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch events');
+  }
+});
+
+/**
+ * POST /api/events
+ * Create an event; the caller becomes its creator and earns the creator fee
+ */
+router.post('/', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const event = await eventService.createEvent(req.user!.id, {
+      ...req.body,
+      imageUrl: req.body.imageUrl ?? req.body.bannerUrl,
+    });
+    res.status(201).json(event);
+  } catch (error) {
+    handleError(res, error, 'Failed to create event');
+  }
+});
+
+/**
+ * GET /api/events/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    res.json(await eventService.getEvent(eventId));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch event');
+  }
+});
+
+/**
+ * GET /api/events/:id/participants
+ * Participants in join order, with public profile fields
+ */
+router.get('/:id/participants', async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    res.json(await eventService.listParticipants(eventId));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch participants');
+  }
+});
+
+/**
+ * POST /api/events/:id/join
+ * Body: { prediction: boolean } - pays the entry fee from the user's coins.
+ * On someone else's private event this files a join request and holds the fee.
+ */
+router.post('/:id/join', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const userId = req.user!.id;
+    const event = await eventService.getEvent(eventId);
+    if (event.isPrivate && event.creatorId !== userId) {
+      const request = await eventService.requestToJoin(userId, eventId, req.body?.prediction);
+      return res.status(202).json({ success: true, pending: true, request });
+    }
+
+    const participant = await eventService.joinEvent(userId, eventId, req.body?.prediction);
+    res.status(201).json({ success: true, participant });
+  } catch (error) {
+    handleError(res, error, 'Failed to join event');
+  }
+});
+
+/**
+ * GET /api/events/:id/join-requests
+ * Pending join requests (event creator only)
+ */
+router.get('/:id/join-requests', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    res.json(await eventService.listJoinRequests(eventId, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch join requests');
+  }
+});
+
+/**
+ * POST /api/events/join-requests/:id/approve
+ * Creator admits the requester; the held fee becomes their stake
+ */
+router.post('/join-requests/:id/approve', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const requestId = parseId(req);
+    if (!requestId) {
+      return res.status(400).json({ message: 'Invalid request id' });
+    }
+
+    const participant = await eventService.approveJoinRequest(req.user!.id, requestId);
+    res.json({ success: true, message: 'Join request approved', participant });
+  } catch (error) {
+    handleError(res, error, 'Failed to approve join request');
+  }
+});
+
+/**
+ * POST /api/events/join-requests/:id/reject
+ * Creator declines the request; the held fee is released
+ */
+router.post('/join-requests/:id/reject', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const requestId = parseId(req);
+    if (!requestId) {
+      return res.status(400).json({ message: 'Invalid request id' });
+    }
+
+    const request = await eventService.rejectJoinRequest(req.user!.id, requestId);
+    res.json({ success: true, message: 'Join request rejected', request });
+  } catch (error) {
+    handleError(res, error, 'Failed to reject join request');
+  }
+});
+
+/**
+ * POST /api/events/:id/leave
+ * Leave before the event ends; the entry fee is refunded
+ */
+router.post('/:id/leave', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const { refunded } = await eventService.leaveEvent(req.user!.id, eventId);
+    res.json({ success: true, refunded });
+  } catch (error) {
+    handleError(res, error, 'Failed to leave event');
+  }
+});
+
+/**
+ * GET /api/events/:id/messages?before=<messageId>&limit=50
+ * Latest page of chat, oldest first. When older messages exist, the
+ * X-Next-Cursor header holds the `before` value for the next page.
+ */
+router.get('/:id/messages', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const page = await eventChatService.listMessages(eventId, req.user!.id, {
+      before: req.query.before,
+      limit: req.query.limit,
+    });
+    if (page.nextCursor !== null) {
+      res.setHeader('X-Next-Cursor', String(page.nextCursor));
+    }
+    res.json(page.messages);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch messages');
+  }
+});
+
+/**
+ * POST /api/events/:id/messages
+ * Body: { message: string, replyToId?: number }
+ */
+router.post('/:id/messages', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    if (!eventId) {
+      return res.status(400).json({ message: 'Invalid event id' });
+    }
+
+    const message = await eventChatService.postMessage(eventId, req.user!.id, req.body ?? {});
+    res.status(201).json(message);
+  } catch (error) {
+    handleError(res, error, 'Failed to send message');
+  }
+});
+
+/**
+ * GET /api/events/:id/messages/:messageId/replies
+ * The reply thread under one message
+ */
+router.get('/:id/messages/:messageId/replies', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    const messageId = parseInt(req.params.messageId, 10);
+    if (!eventId || !Number.isInteger(messageId) || messageId <= 0) {
+      return res.status(400).json({ message: 'Invalid event or message id' });
+    }
+
+    res.json(await eventChatService.listReplies(eventId, messageId, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch replies');
+  }
+});
+
+/**
+ * POST /api/events/:id/messages/:messageId/react
+ * Body: { emoji: string } - toggles the caller's reaction
+ */
+router.post('/:id/messages/:messageId/react', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const eventId = parseId(req);
+    const messageId = parseInt(req.params.messageId, 10);
+    if (!eventId || !Number.isInteger(messageId) || messageId <= 0) {
+      return res.status(400).json({ message: 'Invalid event or message id' });
+    }
+
+    const result = await eventChatService.toggleReaction(eventId, messageId, req.user!.id, req.body?.emoji);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    handleError(res, error, 'Failed to update reaction');
+  }
+});
+
+export default router;
@@ -0,0 +1,182 @@
+/**
+ * 🤝 Friends API Endpoints
+ *
+ * Routes for:
+ * - Listing friends and pending requests (with mutual-friend counts)
+ * - Sending, accepting and declining friend requests
+ * - Removing friends, blocking and unblocking users
+ * - Suggested friends from shared challenges
+ * - Performance comparison against friends
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { friendsService, FriendsError } from '../friendsService';
+
+const router = Router();
+
+router.use(PrivyAuthMiddleware);
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof FriendsError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+function parseRequestId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/friends
+ * Accepted friends plus pending requests in both directions
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await friendsService.listRelations(req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch friends');
+  }
+});
+
+/**
+ * GET /api/friends/requests
+ * Incoming pending requests
+ */
+router.get('/requests', async (req: Request, res: Response) => {
+  try {
+    res.json(await friendsService.listIncomingRequests(req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch friend requests');
+  }
+});
+
+/**
+ * GET /api/friends/suggestions
+ * People you've shared challenges with who aren't friends yet
+ */
+router.get('/suggestions', async (req: Request, res: Response) => {
+  try {
+    res.json(await friendsService.getSuggestions(req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch friend suggestions');
+  }
+});
+
+/**
+ * GET /api/friends/performance
+ * Win rate, P&L, level and XP compared with friends
+ */
+router.get('/performance', async (req: Request, res: Response) => {
+  try {
+    res.json(await friendsService.getPerformanceComparison(req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch performance comparison');
+  }
+});
+
+/**
+ * GET /api/friends/blocked
+ */
+router.get('/blocked', async (req: Request, res: Response) => {
+  try {
+    res.json(await friendsService.getBlockedUsers(req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch blocked users');
+  }
+});
+
+/**
+ * POST /api/friends/request/:userId
+ * Send a friend request (accepts theirs if they already asked)
+ */
+router.post('/request/:userId', async (req: Request, res: Response) => {
+  try {
+    const { relation, autoAccepted } = await friendsService.sendRequest(req.user!.id, req.params.userId);
+    res.status(autoAccepted ? 200 : 201).json({
+      success: true,
+      message: autoAccepted ? 'Friend request accepted' : 'Friend request sent',
+      friend: relation,
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to send friend request');
+  }
+});
+
+/**
+ * POST /api/friends/accept/:id
+ * Accept an incoming request by its id
+ */
+router.post('/accept/:id', async (req: Request, res: Response) => {
+  try {
+    const requestId = parseRequestId(req);
+    if (!requestId) {
+      return res.status(400).json({ error: 'Invalid request id' });
+    }
+
+    const friend = await friendsService.acceptRequest(req.user!.id, requestId);
+    res.json({ success: true, message: 'Friend request accepted', friend });
+  } catch (error) {
+    handleError(res, error, 'Failed to accept friend request');
+  }
+});
+
+/**
+ * POST /api/friends/decline/:id
+ * Decline an incoming request, or cancel one you sent
+ */
+router.post('/decline/:id', async (req: Request, res: Response) => {
+  try {
+    const requestId = parseRequestId(req);
+    if (!requestId) {
+      return res.status(400).json({ error: 'Invalid request id' });
+    }
+
+    await friendsService.declineRequest(req.user!.id, requestId);
+    res.json({ success: true, message: 'Friend request declined' });
+  } catch (error) {
+    handleError(res, error, 'Failed to decline friend request');
+  }
+});
+
+/**
+ * POST /api/friends/block/:userId
+ */
+router.post('/block/:userId', async (req: Request, res: Response) => {
+  try {
+    await friendsService.blockUser(req.user!.id, req.params.userId);
+    res.json({ success: true, message: 'User blocked' });
+  } catch (error) {
+    handleError(res, error, 'Failed to block user');
+  }
+});
+
+/**
+ * DELETE /api/friends/block/:userId
+ */
+router.delete('/block/:userId', async (req: Request, res: Response) => {
+  try {
+    await friendsService.unblockUser(req.user!.id, req.params.userId);
+    res.json({ success: true, message: 'User unblocked' });
+  } catch (error) {
+    handleError(res, error, 'Failed to unblock user');
+  }
+});
+
+/**
+ * DELETE /api/friends/:userId
+ * Remove a friend
+ */
+router.delete('/:userId', async (req: Request, res: Response) => {
+  try {
+    await friendsService.removeFriend(req.user!.id, req.params.userId);
+    res.json({ success: true, message: 'Friend removed' });
+  } catch (error) {
+    handleError(res, error, 'Failed to remove friend');
+  }
+});
+
+export default router;
@@ -6,29 +6,78 @@ import apiChallengesRouter from './api-challenges';
 import apiPayoutsRouter from './api-payouts';
 import apiPointsRouter from './api-points';
 import apiAdminResolveRouter from './api-admin-resolve';
+import apiQueueRouter from './api-queue';
+import apiDisputesRouter from './api-disputes';
+import apiChallengeFollowersRouter from './api-challenge-followers';
+import apiAdminDisputesRouter from './api-admin-disputes';
+import apiRelayerRouter from './api-relayer';
+import apiChainsRouter from './api-chains';
+import apiAdminTransactionsRouter from './api-admin-transactions';
 
 export function registerBlockchainRoutes(app: express.Application) {
+  /**
+   * Chain Registry
+   * GET /api/chains - Enabled chains with contracts, tokens and explorers
+   * GET /api/chains/:chainId - One chain
+   */
+  app.use('/api/chains', apiChainsRouter);
+
   /**
    * Challenge Operations
-   * POST /api/challenges/create-admin - Create betting pool
+   * POST /api/challenges/create-admin - Create betting pool (admin)
    * POST /api/challenges/create-p2p - Create user-to-user challenge
-   * POST /api/challenges/:id/join - Join admin challenge
-   * POST /api/challenges/:id/accept - Accept P2P challenge
+   * POST /api/challenges/:id/join - Prepare gasless group join (typed data to sign)
+   * POST /api/challenges/:id/accept - Prepare gasless P2P accept (typed data to sign)
    * GET /api/challenges/:id - Get challenge details
    * GET /api/challenges - List challenges
    * GET /api/challenges/user/:userId - Get user's challenges
    */
   app.use('/api/challenges', apiChallengesRouter);
 
+  /**
+   * Challenge Queue (Pairing Engine)
+   * POST /api/challenges/:id/queue/join - Join YES/NO queue (holds stake)
+   * POST /api/challenges/:id/queue/cancel - Leave queue & refund stake
+   * GET /api/challenges/:id/queue/status - Queue sizes & stake totals
+   * GET /api/challenges/:id/queue/user-status - Current user's queue position
+   */
+  app.use('/api/challenges', apiQueueRouter);
+
+  /**
+   * Challenge Disputes
+   * POST /api/challenges/:id/dispute - Raise dispute (participants)
+   * POST /api/challenges/:id/dispute/evidence - Add text/image/link evidence
+   * GET /api/challenges/:id/dispute - Get dispute details
+   */
+  app.use('/api/challenges', apiDisputesRouter);
+
+  /**
+   * Challenge Followers
+   * POST /api/challenges/:id/follow - Follow for lifecycle reminders
+   * DELETE /api/challenges/:id/follow - Unfollow
+   * GET /api/challenges/:id/follow - Follow state & follower count
+   */
+  app.use('/api/challenges', apiChallengeFollowersRouter);
+
   /**
    * Payout Operations
-   * POST /api/payouts/:challengeId/claim - Claim payout
+   * POST /api/payouts/:challengeId/claim - Prepare gasless claim (typed data to sign)
    * GET /api/payouts/:challengeId/status - Get payout status
    * GET /api/payouts/user/:userId - Get user's payouts
-   * POST /api/payouts/batch-claim - Batch claim multiple payouts
+   * POST /api/payouts/batch-claim - Prepare gasless claims for several challenges
    */
   app.use('/api/payouts', apiPayoutsRouter);
 
+  /**
+   * Gasless Relayer (ERC-2771 forwarder + EIP-2612 permits)
+   * GET /api/relayer/config - Availability, forwarder address, rate limit
+   * POST /api/relayer/prepare - Build ForwardRequest/permit typed data
+   * POST /api/relayer/requests/:id/submit - Submit signatures for relaying
+   * GET /api/relayer/requests/:id - Relay status
+   * GET /api/relayer/requests - User's recent relays
+   */
+  app.use('/api/relayer', apiRelayerRouter);
+
   /**
    * Points & Leaderboard Operations
    * GET /api/points/balance/:userId - Get points balance
@@ -37,7 +86,8 @@ export function registerBlockchainRoutes(app: express.Application) {
    * GET /api/points/leaderboard/:userId - User rank & stats
    * GET /api/points/history/:userId - Transaction history
    * GET /api/points/statistics - Global statistics
-   * POST /api/points/connect-wallet - Connect blockchain wallet
+   * POST /api/points/connect-wallet/nonce - Sign-In with Ethereum message to prove ownership
+   * POST /api/points/connect-wallet - Connect wallet with the signed proof
    * GET /api/points/wallets - Get user's wallets
    * POST /api/points/set-primary-wallet/:walletId - Set primary wallet
    */
@@ -52,14 +102,50 @@ export function registerBlockchainRoutes(app: express.Application) {
    * GET /api/admin/blockchain/signing-stats - Get signing status
    * POST /api/admin/challenges/verify-resolution - Verify signature
    * GET /api/admin/challenges/:id/resolution-history - Get history
+   * GET /api/admin/challenges/proposals - Resolutions in their dispute window
+   * POST /api/admin/challenges/:id/finalize - Settle an undisputed proposal
+   * POST /api/admin/challenges/:id/rule-dispute - Rule on a bonded dispute
    */
   app.use('/api/admin/challenges', apiAdminResolveRouter);
 
+  /**
+   * Admin Dispute Resolution
+   * GET /api/admin/challenges/disputes - Dispute queue
+   * GET /api/admin/challenges/disputes/:id - Dispute with audit trail
+   * POST /api/admin/challenges/:id/resolve-dispute - Rule & settle stakes
+   */
+  app.use('/api/admin/challenges', apiAdminDisputesRouter);
+
+  /**
+   * Admin Outbound Transactions (admin signer nonce/fee/confirmation tracking)
+   * GET /api/admin/blockchain/transactions - List, filter by chain/status
+   * GET /api/admin/blockchain/transactions/stats - Counts and stuck transactions
+   * GET /api/admin/blockchain/transactions/:id - One transaction with all hashes
+   * POST /api/admin/blockchain/transactions/:id/bump - Replace with higher fees
+   * POST /api/admin/blockchain/transactions/:id/cancel - Replace with a self-transfer
+   */
+  app.use('/api/admin/blockchain/transactions', apiAdminTransactionsRouter);
+
   console.log('✅ Blockchain REST API routes registered:');
+  console.log('   - /api/chains');
   console.log('   - /api/challenges');
   console.log('   - /api/payouts');
   console.log('   - /api/points');
+  console.log('   - /api/relayer');
   console.log('   - /api/admin/challenges');
+  console.log('   - /api/admin/blockchain/transactions');
 }
 
-export { apiChallengesRouter, apiPayoutsRouter, apiPointsRouter, apiAdminResolveRouter };
+export {
+  apiChallengesRouter,
+  apiQueueRouter,
+  apiDisputesRouter,
+  apiChallengeFollowersRouter,
+  apiPayoutsRouter,
+  apiPointsRouter,
+  apiAdminResolveRouter,
+  apiAdminDisputesRouter,
+  apiRelayerRouter,
+  apiChainsRouter,
+  apiAdminTransactionsRouter,
+};
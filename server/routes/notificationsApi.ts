@@ -9,21 +9,13 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { FOSMNotificationService } from '../notificationSystem';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { notificationService } from '../notificationSystem';
 import { db } from '../db';
 import { notifications, userNotificationPreferences } from '../../shared/schema';
 import { eq, and, desc, count } from 'drizzle-orm';
 
 const router = Router();
-const notificationService = new FOSMNotificationService();
-
-// Middleware to ensure user is authenticated
-const ensureAuth = (req: Request, res: Response, next: Function) => {
-  if (!req.user?.id) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  next();
-};
 
 /**
  * GET /api/notifications
@@ -33,9 +25,9 @@ const ensureAuth = (req: Request, res: Response, next: Function) => {
  * - limit: number (default: 20)
  * - offset: number (default: 0)
  */
-router.get('/', ensureAuth, async (req: Request, res: Response) => {
+router.get('/', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = parseInt(req.query.offset as string) || 0;
 
@@ -68,9 +60,9 @@ router.get('/', ensureAuth, async (req: Request, res: Response) => {
  * GET /api/notifications/unread
  * Get count of unread notifications
  */
-router.get('/unread-count', ensureAuth, async (req: Request, res: Response) => {
+router.get('/unread-count', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     const unreadCount = await db
       .select({ count: count(notifications.id) })
@@ -88,10 +80,10 @@ router.get('/unread-count', ensureAuth, async (req: Request, res: Response) => {
  * PUT /api/notifications/:id/read
  * Mark notification as read
  */
-router.put('/:id/read', ensureAuth, async (req: Request, res: Response) => {
+router.put('/:id/read', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const notificationId = req.params.id;
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     // Verify ownership
     const notification = await db
@@ -114,10 +106,10 @@ router.put('/:id/read', ensureAuth, async (req: Request, res: Response) => {
 });
 
 // Support PATCH method for clients that use PATCH instead of PUT
-router.patch('/:id/read', ensureAuth, async (req: Request, res: Response) => {
+router.patch('/:id/read', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const notificationId = req.params.id;
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     // Verify ownership
     const notification = await db
@@ -143,9 +135,9 @@ router.patch('/:id/read', ensureAuth, async (req: Request, res: Response) => {
  * PUT /api/notifications/read-all
  * Mark all notifications as read
  */
-router.put('/read-all', ensureAuth, async (req: Request, res: Response) => {
+router.put('/read-all', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     await db
       .update(notifications)
@@ -159,14 +151,32 @@ router.put('/read-all', ensureAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * DELETE /api/notifications/clear-all
+ * Delete all notifications for user
+ * (registered before /:id so it isn't captured as an id)
+ */
+router.delete('/clear-all', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    await notificationService.clearAllNotifications(userId);
+
+    res.json({ success: true, message: 'All notifications cleared' });
+  } catch (error) {
+    console.error('Error clearing notifications:', error);
+    res.status(500).json({ error: 'Failed to clear notifications' });
+  }
+});
+
 /**
  * DELETE /api/notifications/:id
  * Delete a notification
  */
-router.delete('/:id', ensureAuth, async (req: Request, res: Response) => {
+router.delete('/:id', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const notificationId = req.params.id;
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     // Verify ownership
     const notification = await db
@@ -188,30 +198,13 @@ router.delete('/:id', ensureAuth, async (req: Request, res: Response) => {
   }
 });
 
-/**
- * DELETE /api/notifications/clear-all
- * Delete all notifications for user
- */
-router.delete('/clear-all', ensureAuth, async (req: Request, res: Response) => {
-  try {
-    const userId = req.user?.id;
-
-    await notificationService.clearAllNotifications(userId);
-
-    res.json({ success: true, message: 'All notifications cleared' });
-  } catch (error) {
-    console.error('Error clearing notifications:', error);
-    res.status(500).json({ error: 'Failed to clear notifications' });
-  }
-});
-
 /**
  * GET /api/notifications/preferences
  * Get user notification preferences
  */
-router.get('/preferences', ensureAuth, async (req: Request, res: Response) => {
+router.get('/preferences', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     const prefs = await db
       .select()
@@ -249,9 +242,9 @@ router.get('/preferences', ensureAuth, async (req: Request, res: Response) => {
  * PUT /api/notifications/preferences
  * Update user notification preferences
  */
-router.put('/preferences', ensureAuth, async (req: Request, res: Response) => {
+router.put('/preferences', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const {
       enablePush,
       enableTelegram,
@@ -261,6 +254,13 @@ router.put('/preferences', ensureAuth, async (req: Request, res: Response) => {
       mutedUsers,
     } = req.body;
 
+    if (
+      notificationFrequency !== undefined &&
+      !['immediate', 'batched', 'digest'].includes(notificationFrequency)
+    ) {
+      return res.status(400).json({ error: 'notificationFrequency must be immediate, batched or digest' });
+    }
+
     await notificationService.updateUserPreferences(userId, {
       userId,
       enablePushNotifications: enablePush,
@@ -282,9 +282,9 @@ router.put('/preferences', ensureAuth, async (req: Request, res: Response) => {
  * POST /api/notifications/mute-challenge/:challengeId
  * Mute notifications for a challenge
  */
-router.post('/mute-challenge/:challengeId', ensureAuth, async (req: Request, res: Response) => {
+router.post('/mute-challenge/:challengeId', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const challengeId = req.params.challengeId;
 
     const prefs = await db
@@ -314,9 +314,9 @@ router.post('/mute-challenge/:challengeId', ensureAuth, async (req: Request, res
  * POST /api/notifications/unmute-challenge/:challengeId
  * Unmute notifications for a challenge
  */
-router.post('/unmute-challenge/:challengeId', ensureAuth, async (req: Request, res: Response) => {
+router.post('/unmute-challenge/:challengeId', PrivyAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const challengeId = req.params.challengeId;
 
     const prefs = await db
@@ -0,0 +1,160 @@
+/**
+ * 📱 Web Push API Endpoints
+ *
+ * Routes for:
+ * - Fetching the VAPID public key
+ * - Subscribing / unsubscribing a browser
+ * - Listing and removing registered devices
+ * - Sending a test push to yourself
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { webPushService, isValidSubscription, DEFAULT_PUSH_ICON, DEFAULT_PUSH_BADGE } from '../webPush';
+
+const router = Router();
+
+/**
+ * GET /api/push/vapid-public-key
+ * Public key the browser needs for pushManager.subscribe()
+ */
+router.get('/vapid-public-key', (_req: Request, res: Response) => {
+  if (!webPushService.publicKey) {
+    return res.status(503).json({ error: 'Web push is not configured' });
+  }
+
+  res.json({ publicKey: webPushService.publicKey });
+});
+
+/**
+ * POST /api/push/subscribe
+ * Save the browser's PushSubscription for the current user
+ * Body: { subscription: { endpoint, keys: { p256dh, auth } } }
+ */
+router.post('/subscribe', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { subscription } = req.body;
+
+    if (!isValidSubscription(subscription)) {
+      return res.status(400).json({ error: 'Invalid push subscription' });
+    }
+
+    const saved = await webPushService.subscribe(userId, subscription, req.get('user-agent'));
+
+    res.json({ success: true, deviceId: saved.id });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    res.status(500).json({ error: 'Failed to save push subscription' });
+  }
+});
+
+/**
+ * POST /api/push/unsubscribe
+ * Remove a subscription by endpoint (browser unsubscribe) or deviceId
+ * Body: { endpoint?: string, deviceId?: number }
+ */
+router.post('/unsubscribe', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { endpoint, deviceId } = req.body;
+
+    if (!endpoint && deviceId === undefined) {
+      return res.status(400).json({ error: 'endpoint or deviceId is required' });
+    }
+
+    const removed = await webPushService.unsubscribe(userId, {
+      endpoint,
+      subscriptionId: deviceId !== undefined ? Number(deviceId) : undefined,
+    });
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    res.json({ success: true, message: 'Push subscription removed' });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    res.status(500).json({ error: 'Failed to remove push subscription' });
+  }
+});
+
+/**
+ * GET /api/push/devices
+ * Devices registered for push by the current user
+ */
+router.get('/devices', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const devices = await webPushService.listDevices(req.user!.id);
+    res.json({ data: devices });
+  } catch (error) {
+    console.error('Error fetching push devices:', error);
+    res.status(500).json({ error: 'Failed to fetch devices' });
+  }
+});
+
+/**
+ * DELETE /api/push/devices/:id
+ * Stop push delivery to one device
+ */
+router.delete('/devices/:id', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deviceId = parseInt(req.params.id);
+
+    if (isNaN(deviceId)) {
+      return res.status(400).json({ error: 'Invalid device ID' });
+    }
+
+    const removed = await webPushService.unsubscribe(req.user!.id, { subscriptionId: deviceId });
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ success: true, message: 'Device removed' });
+  } catch (error) {
+    console.error('Error removing push device:', error);
+    res.status(500).json({ error: 'Failed to remove device' });
+  }
+});
+
+/**
+ * POST /api/push/test
+ * Send a test push to yourself, optionally to one device
+ * Body: { deviceId?: number }
+ */
+router.post('/test', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { deviceId } = req.body;
+
+    if (!webPushService.enabled) {
+      return res.status(503).json({ error: 'Web push is not configured' });
+    }
+
+    const summary = await webPushService.sendToUser(
+      userId,
+      {
+        title: 'Test Notification',
+        body: 'Push notifications are working on this device.',
+        icon: DEFAULT_PUSH_ICON,
+        badge: DEFAULT_PUSH_BADGE,
+        type: 'test',
+        data: { url: '/', type: 'test' },
+      },
+      { subscriptionIds: deviceId !== undefined ? [Number(deviceId)] : undefined }
+    );
+
+    res.json({
+      success: summary.sent > 0,
+      sent: summary.sent,
+      failed: summary.failed,
+      removed: summary.removed,
+    });
+  } catch (error) {
+    console.error('Error sending test push:', error);
+    res.status(500).json({ error: 'Failed to send test push' });
+  }
+});
+
+export default router;
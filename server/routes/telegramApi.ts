@@ -0,0 +1,223 @@
+/**
+ * ✈️ Telegram API Endpoints
+ *
+ * Routes for:
+ * - Bot status (plus the caller's link state when signed in)
+ * - Consuming one-time link tokens issued by the bot's /start
+ * - Unlinking a Telegram account
+ * - Mini App login via signed WebApp initData
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrivyAuthMiddleware } from '../privyAuth';
+import { createTelegramBot } from '../telegramBot';
+import { telegramLinkService, verifyWebAppInitData, TelegramLinkError } from '../telegramLink';
+
+const router = Router();
+
+const STATUS_CACHE_MS = 60 * 1000;
+
+// Send-only client for confirmations and status; polling runs in scripts/run-telegram-bot.ts
+const bot = createTelegramBot();
+
+interface BotStatus {
+  enabled: boolean;
+  connected: boolean;
+  message: string;
+  username?: string;
+  channelInfo?: { id: string; title?: string };
+}
+
+let cachedStatus: { status: BotStatus; checkedAt: number } | null = null;
+
+async function getBotStatus(): Promise<BotStatus> {
+  if (!bot) {
+    return { enabled: false, connected: false, message: 'Telegram bot is not configured' };
+  }
+
+  if (cachedStatus && Date.now() - cachedStatus.checkedAt < STATUS_CACHE_MS) {
+    return cachedStatus.status;
+  }
+
+  let status: BotStatus;
+  try {
+    const me = await bot.api.getMe();
+    status = { enabled: true, connected: true, message: `Connected as @${me.username}`, username: me.username };
+
+    const channelId = process.env.TELEGRAM_CHANNEL_ID;
+    if (channelId) {
+      const chat = await bot.api.getChat(channelId).catch(() => null);
+      status.channelInfo = { id: channelId, title: chat?.title };
+    }
+  } catch (error: any) {
+    status = { enabled: true, connected: false, message: error?.message || 'Telegram API unreachable' };
+  }
+
+  cachedStatus = { status, checkedAt: Date.now() };
+  return status;
+}
+
+// Best effort: a failed confirmation must not fail the request
+async function notifyTelegram(chatId: string | null | undefined, text: string) {
+  if (!bot || !chatId) return;
+  try {
+    await bot.api.sendMessage(chatId, text);
+  } catch (error: any) {
+    console.warn(`⚠️ Could not message Telegram chat ${chatId}:`, error?.message || error);
+  }
+}
+
+/**
+ * GET /api/telegram/status
+ * Bot status; includes the caller's link state when signed in
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const botStatus = await getBotStatus();
+    const link = req.isAuthenticated?.() && req.user
+      ? await telegramLinkService.getLinkStatus(req.user.id)
+      : undefined;
+
+    res.json({
+      enabled: botStatus.enabled,
+      connected: botStatus.connected,
+      bot: botStatus,
+      sync: { enabled: false, connected: false, message: 'Group message sync is not configured' },
+      ...(link && { link }),
+    });
+  } catch (error) {
+    console.error('Error fetching Telegram status:', error);
+    res.status(500).json({ error: 'Failed to fetch Telegram status' });
+  }
+});
+
+/**
+ * GET /api/telegram/verify-link?token=...
+ * Link the Telegram account behind a one-time bot token to the current user
+ * Failures the user can act on come back as { success: false, message }
+ */
+router.get('/verify-link', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    if (!token) {
+      return res.json({ success: false, message: 'Missing link token' });
+    }
+
+    const linked = await telegramLinkService.consumeLinkToken(token, req.user!.id);
+    const name = linked.telegramUsername ? `@${linked.telegramUsername}` : 'Your Telegram account';
+
+    await notifyTelegram(linked.chatId, `✅ ${name} is now linked to your Bantah account. Try /balance or /open.`);
+
+    res.json({
+      success: true,
+      message: 'Telegram account linked',
+      telegramId: linked.telegramId,
+      telegramUsername: linked.telegramUsername,
+    });
+  } catch (error: any) {
+    if (error instanceof TelegramLinkError) {
+      return res.json({ success: false, message: error.message });
+    }
+    console.error('Error verifying Telegram link:', error);
+    res.status(500).json({ error: 'Failed to link Telegram account' });
+  }
+});
+
+/**
+ * POST /api/telegram/unlink
+ * Disconnect the current user's Telegram account
+ */
+router.post('/unlink', PrivyAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const telegramId = await telegramLinkService.unlink(req.user!.id);
+
+    if (!telegramId) {
+      return res.status(400).json({ error: 'No Telegram account is linked' });
+    }
+
+    // Private chat ids equal the Telegram user id
+    await notifyTelegram(telegramId, '🔓 This Telegram account was unlinked from Bantah.');
+
+    res.json({ success: true, message: 'Telegram account unlinked' });
+  } catch (error) {
+    console.error('Error unlinking Telegram account:', error);
+    res.status(500).json({ error: 'Failed to unlink Telegram account' });
+  }
+});
+
+/**
+ * POST /api/telegram/webapp-auth
+ * Mini App login: verify initData, then sign in the linked user
+ * (or link it to the signed-in user if it isn't linked yet)
+ * Body: { initData: string }
+ */
+router.post('/webapp-auth', async (req: Request, res: Response) => {
+  try {
+    const { initData } = req.body;
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+
+    if (typeof initData !== 'string' || !initData) {
+      return res.status(400).json({ error: 'initData is required' });
+    }
+
+    if (!botToken) {
+      return res.status(503).json({ error: 'Telegram bot is not configured' });
+    }
+
+    const verified = verifyWebAppInitData(initData, botToken);
+    if (!verified) {
+      return res.status(401).json({ error: 'Invalid or expired Telegram init data' });
+    }
+
+    const identity = {
+      telegramId: String(verified.user.id),
+      telegramUsername: verified.user.username || null,
+    };
+
+    let user = await telegramLinkService.findUserByTelegramId(identity.telegramId);
+
+    if (!user && req.isAuthenticated?.() && req.user) {
+      user = await telegramLinkService.linkVerifiedIdentity(req.user.id, identity);
+    }
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        linked: false,
+        message: 'This Telegram account is not linked to Bantah yet. Send /start to the bot to link it.',
+      });
+    }
+
+    if (user.status === 'banned' || user.status === 'suspended') {
+      return res.status(403).json({ error: `Account ${user.status}` });
+    }
+
+    const sessionUser = user;
+    req.login(sessionUser, (err) => {
+      if (err) {
+        console.error('Error creating Telegram Mini App session:', err);
+        return res.status(500).json({ error: 'Failed to sign in' });
+      }
+
+      res.json({
+        success: true,
+        linked: true,
+        user: {
+          id: sessionUser.id,
+          username: sessionUser.username,
+          firstName: sessionUser.firstName,
+          telegramUsername: sessionUser.telegramUsername,
+        },
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof TelegramLinkError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error verifying Telegram Mini App login:', error);
+    res.status(500).json({ error: 'Failed to verify Telegram login' });
+  }
+});
+
+export default router;
@@ -0,0 +1,779 @@
+/**
+ * 🤖 Bantah Telegram Bot
+ * Group challenge commands on top of the coin balance of linked users
+ *
+ * Commands:
+ * - /start                        - In a private chat: get a one-time link to connect your Bantah account
+ * - /unlink                       - Disconnect this Telegram account from Bantah
+ * - /challenge @user amount title - Challenge another linked user (stake is held)
+ * - /accept [id]                  - Accept a pending challenge (latest if no id)
+ * - /decline [id]                 - Decline / withdraw a pending challenge (refunds the challenger)
+ * - /mybets                       - Your open challenges and queue entries
+ * - /balance                      - Your coin balance
+ * - /leaderboard                  - Top coin holders (group members when used in a group)
+ * - /open                         - Open admin challenges with YES/NO buttons
+ *
+ * Groups the bot sees are stored in `groups`; linked users who speak, join or
+ * leave are tracked in `group_members`. Pass `baseApiUrl` to run against a
+ * local fake Telegram API.
+ */
+
+import TelegramBot from 'node-telegram-bot-api';
+import { and, desc, eq, gt, gte, inArray, isNull, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import {
+  challenges,
+  escrow,
+  groupMembers,
+  groups,
+  pairQueue,
+  transactions,
+  users,
+  type Challenge,
+  type User,
+} from '../shared/schema';
+import { createPairingEngine, type QueueSide } from './pairingEngine';
+import { telegramLinkService } from './telegramLink';
+
+export interface TelegramBotOptions {
+  token?: string;
+  channelId?: string;       // Where new admin challenges are announced
+  baseApiUrl?: string;      // Override api.telegram.org (fake API in tests)
+  appUrl?: string;          // Used in "link your account" replies
+}
+
+export interface ParsedCommand {
+  command: string;
+  args: string;             // Everything after the command, trimmed
+}
+
+export interface ChallengeArgs {
+  username: string;
+  amount: number;
+  title: string;
+}
+
+const MAX_TITLE_LENGTH = 200;
+const LIST_LIMIT = 10;
+const OPEN_CHALLENGES_LIMIT = 5;
+const GROUP_CHAT_TYPES = ['group', 'supergroup'];
+
+/**
+ * Parse "/cmd@BotName args". Returns null for non-commands and for commands
+ * addressed to a different bot.
+ */
+export function parseCommand(text: string, botUsername?: string): ParsedCommand | null {
+  const match = text.trim().match(/^\/([a-zA-Z0-9_]+)(?:@([a-zA-Z0-9_]+))?(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, command, mention, args] = match;
+  if (mention && botUsername && mention.toLowerCase() !== botUsername.toLowerCase()) {
+    return null;
+  }
+
+  return { command: command.toLowerCase(), args: (args || '').trim() };
+}
+
+/**
+ * "@user 100 Arsenal win on Sunday" -> { username, amount, title }
+ */
+export function parseChallengeArgs(args: string): ChallengeArgs | { error: string } {
+  const match = args.match(/^@?([a-zA-Z0-9_]{3,32})\s+(\d+)\s+([\s\S]+)$/);
+  if (!match) {
+    return { error: 'Usage: /challenge @username amount title' };
+  }
+
+  const [, username, rawAmount, rawTitle] = match;
+  const amount = parseInt(rawAmount, 10);
+  const title = rawTitle.trim();
+
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    return { error: 'Amount must be a positive whole number of coins' };
+  }
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { error: `Title is too long (max ${MAX_TITLE_LENGTH} characters)` };
+  }
+
+  return { username, amount, title };
+}
+
+function displayName(user: Pick<User, 'telegramUsername' | 'username' | 'firstName'>): string {
+  if (user.telegramUsername) return `@${user.telegramUsername}`;
+  return user.username || user.firstName || 'Anonymous';
+}
+
+export class BantahTelegramBot {
+  readonly api: TelegramBot;
+  private botUsername?: string;
+  private pairingEngine = createPairingEngine(db);
+
+  constructor(token: string, private options: TelegramBotOptions = {}) {
+    this.api = new TelegramBot(token, {
+      polling: false,
+      ...(options.baseApiUrl && { baseApiUrl: options.baseApiUrl }),
+    });
+
+    this.api.on('message', (msg) => {
+      this.handleMessage(msg).catch((error) => console.error('❌ Telegram message handler failed:', error));
+    });
+    this.api.on('callback_query', (query) => {
+      this.handleCallbackQuery(query).catch((error) => console.error('❌ Telegram callback handler failed:', error));
+    });
+  }
+
+  async startPolling(): Promise<void> {
+    const me = await this.api.getMe();
+    this.botUsername = me.username;
+    await this.api.startPolling();
+    console.log(`✅ Telegram bot @${me.username} polling`);
+  }
+
+  async stopPolling(): Promise<void> {
+    await this.api.stopPolling();
+  }
+
+  /**
+   * Handle one update directly (webhooks and tests); polling goes through the emitter
+   */
+  async handleUpdate(update: TelegramBot.Update): Promise<void> {
+    if (update.message) {
+      await this.handleMessage(update.message);
+    }
+    if (update.callback_query) {
+      await this.handleCallbackQuery(update.callback_query);
+    }
+  }
+
+  async handleMessage(msg: TelegramBot.Message): Promise<void> {
+    if (GROUP_CHAT_TYPES.includes(msg.chat.type)) {
+      await this.trackGroupActivity(msg);
+    }
+
+    if (!msg.text || !msg.from || msg.from.is_bot) {
+      return;
+    }
+
+    const parsed = parseCommand(msg.text, this.botUsername);
+    if (!parsed) {
+      return;
+    }
+
+    try {
+      switch (parsed.command) {
+        case 'start':
+          if (msg.chat.type === 'private') {
+            return await this.handleStartCommand(msg);
+          }
+          return await this.reply(msg, this.helpText());
+        case 'help':
+          return await this.reply(msg, this.helpText());
+        case 'unlink': {
+          const user = await this.requireLinkedUser(msg);
+          if (!user) return;
+          await telegramLinkService.unlink(user.id);
+          return await this.reply(msg, '🔓 Your Telegram account has been unlinked from Bantah.');
+        }
+        case 'challenge':
+          return await this.handleChallengeCommand(msg, parsed.args);
+        case 'accept':
+        case 'decline': {
+          const user = await this.requireLinkedUser(msg);
+          if (!user) return;
+          const id = parsed.args ? parseInt(parsed.args, 10) : undefined;
+          if (parsed.args && isNaN(id!)) {
+            return await this.reply(msg, `Usage: /${parsed.command} [challenge id]`);
+          }
+          const text = parsed.command === 'accept'
+            ? await this.acceptChallenge(user, id)
+            : await this.declineChallenge(user, id);
+          return await this.reply(msg, text);
+        }
+        case 'mybets': {
+          const user = await this.requireLinkedUser(msg);
+          if (!user) return;
+          return await this.reply(msg, await this.describeBets(user));
+        }
+        case 'balance': {
+          const user = await this.requireLinkedUser(msg);
+          if (!user) return;
+          return await this.reply(msg, `💰 ${displayName(user)}, your balance is ${user.coins ?? 0} coins.`);
+        }
+        case 'leaderboard':
+          return await this.reply(msg, await this.describeLeaderboard(msg.chat));
+        case 'open':
+          return await this.handleOpenCommand(msg);
+        default:
+          return;
+      }
+    } catch (error) {
+      console.error(`❌ Telegram /${parsed.command} failed:`, error);
+      await this.reply(msg, '⚠️ Something went wrong. Please try again.');
+    }
+  }
+
+  /**
+   * Inline buttons: `pick:<id>:<YES|NO>`, `accept:<id>`, `decline:<id>`
+   */
+  async handleCallbackQuery(query: TelegramBot.CallbackQuery): Promise<void> {
+    const [action, rawId, rawSide] = (query.data || '').split(':');
+    const challengeId = parseInt(rawId, 10);
+
+    if (!action || isNaN(challengeId)) {
+      await this.api.answerCallbackQuery(query.id, { text: 'Unknown action' });
+      return;
+    }
+
+    const user = await this.findLinkedUser(query.from);
+    if (!user) {
+      await this.api.answerCallbackQuery(query.id, { text: this.linkPrompt(), show_alert: true });
+      return;
+    }
+
+    try {
+      let text: string;
+
+      if (action === 'pick') {
+        text = await this.pickSide(user, challengeId, rawSide as QueueSide);
+      } else if (action === 'accept') {
+        text = await this.acceptChallenge(user, challengeId);
+      } else if (action === 'decline') {
+        text = await this.declineChallenge(user, challengeId);
+      } else {
+        text = 'Unknown action';
+      }
+
+      await this.api.answerCallbackQuery(query.id, { text: text.slice(0, 200) });
+
+      // Accept/decline change the challenge for everyone in the chat
+      if (query.message && action !== 'pick') {
+        await this.api.sendMessage(query.message.chat.id, text);
+      }
+    } catch (error) {
+      console.error(`❌ Telegram callback ${query.data} failed:`, error);
+      await this.api.answerCallbackQuery(query.id, { text: '⚠️ Something went wrong', show_alert: true });
+    }
+  }
+
+  /**
+   * Post an admin challenge with YES/NO buttons (defaults to the announcement channel)
+   */
+  async announceAdminChallenge(challenge: Challenge, chatId: string | number | undefined = this.options.channelId) {
+    if (!chatId) {
+      return null;
+    }
+
+    const lines = [
+      `🔥 ${challenge.title}`,
+      `Stake: ${challenge.amount} coins · YES pool ${challenge.yesStakeTotal ?? 0} · NO pool ${challenge.noStakeTotal ?? 0}`,
+    ];
+    if (challenge.bonusSide) {
+      lines.push(`🎁 ${challenge.bonusMultiplier}x bonus on ${challenge.bonusSide}`);
+    }
+    if (challenge.dueDate) {
+      lines.push(`Ends: ${challenge.dueDate.toUTCString()}`);
+    }
+
+    return this.api.sendMessage(chatId, lines.join('\n'), {
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '✅ YES', callback_data: `pick:${challenge.id}:YES` },
+          { text: '❌ NO', callback_data: `pick:${challenge.id}:NO` },
+        ]],
+      },
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Commands
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Private /start: hand out a one-time link, unless already linked
+   */
+  private async handleStartCommand(msg: TelegramBot.Message): Promise<void> {
+    const from = msg.from!;
+    const linked = await this.findLinkedUser(from);
+
+    if (linked) {
+      await this.reply(msg, `👋 Welcome back, ${displayName(linked)}! Your account is linked.\n\n${this.helpText()}`);
+      return;
+    }
+
+    const token = await telegramLinkService.createLinkToken(
+      { telegramId: String(from.id), telegramUsername: from.username || null },
+      msg.chat.id
+    );
+    const url = telegramLinkService.getLinkUrl(token, this.options.appUrl || process.env.FRONTEND_URL);
+
+    await this.reply(
+      msg,
+      `👋 Welcome to Bantah!\n\nOpen this link and sign in to connect your Telegram account (valid for 15 minutes, single use):\n${url}`
+    );
+  }
+
+  private async handleChallengeCommand(msg: TelegramBot.Message, args: string): Promise<void> {
+    const challenger = await this.requireLinkedUser(msg);
+    if (!challenger) return;
+
+    const parsed = parseChallengeArgs(args);
+    if ('error' in parsed) {
+      await this.reply(msg, parsed.error);
+      return;
+    }
+
+    const [opponent] = await db
+      .select()
+      .from(users)
+      .where(
+        or(
+          sql`lower(${users.telegramUsername}) = ${parsed.username.toLowerCase()}`,
+          sql`lower(${users.username}) = ${parsed.username.toLowerCase()}`
+        )
+      )
+      .limit(1);
+
+    if (!opponent) {
+      await this.reply(msg, `@${parsed.username} hasn't linked a Bantah account yet.`);
+      return;
+    }
+
+    if (opponent.id === challenger.id) {
+      await this.reply(msg, "You can't challenge yourself.");
+      return;
+    }
+
+    const challenge = await db.transaction(async (tx) => {
+      // Conditional decrement: no row comes back if the balance can't cover it
+      const [holder] = await tx
+        .update(users)
+        .set({ coins: sql`${users.coins} - ${parsed.amount}` })
+        .where(and(eq(users.id, challenger.id), gte(users.coins, parsed.amount)))
+        .returning({ coins: users.coins });
+
+      if (!holder) {
+        return null;
+      }
+
+      const [created] = await tx
+        .insert(challenges)
+        .values({
+          title: parsed.title,
+          category: 'p2p',
+          amount: parsed.amount, // Stake per side
+          status: 'pending',
+          adminCreated: false,
+          challenger: challenger.id,
+          challenged: opponent.id,
+        })
+        .returning();
+
+      await this.holdStake(tx, challenger.id, created.id, parsed.amount, `Stake held for challenge #${created.id} (Telegram)`);
+
+      return created;
+    });
+
+    if (!challenge) {
+      await this.reply(msg, `Insufficient coins. Your balance is ${challenger.coins ?? 0} coins.`);
+      return;
+    }
+
+    await this.reply(
+      msg,
+      `⚔️ ${displayName(challenger)} challenged ${displayName(opponent)} to "${challenge.title}" for ${parsed.amount} coins each.\n` +
+        `${displayName(opponent)}: /accept ${challenge.id} or /decline ${challenge.id}`,
+      {
+        reply_markup: {
+          inline_keyboard: [[
+            { text: '✅ Accept', callback_data: `accept:${challenge.id}` },
+            { text: '❌ Decline', callback_data: `decline:${challenge.id}` },
+          ]],
+        },
+      }
+    );
+  }
+
+  /**
+   * Accept a pending P2P challenge as the challenged user
+   */
+  async acceptChallenge(user: User, challengeId?: number): Promise<string> {
+    const targetId = challengeId ?? (await this.latestPendingFor(user.id, 'challenged'));
+    if (!targetId) {
+      return 'You have no pending challenges to accept.';
+    }
+
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx
+        .select()
+        .from(challenges)
+        .where(eq(challenges.id, targetId))
+        .for('update');
+
+      if (!challenge) return `Challenge #${targetId} not found.`;
+      if (challenge.challenged !== user.id) return `Challenge #${targetId} wasn't sent to you.`;
+      if (challenge.status !== 'pending') return `Challenge #${targetId} is already ${challenge.status}.`;
+
+      const stake = challenge.amount;
+      const [holder] = await tx
+        .update(users)
+        .set({ coins: sql`${users.coins} - ${stake}` })
+        .where(and(eq(users.id, user.id), gte(users.coins, stake)))
+        .returning({ coins: users.coins });
+
+      if (!holder) {
+        return `Insufficient coins: challenge #${targetId} needs ${stake} coins.`;
+      }
+
+      await this.holdStake(tx, user.id, challenge.id, stake, `Stake held for challenge #${challenge.id} (Telegram)`);
+      await tx.update(challenges).set({ status: 'active' }).where(eq(challenges.id, challenge.id));
+
+      return `🤝 ${displayName(user)} accepted "${challenge.title}". ${stake * 2} coins are in escrow. Good luck!`;
+    });
+  }
+
+  /**
+   * Decline (challenged) or withdraw (challenger) a pending P2P challenge
+   */
+  async declineChallenge(user: User, challengeId?: number): Promise<string> {
+    const targetId = challengeId ?? (await this.latestPendingFor(user.id, 'challenged'));
+    if (!targetId) {
+      return 'You have no pending challenges to decline.';
+    }
+
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx
+        .select()
+        .from(challenges)
+        .where(eq(challenges.id, targetId))
+        .for('update');
+
+      if (!challenge) return `Challenge #${targetId} not found.`;
+      if (challenge.challenged !== user.id && challenge.challenger !== user.id) {
+        return `Challenge #${targetId} isn't yours.`;
+      }
+      if (challenge.status !== 'pending') return `Challenge #${targetId} is already ${challenge.status}.`;
+
+      const stake = challenge.amount;
+
+      if (challenge.challenger) {
+        await tx
+          .update(users)
+          .set({ coins: sql`${users.coins} + ${stake}` })
+          .where(eq(users.id, challenge.challenger));
+
+        await tx.insert(transactions).values({
+          userId: challenge.challenger,
+          type: 'challenge_refund',
+          amount: stake.toString(),
+          description: `Refund for declined challenge #${challenge.id}`,
+          relatedId: challenge.id,
+          status: 'completed',
+        });
+      }
+
+      await tx
+        .update(escrow)
+        .set({ status: 'refunded', releasedAt: new Date() })
+        .where(and(eq(escrow.challengeId, challenge.id), eq(escrow.status, 'holding')));
+
+      await tx.update(challenges).set({ status: 'cancelled' }).where(eq(challenges.id, challenge.id));
+
+      return challenge.challenger === user.id
+        ? `↩️ Challenge "${challenge.title}" withdrawn. ${stake} coins refunded.`
+        : `❌ ${displayName(user)} declined "${challenge.title}". The stake has been refunded.`;
+    });
+  }
+
+  /**
+   * YES/NO button on an admin challenge: join its queue with the default stake
+   */
+  async pickSide(user: User, challengeId: number, side: QueueSide): Promise<string> {
+    if (side !== 'YES' && side !== 'NO') {
+      return 'Pick YES or NO';
+    }
+
+    const [challenge] = await db
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.id, challengeId), eq(challenges.adminCreated, true)))
+      .limit(1);
+
+    if (!challenge) {
+      return 'Challenge not found';
+    }
+
+    const result = await this.pairingEngine.joinChallenge(user.id, challengeId, side, challenge.amount);
+    return result.success ? `✅ ${result.message}` : `⚠️ ${result.message}`;
+  }
+
+  private async handleOpenCommand(msg: TelegramBot.Message): Promise<void> {
+    const open = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          eq(challenges.adminCreated, true),
+          eq(challenges.status, 'open'),
+          or(isNull(challenges.dueDate), gt(challenges.dueDate, new Date()))
+        )
+      )
+      .orderBy(desc(challenges.isPinned), desc(challenges.createdAt))
+      .limit(OPEN_CHALLENGES_LIMIT);
+
+    if (open.length === 0) {
+      await this.reply(msg, 'No open challenges right now.');
+      return;
+    }
+
+    for (const challenge of open) {
+      await this.announceAdminChallenge(challenge, msg.chat.id);
+    }
+  }
+
+  private async describeBets(user: User): Promise<string> {
+    const own = await db
+      .select()
+      .from(challenges)
+      .where(
+        and(
+          or(eq(challenges.challenger, user.id), eq(challenges.challenged, user.id)),
+          inArray(challenges.status, ['pending', 'active', 'pending_admin', 'disputed'])
+        )
+      )
+      .orderBy(desc(challenges.createdAt))
+      .limit(LIST_LIMIT);
+
+    const queued = await db
+      .select({
+        challengeId: pairQueue.challengeId,
+        side: pairQueue.side,
+        stakeAmount: pairQueue.stakeAmount,
+        status: pairQueue.status,
+        title: challenges.title,
+      })
+      .from(pairQueue)
+      .innerJoin(challenges, eq(challenges.id, pairQueue.challengeId))
+      .where(and(eq(pairQueue.userId, user.id), inArray(pairQueue.status, ['waiting', 'matched'])))
+      .orderBy(desc(pairQueue.createdAt))
+      .limit(LIST_LIMIT);
+
+    if (own.length === 0 && queued.length === 0) {
+      return "You don't have any open bets. Try /open or /challenge.";
+    }
+
+    const lines = ['📋 Your bets'];
+    for (const challenge of own) {
+      const role = challenge.challenger === user.id ? 'you challenged' : 'challenged you';
+      lines.push(`#${challenge.id} "${challenge.title}" (${role}) - ${challenge.amount} coins, ${challenge.status}`);
+    }
+    for (const entry of queued) {
+      lines.push(`#${entry.challengeId} "${entry.title}" - ${entry.side} ${entry.stakeAmount} coins, ${entry.status}`);
+    }
+    return lines.join('\n');
+  }
+
+  private async describeLeaderboard(chat: TelegramBot.Chat): Promise<string> {
+    const columns = {
+      telegramUsername: users.telegramUsername,
+      username: users.username,
+      firstName: users.firstName,
+      coins: users.coins,
+    };
+
+    let leaders;
+    if (GROUP_CHAT_TYPES.includes(chat.type)) {
+      leaders = await db
+        .select(columns)
+        .from(groupMembers)
+        .innerJoin(groups, eq(groups.id, groupMembers.groupId))
+        .innerJoin(users, eq(users.id, groupMembers.userId))
+        .where(and(eq(groups.telegramId, String(chat.id)), isNull(groupMembers.leftAt)))
+        .orderBy(desc(users.coins))
+        .limit(LIST_LIMIT);
+    } else {
+      leaders = await db
+        .select(columns)
+        .from(users)
+        .where(eq(users.status, 'active'))
+        .orderBy(desc(users.coins))
+        .limit(LIST_LIMIT);
+    }
+
+    if (leaders.length === 0) {
+      return 'No one on the leaderboard yet.';
+    }
+
+    const medals = ['🥇', '🥈', '🥉'];
+    return [
+      '🏆 Leaderboard',
+      ...leaders.map((leader, i) => `${medals[i] || `${i + 1}.`} ${displayName(leader)} - ${leader.coins ?? 0} coins`),
+    ].join('\n');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Group membership
+  // ---------------------------------------------------------------------------
+
+  private async trackGroupActivity(msg: TelegramBot.Message): Promise<void> {
+    try {
+      const [group] = await db
+        .insert(groups)
+        .values({ telegramId: String(msg.chat.id), title: msg.chat.title || null, type: msg.chat.type })
+        .onConflictDoUpdate({
+          target: groups.telegramId,
+          set: { title: msg.chat.title || null, type: msg.chat.type, updatedAt: new Date() },
+        })
+        .returning();
+
+      for (const member of msg.new_chat_members || []) {
+        if (member.is_bot && this.botUsername && member.username === this.botUsername && msg.from) {
+          await db.update(groups).set({ addedBy: String(msg.from.id) }).where(eq(groups.id, group.id));
+        } else if (!member.is_bot) {
+          await this.trackMember(group.id, member);
+        }
+      }
+
+      if (msg.left_chat_member) {
+        await db
+          .update(groupMembers)
+          .set({ leftAt: new Date() })
+          .where(
+            and(
+              eq(groupMembers.groupId, group.id),
+              eq(groupMembers.telegramId, String(msg.left_chat_member.id)),
+              isNull(groupMembers.leftAt)
+            )
+          );
+      } else if (msg.from && !msg.from.is_bot) {
+        await this.trackMember(group.id, msg.from);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to track Telegram group ${msg.chat.id}:`, error);
+    }
+  }
+
+  /**
+   * Only linked users are tracked: group_members rows need a Bantah user id
+   */
+  private async trackMember(groupId: number, from: TelegramBot.User): Promise<void> {
+    const user = await this.findLinkedUser(from);
+    if (!user) {
+      return;
+    }
+
+    const telegramId = String(from.id);
+    const [existing] = await db
+      .select()
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.telegramId, telegramId)))
+      .limit(1);
+
+    if (!existing) {
+      await db.insert(groupMembers).values({
+        groupId,
+        userId: user.id,
+        telegramId,
+        username: from.username || null,
+      });
+    } else if (existing.leftAt || existing.username !== (from.username || null) || existing.userId !== user.id) {
+      await db
+        .update(groupMembers)
+        .set({ userId: user.id, username: from.username || null, leftAt: null })
+        .where(eq(groupMembers.id, existing.id));
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async findLinkedUser(from: TelegramBot.User): Promise<User | null> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.telegramId, String(from.id)))
+      .limit(1);
+
+    return user || null;
+  }
+
+  private async requireLinkedUser(msg: TelegramBot.Message): Promise<User | null> {
+    const user = msg.from ? await this.findLinkedUser(msg.from) : null;
+    if (!user) {
+      await this.reply(msg, this.linkPrompt());
+    }
+    return user;
+  }
+
+  private async latestPendingFor(userId: string, role: 'challenger' | 'challenged'): Promise<number | undefined> {
+    const [latest] = await db
+      .select({ id: challenges.id })
+      .from(challenges)
+      .where(and(eq(challenges[role], userId), eq(challenges.status, 'pending'), eq(challenges.category, 'p2p')))
+      .orderBy(desc(challenges.createdAt))
+      .limit(1);
+
+    return latest?.id;
+  }
+
+  private async holdStake(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    userId: string,
+    challengeId: number,
+    amount: number,
+    description: string
+  ): Promise<void> {
+    await tx.insert(transactions).values({
+      userId,
+      type: 'challenge_stake',
+      amount: (-amount).toString(),
+      description,
+      relatedId: challengeId,
+      status: 'completed',
+    });
+
+    await tx.insert(escrow).values({ challengeId, amount, status: 'holding' });
+  }
+
+  private linkPrompt(): string {
+    const bot = this.botUsername ? ` @${this.botUsername}` : ' the bot';
+    return `🔗 Link your Telegram account to Bantah first: send /start to${bot} in a private chat.`;
+  }
+
+  private helpText(): string {
+    return [
+      '👋 Bantah bot',
+      '/start - Link your Bantah account (private chat)',
+      '/unlink - Unlink your Telegram account',
+      '/challenge @user amount title - Challenge someone',
+      '/accept [id] - Accept a challenge',
+      '/decline [id] - Decline or withdraw a challenge',
+      '/mybets - Your open bets',
+      '/balance - Your coin balance',
+      '/leaderboard - Top players',
+      '/open - Open challenges to pick YES/NO',
+    ].join('\n');
+  }
+
+  private reply(msg: TelegramBot.Message, text: string, extra: TelegramBot.SendMessageOptions = {}) {
+    return this.api.sendMessage(msg.chat.id, text, { reply_to_message_id: msg.message_id, ...extra }).then(() => undefined);
+  }
+}
+
+/**
+ * Bot from TELEGRAM_BOT_TOKEN, or null when the bot isn't configured
+ */
+export function createTelegramBot(options: TelegramBotOptions = {}): BantahTelegramBot | null {
+  const token = options.token || process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    return null;
+  }
+
+  return new BantahTelegramBot(token, {
+    channelId: process.env.TELEGRAM_CHANNEL_ID,
+    baseApiUrl: process.env.TELEGRAM_API_URL,
+    ...options,
+  });
+}
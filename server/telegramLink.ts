@@ -0,0 +1,306 @@
+/**
+ * 🔗 Telegram Account Linking
+ * Binds `users.telegramId` / `telegramUsername` to a Bantah account
+ *
+ * - The bot issues a one-time link token on /start (private chat)
+ * - The signed-in web user opens /telegram-link?token=... which consumes it
+ * - Tokens expire after LINK_TOKEN_TTL_MS and can only be used once
+ * - A Telegram account can only be linked to one Bantah user (also enforced
+ *   by a partial unique index on users.telegram_id)
+ * - Mini App sessions are authenticated by verifying WebApp `initData`
+ */
+
+import crypto from 'crypto';
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import { db } from './db';
+import { groupMembers, telegramLinkTokens, users, type User } from '../shared/schema';
+
+export const LINK_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const WEBAPP_INIT_DATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export class TelegramLinkError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'TelegramLinkError';
+  }
+}
+
+export interface TelegramIdentity {
+  telegramId: string;
+  telegramUsername?: string | null;
+}
+
+export interface LinkResult extends TelegramIdentity {
+  userId: string;
+  chatId: string | null;
+}
+
+export interface WebAppUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface VerifiedInitData {
+  user: WebAppUser;
+  authDate: Date;
+  queryId?: string;
+}
+
+/**
+ * Check a Mini App `initData` string against the bot token
+ * (https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app).
+ * Returns the parsed payload, or null if the hash is wrong or the data is stale.
+ */
+export function verifyWebAppInitData(
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number = WEBAPP_INIT_DATA_MAX_AGE_SECONDS,
+  now: Date = new Date()
+): VerifiedInitData | null {
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+  if (!hash || !/^[a-f0-9]{64}$/i.test(hash)) {
+    return null;
+  }
+  params.delete('hash');
+
+  const dataCheckString = Array.from(params.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expected = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest();
+
+  if (!crypto.timingSafeEqual(expected, Buffer.from(hash, 'hex'))) {
+    return null;
+  }
+
+  const authDate = Number(params.get('auth_date'));
+  if (!authDate || now.getTime() / 1000 - authDate > maxAgeSeconds) {
+    return null;
+  }
+
+  let user: WebAppUser;
+  try {
+    user = JSON.parse(params.get('user') || '');
+  } catch {
+    return null;
+  }
+  if (!user || typeof user.id !== 'number') {
+    return null;
+  }
+
+  return {
+    user,
+    authDate: new Date(authDate * 1000),
+    queryId: params.get('query_id') || undefined,
+  };
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+export class TelegramLinkService {
+  /**
+   * Issue a one-time link token for a Telegram user. Older unused tokens for
+   * the same Telegram account are discarded.
+   */
+  async createLinkToken(identity: TelegramIdentity, chatId?: string | number): Promise<string> {
+    const token = crypto.randomBytes(24).toString('base64url');
+
+    await db
+      .delete(telegramLinkTokens)
+      .where(and(eq(telegramLinkTokens.telegramId, identity.telegramId), isNull(telegramLinkTokens.usedAt)));
+
+    await db.insert(telegramLinkTokens).values({
+      token,
+      telegramId: identity.telegramId,
+      telegramUsername: identity.telegramUsername || null,
+      chatId: chatId !== undefined ? String(chatId) : null,
+      expiresAt: new Date(Date.now() + LINK_TOKEN_TTL_MS),
+    });
+
+    return token;
+  }
+
+  getLinkUrl(token: string, appUrl: string | undefined = process.env.FRONTEND_URL): string {
+    return `${(appUrl || '').replace(/\/$/, '')}/telegram-link?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Consume a link token for the signed-in user
+   */
+  async consumeLinkToken(token: string, userId: string): Promise<LinkResult> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [link] = await tx
+          .select()
+          .from(telegramLinkTokens)
+          .where(eq(telegramLinkTokens.token, token))
+          .for('update');
+
+        if (!link) {
+          throw new TelegramLinkError('Invalid link. Send /start to the bot to get a new one.', 404);
+        }
+        if (link.usedAt) {
+          throw new TelegramLinkError('This link has already been used.', 410);
+        }
+        if (link.expiresAt.getTime() < Date.now()) {
+          throw new TelegramLinkError('This link has expired. Send /start to the bot to get a new one.', 410);
+        }
+
+        const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+        if (!user) {
+          throw new TelegramLinkError('User not found', 404);
+        }
+        if (user.telegramId && user.telegramId !== link.telegramId) {
+          throw new TelegramLinkError(
+            'Your Bantah account is already linked to a different Telegram account. Unlink it first.',
+            409
+          );
+        }
+
+        await this.assertTelegramIdFree(tx, link.telegramId, userId);
+
+        await tx
+          .update(users)
+          .set({
+            telegramId: link.telegramId,
+            telegramUsername: link.telegramUsername,
+            isTelegramUser: true,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, userId));
+
+        await tx
+          .update(telegramLinkTokens)
+          .set({ usedAt: new Date(), usedBy: userId })
+          .where(eq(telegramLinkTokens.id, link.id));
+
+        return {
+          userId,
+          telegramId: link.telegramId,
+          telegramUsername: link.telegramUsername,
+          chatId: link.chatId,
+        };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new TelegramLinkError('This Telegram account is already linked to another Bantah account.', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Link directly from a verified identity (Mini App opened by a signed-in user)
+   */
+  async linkVerifiedIdentity(userId: string, identity: TelegramIdentity): Promise<User> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+        if (!user) {
+          throw new TelegramLinkError('User not found', 404);
+        }
+        if (user.telegramId && user.telegramId !== identity.telegramId) {
+          throw new TelegramLinkError(
+            'Your Bantah account is already linked to a different Telegram account. Unlink it first.',
+            409
+          );
+        }
+
+        await this.assertTelegramIdFree(tx, identity.telegramId, userId);
+
+        const [updated] = await tx
+          .update(users)
+          .set({
+            telegramId: identity.telegramId,
+            telegramUsername: identity.telegramUsername || null,
+            isTelegramUser: true,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, userId))
+          .returning();
+
+        return updated;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new TelegramLinkError('This Telegram account is already linked to another Bantah account.', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the Telegram link. Returns the Telegram id that was unlinked, if any.
+   */
+  async unlink(userId: string): Promise<string | null> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .select({ telegramId: users.telegramId })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+
+      if (!user?.telegramId) {
+        return null;
+      }
+
+      await tx
+        .update(users)
+        .set({ telegramId: null, telegramUsername: null, isTelegramUser: false, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      // Group membership was tracked through the link
+      await tx
+        .update(groupMembers)
+        .set({ leftAt: new Date() })
+        .where(and(eq(groupMembers.userId, userId), isNull(groupMembers.leftAt)));
+
+      return user.telegramId;
+    });
+  }
+
+  async findUserByTelegramId(telegramId: string): Promise<User | null> {
+    const [user] = await db.select().from(users).where(eq(users.telegramId, telegramId)).limit(1);
+    return user || null;
+  }
+
+  async getLinkStatus(userId: string): Promise<{ linked: boolean; telegramId: string | null; telegramUsername: string | null }> {
+    const [user] = await db
+      .select({ telegramId: users.telegramId, telegramUsername: users.telegramUsername })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return {
+      linked: !!user?.telegramId,
+      telegramId: user?.telegramId ?? null,
+      telegramUsername: user?.telegramUsername ?? null,
+    };
+  }
+
+  private async assertTelegramIdFree(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    telegramId: string,
+    userId: string
+  ): Promise<void> {
+    const [owner] = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.telegramId, telegramId), ne(users.id, userId)))
+      .limit(1);
+
+    if (owner) {
+      throw new TelegramLinkError('This Telegram account is already linked to another Bantah account.', 409);
+    }
+  }
+}
+
+export const telegramLinkService = new TelegramLinkService();
@@ -0,0 +1,224 @@
+/**
+ * CHAIN INDEXER TEST SUITE
+ *
+ * Verifies:
+ * - Transaction classification and grouping of decoded logs
+ * - A P2P creation tx links the DB challenge and records the creator's escrow
+ * - Indexing is idempotent across passes
+ * - A reorg rolls derived rows back to the common ancestor
+ *
+ * Uses an in-memory provider; the same ChainIndexer runs against Anvil/Hardhat
+ * via scripts/run-chain-indexer.ts.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { ethers } from 'ethers';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  ChainIndexer,
+  INDEXER_EVENTS_ABI,
+  classifyTransaction,
+  groupByTransaction,
+  type DecodedEvent,
+} from '@/server/blockchain/indexer';
+import { db } from '@/server/db';
+import { challenges, users } from '@/shared/schema';
+import {
+  blockchainTransactions,
+  chainIndexerBlocks,
+  chainIndexerCheckpoints,
+  challengeEscrowRecords,
+  userWalletAddresses,
+} from '@/shared/schema-blockchain';
+
+const CHAIN_ID = 31337;
+const FACTORY = '0x00000000000000000000000000000000000000f1';
+const ESCROW = '0x00000000000000000000000000000000000000e1';
+const POINTS = '0x00000000000000000000000000000000000000a1';
+const POINTS_ESCROW = '0x00000000000000000000000000000000000000a2';
+const TOKEN = '0x00000000000000000000000000000000000000c1';
+const CREATOR = '0x1111111111111111111111111111111111111111';
+const OPPONENT = '0x2222222222222222222222222222222222222222';
+
+const iface = new ethers.Interface(INDEXER_EVENTS_ABI);
+
+interface FakeLog {
+  address: string;
+  event: string;
+  args: unknown[];
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+}
+
+/**
+ * Minimal chain: blocks are numbered 0..head, hashes derive from a fork label
+ */
+class FakeChain {
+  head = 0;
+  fork = 'a';
+  logs: FakeLog[] = [];
+
+  hashOf(n: number) {
+    return ethers.id(`${this.fork}:${n}`);
+  }
+
+  asProvider(): ethers.Provider {
+    return {
+      getBlockNumber: async () => this.head,
+      getBlock: async (n: number) =>
+        n <= this.head ? { number: n, hash: this.hashOf(n), timestamp: 1_700_000_000 + n } : null,
+      getLogs: async (filter: { fromBlock: number; toBlock: number }) =>
+        this.logs
+          .filter((log) => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock)
+          .map((log) => {
+            const encoded = iface.encodeEventLog(log.event, log.args);
+            return {
+              address: log.address,
+              topics: encoded.topics,
+              data: encoded.data,
+              blockNumber: log.blockNumber,
+              blockHash: this.hashOf(log.blockNumber),
+              transactionHash: log.transactionHash,
+              index: log.index,
+            };
+          }),
+      getTransactionReceipt: async (hash: string) => {
+        const log = this.logs.find((l) => l.transactionHash === hash);
+        return log ? { from: CREATOR, to: FACTORY, status: 1, blockNumber: log.blockNumber, gasUsed: 21000n, gasPrice: 1n } : null;
+      },
+    } as unknown as ethers.Provider;
+  }
+}
+
+describe('chain indexer helpers', () => {
+  it('should classify transactions by their events', () => {
+    expect(classifyTransaction(['StakeLocked', 'ChallengeCreatedP2P'])).toBe('challenge_create');
+    expect(classifyTransaction(['PointsAwarded', 'ChallengeResolved'])).toBe('challenge_resolve');
+    expect(classifyTransaction(['DisputeRuled', 'ChallengeResolved', 'PointsAwarded'])).toBe('challenge_resolve');
+    expect(classifyTransaction(['ResolutionProposed'])).toBe('resolution_propose');
+    expect(classifyTransaction(['ResolutionDisputed'])).toBe('resolution_dispute');
+    expect(classifyTransaction(['StakeClaimed'])).toBe('payout_claim');
+    expect(classifyTransaction(['StakeLocked'])).toBe('challenge_accept');
+    expect(classifyTransaction(['PointsLocked'])).toBe('challenge_accept');
+    expect(classifyTransaction(['PointsLocked', 'GroupChallengeJoined'])).toBe('challenge_join');
+    expect(classifyTransaction(['PointsSettled', 'PointsAwarded', 'StakeClaimed'])).toBe('payout_claim');
+    expect(classifyTransaction(['PointsAwarded'])).toBe('points_award');
+  });
+
+  it('should group events per transaction in chain order', () => {
+    const event = (tx: string, blockNumber: number, logIndex: number) =>
+      ({ transactionHash: tx, blockNumber, logIndex } as DecodedEvent);
+
+    const groups = groupByTransaction([event('0xb', 5, 0), event('0xa', 4, 1), event('0xa', 4, 0)]);
+    expect(groups.map((g) => g.map((e) => `${e.transactionHash}:${e.logIndex}`))).toEqual([['0xa:0', '0xa:1'], ['0xb:0']]);
+  });
+});
+
+describe('ChainIndexer', () => {
+  const userIds = ['indexer-user-a', 'indexer-user-b'];
+  const createTx = ethers.id('create-tx');
+  const chain = new FakeChain();
+  let challengeId: number;
+
+  const indexer = new ChainIndexer(chain.asProvider(), {
+    indexerName: 'test',
+    chainId: CHAIN_ID,
+    challengeFactoryAddress: FACTORY,
+    challengeEscrowAddress: ESCROW,
+    pointsContractAddress: POINTS,
+    pointsEscrowAddress: POINTS_ESCROW,
+    startBlock: 0,
+    confirmations: 0,
+    batchSize: 10,
+    reorgDepth: 16,
+  });
+
+  beforeAll(async () => {
+    for (const id of userIds) {
+      await db.insert(users).values({ id, email: `${id}@indexer.test`, password: 'test' }).onConflictDoNothing();
+    }
+    await db.insert(userWalletAddresses).values([
+      { userId: userIds[0], chainId: CHAIN_ID, walletAddress: CREATOR, walletType: 'metamask' },
+      { userId: userIds[1], chainId: CHAIN_ID, walletAddress: OPPONENT, walletType: 'metamask' },
+    ]);
+
+    // The API wrote the creation tx hash before the tx was mined
+    const [challenge] = await db
+      .insert(challenges)
+      .values({ title: 'Indexer P2P', category: 'p2p', amount: 20, status: 'pending', blockchainCreationTxHash: createTx })
+      .returning();
+    challengeId = challenge.id;
+
+    chain.logs.push(
+      { address: ESCROW, event: 'StakeLocked', args: [CREATOR, TOKEN, 10_000_000n, 7n], blockNumber: 3, transactionHash: createTx, index: 0 },
+      { address: FACTORY, event: 'ChallengeCreatedP2P', args: [7n, CREATOR, OPPONENT, TOKEN, 10_000_000n, 50n], blockNumber: 3, transactionHash: createTx, index: 1 },
+      // Same event shape from an unrelated contract must be ignored
+      { address: TOKEN, event: 'StakeLocked', args: [OPPONENT, TOKEN, 1n, 7n], blockNumber: 4, transactionHash: ethers.id('spoof'), index: 0 }
+    );
+    chain.head = 5;
+  });
+
+  afterAll(async () => {
+    await db.delete(chainIndexerBlocks).where(eq(chainIndexerBlocks.chainId, CHAIN_ID));
+    await db.delete(chainIndexerCheckpoints).where(eq(chainIndexerCheckpoints.chainId, CHAIN_ID));
+    await db.delete(blockchainTransactions).where(eq(blockchainTransactions.chainId, CHAIN_ID));
+    await db.delete(challengeEscrowRecords).where(eq(challengeEscrowRecords.chainId, CHAIN_ID));
+    await db.delete(userWalletAddresses).where(eq(userWalletAddresses.chainId, CHAIN_ID));
+    await db.delete(challenges).where(eq(challenges.id, challengeId));
+    await db.delete(users).where(inArray(users.id, userIds));
+  });
+
+  it('should link the challenge and record the creator escrow', async () => {
+    const result = await indexer.runOnce();
+    expect(result).toMatchObject({ fromBlock: 0, toBlock: 5, events: 2, transactions: 1, reorgedFrom: null });
+
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    expect(challenge.onChainChallengeId).toBe(7);
+    expect(challenge.onChainStatus).toBe('created');
+
+    const escrows = await db.select().from(challengeEscrowRecords).where(eq(challengeEscrowRecords.challengeId, challengeId));
+    expect(escrows).toHaveLength(1);
+    expect(escrows[0]).toMatchObject({ userId: 'indexer-user-a', status: 'locked', amountEscrowed: '10000000' });
+
+    const [tx] = await db.select().from(blockchainTransactions).where(eq(blockchainTransactions.transactionHash, createTx));
+    expect(tx).toMatchObject({ transactionType: 'challenge_create', status: 'success', challengeId, blockNumber: 3 });
+  });
+
+  it('should pick up a wallet-side accept and stay idempotent', async () => {
+    chain.logs.push({ address: ESCROW, event: 'StakeLocked', args: [OPPONENT, TOKEN, 10_000_000n, 7n], blockNumber: 6, transactionHash: ethers.id('accept-tx'), index: 0 });
+    chain.head = 7;
+
+    await indexer.runOnce();
+    await indexer.runOnce();
+
+    const escrows = await db.select().from(challengeEscrowRecords).where(eq(challengeEscrowRecords.challengeId, challengeId));
+    expect(escrows).toHaveLength(2);
+
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    expect(challenge.onChainStatus).toBe('active');
+  });
+
+  it('should roll back blocks replaced by a reorg', async () => {
+    // Blocks from 5 onwards are replaced; the accept tx is not on the new branch
+    const originalHash = chain.hashOf.bind(chain);
+    chain.hashOf = (n: number) => (n >= 5 ? ethers.id(`b:${n}`) : originalHash(n));
+    chain.logs = chain.logs.filter((log) => log.blockNumber < 5);
+    chain.head = 8;
+
+    const result = await indexer.runOnce();
+    expect(result.reorgedFrom).toBeLessThanOrEqual(5);
+
+    const escrows = await db.select().from(challengeEscrowRecords).where(eq(challengeEscrowRecords.challengeId, challengeId));
+    expect(escrows.map((e) => e.userId)).toEqual(['indexer-user-a']);
+
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    expect(challenge.onChainStatus).toBe('created');
+
+    const [acceptTx] = await db
+      .select()
+      .from(blockchainTransactions)
+      .where(eq(blockchainTransactions.transactionHash, ethers.id('accept-tx')));
+    expect(acceptTx.status).toBe('pending');
+  });
+});
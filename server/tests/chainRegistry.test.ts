@@ -0,0 +1,69 @@
+/**
+ * CHAIN REGISTRY TEST SUITE
+ *
+ * Verifies:
+ * - The default chain reads the original single-chain VITE_* variables
+ * - Extra chains are configured with CHAIN_<id>_* variables and keep canonical tokens
+ * - Token overrides and missing-setting reports
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  BASE_MAINNET_CHAIN_ID,
+  BASE_SEPOLIA_CHAIN_ID,
+  getMissingChainSettings,
+  loadChainRegistry,
+} from '@/server/blockchain/chains';
+
+const legacyEnv = {
+  VITE_BASE_TESTNET_RPC: 'https://sepolia.example',
+  VITE_POINTS_CONTRACT_ADDRESS: '0x00000000000000000000000000000000000000a1',
+  VITE_CHALLENGE_FACTORY_ADDRESS: '0x00000000000000000000000000000000000000f1',
+  VITE_POINTS_ESCROW_ADDRESS: '0x00000000000000000000000000000000000000e1',
+};
+
+describe('loadChainRegistry', () => {
+  it('should configure Base Sepolia from the legacy variables by default', () => {
+    const registry = loadChainRegistry(legacyEnv);
+
+    expect(Array.from(registry.keys())).toEqual([BASE_SEPOLIA_CHAIN_ID]);
+    const chain = registry.get(BASE_SEPOLIA_CHAIN_ID)!;
+    expect(chain.rpcUrl).toBe('https://sepolia.example');
+    expect(chain.contracts.challengeFactory).toBe(legacyEnv.VITE_CHALLENGE_FACTORY_ADDRESS);
+    expect(chain.explorerUrl).toBe('https://sepolia.basescan.org');
+    expect(getMissingChainSettings(chain)).toEqual([]);
+  });
+
+  it('should run mainnet alongside testnet from CHAIN_<id>_* variables', () => {
+    const registry = loadChainRegistry({
+      ...legacyEnv,
+      ENABLED_CHAIN_IDS: '8453, 84532',
+      CHAIN_8453_RPC_URL: 'https://mainnet.example',
+      CHAIN_8453_CHALLENGE_FACTORY_ADDRESS: '0x00000000000000000000000000000000000000f2',
+    });
+
+    expect(Array.from(registry.keys())).toEqual([BASE_MAINNET_CHAIN_ID, BASE_SEPOLIA_CHAIN_ID]);
+    const mainnet = registry.get(BASE_MAINNET_CHAIN_ID)!;
+    expect(mainnet.testnet).toBe(false);
+    expect(mainnet.rpcUrl).toBe('https://mainnet.example');
+    // Legacy variables belong to the default chain only
+    expect(mainnet.contracts.points).toBeNull();
+    expect(mainnet.tokens.map((t) => t.symbol)).toEqual(['USDC', 'USDT']);
+    expect(getMissingChainSettings(mainnet)).toEqual(['CHAIN_8453_POINTS_ADDRESS', 'CHAIN_8453_POINTS_ESCROW_ADDRESS']);
+  });
+
+  it('should always include the default chain and apply token overrides', () => {
+    const registry = loadChainRegistry({
+      DEFAULT_CHAIN_ID: '31337',
+      ENABLED_CHAIN_IDS: '84532',
+      CHAIN_31337_USDC_ADDRESS: '0x00000000000000000000000000000000000000c1',
+    });
+
+    expect(Array.from(registry.keys())).toEqual([31337, BASE_SEPOLIA_CHAIN_ID]);
+    expect(registry.get(31337)!.tokens).toEqual([
+      { symbol: 'USDC', address: '0x00000000000000000000000000000000000000c1', decimals: 6 },
+    ]);
+    // Base Sepolia is no longer the default, so it ignores VITE_* variables
+    expect(registry.get(BASE_SEPOLIA_CHAIN_ID)!.rpcUrl).toBe('https://sepolia.base.org');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * CHALLENGE LIFECYCLE TEST SUITE
+ *
+ * Verifies the scheduler's decision helpers:
+ * - Imbalance detection (threshold, minimum pool, which side needs backers)
+ * - Human-readable time-left wording for reminders
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { detectImbalance, formatTimeLeft, DEFAULT_LIFECYCLE_CONFIG } from '@/server/challengeLifecycle';
+
+describe('detectImbalance', () => {
+  it('should flag the light side when one side holds most of the pool', () => {
+    expect(detectImbalance(900, 100)).toEqual({ lightSide: 'NO', heavyShare: 0.9 });
+    expect(detectImbalance(50, 150)).toEqual({ lightSide: 'YES', heavyShare: 0.75 });
+  });
+
+  it('should ignore balanced pools', () => {
+    expect(detectImbalance(600, 400)).toBeNull();
+  });
+
+  it('should ignore pools below the minimum size', () => {
+    expect(detectImbalance(DEFAULT_LIFECYCLE_CONFIG.imbalanceMinPool - 1, 0)).toBeNull();
+  });
+
+  it('should respect a custom threshold', () => {
+    expect(detectImbalance(600, 400, { imbalanceRatio: 0.6, imbalanceMinPool: 0 })?.lightSide).toBe('NO');
+  });
+});
+
+describe('formatTimeLeft', () => {
+  it('should phrase minutes and hours', () => {
+    expect(formatTimeLeft(60 * 1000)).toBe('in 1 minute');
+    expect(formatTimeLeft(45 * 60 * 1000)).toBe('in 45 minutes');
+    expect(formatTimeLeft(60 * 60 * 1000)).toBe('in 1 hour');
+    expect(formatTimeLeft(3 * 60 * 60 * 1000)).toBe('in 3 hours');
+  });
+
+  it('should never say "in 0 minutes"', () => {
+    expect(formatTimeLeft(5 * 1000)).toBe('in 1 minute');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * CHAT MODERATION TEST SUITE
+ *
+ * Verifies the automatic screening rules:
+ * - Word filters match whole words, case-insensitively; regex filters as written
+ * - Reject filters win over hide filters
+ * - Too many links shadow-hides a message
+ * - Flooding rejects the message before any other rule runs
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compileFilter,
+  countLinks,
+  evaluateMessage,
+  ChatModerationError,
+  FLOOD_MESSAGES_PER_MINUTE,
+  MAX_LINKS_PER_MESSAGE,
+  type FilterRule,
+} from '@/server/chatModeration';
+
+const quiet = { recentMessageCount: 0 };
+
+describe('compileFilter', () => {
+  it('should match plain words as whole words, ignoring case', () => {
+    const matcher = compileFilter({ pattern: 'scam', isRegex: false });
+    expect(matcher.test('This is a SCAM!')).toBe(true);
+    expect(matcher.test('scam')).toBe(true);
+    expect(matcher.test('scampi for dinner')).toBe(false);
+  });
+
+  it('should treat regex metacharacters in plain words literally', () => {
+    expect(compileFilter({ pattern: 'a.b', isRegex: false }).test('axb')).toBe(false);
+    expect(compileFilter({ pattern: 'a.b', isRegex: false }).test('see a.b now')).toBe(true);
+  });
+
+  it('should refuse invalid regular expressions', () => {
+    expect(() => compileFilter({ pattern: '(unclosed', isRegex: true })).toThrow(ChatModerationError);
+  });
+});
+
+describe('evaluateMessage', () => {
+  const rules: FilterRule[] = [
+    { pattern: 'spoiler', isRegex: false, action: 'hide' },
+    { pattern: 'free\\s+coins?', isRegex: true, action: 'reject' },
+  ];
+
+  it('should allow ordinary messages', () => {
+    expect(evaluateMessage('Good luck everyone', quiet, rules)).toEqual({ action: 'allow', reason: null });
+  });
+
+  it('should hide or reject according to the matching filter', () => {
+    expect(evaluateMessage('Spoiler: YES wins', quiet, rules)).toEqual({ action: 'hide', reason: 'filter: spoiler' });
+    expect(evaluateMessage('spoiler: FREE  COINS here', quiet, rules).action).toBe('reject');
+  });
+
+  it('should shadow-hide link spam', () => {
+    const links = Array.from({ length: MAX_LINKS_PER_MESSAGE + 1 }, (_, i) => `https://example.com/${i}`).join(' ');
+    expect(countLinks(links)).toBe(MAX_LINKS_PER_MESSAGE + 1);
+    expect(evaluateMessage(links, quiet, [])).toEqual({ action: 'hide', reason: 'link spam' });
+    expect(evaluateMessage('see www.example.com', quiet, []).action).toBe('allow');
+  });
+
+  it('should reject flooding before looking at the text', () => {
+    const verdict = evaluateMessage('hello', { recentMessageCount: FLOOD_MESSAGES_PER_MINUTE }, []);
+    expect(verdict).toEqual({ action: 'reject', reason: 'flood' });
+    expect(evaluateMessage('hello', { recentMessageCount: FLOOD_MESSAGES_PER_MINUTE - 1 }, []).action).toBe('allow');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * DISPUTE RULING TEST SUITE
+ *
+ * Verifies how an admin ruling settles a P2P challenge, where
+ * `challenges.amount` is the stake per side:
+ * - The winner is credited both stakes minus the 5% platform fee
+ * - A draw or refund credits each side its full stake
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { eq, inArray } from 'drizzle-orm';
+import { computeDisputePayouts, disputeService } from '@/server/disputeService';
+import { db } from '@/server/db';
+import { challenges, disputeAuditLog, transactions, users } from '@/shared/schema';
+
+const STAKE = 1000;
+const STARTING_COINS = 5000;
+
+const challenger = 'test-dispute-challenger';
+const challenged = 'test-dispute-challenged';
+const testUsers = [challenger, challenged];
+
+async function coinsOf(userId: string): Promise<number> {
+  const [user] = await db.select({ coins: users.coins }).from(users).where(eq(users.id, userId));
+  return user.coins ?? 0;
+}
+
+describe('computeDisputePayouts', () => {
+  const challenge = { amount: STAKE, challenger, challenged };
+
+  it('should pay the winner the whole pot minus the platform fee', () => {
+    expect(computeDisputePayouts(challenge, 'challenged_won')).toEqual({
+      payouts: [{ userId: challenged, amount: 1900, type: 'challenge_win' }],
+      platformFee: 100,
+    });
+  });
+
+  it('should return each side its full stake on a draw or refund', () => {
+    for (const decision of ['draw', 'refund'] as const) {
+      expect(computeDisputePayouts(challenge, decision)).toEqual({
+        payouts: [
+          { userId: challenger, amount: STAKE, type: 'challenge_refund' },
+          { userId: challenged, amount: STAKE, type: 'challenge_refund' },
+        ],
+        platformFee: 0,
+      });
+    }
+  });
+});
+
+describe('DisputeService - resolveDispute credits', () => {
+  const challengeIds: number[] = [];
+
+  async function disputedChallenge(): Promise<number> {
+    const [challenge] = await db
+      .insert(challenges)
+      .values({ challenger, challenged, title: 'Dispute test', category: 'sports', amount: STAKE, status: 'active' })
+      .returning();
+    challengeIds.push(challenge.id);
+    await disputeService.raiseDispute(challenge.id, challenger, 'They reported the wrong score');
+    return challenge.id;
+  }
+
+  beforeEach(async () => {
+    for (const id of testUsers) {
+      await db
+        .insert(users)
+        .values({ id, email: `${id}@disputes.test`, password: 'test', coins: STARTING_COINS })
+        .onConflictDoUpdate({ target: users.id, set: { coins: STARTING_COINS } });
+    }
+  });
+
+  afterAll(async () => {
+    if (challengeIds.length > 0) {
+      await db.delete(disputeAuditLog).where(inArray(disputeAuditLog.challengeId, challengeIds));
+      await db.delete(challenges).where(inArray(challenges.id, challengeIds));
+    }
+    await db.delete(transactions).where(inArray(transactions.userId, testUsers));
+    await db.delete(users).where(inArray(users.id, testUsers));
+  });
+
+  it('should credit the winner both stakes minus the fee', async () => {
+    const challengeId = await disputedChallenge();
+    const { ruling } = await disputeService.resolveDispute(challengeId, 'test-admin', 'challenger_won');
+
+    expect(ruling.platformFee).toBe(100);
+    expect(await coinsOf(challenger)).toBe(STARTING_COINS + 1900);
+    expect(await coinsOf(challenged)).toBe(STARTING_COINS);
+  });
+
+  it('should give each side back its full stake on a refund', async () => {
+    const challengeId = await disputedChallenge();
+    await disputeService.resolveDispute(challengeId, 'test-admin', 'refund');
+
+    expect(await coinsOf(challenger)).toBe(STARTING_COINS + STAKE);
+    expect(await coinsOf(challenged)).toBe(STARTING_COINS + STAKE);
+  });
+});
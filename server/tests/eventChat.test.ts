@@ -0,0 +1,41 @@
+/**
+ * EVENT CHAT TEST SUITE
+ *
+ * Verifies the pure parts of the event chat:
+ * - @mentions are found once each, in order, and not inside emails
+ * - Reactions group per emoji with counts, reactors and the viewer's flag
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractMentions, summarizeReactions } from '@/server/eventChat';
+
+describe('extractMentions', () => {
+  it('should find each mentioned username once, in order', () => {
+    expect(extractMentions('@alice what do you think @bob? cc @Alice')).toEqual(['alice', 'bob']);
+  });
+
+  it('should ignore email addresses and bare @ signs', () => {
+    expect(extractMentions('mail me at carol@example.com @ noon')).toEqual([]);
+    expect(extractMentions('(@dave) @@erin')).toEqual(['dave']);
+  });
+});
+
+describe('summarizeReactions', () => {
+  const rows = [
+    { emoji: '👍', userId: 'alice' },
+    { emoji: '😂', userId: 'bob' },
+    { emoji: '👍', userId: 'bob' },
+  ];
+
+  it('should group reactions per emoji in first-reaction order', () => {
+    expect(summarizeReactions(rows, 'bob')).toEqual([
+      { emoji: '👍', count: 2, users: ['alice', 'bob'], userReacted: true },
+      { emoji: '😂', count: 1, users: ['bob'], userReacted: true },
+    ]);
+  });
+
+  it('should flag only the viewer\'s own reactions', () => {
+    expect(summarizeReactions(rows, 'alice').map((r) => r.userReacted)).toEqual([true, false]);
+    expect(summarizeReactions(rows).every((r) => !r.userReacted)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * EVENT JOIN REQUEST TEST SUITE
+ *
+ * Verifies the private event approval flow:
+ * - Requesting to join holds the entry fee from the requester's coins
+ * - Approval turns the request into a participation and fills the pools
+ * - Rejection and expiry release the hold
+ * - Only the creator can answer, and only once
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { eq, inArray } from 'drizzle-orm';
+import { eventService, EventError } from '@/server/eventService';
+import { db } from '@/server/db';
+import {
+  eventActivity,
+  eventJoinRequests,
+  eventParticipants,
+  eventPools,
+  events,
+  transactions,
+  users,
+} from '@/shared/schema';
+
+const STARTING_COINS = 1000;
+const ENTRY_FEE = 100;
+
+const creator = 'test-join-creator';
+const alice = 'test-join-alice';
+const bob = 'test-join-bob';
+const carol = 'test-join-carol';
+const testUsers = [creator, alice, bob, carol];
+
+async function coinsOf(userId: string): Promise<number> {
+  const [user] = await db.select({ coins: users.coins }).from(users).where(eq(users.id, userId));
+  return user.coins ?? 0;
+}
+
+describe('EventService - private event join requests', () => {
+  let eventId: number;
+
+  beforeAll(async () => {
+    for (const id of testUsers) {
+      await db
+        .insert(users)
+        .values({ id, email: `${id}@events.test`, password: 'test', coins: STARTING_COINS })
+        .onConflictDoUpdate({ target: users.id, set: { coins: STARTING_COINS } });
+    }
+
+    const event = await eventService.createEvent(creator, {
+      title: 'Private test event',
+      category: 'sports',
+      entryFee: ENTRY_FEE,
+      endDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      isPrivate: true,
+    });
+    eventId = event.id;
+  });
+
+  afterAll(async () => {
+    await db.delete(eventActivity).where(eq(eventActivity.eventId, eventId));
+    await db.delete(eventJoinRequests).where(eq(eventJoinRequests.eventId, eventId));
+    await db.delete(eventParticipants).where(eq(eventParticipants.eventId, eventId));
+    await db.delete(eventPools).where(eq(eventPools.eventId, eventId));
+    await db.delete(events).where(eq(events.id, eventId));
+    await db.delete(transactions).where(inArray(transactions.userId, testUsers));
+    await db.delete(users).where(inArray(users.id, testUsers));
+  });
+
+  it('should refuse direct joins on a private event', async () => {
+    await expect(eventService.joinEvent(alice, eventId, true)).rejects.toThrow(EventError);
+  });
+
+  it('should hold the entry fee when requesting to join', async () => {
+    const request = await eventService.requestToJoin(alice, eventId, true);
+
+    expect(request.status).toBe('pending');
+    expect(request.amount).toBe(ENTRY_FEE);
+    expect(await coinsOf(alice)).toBe(STARTING_COINS - ENTRY_FEE);
+    await expect(eventService.requestToJoin(alice, eventId, false)).rejects.toThrow('pending request');
+  });
+
+  it('should only show requests to the creator', async () => {
+    await expect(eventService.listJoinRequests(eventId, alice)).rejects.toThrow(EventError);
+
+    const requests = await eventService.listJoinRequests(eventId, creator);
+    expect(requests.map((r) => r.userId)).toEqual([alice]);
+    expect(requests[0].user.id).toBe(alice);
+  });
+
+  it('should turn an approved request into a participation', async () => {
+    const [request] = await eventService.listJoinRequests(eventId, creator);
+    await expect(eventService.approveJoinRequest(alice, request.id)).rejects.toThrow('Only the event creator');
+
+    const participant = await eventService.approveJoinRequest(creator, request.id);
+    expect(participant.userId).toBe(alice);
+    expect(participant.prediction).toBe(true);
+
+    const event = await eventService.getEvent(eventId);
+    expect(event.eventPool).toBe(ENTRY_FEE);
+    expect(event.yesPool).toBe(ENTRY_FEE);
+    expect(await coinsOf(alice)).toBe(STARTING_COINS - ENTRY_FEE);
+    await expect(eventService.approveJoinRequest(creator, request.id)).rejects.toThrow('already been approved');
+  });
+
+  it('should release the hold when a request is rejected', async () => {
+    const request = await eventService.requestToJoin(bob, eventId, false);
+    expect(await coinsOf(bob)).toBe(STARTING_COINS - ENTRY_FEE);
+
+    const rejected = await eventService.rejectJoinRequest(creator, request.id);
+    expect(rejected.status).toBe('rejected');
+    expect(await coinsOf(bob)).toBe(STARTING_COINS);
+    expect((await eventService.getEvent(eventId)).noPool).toBe(0);
+  });
+
+  it('should expire pending requests once the event ends', async () => {
+    await eventService.requestToJoin(carol, eventId, false);
+    expect(await coinsOf(carol)).toBe(STARTING_COINS - ENTRY_FEE);
+
+    const result = await eventService.expireJoinRequests(new Date(Date.now() + 2 * 60 * 60 * 1000));
+    expect(result.requestsExpired).toBeGreaterThanOrEqual(1);
+    expect(await coinsOf(carol)).toBe(STARTING_COINS);
+
+    const [request] = await db.select().from(eventJoinRequests).where(eq(eventJoinRequests.userId, carol));
+    expect(request.status).toBe('expired');
+  });
+});
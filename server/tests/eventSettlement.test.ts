@@ -0,0 +1,68 @@
+/**
+ * EVENT SETTLEMENT TEST SUITE
+ *
+ * Verifies how a settled prediction event's pool is split:
+ * - The creator takes 3% of the pool, winners share the rest pro-rata
+ * - The fee never eats into the winners' own stakes
+ * - The last winner takes the rounding remainder
+ * - Events without an opposing side refund every entry
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { computeEventSettlement, type EventStake } from '@/server/eventService';
+
+const stake = (userId: string, prediction: boolean, amount = 100): EventStake => ({ userId, prediction, amount });
+
+const total = (amounts: number[]) => amounts.reduce((a, b) => a + b, 0);
+
+describe('computeEventSettlement', () => {
+  it('should pay the creator fee and split the rest between winners', () => {
+    const result = computeEventSettlement(
+      [stake('alice', true), stake('bob', true), stake('carol', false), stake('dave', false)],
+      true
+    );
+
+    expect(result.refund).toBe(false);
+    expect(result.totalPool).toBe(400);
+    expect(result.creatorFee).toBe(12);
+    expect(result.payouts).toEqual([
+      { userId: 'alice', amount: 194 },
+      { userId: 'bob', amount: 194 },
+    ]);
+  });
+
+  it('should cap the fee at the losing pool', () => {
+    const stakes = Array.from({ length: 99 }, (_, i) => stake(`yes-${i}`, true, 10));
+    stakes.push(stake('no', false, 10));
+    const result = computeEventSettlement(stakes, true);
+
+    expect(result.creatorFee).toBe(10);
+    expect(result.payouts.every((p) => p.amount >= 10)).toBe(true);
+    expect(total(result.payouts.map((p) => p.amount)) + result.creatorFee).toBe(1000);
+  });
+
+  it('should give the rounding remainder to the last winner', () => {
+    const result = computeEventSettlement(
+      [stake('alice', false, 7), stake('bob', false, 7), stake('carol', false, 7), stake('dave', true, 50)],
+      false
+    );
+
+    expect(result.creatorFee).toBe(2);
+    expect(result.payouts.map((p) => p.amount)).toEqual([23, 23, 23]);
+    expect(total(result.payouts.map((p) => p.amount)) + result.creatorFee).toBe(71);
+  });
+
+  it('should refund everyone when one side is empty', () => {
+    const stakes = [stake('alice', true), stake('bob', true, 250)];
+
+    for (const outcome of [true, false]) {
+      const result = computeEventSettlement(stakes, outcome);
+      expect(result.refund).toBe(true);
+      expect(result.creatorFee).toBe(0);
+      expect(result.payouts).toEqual([
+        { userId: 'alice', amount: 100 },
+        { userId: 'bob', amount: 250 },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * FRIENDS GRAPH TEST SUITE
+ *
+ * Verifies:
+ * - Requests, acceptance and crossing requests (auto-accept)
+ * - Blocking prevents requests in either direction
+ * - Mutual-friend counts
+ * - Performance comparison win rate and P&L
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { inArray, or } from 'drizzle-orm';
+import { friendsService, FriendsError } from '@/server/friendsService';
+import { db } from '@/server/db';
+import { challengeParticipants, challenges, friends, users } from '@/shared/schema';
+
+const ids = ['friends-test-a', 'friends-test-b', 'friends-test-c', 'friends-test-d'];
+const [A, B, C, D] = ids;
+
+describe('FriendsService', () => {
+  let challengeId: number;
+
+  beforeAll(async () => {
+    for (const id of ids) {
+      await db
+        .insert(users)
+        .values({ id, email: `${id}@friends.test`, password: 'test', username: id })
+        .onConflictDoNothing();
+    }
+    await db.delete(friends).where(or(inArray(friends.requesterId, ids), inArray(friends.addresseeId, ids)));
+
+    const [challenge] = await db
+      .insert(challenges)
+      .values({ title: 'Friends stats', category: 'test', amount: 200, status: 'completed', adminCreated: true })
+      .returning();
+    challengeId = challenge.id;
+
+    await db.insert(challengeParticipants).values([
+      { challengeId, userId: A, side: 'YES', amount: 100, payoutAmount: 190, status: 'settled' },
+      { challengeId, userId: B, side: 'NO', amount: 100, payoutAmount: 0, status: 'settled' },
+    ]);
+  });
+
+  afterAll(async () => {
+    await db.delete(friends).where(or(inArray(friends.requesterId, ids), inArray(friends.addresseeId, ids)));
+    await db.delete(challengeParticipants).where(inArray(challengeParticipants.userId, ids));
+    await db.delete(challenges).where(inArray(challenges.id, [challengeId]));
+    await db.delete(users).where(inArray(users.id, ids));
+  });
+
+  it('should send and accept a request', async () => {
+    const { relation, autoAccepted } = await friendsService.sendRequest(A, B);
+    expect(autoAccepted).toBe(false);
+
+    await expect(friendsService.sendRequest(A, B)).rejects.toThrow('already sent');
+
+    const incoming = await friendsService.listIncomingRequests(B);
+    expect(incoming.map((r) => r.id)).toContain(relation.id);
+
+    const accepted = await friendsService.acceptRequest(B, relation.id);
+    expect(accepted.status).toBe('accepted');
+  });
+
+  it('should accept a crossing request instead of duplicating it', async () => {
+    await friendsService.sendRequest(C, A);
+    const { autoAccepted } = await friendsService.sendRequest(A, C);
+    expect(autoAccepted).toBe(true);
+  });
+
+  it('should count mutual friends', async () => {
+    await friendsService.sendRequest(B, C);
+    const pending = await friendsService.listIncomingRequests(C);
+    await friendsService.acceptRequest(C, pending[0].id);
+
+    // A and B share C
+    const counts = await friendsService.countMutualFriends(A, [B]);
+    expect(counts.get(B)).toBe(1);
+  });
+
+  it('should block requests in both directions', async () => {
+    await friendsService.blockUser(D, A);
+
+    await expect(friendsService.sendRequest(A, D)).rejects.toBeInstanceOf(FriendsError);
+    await expect(friendsService.sendRequest(D, A)).rejects.toThrow('Unblock');
+    expect(await friendsService.isBlocked(A, D)).toBe(true);
+
+    await friendsService.unblockUser(D, A);
+    expect(await friendsService.isBlocked(A, D)).toBe(false);
+  });
+
+  it('should compare win rate and P&L with friends', async () => {
+    const result = await friendsService.getPerformanceComparison(A);
+
+    expect(result.userStats.stats).toMatchObject({ wins: 1, losses: 0, totalBets: 1, profit: 90 });
+    expect(result.userStats.winRate).toBe(100);
+    expect(result.comparison?.totalFriends).toBe(2);
+    expect(result.comparison?.winRateRank).toBe(1);
+
+    const b = result.friendsStats.find((f) => f.id === B);
+    expect(b?.stats.profit).toBe(-100);
+  });
+});
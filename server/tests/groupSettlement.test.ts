@@ -0,0 +1,69 @@
+/**
+ * GROUP SETTLEMENT TEST SUITE
+ *
+ * Verifies the off-chain mirror of ChallengeFactory group payouts:
+ * - Winners split the losing pool pro-rata after the platform fee
+ * - The last winner takes the rounding remainder
+ * - Draws, cancellations and empty winning sides refund every stake
+ *
+ * Figures match contracts/test/GroupSettlement.t.sol.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { computeGroupEntitlements, type GroupStake } from '@/server/blockchain/groupSettlement';
+
+const stake = (userId: string, side: string, amount: number): GroupStake => ({
+  userId,
+  side,
+  amount: BigInt(amount),
+});
+
+describe('computeGroupEntitlements', () => {
+  const pool = [
+    stake('alice', 'YES', 100_000_000),
+    stake('bob', 'YES', 300_000_000),
+    stake('carol', 'NO', 200_000_000),
+    stake('dave', 'NO', 200_000_000),
+  ];
+
+  it('should split the losing pool pro-rata after the fee', () => {
+    const result = computeGroupEntitlements(pool, 'YES', BigInt(400_000));
+
+    expect(result.refund).toBe(false);
+    expect(result.winningPool).toBe(BigInt(400_000_000));
+    expect(result.losingPool).toBe(BigInt(400_000_000));
+    expect(result.entitlements.map((e) => [e.userId, e.amount])).toEqual([
+      ['alice', BigInt(199_900_000)],
+      ['bob', BigInt(599_700_000)],
+    ]);
+  });
+
+  it('should give the rounding remainder to the last winner', () => {
+    const stakes = [
+      stake('alice', 'YES', 10_000_000),
+      stake('bob', 'YES', 10_000_000),
+      stake('carol', 'YES', 10_000_000),
+      stake('dave', 'NO', 10_000_001),
+    ];
+    const fee = BigInt(10_000);
+    const result = computeGroupEntitlements(stakes, 'YES', fee);
+
+    const amounts = result.entitlements.map((e) => e.amount);
+    expect(amounts).toEqual([BigInt(13_330_000), BigInt(13_330_000), BigInt(13_330_001)]);
+    expect(amounts.reduce((a, b) => a + b) + fee).toBe(BigInt(40_000_001));
+  });
+
+  it('should refund everyone on a draw or cancellation', () => {
+    for (const outcome of ['DRAW', 'CANCELLED'] as const) {
+      const result = computeGroupEntitlements(pool, outcome, BigInt(0));
+      expect(result.refund).toBe(true);
+      expect(result.entitlements.map((e) => e.amount)).toEqual(pool.map((s) => s.amount));
+    }
+  });
+
+  it('should refund when nobody backed the winning side', () => {
+    const result = computeGroupEntitlements([stake('carol', 'NO', 5_000_000)], 'YES', BigInt(0));
+    expect(result.refund).toBe(true);
+    expect(result.entitlements).toEqual([{ userId: 'carol', stake: BigInt(5_000_000), amount: BigInt(5_000_000) }]);
+  });
+});
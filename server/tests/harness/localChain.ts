@@ -0,0 +1,518 @@
+/**
+ * LOCAL CHAIN HARNESS
+ *
+ * Throwaway chain with the full contract set and the Express app pointed at
+ * it, so integration tests can run create → join → resolve → claim with no
+ * network:
+ *
+ *   const harness = await startLocalChainHarness();
+ *   const admin = await harness.createAdmin();
+ *   const alice = await harness.signUp('alice');
+ *   ...
+ *   await harness.stop();
+ *
+ * What it does:
+ * - Starts `anvil` on a free port (or uses LOCAL_CHAIN_RPC_URL, e.g. a running
+ *   `npx hardhat node`; it must use chain id 31337 and the default mnemonic)
+ * - Deploys BantahPoints, BantahForwarder, ChallengeEscrow, ChallengeFactory,
+ *   PointsEscrow and mock USDC/USDT (EIP-2612) from the Foundry artifacts, wired
+ *   up like deploy.s.sol, and mints test stablecoins to the user accounts
+ * - Clears chain 31337 rows left by earlier runs and records the new addresses
+ *   in contract_deployments (the indexer starts from the factory's block)
+ * - Points the chain registry at the deployment and boots registerRoutes()
+ *
+ * Requirements: `forge build` output in contracts/artifacts (override with
+ * CONTRACT_ARTIFACTS_DIR), Foundry's anvil on PATH (or ANVIL_BIN), and
+ * DATABASE_URL pointing at a disposable database with the schema pushed.
+ *
+ * Accounts follow Anvil's default mnemonic: #0 deploys and signs as admin,
+ * #1 relays gasless requests, #2 onwards are handed out by signUp().
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import type { Server } from 'http';
+import express from 'express';
+import { ethers } from 'ethers';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { registerRoutes } from '../../routes';
+import { db } from '../../db';
+import { users, challenges } from '../../../shared/schema';
+import {
+  blockchainTransactions,
+  chainIndexerBlocks,
+  chainIndexerCheckpoints,
+  challengeEscrowRecords,
+  contractDeployments,
+  outboundTransactions,
+  pointsTransactions,
+  relayerRequests,
+  userWalletAddresses,
+  walletProofNonces,
+} from '../../../shared/schema-blockchain';
+import { ANVIL_CHAIN_ID, resetChainRegistry } from '../../blockchain/chains';
+import { resetBlockchainClients } from '../../blockchain/client';
+import { initializeBlockchain } from '../../blockchain/init';
+import { recordContractDeployment } from '../../blockchain/db-utils';
+import { createChainIndexer, type IndexerRunResult } from '../../blockchain/indexer';
+import type { TypedDataPayload } from '../../blockchain/relayer';
+
+export const ANVIL_MNEMONIC = 'test test test test test test test test test test test junk';
+export const STABLECOIN_DECIMALS = 6;
+
+const ADMIN_ACCOUNT = 0;
+const RELAYER_ACCOUNT = 1;
+const FIRST_USER_ACCOUNT = 2;
+const USER_ACCOUNTS = 8; // Anvil funds 10 accounts by default
+const STABLECOIN_FUNDING = ethers.parseUnits('10000', STABLECOIN_DECIMALS);
+
+const RPC_READY_TIMEOUT_MS = 15_000;
+const RELAY_TIMEOUT_MS = 30_000;
+const POLL_MS = 250;
+
+const ERC20_ABI = ['function balanceOf(address owner) external view returns (uint256)'];
+
+export interface LocalChainOptions {
+  blockTimeSeconds?: number;     // Interval mining so TX_CONFIRMATIONS (default 2) is reached
+  disputePeriodSeconds?: number; // 0 settles resolutions immediately
+}
+
+export interface LocalContracts {
+  points: string;
+  forwarder: string;
+  challengeEscrow: string;
+  challengeFactory: string;
+  pointsEscrow: string;
+  usdc: string;
+  usdt: string;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestUser {
+  id: string;
+  username: string;
+  wallet: ethers.HDNodeWallet;
+  request(method: string, urlPath: string, body?: unknown): Promise<ApiResponse>;
+}
+
+export interface LocalChainHarness {
+  chainId: number;
+  rpcUrl: string;
+  baseUrl: string;
+  provider: ethers.JsonRpcProvider;
+  contracts: LocalContracts;
+  admin: ethers.HDNodeWallet;
+  createAdmin(): Promise<TestUser>;
+  signUp(label: string): Promise<TestUser>;
+  signAndSubmit(user: TestUser, prepared: { requestId: number; forwardRequest: TypedDataPayload; permit: TypedDataPayload | null }): Promise<any>;
+  tokenBalance(token: string, owner: string): Promise<bigint>;
+  runIndexer(): Promise<IndexerRunResult>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Account #index of the default Anvil/Hardhat mnemonic
+ */
+export function getLocalAccount(index: number, provider?: ethers.Provider): ethers.HDNodeWallet {
+  const wallet = ethers.HDNodeWallet.fromPhrase(ANVIL_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+  return provider ? wallet.connect(provider) : wallet;
+}
+
+// ============================================================================
+// CHAIN
+// ============================================================================
+
+async function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForRpc(rpcUrl: string, child?: ChildProcess): Promise<void> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true });
+  const deadline = Date.now() + RPC_READY_TIMEOUT_MS;
+
+  try {
+    while (true) {
+      // No pid means spawn itself failed (ENOENT when anvil isn't on PATH)
+      if (child && (child.exitCode !== null || child.pid === undefined)) {
+        throw new Error(`anvil exited (code ${child.exitCode}); is Foundry installed?`);
+      }
+      try {
+        await provider.getBlockNumber();
+        return;
+      } catch (error) {
+        if (Date.now() >= deadline) {
+          throw new Error(`Local chain at ${rpcUrl} not ready after ${RPC_READY_TIMEOUT_MS / 1000}s`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+      }
+    }
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Start anvil (or attach to LOCAL_CHAIN_RPC_URL); stop() only ends a node we started
+ */
+export async function startLocalChain(
+  options: LocalChainOptions = {}
+): Promise<{ rpcUrl: string; stop: () => Promise<void> }> {
+  const external = process.env.LOCAL_CHAIN_RPC_URL;
+  if (external) {
+    await waitForRpc(external);
+    return { rpcUrl: external, stop: async () => {} };
+  }
+
+  const port = await getFreePort();
+  const child = spawn(
+    process.env.ANVIL_BIN || 'anvil',
+    [
+      '--port', String(port),
+      '--chain-id', String(ANVIL_CHAIN_ID),
+      '--mnemonic', ANVIL_MNEMONIC,
+      '--block-time', String(options.blockTimeSeconds ?? 1),
+      '--silent',
+    ],
+    { stdio: 'ignore' }
+  );
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+  child.once('error', (error) => console.error('Failed to start anvil:', error.message));
+
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const stop = async () => {
+    if (child.pid !== undefined && child.exitCode === null) {
+      child.kill('SIGTERM');
+      await exited;
+    }
+  };
+
+  try {
+    await waitForRpc(rpcUrl, child);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+  return { rpcUrl, stop };
+}
+
+// ============================================================================
+// CONTRACTS
+// ============================================================================
+
+function loadArtifact(file: string, contractName: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const dir = process.env.CONTRACT_ARTIFACTS_DIR || path.resolve(process.cwd(), 'contracts/artifacts');
+  const artifactPath = path.join(dir, file, `${contractName}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`Missing artifact ${artifactPath}; run \`forge build\` in contracts/ first`);
+  }
+
+  // Foundry nests the bytecode under { object }, Hardhat stores it as a string
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+  const bytecode = typeof artifact.bytecode === 'string' ? artifact.bytecode : artifact.bytecode?.object;
+  if (!bytecode || bytecode === '0x') {
+    throw new Error(`Artifact ${artifactPath} has no bytecode`);
+  }
+  return { abi: artifact.abi, bytecode };
+}
+
+/**
+ * Deploy the contract set the way deploy.s.sol does, plus mock stablecoins,
+ * and record every address in contract_deployments
+ */
+export async function deployLocalContracts(
+  rpcUrl: string,
+  options: LocalChainOptions = {}
+): Promise<LocalContracts> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true });
+  const deployer = new ethers.NonceManager(getLocalAccount(ADMIN_ACCOUNT, provider));
+  const deployerAddress = await deployer.getAddress();
+
+  const deploy = async (file: string, contractName: string, recordAs: string, args: unknown[] = []) => {
+    const { abi, bytecode } = loadArtifact(file, contractName);
+    const contract = await new ethers.ContractFactory(abi, bytecode, deployer).deploy(...args);
+    await contract.waitForDeployment();
+    const receipt = await contract.deploymentTransaction()!.wait();
+
+    await recordContractDeployment({
+      chainId: ANVIL_CHAIN_ID,
+      contractName: recordAs,
+      contractAddress: await contract.getAddress(),
+      contractVersion: 'local',
+      deploymentTxHash: receipt!.hash,
+      deployerAddress,
+      blockNumber: receipt!.blockNumber,
+      constructorArgs: JSON.stringify(args),
+      isActive: true,
+    });
+    return contract as ethers.Contract;
+  };
+  const send = async (contract: ethers.Contract, fn: string, ...args: unknown[]) => {
+    const tx = await contract[fn](...args);
+    await tx.wait();
+  };
+
+  try {
+    const points = await deploy('BantahPoints.sol', 'BantahPoints', 'BantahPoints');
+    const forwarder = await deploy('BantahForwarder.sol', 'BantahForwarder', 'BantahForwarder');
+    const challengeEscrow = await deploy('ChallengeEscrow.sol', 'ChallengeEscrow', 'ChallengeEscrow', [deployerAddress]);
+    const challengeFactory = await deploy('ChallengeFactory.sol', 'ChallengeFactory', 'ChallengeFactory', [
+      await points.getAddress(),
+      await challengeEscrow.getAddress(),
+      deployerAddress,
+      deployerAddress,
+      await forwarder.getAddress(),
+    ]);
+    await send(challengeEscrow, 'setChallengeFactory', await challengeFactory.getAddress());
+    if (options.disputePeriodSeconds) {
+      await send(challengeFactory, 'setDisputePeriod', options.disputePeriodSeconds);
+    }
+
+    const pointsEscrow = await deploy('PointsEscrow.sol', 'PointsEscrow', 'PointsEscrow', [
+      await points.getAddress(),
+      await challengeFactory.getAddress(),
+    ]);
+    await send(points, 'setPointsEscrow', await pointsEscrow.getAddress());
+    await send(challengeFactory, 'setPointsEscrow', await pointsEscrow.getAddress());
+    await send(points, 'setPointsManager', await challengeFactory.getAddress());
+
+    const usdc = await deploy('MockERC20.sol', 'MockERC20', 'USDC', ['USD Coin', 'USDC', STABLECOIN_DECIMALS]);
+    const usdt = await deploy('MockERC20.sol', 'MockERC20', 'USDT', ['Tether USD', 'USDT', STABLECOIN_DECIMALS]);
+    for (let i = FIRST_USER_ACCOUNT; i < FIRST_USER_ACCOUNT + USER_ACCOUNTS; i++) {
+      const account = getLocalAccount(i).address;
+      await send(usdc, 'mint', account, STABLECOIN_FUNDING);
+      await send(usdt, 'mint', account, STABLECOIN_FUNDING);
+    }
+
+    return {
+      points: await points.getAddress(),
+      forwarder: await forwarder.getAddress(),
+      challengeEscrow: await challengeEscrow.getAddress(),
+      challengeFactory: await challengeFactory.getAddress(),
+      pointsEscrow: await pointsEscrow.getAddress(),
+      usdc: await usdc.getAddress(),
+      usdt: await usdt.getAddress(),
+    };
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Forget everything recorded for the local chain: a fresh node reuses
+ * addresses, transaction hashes, nonces and on-chain challenge IDs
+ */
+export async function resetLocalChainState(chainId: number = ANVIL_CHAIN_ID): Promise<void> {
+  await db
+    .update(challenges)
+    .set({ onChainChallengeId: null, blockchainCreationTxHash: null, onChainStatus: 'failed' })
+    .where(and(eq(challenges.blockchainChainId, chainId), isNotNull(challenges.onChainChallengeId)));
+
+  await db.delete(relayerRequests).where(eq(relayerRequests.chainId, chainId));
+  await db.delete(outboundTransactions).where(eq(outboundTransactions.chainId, chainId));
+  await db.delete(blockchainTransactions).where(eq(blockchainTransactions.chainId, chainId));
+  await db.delete(challengeEscrowRecords).where(eq(challengeEscrowRecords.chainId, chainId));
+  await db.delete(pointsTransactions).where(eq(pointsTransactions.chainId, chainId));
+  await db.delete(userWalletAddresses).where(eq(userWalletAddresses.chainId, chainId));
+  await db.delete(walletProofNonces).where(eq(walletProofNonces.chainId, chainId));
+  await db.delete(chainIndexerBlocks).where(eq(chainIndexerBlocks.chainId, chainId));
+  await db.delete(chainIndexerCheckpoints).where(eq(chainIndexerCheckpoints.chainId, chainId));
+  await db.delete(contractDeployments).where(eq(contractDeployments.chainId, chainId));
+}
+
+/**
+ * Point the chain registry and blockchain clients at a local deployment
+ */
+export async function configureLocalChain(rpcUrl: string, contracts: LocalContracts): Promise<void> {
+  const prefix = `CHAIN_${ANVIL_CHAIN_ID}_`;
+  Object.assign(process.env, {
+    DEFAULT_CHAIN_ID: String(ANVIL_CHAIN_ID),
+    ENABLED_CHAIN_IDS: String(ANVIL_CHAIN_ID),
+    [`${prefix}RPC_URL`]: rpcUrl,
+    [`${prefix}POINTS_ADDRESS`]: contracts.points,
+    [`${prefix}CHALLENGE_FACTORY_ADDRESS`]: contracts.challengeFactory,
+    [`${prefix}POINTS_ESCROW_ADDRESS`]: contracts.pointsEscrow,
+    [`${prefix}CHALLENGE_ESCROW_ADDRESS`]: contracts.challengeEscrow,
+    [`${prefix}FORWARDER_ADDRESS`]: contracts.forwarder,
+    [`${prefix}USDC_ADDRESS`]: contracts.usdc,
+    [`${prefix}USDT_ADDRESS`]: contracts.usdt,
+    [`${prefix}ADMIN_PRIVATE_KEY`]: getLocalAccount(ADMIN_ACCOUNT).privateKey,
+    [`${prefix}ADMIN_ADDRESS`]: getLocalAccount(ADMIN_ACCOUNT).address,
+    [`${prefix}RELAYER_PRIVATE_KEY`]: getLocalAccount(RELAYER_ACCOUNT).privateKey,
+  });
+
+  resetChainRegistry();
+  resetBlockchainClients();
+  await initializeBlockchain();
+}
+
+// ============================================================================
+// APP & USERS
+// ============================================================================
+
+async function startTestApp(): Promise<{ server: Server; baseUrl: string }> {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as net.AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function createRequester(baseUrl: string, headers: () => Record<string, string>, onResponse?: (res: Response) => void) {
+  return async (method: string, urlPath: string, body?: unknown): Promise<ApiResponse> => {
+    const res = await fetch(`${baseUrl}${urlPath}`, {
+      method,
+      headers: { ...headers(), ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}) },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    onResponse?.(res);
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  };
+}
+
+/**
+ * Boot a local chain, deploy, configure and start the app
+ */
+export async function startLocalChainHarness(options: LocalChainOptions = {}): Promise<LocalChainHarness> {
+  const chain = await startLocalChain(options);
+  let server: Server | null = null;
+
+  try {
+    await resetLocalChainState();
+    const contracts = await deployLocalContracts(chain.rpcUrl, options);
+    await configureLocalChain(chain.rpcUrl, contracts);
+
+    const app = await startTestApp();
+    server = app.server;
+    const provider = new ethers.JsonRpcProvider(chain.rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true });
+    let nextAccount = FIRST_USER_ACCOUNT;
+    const runId = Date.now().toString(36);
+
+    const signUp = async (label: string): Promise<TestUser> => {
+      if (nextAccount >= FIRST_USER_ACCOUNT + USER_ACCOUNTS) {
+        throw new Error(`Only ${USER_ACCOUNTS} funded local accounts`);
+      }
+      const wallet = getLocalAccount(nextAccount++, provider);
+      let cookie = '';
+      const request = createRequester(
+        app.baseUrl,
+        (): Record<string, string> => (cookie ? { Cookie: cookie } : {}),
+        (res) => {
+          const setCookie = res.headers.get('set-cookie');
+          if (setCookie) cookie = setCookie.split(';')[0];
+        }
+      );
+
+      const username = `${label}_${runId}`;
+      const registered = await request('POST', '/api/register', {
+        email: `${username}@local.test`,
+        password: 'local-chain-password',
+        firstName: label,
+        lastName: 'Local',
+        username,
+      });
+      if (registered.status !== 201) {
+        throw new Error(`Failed to register ${username}: ${JSON.stringify(registered.body)}`);
+      }
+
+      // Wallets are only linked with a signed Sign-In with Ethereum proof
+      const proof = await request('POST', '/api/points/connect-wallet/nonce', {
+        walletAddress: wallet.address,
+        chainId: ANVIL_CHAIN_ID,
+      });
+      if (proof.status !== 201) {
+        throw new Error(`Failed to get wallet proof for ${username}: ${JSON.stringify(proof.body)}`);
+      }
+      const connected = await request('POST', '/api/points/connect-wallet', {
+        message: proof.body.message,
+        signature: await wallet.signMessage(proof.body.message),
+      });
+      if (connected.status !== 200) {
+        throw new Error(`Failed to connect wallet for ${username}: ${JSON.stringify(connected.body)}`);
+      }
+
+      return { id: registered.body.id, username, wallet, request };
+    };
+
+    const createAdmin = async (): Promise<TestUser> => {
+      const user = await signUp('admin');
+      await db.update(users).set({ isAdmin: true }).where(eq(users.id, user.id));
+
+      // adminAuth reads a Bearer admin_<userId>_<issuedAtMs> token, not the session
+      const request = createRequester(app.baseUrl, () => ({ Authorization: `Bearer admin_${user.id}_${Date.now()}` }));
+      return { ...user, request };
+    };
+
+    const signAndSubmit: LocalChainHarness['signAndSubmit'] = async (user, prepared) => {
+      const sign = (payload: TypedDataPayload) => {
+        // ethers derives EIP712Domain itself and rejects it in the types
+        const { EIP712Domain, ...types } = payload.types;
+        return user.wallet.signTypedData(payload.domain, types, payload.message);
+      };
+
+      const submitted = await user.request('POST', `/api/relayer/requests/${prepared.requestId}/submit`, {
+        signature: await sign(prepared.forwardRequest),
+        permitSignature: prepared.permit ? await sign(prepared.permit) : undefined,
+      });
+      if (submitted.status !== 202) {
+        throw new Error(`Relay submit failed: ${JSON.stringify(submitted.body)}`);
+      }
+
+      const deadline = Date.now() + RELAY_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        const { body } = await user.request('GET', `/api/relayer/requests/${prepared.requestId}`);
+        if (body?.status === 'confirmed') return body;
+        if (body?.status === 'failed' || body?.status === 'expired') {
+          throw new Error(`Relay ${prepared.requestId} ${body.status}: ${body.errorMessage}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+      }
+      throw new Error(`Relay ${prepared.requestId} not confirmed after ${RELAY_TIMEOUT_MS / 1000}s`);
+    };
+
+    const indexer = createChainIndexer({ chainId: ANVIL_CHAIN_ID, confirmations: 0 });
+    if (!indexer) {
+      throw new Error('Chain indexer could not be created for the local chain');
+    }
+
+    return {
+      chainId: ANVIL_CHAIN_ID,
+      rpcUrl: chain.rpcUrl,
+      baseUrl: app.baseUrl,
+      provider,
+      contracts,
+      admin: getLocalAccount(ADMIN_ACCOUNT, provider),
+      createAdmin,
+      signUp,
+      signAndSubmit,
+      tokenBalance: (token, owner) => new ethers.Contract(token, ERC20_ABI, provider).balanceOf(owner),
+      runIndexer: () => indexer.runOnce(),
+      stop: async () => {
+        provider.destroy();
+        await new Promise<void>((resolve) => server!.close(() => resolve()));
+        await chain.stop();
+      },
+    };
+  } catch (error) {
+    if (server) {
+      await new Promise<void>((resolve) => server!.close(() => resolve()));
+    }
+    await chain.stop();
+    throw error;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * LOCAL CHAIN INTEGRATION TEST SUITE
+ *
+ * Runs a group challenge end to end against a local chain through the REST API:
+ * - Admin opens the pool on-chain (create-admin)
+ * - Two users join opposite sides gas-free (forward request + USDC permit)
+ * - Admin resolves YES; the indexer mirrors the outcome
+ * - The winner claims stake plus the losing pool, the loser gets nothing back
+ *
+ * And a P2P challenge, with database ids kept apart from on-chain ids:
+ * - The challenger creates it from their wallet; the indexer links the row
+ * - The opponent accepts gas-free
+ * - Admin resolves for the challenger, who is paid the pot minus the 0.1% fee
+ * - The winner claims, closing the challenge on-chain
+ *
+ * Needs anvil, `forge build` artifacts and a disposable DATABASE_URL (see
+ * harness/localChain.ts); opt in with LOCAL_CHAIN_TESTS=true.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { ethers } from 'ethers';
+import { eq, inArray } from 'drizzle-orm';
+import { startLocalChainHarness, STABLECOIN_DECIMALS, type LocalChainHarness, type TestUser } from '@/server/tests/harness/localChain';
+import { getBlockchainClient } from '@/server/blockchain/client';
+import { db } from '@/server/db';
+import { challenges } from '@/shared/schema';
+
+// The server ABI's createP2PChallenge predates the contract's pointsReward argument
+const P2P_CREATOR_ABI = [
+  'function createP2PChallenge(address participant, address paymentToken, uint256 stakeAmount, uint256 pointsReward, string metadataURI) external returns (uint256)',
+];
+const APPROVE_ABI = ['function approve(address spender, uint256 amount) external returns (bool)'];
+
+const describeLocalChain = process.env.LOCAL_CHAIN_TESTS === 'true' ? describe : describe.skip;
+
+const STAKE = '25';
+const STAKE_WEI = ethers.parseUnits(STAKE, STABLECOIN_DECIMALS);
+const P2P_STATUS = { ACTIVE: 1, RESOLVED: 2, CLAIMED: 3 };
+
+describeLocalChain('group challenge on a local chain', () => {
+  let harness: LocalChainHarness;
+  let admin: TestUser;
+  let alice: TestUser;
+  let bob: TestUser;
+  let challengeId: number;
+  let onChainChallengeId: number;
+  let aliceStart: bigint;
+  let bobStart: bigint;
+
+  const getChallengeRow = async () => {
+    const [row] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    return row;
+  };
+
+  const join = async (user: TestUser, side: boolean) => {
+    const prepared = await user.request('POST', `/api/challenges/${challengeId}/join`, { side });
+    expect(prepared.status).toBe(201);
+    expect(prepared.body.permit).not.toBeNull();
+    await harness.signAndSubmit(user, prepared.body);
+  };
+
+  beforeAll(async () => {
+    harness = await startLocalChainHarness();
+    admin = await harness.createAdmin();
+    alice = await harness.signUp('alice');
+    bob = await harness.signUp('bob');
+    aliceStart = await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address);
+    bobStart = await harness.tokenBalance(harness.contracts.usdc, bob.wallet.address);
+  }, 120_000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('should create the pool on-chain from the admin signer', async () => {
+    const created = await admin.request('POST', '/api/challenges/create-admin', {
+      title: 'Local chain pool',
+      description: 'Integration test pool',
+      stakeAmount: STAKE,
+      paymentToken: harness.contracts.usdc,
+      metadataURI: 'ipfs://local-chain-pool',
+    });
+
+    expect(created.status).toBe(200);
+    expect(created.body.onChainChallengeId).not.toBeNull();
+    challengeId = created.body.challengeId;
+    onChainChallengeId = created.body.onChainChallengeId;
+
+    await harness.runIndexer();
+    const row = await getChallengeRow();
+    expect(row.onChainChallengeId).toBe(onChainChallengeId);
+    expect(row.onChainStatus).toBe('active');
+  }, 60_000);
+
+  it('should relay both joins and lock the stakes', async () => {
+    await join(alice, true);
+    await join(bob, false);
+    await harness.runIndexer();
+
+    const factory = getBlockchainClient(harness.chainId).challengeFactoryContract;
+    const participants = await factory.getGroupParticipants(onChainChallengeId);
+    expect(participants.map((p: any) => [p.user, p.side, p.stakeAmount])).toEqual([
+      [alice.wallet.address, true, STAKE_WEI],
+      [bob.wallet.address, false, STAKE_WEI],
+    ]);
+    expect(await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address)).toBe(aliceStart - STAKE_WEI);
+    expect(await harness.tokenBalance(harness.contracts.usdc, bob.wallet.address)).toBe(bobStart - STAKE_WEI);
+  }, 90_000);
+
+  it('should resolve the pool for YES', async () => {
+    const resolved = await admin.request('POST', '/api/admin/challenges/resolve-group', {
+      challengeId,
+      outcome: 'YES',
+      pointsAwarded: 50,
+    });
+
+    expect(resolved.status).toBe(200);
+    expect(resolved.body.onChainStatus).toBe('resolved');
+
+    await harness.runIndexer();
+    expect((await getChallengeRow()).onChainStatus).toBe('resolved');
+  }, 60_000);
+
+  it('should pay the winner stake plus the losing pool', async () => {
+    const factory = getBlockchainClient(harness.chainId).challengeFactoryContract;
+    const claimable: bigint = await factory.getGroupClaimable(onChainChallengeId, alice.wallet.address);
+    expect(claimable).toBeGreaterThan(STAKE_WEI);
+    expect(claimable).toBeLessThanOrEqual(STAKE_WEI * BigInt(2));
+
+    const prepared = await alice.request('POST', `/api/payouts/${challengeId}/claim`);
+    expect(prepared.status).toBe(201);
+    expect(prepared.body.permit).toBeNull();
+    await harness.signAndSubmit(alice, prepared.body);
+    await harness.runIndexer();
+
+    expect(await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address)).toBe(
+      aliceStart - STAKE_WEI + claimable
+    );
+    expect(await factory.getGroupClaimable(onChainChallengeId, alice.wallet.address)).toBe(BigInt(0));
+    expect(await factory.getGroupClaimable(onChainChallengeId, bob.wallet.address)).toBe(BigInt(0));
+  }, 90_000);
+});
+
+describeLocalChain('P2P challenge on a local chain', () => {
+  let harness: LocalChainHarness;
+  let admin: TestUser;
+  let alice: TestUser;
+  let bob: TestUser;
+  let fillerIds: number[] = [];
+  let challengeId: number;
+  let onChainChallengeId: number;
+  let aliceStart: bigint;
+  let bobStart: bigint;
+
+  const getChallengeRow = async () => {
+    const [row] = await db.select().from(challenges).where(eq(challenges.id, challengeId));
+    return row;
+  };
+
+  const getOnChain = () =>
+    getBlockchainClient(harness.chainId).challengeFactoryContract.getChallenge(onChainChallengeId);
+
+  beforeAll(async () => {
+    harness = await startLocalChainHarness();
+    admin = await harness.createAdmin();
+    alice = await harness.signUp('alice');
+    bob = await harness.signUp('bob');
+    aliceStart = await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address);
+    bobStart = await harness.tokenBalance(harness.contracts.usdc, bob.wallet.address);
+
+    // The fresh chain numbers challenges from 1, so push the database ids past it
+    const fillers = await db
+      .insert(challenges)
+      .values([1, 2].map((n) => ({ title: `Off-chain filler ${n}`, category: 'p2p', amount: 0 })))
+      .returning({ id: challenges.id });
+    fillerIds = fillers.map((f) => f.id);
+  }, 120_000);
+
+  afterAll(async () => {
+    if (fillerIds.length) {
+      await db.delete(challenges).where(inArray(challenges.id, fillerIds));
+    }
+    await harness?.stop();
+  });
+
+  it('should link the P2P challenge created from the challenger wallet', async () => {
+    const factoryAddress = harness.contracts.challengeFactory;
+    const usdc = new ethers.Contract(harness.contracts.usdc, APPROVE_ABI, alice.wallet);
+    await (await usdc.approve(factoryAddress, STAKE_WEI)).wait();
+
+    const factory = new ethers.Contract(factoryAddress, P2P_CREATOR_ABI, alice.wallet);
+    const tx = await factory.createP2PChallenge(bob.wallet.address, harness.contracts.usdc, STAKE_WEI, 50, 'ipfs://local-chain-p2p');
+    await tx.wait();
+
+    // The row create-p2p records for the creation transaction
+    const [row] = await db
+      .insert(challenges)
+      .values({
+        title: 'Local chain P2P',
+        description: 'Integration test P2P',
+        category: 'p2p',
+        amount: parseInt(STAKE) * 2,
+        status: 'pending',
+        adminCreated: false,
+        challenger: alice.id,
+        challenged: bob.id,
+        blockchainChainId: harness.chainId,
+        blockchainContractAddress: factoryAddress,
+        blockchainCreationTxHash: tx.hash,
+        paymentTokenAddress: harness.contracts.usdc,
+        stakeAmountWei: STAKE_WEI,
+        onChainStatus: 'pending',
+      })
+      .returning();
+    challengeId = row.id;
+
+    await harness.runIndexer();
+    const linked = await getChallengeRow();
+    expect(linked.onChainChallengeId).not.toBeNull();
+    expect(linked.onChainStatus).toBe('created');
+    onChainChallengeId = linked.onChainChallengeId!;
+    expect(challengeId).not.toBe(onChainChallengeId);
+    expect(await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address)).toBe(aliceStart - STAKE_WEI);
+  }, 60_000);
+
+  it('should relay the opponent accept and lock their stake', async () => {
+    const prepared = await bob.request('POST', `/api/challenges/${challengeId}/accept`);
+    expect(prepared.status).toBe(201);
+    expect(prepared.body.permit).not.toBeNull();
+    await harness.signAndSubmit(bob, prepared.body);
+    await harness.runIndexer();
+
+    expect(Number((await getOnChain()).status)).toBe(P2P_STATUS.ACTIVE);
+    expect(await harness.tokenBalance(harness.contracts.usdc, bob.wallet.address)).toBe(bobStart - STAKE_WEI);
+  }, 90_000);
+
+  it('should resolve the on-chain challenge behind the database id', async () => {
+    const resolved = await admin.request('POST', '/api/admin/challenges/resolve', {
+      challengeId,
+      winner: alice.wallet.address,
+      pointsAwarded: 50,
+    });
+
+    expect(resolved.status).toBe(200);
+    expect((await getChallengeRow()).onChainStatus).toBe('resolved');
+
+    const onChain = await getOnChain();
+    expect(Number(onChain.status)).toBe(P2P_STATUS.RESOLVED);
+    expect(onChain.winner).toBe(alice.wallet.address);
+
+    const pot = STAKE_WEI * BigInt(2);
+    const fee = (pot * BigInt(10)) / BigInt(10000);
+    expect(await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address)).toBe(aliceStart - STAKE_WEI + pot - fee);
+    expect(await harness.tokenBalance(harness.contracts.usdc, bob.wallet.address)).toBe(bobStart - STAKE_WEI);
+    expect(await harness.tokenBalance(harness.contracts.usdc, harness.contracts.challengeFactory)).toBe(fee);
+  }, 60_000);
+
+  it('should let the winner claim gas-free', async () => {
+    const before = await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address);
+
+    const prepared = await alice.request('POST', `/api/payouts/${challengeId}/claim`);
+    expect(prepared.status).toBe(201);
+    expect(prepared.body.permit).toBeNull();
+    await harness.signAndSubmit(alice, prepared.body);
+    await harness.runIndexer();
+
+    expect(Number((await getOnChain()).status)).toBe(P2P_STATUS.CLAIMED);
+    // The pot was paid at resolution; claiming only closes the challenge
+    expect(await harness.tokenBalance(harness.contracts.usdc, alice.wallet.address)).toBe(before);
+  }, 90_000);
+});
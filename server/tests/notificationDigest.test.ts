@@ -0,0 +1,192 @@
+/**
+ * NOTIFICATION DIGEST TEST SUITE
+ *
+ * Verifies the hold → flush round trip:
+ * - Non-urgent sends for batched/digest users are held, not delivered
+ * - Nothing is flushed until the oldest held notification has waited a full cadence
+ * - A flush sends one summary and marks every held row delivered
+ * - A single held notification goes out as itself
+ * - Users back on immediate delivery are flushed on the next tick
+ * - A summary that fails to send leaves everything held; a muted one does not
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import {
+  NotificationDigestScheduler,
+  countByEvent,
+  summarizeHeldNotifications,
+} from '@/server/notificationDigest';
+import {
+  notificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+} from '@/server/notificationSystem';
+import { db } from '@/server/db';
+import { heldNotifications, notifications, userNotificationPreferences } from '@/shared/schema';
+
+const HOUR = 60 * 60 * 1000;
+
+const digestUser = 'test-digest-daily';
+const batchedUser = 'test-digest-batched';
+const testUsers = [digestUser, batchedUser];
+
+function hold(userId: string, event: NotificationEvent, challengeId = '') {
+  return notificationService.send({
+    userId,
+    challengeId,
+    event,
+    title: `Held ${event}`,
+    body: `Body for ${event}`,
+    channels: [NotificationChannel.IN_APP],
+    priority: NotificationPriority.MEDIUM,
+  });
+}
+
+async function pendingFor(userId: string) {
+  return db
+    .select()
+    .from(heldNotifications)
+    .where(and(eq(heldNotifications.userId, userId), isNull(heldNotifications.deliveredAt)));
+}
+
+async function feedOf(userId: string) {
+  return db.select().from(notifications).where(eq(notifications.userId, userId));
+}
+
+async function clear() {
+  await db.delete(notifications).where(inArray(notifications.userId, testUsers));
+  await db.delete(heldNotifications).where(inArray(heldNotifications.userId, testUsers));
+  await db.delete(userNotificationPreferences).where(inArray(userNotificationPreferences.userId, testUsers));
+}
+
+describe('summarizeHeldNotifications', () => {
+  it('should count events most frequent first, with singular and plural wording', () => {
+    const items = [
+      { event: NotificationEvent.CHALLENGE_ENDING_SOON },
+      { event: NotificationEvent.BONUS_ACTIVATED },
+      { event: NotificationEvent.BONUS_ACTIVATED },
+      { event: 'unknown.event' },
+    ];
+
+    expect(countByEvent(items)).toEqual([
+      { event: NotificationEvent.BONUS_ACTIVATED, count: 2 },
+      { event: NotificationEvent.CHALLENGE_ENDING_SOON, count: 1 },
+      { event: 'unknown.event', count: 1 },
+    ]);
+    expect(summarizeHeldNotifications(items)).toBe('2 bonuses activated, 1 challenge ending soon, 1 update');
+  });
+});
+
+describe('NotificationDigestScheduler', () => {
+  const scheduler = new NotificationDigestScheduler({
+    batchIntervalMs: HOUR / 4,
+    digestIntervalMs: 24 * HOUR,
+    tickMs: 60 * 1000,
+  });
+
+  beforeEach(async () => {
+    await clear();
+    await notificationService.updateUserPreferences(digestUser, { userId: digestUser, notificationFrequency: 'digest' });
+    await notificationService.updateUserPreferences(batchedUser, { userId: batchedUser, notificationFrequency: 'batched' });
+  });
+
+  afterAll(clear);
+
+  it('should hold non-urgent sends instead of delivering them', async () => {
+    expect(await hold(digestUser, NotificationEvent.BONUS_ACTIVATED)).toBe(true);
+
+    expect(await pendingFor(digestUser)).toHaveLength(1);
+    expect(await feedOf(digestUser)).toHaveLength(0);
+  });
+
+  it('should wait out the cadence, then roll everything into one summary', async () => {
+    await hold(digestUser, NotificationEvent.BONUS_ACTIVATED, '3');
+    await hold(digestUser, NotificationEvent.BONUS_ACTIVATED, '4');
+    await hold(digestUser, NotificationEvent.CHALLENGE_ENDING_SOON, '5');
+
+    await scheduler.flushDue(new Date(Date.now() + HOUR));
+    expect(await pendingFor(digestUser)).toHaveLength(3);
+    expect(await feedOf(digestUser)).toHaveLength(0);
+
+    await scheduler.flushDue(new Date(Date.now() + 25 * HOUR));
+    expect(await pendingFor(digestUser)).toHaveLength(0);
+
+    const feed = await feedOf(digestUser);
+    expect(feed).toHaveLength(1);
+    expect(feed[0]).toMatchObject({
+      type: NotificationEvent.NOTIFICATION_DIGEST,
+      title: '📬 3 updates while you were away',
+      message: '2 bonuses activated, 1 challenge ending soon',
+    });
+    expect((feed[0].data as any).url).toBe('/');
+    expect((feed[0].data as any).heldIds).toHaveLength(3);
+  });
+
+  it('should use the shorter cadence for batched users', async () => {
+    await hold(batchedUser, NotificationEvent.BONUS_EXPIRING);
+
+    await scheduler.flushDue(new Date(Date.now() + 5 * 60 * 1000));
+    expect(await pendingFor(batchedUser)).toHaveLength(1);
+
+    await scheduler.flushDue(new Date(Date.now() + HOUR / 2));
+    expect(await pendingFor(batchedUser)).toHaveLength(0);
+  });
+
+  it('should send a single held notification as itself', async () => {
+    await hold(batchedUser, NotificationEvent.CHALLENGE_STARTING_SOON, '9');
+
+    expect(await scheduler.flushUser(batchedUser)).toBe(1);
+
+    const [sent] = await feedOf(batchedUser);
+    expect(sent).toMatchObject({
+      type: NotificationEvent.NOTIFICATION_DIGEST,
+      title: `Held ${NotificationEvent.CHALLENGE_STARTING_SOON}`,
+    });
+    expect((sent.data as any).challengeId).toBe('9');
+    expect(await scheduler.flushUser(batchedUser)).toBe(0);
+  });
+
+  it('should flush users who switched back to immediate on the next tick', async () => {
+    await hold(digestUser, NotificationEvent.BONUS_ACTIVATED);
+    await notificationService.updateUserPreferences(digestUser, { userId: digestUser, notificationFrequency: 'immediate' });
+
+    await scheduler.flushDue();
+
+    expect(await pendingFor(digestUser)).toHaveLength(0);
+    expect(await feedOf(digestUser)).toHaveLength(1);
+  });
+
+  it('should keep notifications held when the summary fails to send', async () => {
+    await hold(batchedUser, NotificationEvent.BONUS_ACTIVATED);
+    await hold(batchedUser, NotificationEvent.BONUS_EXPIRING);
+
+    const save = jest.spyOn(notificationService as any, 'saveToDatabase').mockRejectedValue(new Error('database down'));
+    try {
+      expect(await scheduler.flushUser(batchedUser)).toBe(0);
+    } finally {
+      save.mockRestore();
+    }
+    expect(await pendingFor(batchedUser)).toHaveLength(2);
+
+    // The next tick retries
+    expect(await scheduler.flushUser(batchedUser)).toBe(2);
+    expect(await pendingFor(batchedUser)).toHaveLength(0);
+    expect(await feedOf(batchedUser)).toHaveLength(1);
+  });
+
+  it('should treat a muted summary as delivered', async () => {
+    await hold(batchedUser, NotificationEvent.BONUS_ACTIVATED);
+
+    notificationService.muteEvent(NotificationEvent.NOTIFICATION_DIGEST, 5);
+    try {
+      expect(await scheduler.flushUser(batchedUser)).toBe(1);
+    } finally {
+      notificationService.unmuteEvent(NotificationEvent.NOTIFICATION_DIGEST);
+    }
+
+    expect(await pendingFor(batchedUser)).toHaveLength(0);
+    expect(await feedOf(batchedUser)).toHaveLength(0);
+  });
+});
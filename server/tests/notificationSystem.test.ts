@@ -0,0 +1,187 @@
+/**
+ * NOTIFICATION SYSTEM TEST SUITE
+ *
+ * Verifies what FOSMNotificationService.send lets through:
+ * - Stored preferences: partial updates, muted challenges/users, switched-off channels
+ * - Batched/digest users have non-urgent sends held instead of delivered
+ * - The per-minute throttle, which CRITICAL_EVENTS skip
+ * - Admin event mutes, and admin broadcasts reaching throttled and digest users
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  FOSMNotificationService,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPriority,
+  DEFAULT_PREFERENCES,
+  type NotificationPayload,
+} from '@/server/notificationSystem';
+import { db } from '@/server/db';
+import { heldNotifications, notifications, userNotificationPreferences } from '@/shared/schema';
+
+const alice = 'test-notify-alice';
+const bob = 'test-notify-bob';
+const testUsers = [alice, bob];
+
+function payload(overrides: Partial<NotificationPayload> = {}): NotificationPayload {
+  return {
+    userId: alice,
+    challengeId: '',
+    event: NotificationEvent.BONUS_ACTIVATED,
+    title: 'Bonus live',
+    body: 'A bonus is running on a challenge you follow',
+    channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+    priority: NotificationPriority.MEDIUM,
+    ...overrides,
+  };
+}
+
+async function feedOf(userId: string) {
+  return db.select().from(notifications).where(eq(notifications.userId, userId));
+}
+
+async function heldFor(userId: string) {
+  return db.select().from(heldNotifications).where(eq(heldNotifications.userId, userId));
+}
+
+async function clear() {
+  await db.delete(notifications).where(inArray(notifications.userId, testUsers));
+  await db.delete(heldNotifications).where(inArray(heldNotifications.userId, testUsers));
+  await db.delete(userNotificationPreferences).where(inArray(userNotificationPreferences.userId, testUsers));
+}
+
+describe('FOSMNotificationService', () => {
+  let service: FOSMNotificationService;
+
+  beforeEach(async () => {
+    // A fresh instance so admin mutes never leak between tests
+    service = new FOSMNotificationService();
+    await clear();
+  });
+
+  afterAll(clear);
+
+  describe('Preferences', () => {
+    it('should fall back to defaults and only change the fields provided', async () => {
+      expect(await service.getUserPreferences(alice)).toEqual(DEFAULT_PREFERENCES);
+
+      await service.updateUserPreferences(alice, { userId: alice, enablePushNotifications: false });
+      await service.updateUserPreferences(alice, { userId: alice, mutedChallenges: [42 as any] });
+
+      expect(await service.getUserPreferences(alice)).toEqual({
+        ...DEFAULT_PREFERENCES,
+        enablePushNotifications: false,
+        mutedChallenges: ['42'],
+      });
+    });
+
+    it('should skip muted challenges and muted actors', async () => {
+      await service.updateUserPreferences(alice, { userId: alice, mutedChallenges: ['7'], mutedUsers: [bob] });
+
+      expect(await service.send(payload({ challengeId: '7' }))).toBe(false);
+      expect(await service.send(payload({ actorId: bob }))).toBe(false);
+      expect(await feedOf(alice)).toHaveLength(0);
+
+      expect(await service.send(payload({ challengeId: '8' }))).toBe(true);
+      expect(await feedOf(alice)).toHaveLength(1);
+    });
+
+    it('should not write to the feed when in-app is switched off', async () => {
+      await service.updateUserPreferences(alice, { userId: alice, enableInAppNotifications: false });
+
+      // Push is still on, so the send goes out without a feed entry
+      expect(await service.send(payload())).toBe(true);
+      expect(await feedOf(alice)).toHaveLength(0);
+
+      await service.updateUserPreferences(alice, { userId: alice, enablePushNotifications: false });
+      expect(await service.send(payload())).toBe(false);
+    });
+  });
+
+  describe('Delivery mode', () => {
+    it('should hold non-urgent sends for digest users', async () => {
+      await service.updateUserPreferences(alice, { userId: alice, notificationFrequency: 'digest' });
+
+      expect(await service.send(payload({ challengeId: '12' }))).toBe(true);
+
+      expect(await feedOf(alice)).toHaveLength(0);
+      const held = await heldFor(alice);
+      expect(held).toHaveLength(1);
+      expect(held[0]).toMatchObject({ event: NotificationEvent.BONUS_ACTIVATED, challengeId: '12' });
+    });
+
+    it('should deliver high priority and critical events immediately', async () => {
+      await service.updateUserPreferences(alice, { userId: alice, notificationFrequency: 'batched' });
+
+      await service.send(payload({ priority: NotificationPriority.HIGH }));
+      await service.send(payload({ event: NotificationEvent.MATCH_FOUND, priority: NotificationPriority.LOW }));
+
+      expect(await heldFor(alice)).toHaveLength(0);
+      expect((await feedOf(alice)).map((n) => n.type).sort()).toEqual(
+        [NotificationEvent.BONUS_ACTIVATED, NotificationEvent.MATCH_FOUND].sort()
+      );
+    });
+  });
+
+  describe('Rate limits', () => {
+    it('should throttle after five sends a minute except for critical events', async () => {
+      for (let i = 0; i < 5; i++) {
+        expect(await service.send(payload({ title: `Bonus ${i}` }))).toBe(true);
+      }
+
+      expect(await service.send(payload({ title: 'Bonus 5' }))).toBe(false);
+      expect(await service.send(payload({ event: NotificationEvent.MATCH_FOUND }))).toBe(true);
+      expect(await service.send(payload({ event: NotificationEvent.DISPUTE_RESOLVED }))).toBe(true);
+      expect(await feedOf(alice)).toHaveLength(7);
+    });
+
+    it('should apply the per-challenge cooldown', async () => {
+      expect(await service.send(payload({ challengeId: '21' }))).toBe(true);
+      expect(await service.send(payload({ challengeId: '21' }))).toBe(false);
+      expect(await service.send(payload({ challengeId: '22' }))).toBe(true);
+    });
+  });
+
+  describe('Admin controls', () => {
+    it('should drop muted events until they are unmuted', async () => {
+      service.muteEvent(NotificationEvent.BONUS_ACTIVATED, 30);
+
+      expect(service.getMutedEvents().map((m) => m.event)).toEqual([NotificationEvent.BONUS_ACTIVATED]);
+      expect(await service.send(payload())).toBe(false);
+      expect(await feedOf(alice)).toHaveLength(0);
+
+      service.unmuteEvent(NotificationEvent.BONUS_ACTIVATED);
+      expect(service.getMutedEvents()).toEqual([]);
+      expect(await service.send(payload())).toBe(true);
+    });
+
+    it('should let mutes lapse on their own', async () => {
+      service.muteEvent(NotificationEvent.BONUS_ACTIVATED, -1);
+
+      expect(service.getMutedEvents()).toEqual([]);
+      expect(await service.send(payload())).toBe(true);
+    });
+
+    it('should deliver broadcasts to throttled and digest users', async () => {
+      await service.updateUserPreferences(bob, { userId: bob, notificationFrequency: 'digest' });
+      for (let i = 0; i < 5; i++) {
+        await service.send(payload({ title: `Bonus ${i}` }));
+      }
+
+      const broadcast = { event: NotificationEvent.ADMIN_BROADCAST, title: 'Maintenance', priority: NotificationPriority.LOW };
+      expect(await service.send(payload({ ...broadcast, userId: alice }))).toBe(true);
+      expect(await service.send(payload({ ...broadcast, userId: bob }))).toBe(true);
+
+      expect((await feedOf(bob)).map((n) => n.type)).toEqual([NotificationEvent.ADMIN_BROADCAST]);
+      expect(await heldFor(bob)).toHaveLength(0);
+      expect((await feedOf(alice)).filter((n) => n.type === NotificationEvent.ADMIN_BROADCAST)).toHaveLength(1);
+    });
+
+    it('should still honour a mute on broadcasts', async () => {
+      service.muteEvent(NotificationEvent.ADMIN_BROADCAST, 5);
+      expect(await service.send(payload({ event: NotificationEvent.ADMIN_BROADCAST }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * OPTIMISTIC RESOLUTION TEST SUITE
+ *
+ * Verifies:
+ * - ChallengeFactory proposals decode only while PROPOSED or DISPUTED
+ * - P2P proposals carry a winner, group proposals an outcome
+ * - A posted dispute exposes the disputer and bond
+ * - getChallenge data encoded with the compiled contract ABI decodes with the
+ *   server's ABI (status, stake and points land in the right fields)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { parseResolutionProposal } from '@/server/blockchain/optimisticResolution';
+import { CHALLENGE_FACTORY_ABI } from '@/server/blockchain/client';
+
+const WINNER = '0x00000000000000000000000000000000000000A1';
+const DISPUTER = '0x00000000000000000000000000000000000000B0';
+const DEADLINE = 1_800_000_000;
+
+// ChallengeFactory.ChallengeStatus / ChallengeType
+const RESOLVED = 2;
+const PROPOSED = 5;
+const DISPUTED = 6;
+const GROUP = 0;
+const P2P = 1;
+
+const proposal = (overrides: Partial<Parameters<typeof parseResolutionProposal>[0]> = {}) => ({
+  winner: WINNER,
+  outcome: BigInt(0),
+  pointsAwarded: BigInt(50),
+  disputeDeadline: BigInt(DEADLINE),
+  disputer: ethers.ZeroAddress,
+  bond: BigInt(0),
+  ...overrides,
+});
+
+describe('parseResolutionProposal', () => {
+  it('should decode a proposed P2P winner', () => {
+    expect(parseResolutionProposal(proposal(), { status: PROPOSED, challengeType: P2P })).toEqual({
+      status: 'proposed',
+      challengeType: 'P2P',
+      winner: WINNER,
+      outcome: null,
+      pointsAwarded: 50,
+      disputeDeadline: new Date(DEADLINE * 1000),
+      disputer: null,
+      bond: '0',
+    });
+  });
+
+  it('should decode a disputed group outcome with its bond', () => {
+    const parsed = parseResolutionProposal(
+      proposal({ winner: ethers.ZeroAddress, outcome: BigInt(3), disputer: DISPUTER, bond: BigInt(10_000_000) }),
+      { status: BigInt(DISPUTED), challengeType: BigInt(GROUP) }
+    );
+
+    expect(parsed).toMatchObject({
+      status: 'disputed',
+      challengeType: 'GROUP',
+      winner: null,
+      outcome: 'DRAW',
+      disputer: DISPUTER,
+      bond: '10000000',
+    });
+  });
+
+  it('should ignore proposals once the challenge has settled', () => {
+    expect(parseResolutionProposal(proposal(), { status: RESOLVED, challengeType: P2P })).toBeNull();
+  });
+});
+
+describe('parseResolutionProposal with ABI-encoded contract data', () => {
+  // Encode with the compiled ChallengeFactory ABI, decode with the server's
+  const artifact = JSON.parse(
+    fs.readFileSync(path.resolve(process.cwd(), 'contracts/artifacts/ChallengeFactory.sol/ChallengeFactory.json'), 'utf8')
+  );
+  const contractInterface = new ethers.Interface(artifact.abi);
+  const serverInterface = new ethers.Interface(CHALLENGE_FACTORY_ABI);
+
+  const onChainChallenge = (status: number) =>
+    serverInterface.decodeFunctionResult(
+      'getChallenge',
+      contractInterface.encodeFunctionResult('getChallenge', [
+        {
+          id: 7,
+          challengeType: P2P,
+          creator: WINNER,
+          participant: DISPUTER,
+          paymentToken: '0x00000000000000000000000000000000000000C0',
+          stakeAmount: 1_000_000,
+          pointsReward: 100,
+          status,
+          winner: ethers.ZeroAddress,
+          createdAt: DEADLINE - 3600,
+          resolvedAt: 0,
+          metadataURI: 'ipfs://challenge',
+        },
+      ])
+    )[0];
+
+  const onChainProposal = () =>
+    serverInterface.decodeFunctionResult(
+      'getResolutionProposal',
+      serverInterface.encodeFunctionResult('getResolutionProposal', [
+        [WINNER, 0, 50, DEADLINE, ethers.ZeroAddress, 0],
+      ])
+    )[0];
+
+  it('should read the status and stake from the real Challenge struct layout', () => {
+    const challenge = onChainChallenge(PROPOSED);
+
+    expect(Number(challenge.status)).toBe(PROPOSED);
+    expect(challenge.stakeAmount).toBe(BigInt(1_000_000));
+    expect(challenge.pointsReward).toBe(BigInt(100));
+    expect(challenge.paymentToken).toBe('0x00000000000000000000000000000000000000C0');
+  });
+
+  it('should decode a pending proposal from contract data', () => {
+    expect(parseResolutionProposal(onChainProposal(), onChainChallenge(PROPOSED))).toMatchObject({
+      status: 'proposed',
+      challengeType: 'P2P',
+      winner: WINNER,
+      pointsAwarded: 50,
+    });
+    expect(parseResolutionProposal(onChainProposal(), onChainChallenge(RESOLVED))).toBeNull();
+  });
+});
@@ -8,14 +8,33 @@
  * - No race conditions on concurrent joins
  * - Escrow locking on matches
  * - Notifications firing on matches
+ * - A failed match notification not failing the committed match
  * - Queue position accuracy
  */
 
-import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
 import { createPairingEngine } from '@/server/pairingEngine';
+import { notificationService } from '@/server/notificationSystem';
 import { db } from '@/server/db';
-import { challenges, pairQueue, escrow } from '@/shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { challenges, pairQueue, escrow, users, transactions } from '@/shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+
+const STARTING_COINS = 100000;
+
+// Joining holds the stake from users.coins, so every test user needs a funded row
+async function seedUsers(userIds: string[]) {
+  for (const id of userIds) {
+    await db
+      .insert(users)
+      .values({ id, email: `${id}@pairing.test`, password: 'test', coins: STARTING_COINS })
+      .onConflictDoUpdate({ target: users.id, set: { coins: STARTING_COINS } });
+  }
+}
+
+async function removeUsers(userIds: string[]) {
+  await db.delete(transactions).where(inArray(transactions.userId, userIds));
+  await db.delete(users).where(inArray(users.id, userIds));
+}
 
 describe('PairingEngine - Deterministic Challenge Matching', () => {
   let pairingEngine: ReturnType<typeof createPairingEngine>;
@@ -27,9 +46,18 @@ describe('PairingEngine - Deterministic Challenge Matching', () => {
     'user-004',
     'user-005',
   ];
+  const seededUsers = [
+    ...testUsers,
+    'temp-user-1',
+    'cancel-test-user',
+    'match-then-cancel-user',
+    'opponent-user',
+    'double-match-test',
+  ];
 
   beforeAll(async () => {
     pairingEngine = createPairingEngine(db);
+    await seedUsers(seededUsers);
 
     // Create a test challenge
     const [challenge] = await db
@@ -51,6 +79,7 @@ describe('PairingEngine - Deterministic Challenge Matching', () => {
     // Clean up test data
     await db.delete(pairQueue).where(eq(pairQueue.challengeId, testChallengeId));
     await db.delete(escrow).where(eq(escrow.challengeId, testChallengeId));
+    await removeUsers(seededUsers);
   });
 
   describe('Basic Queue Operations', () => {
@@ -254,6 +283,11 @@ describe('PairingEngine - Deterministic Challenge Matching', () => {
       // Cancel from queue
       const cancelResult = await pairingEngine.cancelFromQueue(userId, testChallengeId);
       expect(cancelResult.success).toBe(true);
+      expect(cancelResult.refundedAmount).toBe(1000);
+
+      // Held stake is back in full
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      expect(user.coins).toBe(STARTING_COINS);
     });
 
     it('should NOT cancel if already matched', async () => {
@@ -366,6 +400,55 @@ describe('PairingEngine - Deterministic Challenge Matching', () => {
   });
 });
 
+describe('PairingEngine - Match Notifications', () => {
+  let pairingEngine: ReturnType<typeof createPairingEngine>;
+  let challengeId: number;
+  const notifyUsers = ['notify-yes-user', 'notify-no-user'];
+
+  beforeAll(async () => {
+    pairingEngine = createPairingEngine(db);
+    await seedUsers(notifyUsers);
+
+    const [challenge] = await db
+      .insert(challenges)
+      .values({
+        title: 'Notification Failure Challenge',
+        category: 'testing',
+        amount: 1000,
+        status: 'open',
+        adminCreated: true,
+      })
+      .returning();
+
+    challengeId = challenge.id;
+  });
+
+  afterAll(async () => {
+    await db.delete(pairQueue).where(eq(pairQueue.challengeId, challengeId));
+    await db.delete(escrow).where(eq(escrow.challengeId, challengeId));
+    await db.delete(challenges).where(eq(challenges.id, challengeId));
+    await removeUsers(notifyUsers);
+  });
+
+  it('should still report the match when notifying fails', async () => {
+    const send = jest.spyOn(notificationService, 'send').mockRejectedValue(new Error('push service down'));
+
+    try {
+      await pairingEngine.joinChallenge(notifyUsers[0], challengeId, 'YES', 1000);
+      const result = await pairingEngine.joinChallenge(notifyUsers[1], challengeId, 'NO', 1000);
+
+      expect(send).toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.match?.user1Id).toBe(notifyUsers[0]);
+
+      const held = await db.select().from(escrow).where(eq(escrow.challengeId, challengeId));
+      expect(held).toHaveLength(2);
+    } finally {
+      send.mockRestore();
+    }
+  });
+});
+
 /**
  * STRESS TEST: Concurrent Joins
  * Run manually with: npm test -- --testNamePattern="Stress Test"
@@ -373,9 +456,11 @@ describe('PairingEngine - Deterministic Challenge Matching', () => {
 describe('Stress Test - Concurrent Queue Joins', () => {
   let pairingEngine: ReturnType<typeof createPairingEngine>;
   let stressChallengeId: number;
+  const stressUsers = Array.from({ length: 20 }, (_, i) => `stress-user-${i}`);
 
   beforeAll(async () => {
     pairingEngine = createPairingEngine(db);
+    await seedUsers(stressUsers);
 
     const [challenge] = await db
       .insert(challenges)
@@ -392,11 +477,15 @@ describe('Stress Test - Concurrent Queue Joins', () => {
     stressChallengeId = challenge.id;
   });
 
-  it('should handle 20 concurrent joins without race conditions', async () => {
-    const users = Array.from({ length: 20 }, (_, i) => `stress-user-${i}`);
+  afterAll(async () => {
+    await db.delete(pairQueue).where(eq(pairQueue.challengeId, stressChallengeId));
+    await db.delete(escrow).where(eq(escrow.challengeId, stressChallengeId));
+    await removeUsers(stressUsers);
+  });
 
+  it('should handle 20 concurrent joins without race conditions', async () => {
     // Interleave YES and NO
-    const joinPromises = users.map((userId, i) => {
+    const joinPromises = stressUsers.map((userId, i) => {
       const side = i % 2 === 0 ? 'YES' : 'NO';
       const stake = 1000 + Math.random() * 200; // 1000-1200 range (within ±20%)
       return pairingEngine.joinChallenge(userId, stressChallengeId, side, Math.floor(stake));
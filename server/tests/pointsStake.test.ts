@@ -0,0 +1,87 @@
+/**
+ * POINTS STAKE LEDGER TEST SUITE
+ *
+ * Verifies:
+ * - Locked stakes stay in the balance but not in the available balance
+ * - Settling a stake removes it and credits the payout to the winner
+ * - Available points never go negative
+ * - 18-decimal amounts well past the bigint column range are kept exactly
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { inArray } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import {
+  availablePoints,
+  ensureUserPointsLedger,
+  getAvailablePointsBalance,
+  getUserPointsBalance,
+  updateUserPointsBalance,
+} from '@/server/blockchain/db-utils';
+import { db } from '@/server/db';
+import { pointsTransactions, userPointsLedgers } from '@/shared/schema-blockchain';
+
+const WINNER = 'points-stake-winner';
+const LOSER = 'points-stake-loser';
+const WHALE = 'points-stake-whale';
+
+describe('availablePoints', () => {
+  it('should subtract locked points and floor at zero', () => {
+    expect(availablePoints(BigInt(500), BigInt(200))).toBe(BigInt(300));
+    expect(availablePoints(100, 250)).toBe(BigInt(0));
+    expect(availablePoints(null, null)).toBe(BigInt(0));
+  });
+});
+
+describe('points stake ledger', () => {
+  beforeAll(async () => {
+    for (const userId of [WINNER, LOSER]) {
+      await ensureUserPointsLedger(userId);
+      await db.insert(pointsTransactions).values([
+        { userId, transactionType: 'earned_challenge', amount: '1000' },
+        { userId, challengeId: 1, transactionType: 'locked_escrow', amount: '100' },
+      ]);
+      await updateUserPointsBalance(userId);
+    }
+  });
+
+  afterAll(async () => {
+    await db.delete(pointsTransactions).where(inArray(pointsTransactions.userId, [WINNER, LOSER, WHALE]));
+    await db.delete(userPointsLedgers).where(inArray(userPointsLedgers.userId, [WINNER, LOSER, WHALE]));
+  });
+
+  it('should keep locked stakes out of the available balance', async () => {
+    expect(Number(await getUserPointsBalance(WINNER))).toBe(1000);
+    expect(Number(await getAvailablePointsBalance(WINNER))).toBe(900);
+  });
+
+  it('should move the pot to the winner on settlement', async () => {
+    await db.insert(pointsTransactions).values([
+      { userId: LOSER, challengeId: 1, transactionType: 'settled_escrow', amount: '100' },
+      { userId: WINNER, challengeId: 1, transactionType: 'settled_escrow', amount: '100' },
+      { userId: WINNER, challengeId: 1, transactionType: 'transferred_escrow', amount: '200' },
+    ]);
+    await updateUserPointsBalance(WINNER);
+    await updateUserPointsBalance(LOSER);
+
+    expect(Number(await getUserPointsBalance(WINNER))).toBe(1100);
+    expect(Number(await getAvailablePointsBalance(WINNER))).toBe(1100);
+    expect(Number(await getUserPointsBalance(LOSER))).toBe(900);
+    expect(Number(await getAvailablePointsBalance(LOSER))).toBe(900);
+  });
+
+  it('should keep 18-decimal amounts exact', async () => {
+    const earned = ethers.parseUnits('50000', 18);
+    const locked = ethers.parseUnits('12.5', 18);
+
+    await ensureUserPointsLedger(WHALE);
+    await db.insert(pointsTransactions).values([
+      { userId: WHALE, transactionType: 'earned_challenge', amount: earned.toString() },
+      { userId: WHALE, challengeId: 1, transactionType: 'locked_escrow', amount: locked.toString() },
+    ]);
+    await updateUserPointsBalance(WHALE);
+
+    expect(await getUserPointsBalance(WHALE)).toBe(earned);
+    expect(await getAvailablePointsBalance(WHALE)).toBe(earned - locked);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * REALTIME HUB TEST SUITE
+ *
+ * Verifies the /ws room layer:
+ * - Only event:<id>, challenge:<id> and user:<id> rooms are accepted
+ * - Publishes reach the Pusher adapter on the channel/event names the
+ *   existing pusher-js listeners use
+ * - Upgrades without a session or token are refused
+ */
+
+import { describe, it, expect, afterAll } from '@jest/globals';
+import http from 'http';
+import { WebSocket } from 'ws';
+import { parseRoom, PusherAdapter, RealtimeHub, REALTIME_PATH } from '@/server/realtime';
+
+describe('parseRoom', () => {
+  it('should accept the three room kinds', () => {
+    expect(parseRoom('event:42')).toEqual({ kind: 'event', id: '42' });
+    expect(parseRoom('challenge:7')).toEqual({ kind: 'challenge', id: '7' });
+    expect(parseRoom('user:did:privy:abc123')).toEqual({ kind: 'user', id: 'did:privy:abc123' });
+  });
+
+  it('should reject anything else', () => {
+    expect(parseRoom('global')).toBeNull();
+    expect(parseRoom('event:abc')).toBeNull();
+    expect(parseRoom('challenge:0')).toBeNull();
+    expect(parseRoom('admin:1')).toBeNull();
+    expect(parseRoom(42)).toBeNull();
+  });
+});
+
+describe('PusherAdapter', () => {
+  it('should map rooms and chat events to the pusher-js names', async () => {
+    const triggered: unknown[][] = [];
+    const hub = new RealtimeHub([
+      new PusherAdapter({ trigger: async (...args: unknown[]) => { triggered.push(args); } } as any),
+    ]);
+
+    await hub.publish('event:5', 'event_message', { eventId: 5, messageId: 9 });
+    await hub.publish('event:5', 'message_reaction', { eventId: 5 });
+    await hub.publish('user:abc', 'notification', { title: 'Hi' });
+
+    expect(triggered).toEqual([
+      ['event-5', 'new-message', { eventId: 5, messageId: 9 }],
+      ['event-5', 'reaction-update', { eventId: 5 }],
+      ['user-abc', 'notification', { title: 'Hi' }],
+    ]);
+  });
+
+  it('should not let a failing adapter break publishing', async () => {
+    const hub = new RealtimeHub([
+      new PusherAdapter({ trigger: async () => { throw new Error('pusher down'); } } as any),
+    ]);
+
+    await expect(hub.publish('event:1', 'pool_update', {})).resolves.toBeUndefined();
+  });
+});
+
+describe('RealtimeHub upgrades', () => {
+  const hub = new RealtimeHub();
+  const server = http.createServer();
+  hub.attach(server);
+
+  afterAll(() => {
+    hub.close();
+    server.close();
+  });
+
+  it('should refuse connections without a session or token', async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+
+    const error = await new Promise<Error>((resolve) => {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}${REALTIME_PATH}`);
+      ws.on('error', resolve);
+    });
+
+    expect(error.message).toContain('401');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * RELAYER TEST SUITE
+ *
+ * Verifies the typed data the browser signs for gasless requests:
+ * - ForwardRequest payloads are eth_signTypedData_v4-ready and match BantahForwarder
+ * - Signatures recover to the wallet and break when the nonce or calldata changes
+ * - Permit signatures recover against the token's domain
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  FORWARD_REQUEST_TYPES,
+  PERMIT_TYPES,
+  getForwarderDomain,
+  recoverForwardRequestSigner,
+  recoverPermitSigner,
+  toTypedDataPayload,
+} from '@/server/blockchain/relayer';
+
+const USER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const FORWARDER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const FACTORY = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TOKEN = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+const user = new ethers.Wallet(USER_KEY);
+
+const row = {
+  chainId: 84532,
+  walletAddress: user.address,
+  forwarderNonce: 3,
+  requestData: {
+    to: FACTORY,
+    value: '0',
+    gas: '500000',
+    deadline: 1900000000,
+    data: '0x7e5f0e2a0000000000000000000000000000000000000000000000000000000000000007',
+  },
+  permitData: {
+    token: TOKEN,
+    name: 'USD Coin',
+    version: '2',
+    spender: FACTORY,
+    value: '25000000',
+    nonce: '0',
+    deadline: 1900000000,
+  },
+};
+
+const forwardMessage = {
+  from: user.address,
+  ...row.requestData,
+  nonce: row.forwarderNonce,
+};
+
+describe('relayer typed data', () => {
+  const domain = getForwarderDomain(row.chainId, FORWARDER);
+
+  it('should build a v4 payload for the forwarder domain', () => {
+    const payload = toTypedDataPayload(domain, FORWARD_REQUEST_TYPES, forwardMessage);
+
+    expect(payload.primaryType).toBe('ForwardRequest');
+    expect(payload.types.EIP712Domain.map((f) => f.name)).toEqual(['name', 'version', 'chainId', 'verifyingContract']);
+    expect(payload.domain).toMatchObject({ name: 'BantahForwarder', version: '1', chainId: 84532 });
+    expect(payload.message).toMatchObject({ from: user.address, nonce: '3', gas: '500000' });
+  });
+
+  it('should recover the wallet from a forward request signature', async () => {
+    const signature = await user.signTypedData(domain, FORWARD_REQUEST_TYPES, forwardMessage);
+    expect(recoverForwardRequestSigner(row, FORWARDER, signature)).toBe(user.address);
+  });
+
+  it('should not recover the wallet when the nonce or calldata changes', async () => {
+    const signature = await user.signTypedData(domain, FORWARD_REQUEST_TYPES, forwardMessage);
+
+    expect(recoverForwardRequestSigner({ ...row, forwarderNonce: 4 }, FORWARDER, signature)).not.toBe(user.address);
+    expect(
+      recoverForwardRequestSigner(
+        { ...row, requestData: { ...row.requestData, data: row.requestData.data.replace(/07$/, '08') } },
+        FORWARDER,
+        signature
+      )
+    ).not.toBe(user.address);
+  });
+
+  it('should recover the wallet from a permit signed against the token domain', async () => {
+    const signature = await user.signTypedData(
+      { name: 'USD Coin', version: '2', chainId: row.chainId, verifyingContract: TOKEN },
+      PERMIT_TYPES,
+      { owner: user.address, spender: FACTORY, value: '25000000', nonce: '0', deadline: 1900000000 }
+    );
+
+    expect(recoverPermitSigner(row, signature)).toBe(user.address);
+    expect(recoverPermitSigner({ ...row, permitData: { ...row.permitData, value: '26000000' } }, signature)).not.toBe(
+      user.address
+    );
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * TELEGRAM BOT TEST SUITE
+ *
+ * Runs the bot against a local fake Telegram Bot API server
+ * Verifies:
+ * - Command parsing (/cmd@BotName, challenge arguments)
+ * - /balance and the link prompt for unlinked users
+ * - /challenge holds the challenger's stake, /accept holds the opponent's
+ * - /decline refunds the challenger
+ * - Group members are tracked in group_members
+ * - Polling delivers updates to the command handlers
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type TelegramBot from 'node-telegram-bot-api';
+import { and, eq, inArray } from 'drizzle-orm';
+import { createTelegramBot, parseCommand, parseChallengeArgs, type BantahTelegramBot } from '@/server/telegramBot';
+import { db } from '@/server/db';
+import { challenges, escrow, groupMembers, groups, transactions, users } from '@/shared/schema';
+
+const STARTING_COINS = 1000;
+const GROUP_CHAT_ID = -100777;
+
+interface ApiCall {
+  method: string;
+  params: URLSearchParams;
+}
+
+const linkedUsers = [
+  { id: 'tg-test-alice', telegramId: '9001', telegramUsername: 'alice_tg' },
+  { id: 'tg-test-bob', telegramId: '9002', telegramUsername: 'bob_tg' },
+];
+
+function groupMessage(fromId: number, username: string, text: string, extra: Partial<TelegramBot.Message> = {}): TelegramBot.Update {
+  return {
+    update_id: Date.now(),
+    message: {
+      message_id: Math.floor(Math.random() * 100000),
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: GROUP_CHAT_ID, type: 'group', title: 'Bantah Test Group' },
+      from: { id: fromId, is_bot: false, first_name: username, username },
+      text,
+      ...extra,
+    },
+  };
+}
+
+describe('Telegram command parsing', () => {
+  it('should parse commands addressed to this bot only', () => {
+    expect(parseCommand('/balance')).toEqual({ command: 'balance', args: '' });
+    expect(parseCommand('/accept@bantah_bot 12', 'bantah_bot')).toEqual({ command: 'accept', args: '12' });
+    expect(parseCommand('/accept@other_bot 12', 'bantah_bot')).toBeNull();
+    expect(parseCommand('hello there')).toBeNull();
+  });
+
+  it('should parse /challenge arguments', () => {
+    expect(parseChallengeArgs('@bob_tg 50 Arsenal beat Spurs')).toEqual({
+      username: 'bob_tg',
+      amount: 50,
+      title: 'Arsenal beat Spurs',
+    });
+    expect(parseChallengeArgs('@bob_tg 0 Nope')).toHaveProperty('error');
+    expect(parseChallengeArgs('@bob_tg lots Nope')).toHaveProperty('error');
+  });
+});
+
+describe('BantahTelegramBot - against a fake Telegram API', () => {
+  let server: http.Server;
+  let bot: BantahTelegramBot;
+  let calls: ApiCall[] = [];
+  let pendingUpdates: TelegramBot.Update[] = [];
+
+  const sentTexts = () => calls.filter((c) => c.method === 'sendMessage').map((c) => c.params.get('text') || '');
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const method = (req.url || '').split('/').pop() || '';
+        const params = new URLSearchParams(body);
+        calls.push({ method, params });
+
+        let result: any = true;
+        if (method === 'getMe') {
+          result = { id: 1, is_bot: true, first_name: 'Bantah', username: 'bantah_test_bot' };
+        } else if (method === 'getUpdates') {
+          result = pendingUpdates;
+          pendingUpdates = [];
+        } else if (method === 'sendMessage') {
+          result = { message_id: 1, date: 0, chat: { id: Number(params.get('chat_id')), type: 'group' } };
+        }
+
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ ok: true, result }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const baseApiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    bot = createTelegramBot({ token: 'TEST:TOKEN', baseApiUrl })!;
+
+    for (const user of linkedUsers) {
+      await db
+        .insert(users)
+        .values({ ...user, email: `${user.id}@telegram.test`, password: 'test', coins: STARTING_COINS, isTelegramUser: true })
+        .onConflictDoUpdate({ target: users.id, set: { coins: STARTING_COINS } });
+    }
+  });
+
+  afterAll(async () => {
+    const ids = linkedUsers.map((u) => u.id);
+    const created = await db.select({ id: challenges.id }).from(challenges).where(inArray(challenges.challenger, ids));
+    if (created.length) {
+      await db.delete(escrow).where(inArray(escrow.challengeId, created.map((c) => c.id)));
+      await db.delete(challenges).where(inArray(challenges.id, created.map((c) => c.id)));
+    }
+    const [group] = await db.select().from(groups).where(eq(groups.telegramId, String(GROUP_CHAT_ID)));
+    if (group) {
+      await db.delete(groupMembers).where(eq(groupMembers.groupId, group.id));
+      await db.delete(groups).where(eq(groups.id, group.id));
+    }
+    await db.delete(transactions).where(inArray(transactions.userId, ids));
+    await db.delete(users).where(inArray(users.id, ids));
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  async function coinsOf(userId: string) {
+    const [user] = await db.select({ coins: users.coins }).from(users).where(eq(users.id, userId));
+    return user.coins;
+  }
+
+  it('should reply with the balance of a linked user', async () => {
+    await bot.handleUpdate(groupMessage(9001, 'alice_tg', '/balance'));
+    expect(sentTexts()[0]).toContain(`${STARTING_COINS} coins`);
+  });
+
+  it('should ask unlinked users to link their account', async () => {
+    await bot.handleUpdate(groupMessage(123456, 'stranger', '/balance'));
+    expect(sentTexts()[0]).toContain('Link your Telegram account');
+  });
+
+  it('should hold both stakes on /challenge and /accept', async () => {
+    await bot.handleUpdate(groupMessage(9001, 'alice_tg', '/challenge @bob_tg 100 Bob finishes the marathon'));
+    expect(await coinsOf('tg-test-alice')).toBe(STARTING_COINS - 100);
+
+    const offer = calls.find((c) => c.method === 'sendMessage');
+    expect(offer!.params.get('reply_markup')).toContain('accept:');
+
+    const [challenge] = await db
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.challenger, 'tg-test-alice'), eq(challenges.status, 'pending')));
+    expect(challenge.challenged).toBe('tg-test-bob');
+    expect(challenge.amount).toBe(100);
+
+    // Alice can't accept her own challenge
+    await bot.handleUpdate(groupMessage(9001, 'alice_tg', `/accept ${challenge.id}`));
+    expect(sentTexts().pop()).toContain("wasn't sent to you");
+
+    await bot.handleUpdate(groupMessage(9002, 'bob_tg', '/accept'));
+    expect(await coinsOf('tg-test-bob')).toBe(STARTING_COINS - 100);
+
+    const [accepted] = await db.select().from(challenges).where(eq(challenges.id, challenge.id));
+    expect(accepted.status).toBe('active');
+
+    const held = await db.select().from(escrow).where(eq(escrow.challengeId, challenge.id));
+    expect(held).toHaveLength(2);
+  });
+
+  it('should refund the challenger on /decline', async () => {
+    const before = await coinsOf('tg-test-alice');
+    await bot.handleUpdate(groupMessage(9001, 'alice_tg', '/challenge @bob_tg 50 Rematch'));
+    expect(await coinsOf('tg-test-alice')).toBe(before - 50);
+
+    await bot.handleUpdate(groupMessage(9002, 'bob_tg', '/decline'));
+    expect(await coinsOf('tg-test-alice')).toBe(before);
+    expect(sentTexts().pop()).toContain('declined');
+  });
+
+  it('should reject a challenge the challenger cannot afford', async () => {
+    await bot.handleUpdate(groupMessage(9001, 'alice_tg', '/challenge @bob_tg 999999 Too rich'));
+    expect(sentTexts().pop()).toContain('Insufficient coins');
+  });
+
+  it('should track linked group members, including leaving', async () => {
+    const [group] = await db.select().from(groups).where(eq(groups.telegramId, String(GROUP_CHAT_ID)));
+    expect(group.title).toBe('Bantah Test Group');
+
+    const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, group.id));
+    expect(members.map((m) => m.userId).sort()).toEqual(['tg-test-alice', 'tg-test-bob']);
+
+    await bot.handleUpdate(
+      groupMessage(9001, 'alice_tg', '', {
+        text: undefined,
+        left_chat_member: { id: 9002, is_bot: false, first_name: 'bob_tg' },
+      })
+    );
+
+    const [bob] = await db
+      .select()
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, group.id), eq(groupMembers.userId, 'tg-test-bob')));
+    expect(bob.leftAt).not.toBeNull();
+  });
+
+  it('should handle updates delivered by polling', async () => {
+    pendingUpdates = [groupMessage(9002, 'bob_tg', '/help@bantah_test_bot')];
+    await bot.startPolling();
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await bot.stopPolling();
+
+    expect(calls.some((c) => c.method === 'getUpdates')).toBe(true);
+    expect(sentTexts().some((text) => text.includes('/challenge @user amount title'))).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * TELEGRAM LINKING TEST SUITE
+ *
+ * Verifies:
+ * - WebApp initData HMAC verification (valid, tampered, wrong token, stale)
+ * - One-time link tokens bind users.telegramId / telegramUsername
+ * - Tokens cannot be reused
+ * - One Telegram account cannot be linked to two Bantah users
+ * - Unlinking clears the link
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import crypto from 'crypto';
+import { eq, inArray } from 'drizzle-orm';
+import { telegramLinkService, verifyWebAppInitData, TelegramLinkError } from '@/server/telegramLink';
+import { db } from '@/server/db';
+import { telegramLinkTokens, users } from '@/shared/schema';
+
+const BOT_TOKEN = '123456:TEST-TOKEN';
+
+function signInitData(fields: Record<string, string>, botToken = BOT_TOKEN): string {
+  const dataCheckString = Object.keys(fields)
+    .sort()
+    .map((key) => `${key}=${fields[key]}`)
+    .join('\n');
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const hash = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest('hex');
+  return new URLSearchParams({ ...fields, hash }).toString();
+}
+
+describe('verifyWebAppInitData', () => {
+  const fields = {
+    auth_date: String(Math.floor(Date.now() / 1000)),
+    query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+    user: JSON.stringify({ id: 777001, first_name: 'Ada', username: 'ada_tg' }),
+  };
+
+  it('should accept correctly signed data', () => {
+    const verified = verifyWebAppInitData(signInitData(fields), BOT_TOKEN);
+    expect(verified?.user.id).toBe(777001);
+    expect(verified?.user.username).toBe('ada_tg');
+    expect(verified?.queryId).toBe(fields.query_id);
+  });
+
+  it('should reject data signed with another bot token', () => {
+    expect(verifyWebAppInitData(signInitData(fields, '999:OTHER'), BOT_TOKEN)).toBeNull();
+  });
+
+  it('should reject tampered data', () => {
+    const tampered = signInitData(fields).replace('ada_tg', 'eve_tg');
+    expect(verifyWebAppInitData(tampered, BOT_TOKEN)).toBeNull();
+  });
+
+  it('should reject stale data', () => {
+    const old = { ...fields, auth_date: String(Math.floor(Date.now() / 1000) - 2 * 24 * 60 * 60) };
+    expect(verifyWebAppInitData(signInitData(old), BOT_TOKEN)).toBeNull();
+  });
+
+  it('should reject data without a hash', () => {
+    expect(verifyWebAppInitData(new URLSearchParams(fields).toString(), BOT_TOKEN)).toBeNull();
+  });
+});
+
+describe('TelegramLinkService - one-time link tokens', () => {
+  const userIds = ['tg-link-user-a', 'tg-link-user-b'];
+  const telegramId = '55500011';
+
+  beforeAll(async () => {
+    for (const id of userIds) {
+      await db
+        .insert(users)
+        .values({ id, email: `${id}@link.test`, password: 'test' })
+        .onConflictDoUpdate({ target: users.id, set: { telegramId: null, telegramUsername: null } });
+    }
+  });
+
+  afterAll(async () => {
+    await db.delete(telegramLinkTokens).where(eq(telegramLinkTokens.telegramId, telegramId));
+    await db.delete(users).where(inArray(users.id, userIds));
+  });
+
+  it('should link the Telegram account behind a token', async () => {
+    const token = await telegramLinkService.createLinkToken({ telegramId, telegramUsername: 'linker' }, telegramId);
+    const result = await telegramLinkService.consumeLinkToken(token, 'tg-link-user-a');
+
+    expect(result.telegramId).toBe(telegramId);
+    expect(result.chatId).toBe(telegramId);
+
+    const status = await telegramLinkService.getLinkStatus('tg-link-user-a');
+    expect(status).toEqual({ linked: true, telegramId, telegramUsername: 'linker' });
+  });
+
+  it('should not accept a token twice', async () => {
+    const token = await telegramLinkService.createLinkToken({ telegramId: '55500099' });
+    await telegramLinkService.consumeLinkToken(token, 'tg-link-user-b');
+
+    await expect(telegramLinkService.consumeLinkToken(token, 'tg-link-user-b')).rejects.toThrow('already been used');
+
+    await telegramLinkService.unlink('tg-link-user-b');
+    await db.delete(telegramLinkTokens).where(eq(telegramLinkTokens.telegramId, '55500099'));
+  });
+
+  it('should block linking one Telegram account to a second user', async () => {
+    const token = await telegramLinkService.createLinkToken({ telegramId, telegramUsername: 'linker' });
+
+    await expect(telegramLinkService.consumeLinkToken(token, 'tg-link-user-b')).rejects.toBeInstanceOf(TelegramLinkError);
+    await expect(
+      telegramLinkService.linkVerifiedIdentity('tg-link-user-b', { telegramId })
+    ).rejects.toThrow('already linked to another Bantah account');
+
+    const status = await telegramLinkService.getLinkStatus('tg-link-user-b');
+    expect(status.linked).toBe(false);
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(telegramLinkService.consumeLinkToken('not-a-real-token', 'tg-link-user-a')).rejects.toThrow('Invalid link');
+  });
+
+  it('should unlink and free the Telegram account', async () => {
+    expect(await telegramLinkService.unlink('tg-link-user-a')).toBe(telegramId);
+    expect(await telegramLinkService.unlink('tg-link-user-a')).toBeNull();
+
+    const user = await telegramLinkService.linkVerifiedIdentity('tg-link-user-b', { telegramId });
+    expect(user.telegramId).toBe(telegramId);
+  });
+});
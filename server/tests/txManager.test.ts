@@ -0,0 +1,90 @@
+/**
+ * TRANSACTION MANAGER TEST SUITE
+ *
+ * Verifies:
+ * - Revert reasons decode from require() strings, panics and ChallengeFactory custom errors
+ * - Revert data is found in the shapes ethers/JSON-RPC errors carry it
+ * - Replacement fees clear the node's minimum bump and never undercut the network
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { bumpFees, decodeRevertReason, extractRevertData } from '@/server/blockchain/txManager';
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+describe('decodeRevertReason', () => {
+  it('should decode require() messages', () => {
+    const data = ethers.concat(['0x08c379a0', coder.encode(['string'], ['Invalid status'])]);
+    expect(decodeRevertReason(data)).toBe('Invalid status');
+  });
+
+  it('should decode panics', () => {
+    const data = ethers.concat(['0x4e487b71', coder.encode(['uint256'], [0x11])]);
+    expect(decodeRevertReason(data)).toBe('Panic(0x11)');
+  });
+
+  it('should decode custom errors from the ChallengeFactory ABI', () => {
+    const iface = new ethers.Interface([
+      'error OwnableUnauthorizedAccount(address account)',
+      'error ECDSAInvalidSignature()',
+    ]);
+    const account = '0x00000000000000000000000000000000000000A1';
+
+    expect(decodeRevertReason(iface.encodeErrorResult('OwnableUnauthorizedAccount', [account]))).toBe(
+      `OwnableUnauthorizedAccount(${account})`
+    );
+    expect(decodeRevertReason(iface.encodeErrorResult('ECDSAInvalidSignature', []))).toBe('ECDSAInvalidSignature()');
+  });
+
+  it('should fall back to the selector for unknown errors and ignore empty data', () => {
+    expect(decodeRevertReason('0xdeadbeef')).toBe('Unknown error 0xdeadbeef');
+    expect(decodeRevertReason('0x')).toBeNull();
+    expect(decodeRevertReason(null)).toBeNull();
+  });
+});
+
+describe('extractRevertData', () => {
+  it('should read revert data from ethers and nested RPC errors', () => {
+    expect(extractRevertData({ data: '0x08c379a0' })).toBe('0x08c379a0');
+    expect(extractRevertData({ info: { error: { data: '0x4e487b71' } } })).toBe('0x4e487b71');
+    expect(extractRevertData({ error: { data: { data: '0xdeadbeef' } } })).toBe('0xdeadbeef');
+    expect(extractRevertData({ message: 'timeout' })).toBeNull();
+  });
+});
+
+describe('bumpFees', () => {
+  it('should raise both fees by the bump percentage', () => {
+    const fees = bumpFees(
+      { maxFeePerGas: gwei('1'), maxPriorityFeePerGas: gwei('0.1') },
+      { maxFeePerGas: gwei('0.5'), maxPriorityFeePerGas: gwei('0.05') },
+      20
+    );
+
+    expect(fees.maxFeePerGas).toBe(gwei('1.2'));
+    expect(fees.maxPriorityFeePerGas).toBe(gwei('0.12'));
+  });
+
+  it('should round up so tiny fees still increase', () => {
+    const fees = bumpFees(
+      { maxFeePerGas: BigInt(7), maxPriorityFeePerGas: BigInt(1) },
+      { maxFeePerGas: BigInt(0), maxPriorityFeePerGas: BigInt(0) },
+      10
+    );
+
+    expect(fees.maxFeePerGas).toBe(BigInt(8));
+    expect(fees.maxPriorityFeePerGas).toBe(BigInt(2));
+  });
+
+  it('should follow the network when it has moved past the bump', () => {
+    const fees = bumpFees(
+      { maxFeePerGas: gwei('1'), maxPriorityFeePerGas: gwei('0.1') },
+      { maxFeePerGas: gwei('5'), maxPriorityFeePerGas: gwei('0.3') },
+      20
+    );
+
+    expect(fees.maxFeePerGas).toBe(gwei('5'));
+    expect(fees.maxPriorityFeePerGas).toBe(gwei('0.3'));
+  });
+});
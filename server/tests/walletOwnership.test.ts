@@ -0,0 +1,79 @@
+/**
+ * WALLET OWNERSHIP TEST SUITE
+ *
+ * Verifies the Sign-In with Ethereum (EIP-4361) proof used to link wallets:
+ * - Messages render in the EIP-4361 layout and parse back to the same fields
+ * - Anything that isn't a SIWE message is rejected
+ * - personal_sign signatures recover to the wallet named in the message
+ * - Unverified wallets are refused as payout destinations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  assertVerifiedPayoutWallet,
+  buildSiweMessage,
+  parseSiweMessage,
+  WalletOwnershipError,
+  WALLET_PROOF_STATEMENT,
+} from '@/server/blockchain/walletOwnership';
+
+const USER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const user = new ethers.Wallet(USER_KEY);
+
+const fields = {
+  domain: 'bantah.app',
+  address: user.address,
+  statement: WALLET_PROOF_STATEMENT,
+  uri: 'https://bantah.app',
+  version: '1',
+  chainId: 84532,
+  nonce: '8f3a1c2e9b7d4f60a1b2c3d4e5f60718',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:10:00.000Z',
+};
+
+describe('SIWE messages', () => {
+  it('should render the EIP-4361 layout', () => {
+    const message = buildSiweMessage(fields);
+    const lines = message.split('\n');
+
+    expect(lines[0]).toBe('bantah.app wants you to sign in with your Ethereum account:');
+    expect(lines[1]).toBe(user.address);
+    expect(lines[3]).toBe(WALLET_PROOF_STATEMENT);
+    expect(lines).toContain('Chain ID: 84532');
+    expect(lines).toContain(`Nonce: ${fields.nonce}`);
+    expect(lines[lines.length - 1]).toBe('Expiration Time: 2026-01-01T00:10:00.000Z');
+  });
+
+  it('should parse a rendered message back to its fields', () => {
+    expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+    expect(parseSiweMessage(buildSiweMessage({ ...fields, statement: undefined, expirationTime: undefined }))).toEqual({
+      ...fields,
+      statement: undefined,
+      expirationTime: undefined,
+    });
+  });
+
+  it('should reject messages that are not SIWE', () => {
+    expect(parseSiweMessage('Sign in to Bantah')).toBeNull();
+    expect(parseSiweMessage(buildSiweMessage({ ...fields, address: 'not-an-address' }))).toBeNull();
+    expect(parseSiweMessage(buildSiweMessage(fields).replace(/\nNonce: .*/, ''))).toBeNull();
+  });
+
+  it('should recover the wallet from a personal_sign signature', async () => {
+    const message = buildSiweMessage(fields);
+    const signature = await user.signMessage(message);
+
+    expect(ethers.verifyMessage(message, signature)).toBe(user.address);
+    expect(ethers.verifyMessage(message.replace('84532', '8453'), signature)).not.toBe(user.address);
+  });
+});
+
+describe('assertVerifiedPayoutWallet', () => {
+  it('should only accept verified wallets', () => {
+    expect(() => assertVerifiedPayoutWallet({ isVerified: true })).not.toThrow();
+    expect(() => assertVerifiedPayoutWallet({ isVerified: false })).toThrow(WalletOwnershipError);
+    expect(() => assertVerifiedPayoutWallet(null)).toThrow('Connect a wallet on this chain first');
+  });
+});
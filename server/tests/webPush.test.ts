@@ -0,0 +1,168 @@
+/**
+ * WEB PUSH TEST SUITE
+ *
+ * Delivers real VAPID-signed, encrypted pushes to a local stub push service
+ * Verifies:
+ * - Encrypted payload + VAPID headers reach the endpoint
+ * - Urgency / TTL options are forwarded
+ * - 404/410 responses are reported as expired subscriptions
+ * - Deep links point at the challenge page
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import webpush from 'web-push';
+import { WebPushService, getDeepLink, isValidSubscription } from '@/server/webPush';
+
+interface StubRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  bodyLength: number;
+}
+
+// Browser-side keys for a fake subscription
+function createSubscriptionKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  };
+}
+
+describe('WebPushService - delivery against a stub push service', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const received: StubRequest[] = [];
+
+  const vapidKeys = webpush.generateVAPIDKeys();
+  const service = new WebPushService({
+    subject: 'mailto:test@bantah.app',
+    publicKey: vapidKeys.publicKey,
+    privateKey: vapidKeys.privateKey,
+  });
+
+  const message = {
+    title: 'Match found!',
+    body: 'You have been matched',
+    type: 'match.found',
+    data: { url: getDeepLink(42), challengeId: '42' },
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({
+          path: req.url || '',
+          headers: req.headers,
+          bodyLength: Buffer.concat(chunks).length,
+        });
+
+        if (req.url?.startsWith('/gone')) {
+          res.writeHead(410).end('Subscription expired');
+        } else if (req.url?.startsWith('/missing')) {
+          res.writeHead(404).end('Not found');
+        } else if (req.url?.startsWith('/error')) {
+          res.writeHead(500).end('Server error');
+        } else {
+          res.writeHead(201).end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should deliver an encrypted, VAPID-signed payload', async () => {
+    const result = await service.sendToSubscription(
+      { endpoint: `${baseUrl}/ok/device-1`, keys: createSubscriptionKeys() },
+      message,
+      { urgency: 'high', ttl: 60 }
+    );
+
+    expect(result.delivered).toBe(true);
+    expect(result.expired).toBe(false);
+    expect(result.statusCode).toBe(201);
+
+    const request = received.find((r) => r.path === '/ok/device-1');
+    expect(request).toBeDefined();
+    expect(request!.headers['content-encoding']).toBe('aes128gcm');
+    expect(request!.headers['authorization']).toMatch(/^vapid t=.+, k=.+$/);
+    expect(request!.headers['urgency']).toBe('high');
+    expect(request!.headers['ttl']).toBe('60');
+    // Encrypted body must not leak the plaintext
+    expect(request!.bodyLength).toBeGreaterThan(0);
+  });
+
+  it('should flag 410 Gone as an expired subscription', async () => {
+    const result = await service.sendToSubscription(
+      { endpoint: `${baseUrl}/gone/device-2`, keys: createSubscriptionKeys() },
+      message
+    );
+
+    expect(result.delivered).toBe(false);
+    expect(result.expired).toBe(true);
+    expect(result.statusCode).toBe(410);
+  });
+
+  it('should flag 404 Not Found as an expired subscription', async () => {
+    const result = await service.sendToSubscription(
+      { endpoint: `${baseUrl}/missing/device-3`, keys: createSubscriptionKeys() },
+      message
+    );
+
+    expect(result.expired).toBe(true);
+  });
+
+  it('should NOT expire a subscription on a server error', async () => {
+    const result = await service.sendToSubscription(
+      { endpoint: `${baseUrl}/error/device-4`, keys: createSubscriptionKeys() },
+      message
+    );
+
+    expect(result.delivered).toBe(false);
+    expect(result.expired).toBe(false);
+    expect(result.statusCode).toBe(500);
+  });
+
+  it('should refuse to send when VAPID is not configured', async () => {
+    const disabled = new WebPushService(null);
+    const result = await disabled.sendToSubscription(
+      { endpoint: `${baseUrl}/ok/device-5`, keys: createSubscriptionKeys() },
+      message
+    );
+
+    expect(disabled.enabled).toBe(false);
+    expect(result.delivered).toBe(false);
+    expect(received.find((r) => r.path === '/ok/device-5')).toBeUndefined();
+  });
+});
+
+describe('Web push helpers', () => {
+  it('should deep-link into a routed challenges page', () => {
+    expect(getDeepLink(42)).toBe('/challenges?challenge=42');
+    expect(getDeepLink(null)).toBe('/');
+  });
+
+  it('should validate browser subscriptions', () => {
+    expect(isValidSubscription({ endpoint: 'https://push.example.com/abc', keys: { p256dh: 'a', auth: 'b' } })).toBe(true);
+    expect(isValidSubscription({ endpoint: 'not a url', keys: { p256dh: 'a', auth: 'b' } })).toBe(false);
+    expect(isValidSubscription({ endpoint: 'https://push.example.com/abc' })).toBe(false);
+  });
+
+  it('should refuse plain http endpoints unless allowed for tests', () => {
+    const internal = { endpoint: 'http://169.254.169.254/latest/meta-data', keys: { p256dh: 'a', auth: 'b' } };
+    expect(isValidSubscription(internal, false)).toBe(false);
+    expect(isValidSubscription({ ...internal, endpoint: 'ftp://push.example.com/abc' }, true)).toBe(false);
+    expect(isValidSubscription(internal, true)).toBe(true);
+  });
+});
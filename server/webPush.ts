@@ -0,0 +1,283 @@
+/**
+ * 📱 Web Push Delivery (VAPID)
+ * Sends encrypted push messages to browser subscriptions in `push_subscriptions`
+ *
+ * - Payloads are encrypted and VAPID-signed by `web-push`, then POSTed with
+ *   fetch, so the same path works against a local http stub endpoint
+ * - Subscriptions answering 404/410 are gone for good and are deleted
+ * - Sends can target specific devices (subscription ids) instead of all
+ */
+
+import webpush, { type PushSubscription as WebPushSubscription, type RequestOptions } from 'web-push';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { pushSubscriptions } from '../shared/schema';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  icon?: string;
+  badge?: string;
+  type?: string;               // Used as the notification tag by the service worker
+  data: {
+    url: string;               // Where a click on the notification should land
+    [key: string]: any;
+  };
+}
+
+export interface VapidConfig {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface PushDeliveryResult {
+  subscriptionId?: number;
+  endpoint: string;
+  statusCode: number;
+  delivered: boolean;
+  expired: boolean;            // 404/410: the endpoint no longer exists
+  error?: string;
+}
+
+export interface PushSendSummary {
+  sent: number;
+  failed: number;
+  removed: number;
+  results: PushDeliveryResult[];
+}
+
+export interface SubscriptionInput {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export const DEFAULT_PUSH_ICON = '/assets/bantahlogo.png';
+export const DEFAULT_PUSH_BADGE = '/assets/notification.svg';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * VAPID keys from the environment, or null when push is not configured
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:support@bantah.app',
+    publicKey,
+    privateKey,
+  };
+}
+
+/**
+ * Click-through URL for a notification: the challenges page (with the challenge
+ * id) when there is one. Only paths routed in client/src/App.tsx work here.
+ */
+export function getDeepLink(challengeId?: string | number | null, fallback = '/'): string {
+  return challengeId ? `/challenges?challenge=${encodeURIComponent(String(challengeId))}` : fallback;
+}
+
+/**
+ * Browser push services only use https endpoints; plain http would let a client
+ * point the server at internal URLs. WEB_PUSH_ALLOW_HTTP=true allows it for
+ * local test push services.
+ */
+export function isValidSubscription(
+  input: any,
+  allowHttp = process.env.WEB_PUSH_ALLOW_HTTP === 'true'
+): input is SubscriptionInput {
+  if (!input || typeof input.endpoint !== 'string' || !input.keys) {
+    return false;
+  }
+
+  try {
+    const url = new URL(input.endpoint);
+    if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) return false;
+  } catch {
+    return false;
+  }
+
+  return typeof input.keys.p256dh === 'string' && typeof input.keys.auth === 'string';
+}
+
+export class WebPushService {
+  constructor(private vapid: VapidConfig | null = getVapidConfig()) {
+    if (!vapid) {
+      console.warn('⚠️ VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY not set - web push disabled');
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.vapid;
+  }
+
+  get publicKey(): string | null {
+    return this.vapid?.publicKey ?? null;
+  }
+
+  /**
+   * Save (or re-assign) a browser subscription. Endpoints are unique per device.
+   */
+  async subscribe(userId: string, subscription: SubscriptionInput, userAgent?: string) {
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values({
+        userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        userAgent: userAgent || null,
+      })
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: {
+          userId,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          userAgent: userAgent || null,
+        },
+      })
+      .returning();
+
+    return saved;
+  }
+
+  /**
+   * Remove a user's subscription by endpoint or by device id
+   */
+  async unsubscribe(userId: string, target: { endpoint?: string; subscriptionId?: number }): Promise<boolean> {
+    const match = target.subscriptionId !== undefined
+      ? eq(pushSubscriptions.id, target.subscriptionId)
+      : eq(pushSubscriptions.endpoint, target.endpoint || '');
+
+    const removed = await db
+      .delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), match))
+      .returning({ id: pushSubscriptions.id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * Registered devices for a user (keys are never returned)
+   */
+  async listDevices(userId: string) {
+    return db
+      .select({
+        id: pushSubscriptions.id,
+        userAgent: pushSubscriptions.userAgent,
+        createdAt: pushSubscriptions.createdAt,
+      })
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId));
+  }
+
+  /**
+   * Push to every device of a user, or only to `subscriptionIds`
+   */
+  async sendToUser(
+    userId: string,
+    message: PushMessage,
+    options: { subscriptionIds?: number[]; urgency?: RequestOptions['urgency']; ttl?: number } = {}
+  ): Promise<PushSendSummary> {
+    const summary: PushSendSummary = { sent: 0, failed: 0, removed: 0, results: [] };
+
+    if (!this.vapid) {
+      return summary;
+    }
+
+    const conditions = [eq(pushSubscriptions.userId, userId)];
+    if (options.subscriptionIds?.length) {
+      conditions.push(inArray(pushSubscriptions.id, options.subscriptionIds));
+    }
+
+    const subscriptions = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(and(...conditions));
+
+    for (const sub of subscriptions) {
+      const result = await this.sendToSubscription(
+        { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+        message,
+        options
+      );
+      result.subscriptionId = sub.id;
+      summary.results.push(result);
+
+      if (result.delivered) {
+        summary.sent++;
+        continue;
+      }
+
+      summary.failed++;
+
+      if (result.expired) {
+        await db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, sub.id));
+        summary.removed++;
+        console.log(`🧹 Removed expired push subscription ${sub.id} for user ${userId}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Encrypt, sign and deliver one message to one subscription
+   */
+  async sendToSubscription(
+    subscription: WebPushSubscription,
+    message: PushMessage,
+    options: { urgency?: RequestOptions['urgency']; ttl?: number } = {}
+  ): Promise<PushDeliveryResult> {
+    if (!this.vapid) {
+      return {
+        endpoint: subscription.endpoint,
+        statusCode: 0,
+        delivered: false,
+        expired: false,
+        error: 'Web push is not configured',
+      };
+    }
+
+    try {
+      const request = webpush.generateRequestDetails(subscription, JSON.stringify(message), {
+        vapidDetails: this.vapid,
+        TTL: options.ttl ?? DEFAULT_TTL_SECONDS,
+        urgency: options.urgency ?? 'normal',
+      });
+
+      const response = await fetch(request.endpoint, {
+        method: request.method,
+        headers: request.headers as Record<string, string>,
+        body: request.body,
+      });
+
+      const expired = response.status === 404 || response.status === 410;
+
+      return {
+        endpoint: subscription.endpoint,
+        statusCode: response.status,
+        delivered: response.ok,
+        expired,
+        ...(!response.ok && { error: await response.text().catch(() => response.statusText) }),
+      };
+    } catch (error: any) {
+      console.error(`❌ Web push to ${subscription.endpoint} failed:`, error?.message || error);
+      return {
+        endpoint: subscription.endpoint,
+        statusCode: 0,
+        delivered: false,
+        expired: false,
+        error: error?.message || 'Push delivery failed',
+      };
+    }
+  }
+}
+
+export const webPushService = new WebPushService();
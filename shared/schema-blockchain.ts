@@ -18,6 +18,7 @@ import {
   uuid,
   serial,
   unique,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -69,10 +70,10 @@ export const userPointsLedgers = pgTable(
   {
     id: serial("id").primaryKey(),
     userId: varchar("user_id").notNull(),
-    pointsBalance: bigint("points_balance", { mode: "number" }).default(0),
-    totalPointsEarned: bigint("total_points_earned", { mode: "number" }).default(0),
-    totalPointsBurned: bigint("total_points_burned", { mode: "number" }).default(0),
-    pointsLockedInEscrow: bigint("points_locked_in_escrow", { mode: "number" }).default(0),
+    pointsBalance: decimal("points_balance", { precision: 78, scale: 0 }).default("0"),
+    totalPointsEarned: decimal("total_points_earned", { precision: 78, scale: 0 }).default("0"),
+    totalPointsBurned: decimal("total_points_burned", { precision: 78, scale: 0 }).default("0"),
+    pointsLockedInEscrow: decimal("points_locked_in_escrow", { precision: 78, scale: 0 }).default("0"),
     chainSyncedAt: timestamp("chain_synced_at"),
     lastUpdatedAt: timestamp("last_updated_at").defaultNow(),
     createdAt: timestamp("created_at").defaultNow(),
@@ -98,12 +99,12 @@ export const pointsTransactions = pgTable(
     userId: varchar("user_id").notNull(),
     challengeId: integer("challenge_id"),
     transactionType: varchar("transaction_type").notNull(),
-    // Types: earned_challenge, burned_usage, transferred_user, locked_escrow, released_escrow, transferred_escrow
-    amount: bigint("amount", { mode: "number" }).notNull(),
+    // Types: earned_challenge, burned_usage, transferred_user, locked_escrow, settled_escrow, released_escrow, transferred_escrow
+    amount: decimal("amount", { precision: 78, scale: 0 }).notNull(),
     reason: text("reason"), // Human-readable description
     blockchainTxHash: varchar("blockchain_tx_hash"), // On-chain transaction hash
     blockNumber: integer("block_number"),
-    chainId: integer("chain_id").default(84532), // Base Testnet Sepolia
+    chainId: integer("chain_id"), // Set for on-chain points; null for off-chain adjustments
     metadata: text("metadata"), // JSON additional data
     createdAt: timestamp("created_at").defaultNow(),
   },
@@ -127,7 +128,7 @@ export const blockchainTransactions = pgTable(
   "blockchain_transactions",
   {
     id: serial("id").primaryKey(),
-    chainId: integer("chain_id").notNull().default(84532),
+    chainId: integer("chain_id").notNull(),
     transactionHash: varchar("transaction_hash").notNull().unique(),
     blockNumber: integer("block_number"),
     transactionType: varchar("transaction_type").notNull(),
@@ -185,12 +186,12 @@ export const challengeEscrowRecords = pgTable(
     challengeId: integer("challenge_id").notNull(),
     userId: varchar("user_id").notNull(),
     tokenAddress: varchar("token_address").notNull(), // USDC or USDT
-    chainId: integer("chain_id").default(84532),
+    chainId: integer("chain_id"),
     
     // Escrow amounts
-    amountEscrowed: bigint("amount_escrowed", { mode: "number" }).notNull(),
-    amountReleased: bigint("amount_released", { mode: "number" }).default(0),
-    amountClaimed: bigint("amount_claimed", { mode: "number" }).default(0),
+    amountEscrowed: decimal("amount_escrowed", { precision: 78, scale: 0 }).notNull(),
+    amountReleased: decimal("amount_released", { precision: 78, scale: 0 }).default("0"),
+    amountClaimed: decimal("amount_claimed", { precision: 78, scale: 0 }).default("0"),
     
     // Status
     status: varchar("status").notNull(), // locked, released, claimed
@@ -306,13 +307,15 @@ export const userWalletAddresses = pgTable(
   {
     id: serial("id").primaryKey(),
     userId: varchar("user_id").notNull(),
-    chainId: integer("chain_id").notNull().default(84532),
+    chainId: integer("chain_id").notNull(),
     walletAddress: varchar("wallet_address").notNull(),
     walletType: varchar("wallet_type").notNull(), // privy, metamask, coinbase
     
-    // Wallet verification
+    // Wallet verification (SIWE ownership proof, see walletProofNonces)
     isVerified: boolean("is_verified").default(false),
     verificationTxHash: varchar("verification_tx_hash"),
+    verificationSignature: text("verification_signature"),
+    verifiedAt: timestamp("verified_at"),
     
     // Balances (cached)
     usdcBalance: bigint("usdc_balance", { mode: "number" }).default(0),
@@ -339,6 +342,171 @@ export const userWalletAddresses = pgTable(
 export type UserWalletAddress = typeof userWalletAddresses.$inferSelect;
 export type InsertUserWalletAddress = typeof userWalletAddresses.$inferInsert;
 
+/**
+ * Wallet Proof Nonces
+ * Server-issued EIP-4361 (Sign-In with Ethereum) messages; a wallet is only
+ * linked once its owner signs one before it expires. Each nonce is single-use.
+ */
+export const walletProofNonces = pgTable(
+  "wallet_proof_nonces",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull(),
+    chainId: integer("chain_id").notNull(),
+    walletAddress: varchar("wallet_address").notNull(),
+    nonce: varchar("nonce").notNull().unique(),
+    message: text("message").notNull(), // Exact text the wallet must sign
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_wallet_proof_nonces_user").on(table.userId, table.createdAt),
+  ]
+);
+
+export type WalletProofNonce = typeof walletProofNonces.$inferSelect;
+export type InsertWalletProofNonce = typeof walletProofNonces.$inferInsert;
+
+/**
+ * Chain Indexer Checkpoints
+ * Last block the indexer has fully processed, per chain and indexer
+ */
+export const chainIndexerCheckpoints = pgTable(
+  "chain_indexer_checkpoints",
+  {
+    id: serial("id").primaryKey(),
+    chainId: integer("chain_id").notNull(),
+    indexerName: varchar("indexer_name").notNull(), // e.g. "challenges"
+    lastProcessedBlock: integer("last_processed_block").notNull(),
+    lastProcessedHash: varchar("last_processed_hash"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("unique_chain_indexer_checkpoint").on(table.chainId, table.indexerName),
+  ]
+);
+
+export type ChainIndexerCheckpoint = typeof chainIndexerCheckpoints.$inferSelect;
+export type InsertChainIndexerCheckpoint = typeof chainIndexerCheckpoints.$inferInsert;
+
+/**
+ * Chain Indexer Blocks
+ * Hashes of recently indexed blocks, used to detect reorgs and find the common ancestor
+ */
+export const chainIndexerBlocks = pgTable(
+  "chain_indexer_blocks",
+  {
+    id: serial("id").primaryKey(),
+    chainId: integer("chain_id").notNull(),
+    indexerName: varchar("indexer_name").notNull(),
+    blockNumber: integer("block_number").notNull(),
+    blockHash: varchar("block_hash").notNull(),
+    indexedAt: timestamp("indexed_at").defaultNow(),
+  },
+  (table) => [
+    unique("unique_chain_indexer_block").on(table.chainId, table.indexerName, table.blockNumber),
+  ]
+);
+
+export type ChainIndexerBlock = typeof chainIndexerBlocks.$inferSelect;
+
+/**
+ * Relayer Requests
+ * Gasless joins, accepts and claims: the user signs an ERC-2771 ForwardRequest
+ * (plus an EIP-2612 permit when the factory needs an allowance) and the relayer
+ * wallet submits it. Tracks forwarder nonces per wallet and backs per-user rate limits.
+ */
+export const relayerRequests = pgTable(
+  "relayer_requests",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull(),
+    chainId: integer("chain_id").notNull(),
+    walletAddress: varchar("wallet_address").notNull(),
+    action: varchar("action").notNull(), // join_group, accept_p2p, claim
+    challengeId: integer("challenge_id"),
+
+    // Signed payloads
+    forwarderNonce: integer("forwarder_nonce").notNull(),
+    requestData: jsonb("request_data").notNull(), // ForwardRequest: to, value, gas, deadline, data
+    permitData: jsonb("permit_data"), // Permit: token, spender, value, nonce, deadline
+
+    // Status
+    status: varchar("status").notNull().default("prepared"), // prepared, submitted, confirmed, failed, expired
+    transactionHash: varchar("transaction_hash"),
+    permitTxHash: varchar("permit_tx_hash"),
+    gasUsed: bigint("gas_used", { mode: "number" }),
+    errorMessage: text("error_message"),
+
+    // Timestamps
+    expiresAt: timestamp("expires_at").notNull(),
+    submittedAt: timestamp("submitted_at"),
+    confirmedAt: timestamp("confirmed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_relayer_requests_user_created").on(table.userId, table.createdAt),
+    index("idx_relayer_requests_wallet_nonce").on(table.chainId, table.walletAddress, table.forwarderNonce),
+  ]
+);
+
+export type RelayerRequest = typeof relayerRequests.$inferSelect;
+export type InsertRelayerRequest = typeof relayerRequests.$inferInsert;
+
+// ============================================================================
+// OUTBOUND TRANSACTIONS (admin signer nonce manager)
+// ============================================================================
+
+export const outboundTransactions = pgTable(
+  "outbound_transactions",
+  {
+    id: serial("id").primaryKey(),
+    chainId: integer("chain_id").notNull(),
+    fromAddress: varchar("from_address").notNull(),
+    nonce: integer("nonce").notNull(),
+
+    // Call being sent (re-signed with higher fees on replacement)
+    toAddress: varchar("to_address").notNull(),
+    data: text("data").notNull(),
+    value: varchar("value").notNull().default("0"), // wei
+    gasLimit: bigint("gas_limit", { mode: "number" }).notNull(),
+    maxFeePerGas: bigint("max_fee_per_gas", { mode: "number" }).notNull(),
+    maxPriorityFeePerGas: bigint("max_priority_fee_per_gas", { mode: "number" }).notNull(),
+
+    // What it is for (mirrored into blockchain_transactions)
+    transactionType: varchar("transaction_type").notNull(),
+    contractName: varchar("contract_name"),
+    functionName: varchar("function_name"),
+    challengeId: integer("challenge_id"),
+
+    // Status
+    status: varchar("status").notNull().default("pending"), // pending, confirmed, failed
+    transactionHash: varchar("transaction_hash").notNull(), // latest broadcast
+    replacedHashes: jsonb("replaced_hashes").$type<string[]>().notNull().default([]),
+    attempts: integer("attempts").notNull().default(1),
+    confirmations: integer("confirmations").notNull().default(0),
+    blockNumber: integer("block_number"),
+    gasUsed: bigint("gas_used", { mode: "number" }),
+    revertReason: text("revert_reason"),
+    errorMessage: text("error_message"),
+
+    // Timestamps
+    lastSentAt: timestamp("last_sent_at").notNull().defaultNow(),
+    confirmedAt: timestamp("confirmed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("unique_outbound_tx_nonce").on(table.chainId, table.fromAddress, table.nonce),
+    index("idx_outbound_tx_status").on(table.chainId, table.status),
+    index("idx_outbound_tx_hash").on(table.transactionHash),
+  ]
+);
+
+export type OutboundTransaction = typeof outboundTransactions.$inferSelect;
+export type InsertOutboundTransaction = typeof outboundTransactions.$inferInsert;
+
 // ============================================================================
 // RELATIONS
 // ============================================================================
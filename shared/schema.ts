@@ -98,12 +98,14 @@ export const eventParticipants = pgTable("event_participants", {
   payout: integer("payout").default(0), // Winner payout amount in coins
   joinedAt: timestamp("joined_at").defaultNow(),
   payoutAt: timestamp("payout_at"),
-});
+}, (table) => ({
+  uniqueEventParticipant: unique().on(table.eventId, table.userId),
+}));
 
 // Event pool betting amounts
 export const eventPools = pgTable("event_pools", {
   id: serial("id").primaryKey(),
-  eventId: integer("event_id").notNull(),
+  eventId: integer("event_id").notNull().unique(),
   yesAmount: integer("yes_amount").default(0), // In coins
   noAmount: integer("no_amount").default(0), // In coins
   totalPool: integer("total_pool").default(0), // In coins
@@ -118,7 +120,7 @@ export const eventJoinRequests = pgTable("event_join_requests", {
   userId: varchar("user_id").notNull(),
   prediction: boolean("prediction").notNull(), // true for yes, false for no
   amount: integer("amount").notNull(), // In coins
-  status: varchar("status").default("pending"), // pending, approved, rejected
+  status: varchar("status").default("pending"), // pending, approved, rejected, expired
   requestedAt: timestamp("requested_at").defaultNow(),
   respondedAt: timestamp("responded_at"),
 });
@@ -131,6 +133,8 @@ export const eventMessages: any = pgTable("event_messages", {
   message: text("message").notNull(),
   replyToId: integer("reply_to_id").references((): any => eventMessages.id, { onDelete: "set null" }),
   mentions: json("mentions").$type<string[]>(),
+  moderationStatus: varchar("moderation_status").default("visible"), // visible, hidden, deleted
+  moderationReason: text("moderation_reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -151,14 +155,16 @@ export const eventTyping = pgTable("event_typing", {
   userId: varchar("user_id").notNull(),
   isTyping: boolean("is_typing").default(false),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  uniqueEventTypingUser: unique().on(table.eventId, table.userId),
+}));
 
 // Join/leave activity logs
 export const eventActivity = pgTable("event_activity", {
   id: serial("id").primaryKey(),
   eventId: integer("event_id").notNull(),
   userId: varchar("user_id").notNull(),
-  action: varchar("action").notNull(), // joined, left, bet_placed
+  action: varchar("action").notNull(), // joined, left, join_requested, bet_placed, settled
   data: jsonb("data"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -185,10 +191,11 @@ export const challenges = pgTable("challenges", {
   description: text("description"),
   category: varchar("category").notNull(),
   amount: integer("amount").notNull(), // Changed to coins
-  status: varchar("status").default("pending"), // pending, active, completed, disputed, cancelled, open
+  status: varchar("status").default("pending"), // pending, active, completed, disputed, cancelled, open, pending_admin
   evidence: jsonb("evidence"),
   result: varchar("result"), // challenger_won, challenged_won, draw
   dueDate: timestamp("due_date"),
+  startsAt: timestamp("starts_at"), // Optional kickoff time, drives "starting soon" reminders
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   // Admin challenge fields
@@ -208,6 +215,28 @@ export const challenges = pgTable("challenges", {
   firstTimeBonusEnabled: boolean("first_time_bonus_enabled").default(false),
   socialTagBonus: integer("social_tag_bonus").default(0), // Bonus for tagging friends
   isPinned: boolean("is_pinned").default(false), // Admin-only: pin challenge to top of feed
+  // On-chain settlement (columns from migrations/phase3-blockchain.sql)
+  blockchainChainId: integer("blockchain_chain_id"),
+  blockchainContractAddress: varchar("blockchain_contract_address"),
+  onChainChallengeId: integer("on_chain_challenge_id"), // ChallengeFactory id, set by the chain indexer
+  blockchainCreationTxHash: varchar("blockchain_creation_tx_hash").unique(),
+  blockchainResolutionTxHash: varchar("blockchain_resolution_tx_hash"),
+  blockchainPayoutTxHash: varchar("blockchain_payout_tx_hash"),
+  blockchainSettlementTxHash: varchar("blockchain_settlement_tx_hash"),
+  blockchainBlockNumber: integer("blockchain_block_number"),
+  blockchainSettlementBlockNumber: integer("blockchain_settlement_block_number"),
+  paymentTokenAddress: varchar("payment_token_address"),
+  stakeAmountWei: bigint("stake_amount_wei", { mode: "bigint" }),
+  pointsAwarded: integer("points_awarded").default(0),
+  pointsMultiplier: decimal("points_multiplier", { precision: 3, scale: 2 }).default("1.00"),
+  adminSignature: text("admin_signature"),
+  onChainStatus: varchar("on_chain_status").default("pending"), // pending, created, active, proposed, disputed, resolved, claimed, failed
+  onChainResolved: boolean("on_chain_resolved").default(false),
+  resolutionTimestamp: timestamp("resolution_timestamp"),
+  onChainMetadata: jsonb("on_chain_metadata"),
+  // Optimistic resolution: proposed winner/outcome, dispute bond and ruling (see ChallengeFactory.disputePeriod)
+  resolutionProposal: jsonb("resolution_proposal"),
+  disputeDeadline: timestamp("dispute_deadline"),
 });
 
 // Pairing queue for challenge matching (FCFS with stake tolerance)
@@ -217,12 +246,33 @@ export const pairQueue = pgTable("pair_queue", {
   userId: varchar("user_id").notNull(),
   side: varchar("side").notNull(), // "YES" or "NO"
   stakeAmount: integer("stake_amount").notNull(), // In coins
-  status: varchar("status").default("waiting"), // waiting, matched, cancelled
+  status: varchar("status").default("waiting"), // waiting, matched, cancelled, expired
   matchedWith: varchar("matched_with"), // User ID of matched opponent
   createdAt: timestamp("created_at").defaultNow(),
   matchedAt: timestamp("matched_at"),
 });
 
+// Users following a challenge for lifecycle reminders
+export const challengeFollowers = pgTable("challenge_followers", {
+  id: serial("id").primaryKey(),
+  challengeId: integer("challenge_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueChallengeFollower: unique().on(table.challengeId, table.userId),
+}));
+
+// Lifecycle reminders already sent, so each fires once per challenge
+export const challengeLifecycleEvents = pgTable("challenge_lifecycle_events", {
+  id: serial("id").primaryKey(),
+  challengeId: integer("challenge_id").notNull(),
+  marker: varchar("marker").notNull(), // e.g. challenge.ending_soon, imbalance.detected:NO
+  recipients: integer("recipients").default(0),
+  firedAt: timestamp("fired_at").defaultNow(),
+}, (table) => ({
+  uniqueChallengeMarker: unique().on(table.challengeId, table.marker),
+}));
+
 // Telegram groups where the bot is added
 export const groups = pgTable("groups", {
   id: serial("id").primaryKey(),
@@ -246,12 +296,65 @@ export const groupMembers = pgTable("group_members", {
   leftAt: timestamp("left_at"),
 });
 
+// One-time links issued by the bot (/start) to bind a Telegram account to a Bantah user
+export const telegramLinkTokens = pgTable("telegram_link_tokens", {
+  id: serial("id").primaryKey(),
+  token: varchar("token").notNull().unique(),
+  telegramId: varchar("telegram_id", { length: 64 }).notNull(),
+  telegramUsername: varchar("telegram_username", { length: 100 }),
+  chatId: varchar("chat_id", { length: 64 }), // Private chat to confirm the link in
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: varchar("used_by"), // Bantah user id that consumed the link
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Real-time chat in challenges
 export const challengeMessages = pgTable("challenge_messages", {
   id: serial("id").primaryKey(),
   challengeId: integer("challenge_id").notNull(),
   userId: varchar("user_id").notNull(),
   message: text("message").notNull(),
+  moderationStatus: varchar("moderation_status").default("visible"), // visible, hidden, deleted
+  moderationReason: text("moderation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Chat moderation: admin-managed word/regex filters for event and challenge chat
+export const chatFilters = pgTable("chat_filters", {
+  id: serial("id").primaryKey(),
+  pattern: text("pattern").notNull(),
+  isRegex: boolean("is_regex").default(false), // false: whole-word, case-insensitive match
+  action: varchar("action").default("hide"), // hide, reject
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Chat mutes and timeouts (timeouts have an expiry, mutes don't)
+export const chatMutes = pgTable("chat_mutes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  scope: varchar("scope").default("global"), // global, event, challenge
+  scopeId: integer("scope_id"), // Event or challenge id for scoped mutes
+  reason: text("reason"),
+  mutedBy: varchar("muted_by").notNull(),
+  expiresAt: timestamp("expires_at"),
+  liftedAt: timestamp("lifted_at"),
+  liftedBy: varchar("lifted_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail for automatic and admin chat moderation
+export const chatModerationLog = pgTable("chat_moderation_log", {
+  id: serial("id").primaryKey(),
+  chatType: varchar("chat_type"), // event, challenge; null for platform-wide actions
+  chatId: integer("chat_id"),
+  messageId: integer("message_id"),
+  userId: varchar("user_id"), // Author or user acted on
+  actorId: varchar("actor_id"), // Admin who acted; null for automatic moderation
+  action: varchar("action").notNull(), // hidden, rejected, deleted, restored, muted, unmuted, filter_added, filter_removed, chat_enabled, chat_disabled
+  reason: text("reason"),
+  details: jsonb("details"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -278,6 +381,16 @@ export const escrow = pgTable("escrow", {
   releasedAt: timestamp("released_at"),
 });
 
+// Audit trail for challenge disputes (raise, evidence, admin ruling)
+export const disputeAuditLog = pgTable("dispute_audit_log", {
+  id: serial("id").primaryKey(),
+  challengeId: integer("challenge_id").notNull(),
+  actorId: varchar("actor_id").notNull(), // User or admin who acted
+  action: varchar("action").notNull(), // raised, evidence_added, ruled
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Friend connections and requests
 export const friends = pgTable("friends", {
   id: serial("id").primaryKey(),
@@ -341,6 +454,19 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Non-urgent notifications held for users on batched/digest delivery
+export const heldNotifications = pgTable("held_notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  event: varchar("event").notNull(),
+  challengeId: varchar("challenge_id"),
+  title: text("title").notNull(),
+  body: text("body"),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"), // Set once rolled into a summary
+});
+
 // All financial transactions
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
@@ -541,6 +667,23 @@ export const insertChallengeSchema = createInsertSchema(challenges).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  // On-chain fields are written by the blockchain routes and the chain indexer only
+  blockchainChainId: true,
+  blockchainContractAddress: true,
+  onChainChallengeId: true,
+  blockchainCreationTxHash: true,
+  blockchainResolutionTxHash: true,
+  blockchainPayoutTxHash: true,
+  blockchainSettlementTxHash: true,
+  blockchainBlockNumber: true,
+  blockchainSettlementBlockNumber: true,
+  adminSignature: true,
+  onChainStatus: true,
+  onChainResolved: true,
+  resolutionTimestamp: true,
+  onChainMetadata: true,
+  resolutionProposal: true,
+  disputeDeadline: true,
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -595,7 +738,7 @@ export const insertPlatformSettingsSchema = createInsertSchema(platformSettings)
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull(),
-  endpoint: text("endpoint").notNull(),
+  endpoint: text("endpoint").notNull().unique(), // One row per browser/device
   p256dh: text("p256dh").notNull(),
   auth: text("auth").notNull(),
   userAgent: text("user_agent"),
@@ -737,8 +880,8 @@ export const payoutJobs = pgTable("payout_jobs", {
   challengeId: integer("challenge_id").notNull(),
   totalWinners: integer("total_winners").notNull(),
   processedWinners: integer("processed_winners").default(0),
-  totalPool: bigint("total_pool", { mode: "number" }).notNull(),
-  platformFee: bigint("platform_fee", { mode: "number" }).notNull(),
+  totalPool: decimal("total_pool", { precision: 78, scale: 0 }).notNull(),
+  platformFee: decimal("platform_fee", { precision: 78, scale: 0 }).notNull(),
   status: varchar("status").default("queued"), // queued, running, completed, failed
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
@@ -750,7 +893,7 @@ export const payoutEntries = pgTable("payout_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull().references(() => payoutJobs.id),
   userId: varchar("user_id").notNull(),
-  amount: bigint("amount", { mode: "number" }).notNull(),
+  amount: decimal("amount", { precision: 78, scale: 0 }).notNull(),
   status: varchar("status").default("pending"), // pending, completed, failed
   createdAt: timestamp("created_at").defaultNow(),
   processedAt: timestamp("processed_at"),
@@ -760,6 +903,14 @@ export type PayoutJob = typeof payoutJobs.$inferSelect;
 export type InsertPayoutJob = typeof payoutJobs.$inferInsert;
 export type PayoutEntry = typeof payoutEntries.$inferSelect;
 export type InsertPayoutEntry = typeof payoutEntries.$inferInsert;
+export type DisputeAuditEntry = typeof disputeAuditLog.$inferSelect;
+export type ChatFilter = typeof chatFilters.$inferSelect;
+export type ChatMute = typeof chatMutes.$inferSelect;
+export type ChatModerationEntry = typeof chatModerationLog.$inferSelect;
+export type HeldNotification = typeof heldNotifications.$inferSelect;
+export type ChallengeFollower = typeof challengeFollowers.$inferSelect;
+export type ChallengeLifecycleEvent = typeof challengeLifecycleEvents.$inferSelect;
+export type TelegramLinkToken = typeof telegramLinkTokens.$inferSelect;
 
 export type InsertEventRecommendation = z.infer<typeof insertEventRecommendationSchema>;
 export type InsertUserEventInteraction = z.infer<typeof insertUserEventInteractionSchema>;